@@ -0,0 +1,14 @@
+import { ValidationError } from '../domain/errors/ValidationErrors';
+import { defaultOptions, parseOptions } from '../options';
+
+describe('parseOptions', () => {
+	it('should parse each value as the type of its default', () => {
+		expect(parseOptions({ NR_OF_ELEVATORS: '3', USE_FREE_FIRST: 'FALSE', DISPATCH_MODE: 'destination', UNKNOWN: 'x' }, defaultOptions))
+			.toEqual({ ...defaultOptions, NR_OF_ELEVATORS: 3, USE_FREE_FIRST: false, DISPATCH_MODE: 'destination' });
+	});
+
+	it('should reject an unknown dispatch mode', () => {
+		expect(() => parseOptions({ DISPATCH_MODE: 'dest' }, defaultOptions)).toThrow(ValidationError);
+		expect(() => parseOptions({ DISPATCH_MODE: 'dest' }, defaultOptions)).toThrow(`Unknown dispatch mode 'dest', expected conventional or destination`);
+	});
+});
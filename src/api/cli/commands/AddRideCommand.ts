@@ -2,12 +2,14 @@ import { Command } from 'commander';
 import { Application } from '../../../app/app';
 import { BaseCommand } from './CommandBase';
 import { Logger } from '../../../infra/logger/Logger';
+import { CallDirection } from '../../../domain/route/Floors';
 
 /**
  * Command to add a ride request to the elevator service.
  * 
  * This command allows users to request an elevator pickup, optionally 
- * with a dropoff floor. The elevator service will automatically select 
+ * with a dropoff floor or the direction of the hall call button which 
+ * was pushed (`--direction up|down`). The elevator service will automatically select 
  * the best elevator to handle the request based on the configured strategy.
  */
 export class AddRideCommand extends BaseCommand {
@@ -23,6 +25,7 @@ export class AddRideCommand extends BaseCommand {
 			.description('Request an elevator ride')
 			.argument('<pickup>', 'Floor to pickup from (integer)', this.parseFloor)
 			.argument('[dropoff]', 'Floor to drop off at (integer, optional)', this.parseFloor)
+			.option('-d, --direction <direction>', `Hall call button pushed at the pickup floor (${CallDirection.UP} or ${CallDirection.DOWN})`)
 			.option('-v, --verbose', 'Show detailed information about the selected elevator')
 			.action(async (pickup: number, dropoff: number | undefined, options) => {
 				await this.execute(pickup, dropoff, options);
@@ -48,26 +51,31 @@ export class AddRideCommand extends BaseCommand {
 	 * 
 	 * @param pickup - The floor to pickup from
 	 * @param dropoff - Optional floor to drop off at
-	 * @param options - Command options including verbose flag
+	 * @param options - Command options including direction and verbose flag
 	 */
 	private async execute(
 		pickup: number,
 		dropoff: number | undefined,
-		options: { verbose?: boolean }
+		options: { direction?: CallDirection; verbose?: boolean }
 	): Promise<void> {
 		try {
 			// Construct a human-readable ride description
 			const rideDesc = dropoff !== undefined
 				? `ride from floor ${pickup} to floor ${dropoff}`
-				: `pickup at floor ${pickup}`;
+				: `pickup at floor ${pickup}${options.direction ? ` going ${options.direction}` : ''}`;
 
 			this.logger.info(`Requesting ${rideDesc}...`);
 
-			// Request the ride from the elevator service
-			const elevatorId = await this.app.elevatorService.addRide(pickup, dropoff);
+			// Request the ride from the elevator service, which validates the direction
+			const ride = await this.app.elevatorService.addRide(pickup, dropoff, options.direction);
+			const elevatorId = ride.elevator!; //addRide() only returns assigned rides
 
-			// Success! Let the user know which elevator was assigned
-			this.logger.info(`✓ Ride assigned to ${elevatorId}`);
+			// Success! Let the user know which elevator was assigned, and with destination dispatch
+			// that's the car they have to take
+			this.logger.info(`✓ ${ride.id} assigned to ${elevatorId}`);
+			if (ride.reserved) {
+				console.log(`Please take ${elevatorId} to floor ${ride.dropoff}`);
+			}
 
 			// If verbose mode is enabled, show additional details about the elevator
 			if (options.verbose) {
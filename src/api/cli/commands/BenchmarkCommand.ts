@@ -0,0 +1,117 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { BenchmarkCandidate, BenchmarkResult, runBenchmark } from '../../../domain/simulation/Benchmark';
+import { getTrafficProfile, TRAFFIC_PROFILES } from '../../../domain/simulation/TrafficProfiles';
+import { parseOptionChanges } from './CommandHelpers';
+
+/**
+ * Command to compare strategies and option variants on the same seeded traffic, see {@link runBenchmark()}.
+ *
+ * Every strategy is run once per variant (or once with the current options if there are none) in
+ * simulated time, so an hour of traffic only takes as long as the strategies need to think.
+ */
+export class BenchmarkCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('benchmark')
+			.alias('bench')
+			.description('Compare strategies on the same simulated traffic')
+			.argument('[variants...]', 'Options to change per run, e.g. USE_FREE_FIRST=false NR_OF_ELEVATORS=3,USE_FREE_FIRST=true')
+			.option('--strategies <names>', `Comma separated strategies to compare (${this.app.strategies.names().join(', ')})`, this.app.strategies.names().join(','))
+			.option('-p, --profile <profile>', `Traffic profile (${Object.keys(TRAFFIC_PROFILES).join(', ')})`, 'interfloor')
+			.option('--seed <seed>', 'Seed for the random traffic', '1')
+			.option('-n, --number <rides>', 'Average number of rides to generate', '200')
+			.option('-t, --time <seconds>', 'Simulated time period to spread rides over (in seconds)', '3600')
+			.option('-j, --json', 'Output in JSON format')
+			.action(async (variants: string[], options) => {
+				await this.execute(variants, options);
+			});
+	}
+
+	/**
+	 * Execute the benchmark command.
+	 * 
+	 * @param variants - Comma separated `KEY=VALUE` lists of options to change, each one a run per strategy
+	 * @param options - Command options for the strategies, traffic and output formatting
+	 */
+	private async execute(variants: string[], options: {
+		strategies: string;
+		profile: string;
+		seed: string;
+		number: string;
+		time: string;
+		json?: boolean;
+	}): Promise<void> {
+		try {
+			const seed = parseInt(options.seed, 10);
+			const rides = parseInt(options.number, 10);
+			const timeSeconds = parseInt(options.time, 10);
+			if (isNaN(seed) || isNaN(rides) || rides < 1 || isNaN(timeSeconds) || timeSeconds < 1) {
+				this.logger.error('Seed must be an integer, and number of rides and time at least 1');
+				return;
+			}
+
+			const candidates = this.getCandidates(options.strategies, variants);
+			if (!options.json) {
+				this.logger.info(`Benchmarking ${candidates.length} candidate(s) on ~${rides} rides over ${timeSeconds}s of ${options.profile} traffic (seed ${seed})...`);
+			}
+			const results = await runBenchmark(candidates, this.app.options, {
+				profile: getTrafficProfile(options.profile),
+				seed,
+				duration: timeSeconds * 1000,
+				rides,
+			});
+
+			if (options.json) {
+				console.log(JSON.stringify(results, null, 2));
+				return;
+			}
+			this.printResults(results);
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Benchmark failed: ${error.message}`);
+			} else {
+				this.logger.error('Benchmark failed: Unknown error');
+			}
+		}
+	}
+
+	/**
+	 * Combine every strategy with every variant.
+	 * 
+	 * @param names - Comma separated strategy names
+	 * @param variants - Comma separated `KEY=VALUE` lists, parsed like the environment
+	 * @throws An Error if a strategy or option is unknown
+	 */
+	private getCandidates(names: string, variants: string[]): BenchmarkCandidate[] {
+		const variantOptions = variants.length > 0 ? variants.map(variant => parseOptionChanges(variant, this.app.options)) : [{}];
+		return names.split(',').map(name => name.trim()).flatMap(name => {
+			const createStrategy = this.app.strategies.get(name);
+			return variantOptions.map(options => {
+				const changes = Object.entries(options).map(([key, value]) => `${key}=${value}`).join(',');
+				return { name: changes ? `${name} [${changes}]` : name, createStrategy, options };
+			});
+		});
+	}
+
+	private printResults(results: BenchmarkResult[]): void {
+		const seconds = (ms: number) => (ms / 1000).toFixed(1).padStart(7);
+		const nameWidth = Math.max(10, ...results.map(result => result.name.length));
+		console.log(`\n${'Candidate'.padEnd(nameWidth)} ${'rides'.padStart(6)} ${'wait'.padStart(7)} ${'p90'.padStart(7)} ${'p99'.padStart(7)} ${'journey'.padStart(7)} ${'floors'.padStart(7)} ${'stops'.padStart(6)} ${'est.'.padStart(7)} ${'est.cpu'.padStart(8)}`);
+		console.log('─'.repeat(nameWidth + 72));
+		for (const { name, rides, metrics, floorsTravelled, stops, estimations } of results) {
+			console.log(`${name.padEnd(nameWidth)} ${`${rides.finished}/${rides.requested}`.padStart(6)} ${seconds(metrics.wait.mean)} ${seconds(metrics.wait.p90)} ${seconds(metrics.wait.p99)} ${seconds(metrics.journey.mean)} ${String(floorsTravelled).padStart(7)} ${String(stops).padStart(6)} ${String(estimations.count).padStart(7)} ${`${estimations.cpuTime.toFixed(0)}ms`.padStart(8)}`);
+		}
+		console.log('─'.repeat(nameWidth + 72));
+		console.log('Times in seconds (mean unless noted), rides = finished/requested, est. = estimates made and their CPU time\n');
+	}
+}
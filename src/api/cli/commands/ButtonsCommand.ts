@@ -2,7 +2,8 @@ import { Command } from 'commander';
 import { Application } from '../../../app/app';
 import { BaseCommand } from './CommandBase';
 import { Logger } from '../../../infra/logger/Logger';
-import { normalizeElevatorId, getElevatorNotFoundMessage } from './CommandHelpers';
+import { normalizeElevatorId } from '../../shared/ids';
+import { getElevatorNotFoundMessage } from './CommandHelpers';
 
 /**
  * Command to view the pushed buttons (queued floor stops) for elevators.
@@ -0,0 +1,49 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { normalizeRideId } from '../../shared/ids';
+
+/**
+ * Command to cancel a ride which hasn't finished yet.
+ * 
+ * The ride's stops are removed from the route of the elevator serving it
+ * unless other rides need them too, so the elevator doesn't make a
+ * pointless stop.
+ */
+export class CancelRideCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('cancel')
+			.alias('c')
+			.description('Cancel a ride which has not finished yet')
+			.argument('<ride-id>', 'Ride ID to cancel (e.g., #1, 2, or Ride#3)')
+			.action((rideId: string) => {
+				this.execute(rideId);
+			});
+	}
+
+	/**
+	 * Execute the cancel command.
+	 * 
+	 * @param rideId - The ride to cancel
+	 */
+	private execute(rideId: string): void {
+		try {
+			const ride = this.app.elevatorService.cancelRide(normalizeRideId(rideId));
+			this.logger.info(`✓ ${ride.id} cancelled${ride.elevator ? ` on ${ride.elevator}` : ''}`);
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Failed to cancel ride: ${error.message}`);
+			} else {
+				this.logger.error('Failed to cancel ride: Unknown error');
+			}
+		}
+	}
+}
@@ -0,0 +1,76 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { normalizeElevatorId } from '../../shared/ids';
+import { getElevatorNotFoundMessage } from './CommandHelpers';
+
+/**
+ * Command to un-push a button on an elevator.
+ * 
+ * This removes the floor from the elevator's queued stops no matter how
+ * many times it was requested, e.g. after a mistaken press. Any rides
+ * waiting to be picked up or dropped off at that floor are cancelled.
+ */
+export class ClearButtonCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('clear-button')
+			.alias('cb')
+			.description('Remove a pushed button (queued stop) from an elevator')
+			.argument('<elevator-id>', 'Elevator ID (e.g., #1, 2, or Elevator#3)')
+			.argument('<floor>', 'Floor of the button to remove (integer)', this.parseFloor)
+			.action((elevatorId: string, floor: number) => {
+				this.execute(elevatorId, floor);
+			});
+	}
+
+	/**
+	 * Parse and validate a floor argument from the command line.
+	 * @param value - The string value from the command line
+	 * @returns The parsed floor number
+	 * @throws Error if the value is not a valid integer
+	 */
+	private parseFloor(value: string): number {
+		const parsed = parseInt(value, 10);
+		if (isNaN(parsed)) {
+			throw new Error(`Invalid floor number: ${value}. Must be an integer.`);
+		}
+		return parsed;
+	}
+
+	/**
+	 * Execute the clear-button command.
+	 * 
+	 * @param elevatorId - The elevator to remove the button from
+	 * @param floor - The floor of the button
+	 */
+	private execute(elevatorId: string, floor: number): void {
+		try {
+			// Normalize the elevator ID (supports shorthand like "#1" or "1")
+			const normalizedId = normalizeElevatorId(elevatorId, this.app.elevatorService);
+			if (!normalizedId) {
+				this.logger.error(getElevatorNotFoundMessage(elevatorId, this.app.elevatorService));
+				return;
+			}
+
+			if (this.app.elevatorService.removeButton(normalizedId, floor)) {
+				this.logger.info(`✓ Removed button ${floor} from ${normalizedId}`);
+			} else {
+				this.logger.warn(`Button ${floor} was not pushed on ${normalizedId}`);
+			}
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Failed to remove button: ${error.message}`);
+			} else {
+				this.logger.error('Failed to remove button: Unknown error');
+			}
+		}
+	}
+}
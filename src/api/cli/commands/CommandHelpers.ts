@@ -1,54 +1,6 @@
 import { ElevatorService } from '../../../domain/services/ElevatorService';
-
-/**
- * Helper function to normalize elevator IDs in CLI commands.
- * 
- * This allows users to type shorthand like "#1", "1", or "#5" instead of 
- * the full "Elevator#1" or "Elevator#5". The actual elevator IDs remain 
- * unchanged in the system.
- * 
- * @param userInput - The user's input (e.g., "#1", "1", "Elevator#1")
- * @param elevatorService - The elevator service to validate against
- * @returns The full elevator ID (e.g., "Elevator#1") or null if not found
- * 
- * @example
- * normalizeElevatorId("#1", service) // returns "Elevator#1"
- * normalizeElevatorId("1", service)  // returns "Elevator#1"
- * normalizeElevatorId("Elevator#1", service) // returns "Elevator#1"
- */
-export function normalizeElevatorId(
-	userInput: string,
-	elevatorService: ElevatorService
-): string | null {
-	// If the user already typed the full ID, verify it exists and return it
-	const allElevatorIds = elevatorService.listElevators();
-	if (allElevatorIds.includes(userInput)) {
-		return userInput;
-	}
-
-	// Try to expand shorthand notation
-	// Support formats like: "#1", "1", "#5", "5", etc.
-	let expandedId: string;
-	
-	if (userInput.startsWith('#')) {
-		// User typed "#1" -> expand to "Elevator#1"
-		expandedId = `Elevator${userInput}`;
-	} else if (/^\d+$/.test(userInput)) {
-		// User typed just "1" -> expand to "Elevator#1"
-		expandedId = `Elevator#${userInput}`;
-	} else {
-		// Unknown format, return null
-		return null;
-	}
-
-	// Verify the expanded ID exists
-	if (allElevatorIds.includes(expandedId)) {
-		return expandedId;
-	}
-
-	// Not found
-	return null;
-}
+import type { RideMetricsGroup, RideMetricsReport } from '../../../domain/metrics/types';
+import { AppOptions, parseOptions } from '../../../options';
 
 /**
  * Get a user-friendly error message for an invalid elevator ID.
@@ -67,3 +19,49 @@ export function getElevatorNotFoundMessage(
 	return `Elevator '${userInput}' not found. Available: ${shortIds.join(', ')}`;
 }
 
+/**
+ * Helper function to print a {@link RideMetricsReport} as a table, bank-wide first and then per elevator.
+ * Durations are shown in seconds.
+ * 
+ * @param report - The report to print
+ */
+export function printRideMetrics(report: RideMetricsReport): void {
+	const seconds = (ms: number) => (ms / 1000).toFixed(1).padStart(7);
+	const printGroup = (name: string, group: RideMetricsGroup) => {
+		console.log(`\n${name}:`);
+		console.log(`  ${''.padEnd(8)} ${'rides'.padStart(6)} ${'avg'.padStart(7)} ${'p50'.padStart(7)} ${'p90'.padStart(7)} ${'p99'.padStart(7)} ${'max'.padStart(7)}`);
+		for (const [label, stats] of [['Wait', group.wait], ['In car', group.inCar], ['Journey', group.journey]] as const) {
+			const { count, mean, p50, p90, p99, max } = stats;
+			console.log(`  ${label.padEnd(8)} ${String(count).padStart(6)} ${seconds(mean)} ${seconds(p50)} ${seconds(p90)} ${seconds(p99)} ${seconds(max)}`);
+		}
+	};
+
+	console.log(`\nRide metrics over ${((report.until - report.since) / 1000).toFixed(0)}s (times in seconds)`);
+	console.log('─'.repeat(60));
+	printGroup('All elevators', report.overall);
+	for (const elevator of Object.keys(report.elevators).sort()) {
+		printGroup(elevator, report.elevators[elevator]);
+	}
+	console.log('─'.repeat(60) + '\n');
+}
+
+/**
+ * Helper function to parse options to change, given as comma separated `KEY=VALUE` pairs. Values are
+ * parsed like the environment variables are. Only commas followed by a key split pairs, so values can
+ * contain commas too (e.g. `ELEVATOR_STRATEGIES=4:StopEnRoute,5:StopEnRoute`).
+ * 
+ * @param userInput - The user's input (e.g., "USE_FREE_FIRST=false,NR_OF_ELEVATORS=3")
+ * @param options - The current options, which decide the type of each value
+ * @returns Only the options which were given (e.g., `{ USE_FREE_FIRST: false, NR_OF_ELEVATORS: 3 }`)
+ * @throws An Error if the input isn't `KEY=VALUE` pairs of known options
+ */
+export function parseOptionChanges(userInput: string, options: AppOptions): Partial<AppOptions> {
+	const entries = userInput.split(/,(?=\s*[A-Z_]+=)/).map(pair => pair.split('=').map(part => part.trim()));
+	for (const [key, value] of entries) {
+		if (!(key in options) || value === undefined) {
+			throw new Error(`Invalid options '${userInput}', expected KEY=VALUE pairs of known options`);
+		}
+	}
+	const parsed = parseOptions(Object.fromEntries(entries), options);
+	return Object.fromEntries(entries.map(([key]) => [key, parsed[key as keyof AppOptions]]));
+}
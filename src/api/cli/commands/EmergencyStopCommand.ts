@@ -0,0 +1,79 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { normalizeElevatorId } from '../../shared/ids';
+import { getElevatorNotFoundMessage } from './CommandHelpers';
+
+/**
+ * Command to stop an elevator where it is, or get a stopped one going again.
+ *
+ * The rides waiting for a stopped elevator are handed off to other elevators, see
+ * {@link ElevatorService.emergencyStop()}. Elevators the watchdog stopped as stuck are reset the same way.
+ */
+export class EmergencyStopCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('estop')
+			.alias('es')
+			.description('Stop an elevator where it is, or get it going again with --reset')
+			.argument('<elevator-id>', 'Elevator ID (e.g., #1, 2, or Elevator#3)')
+			.option('-r, --reset', 'Reset the stopped elevator instead')
+			.option('-j, --json', 'Output in JSON format')
+			.action(async (elevatorId: string, options) => {
+				await this.execute(elevatorId, options);
+			});
+	}
+
+	/**
+	 * Execute the emergency stop command.
+	 *
+	 * @param elevatorId - The elevator to stop or reset
+	 * @param options - Whether to reset and output formatting
+	 */
+	private async execute(elevatorId: string, options: { reset?: boolean, json?: boolean }): Promise<void> {
+		try {
+			const service = this.app.elevatorService;
+			// Normalize the elevator ID (supports shorthand like "#1" or "1")
+			const normalizedId = normalizeElevatorId(elevatorId, service);
+			if (!normalizedId) {
+				this.logger.error(getElevatorNotFoundMessage(elevatorId, service));
+				return;
+			}
+
+			if (options.reset) {
+				service.resetElevator(normalizedId);
+				if (options.json) {
+					console.log(JSON.stringify({ id: normalizedId, state: service.getElevatorState(normalizedId) }, null, 2));
+					return;
+				}
+				this.logger.info(`✓ ${normalizedId} reset`);
+				return;
+			}
+
+			const handoffs = await service.emergencyStop(normalizedId);
+			if (options.json) {
+				console.log(JSON.stringify({ id: normalizedId, state: service.getElevatorState(normalizedId), handoffs }, null, 2));
+				return;
+			}
+			this.logger.info(`✓ ${normalizedId} stopped`);
+			for (const { ride, to } of handoffs) {
+				this.logger.info(`✓ ${ride.id} handed off to ${to}`);
+			}
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			const action = options.reset ? 'reset elevator' : 'stop elevator';
+			if (error instanceof Error) {
+				this.logger.error(`Failed to ${action}: ${error.message}`);
+			} else {
+				this.logger.error(`Failed to ${action}: Unknown error`);
+			}
+		}
+	}
+}
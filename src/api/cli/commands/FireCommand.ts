@@ -0,0 +1,105 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+
+/**
+ * Command to raise or reset the fire alarm, or show what the elevators are doing about it.
+ *
+ * Raising it recalls every elevator non-stop to the recall floor, where it parks with its doors open,
+ * see {@link ElevatorService.startFireRecall()}.
+ */
+export class FireCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('fire')
+			.alias('fr')
+			.description('Show the fire service status, raise the fire alarm (on) or reset it (off)')
+			.argument('[mode]', 'on to recall the elevators, off to put them back into service')
+			.argument('[alarm-floors...]', 'Floors where the alarm went off (integers)')
+			.option('-j, --json', 'Output in JSON format')
+			.action((mode: string | undefined, alarmFloors: string[], options) => {
+				this.execute(mode, alarmFloors, options);
+			});
+	}
+
+	/**
+	 * Execute the fire command.
+	 *
+	 * @param mode - Optional `on` or `off`
+	 * @param alarmFloors - The floors where the alarm went off, with `on`
+	 * @param options - Command options for output formatting
+	 */
+	private execute(mode: string | undefined, alarmFloors: string[], options: { json?: boolean }): void {
+		try {
+			const service = this.app.elevatorService;
+			if (mode === 'on') {
+				const floors = alarmFloors.map(floor => this.parseFloor(floor));
+				const recalled = service.startFireRecall(floors);
+				if (!options.json) {
+					for (const [id, floor] of Object.entries(recalled)) {
+						this.logger.info(`✓ ${id} recalled to floor ${floor}`);
+					}
+					return;
+				}
+			} else if (mode === 'off') {
+				service.endFireRecall();
+				if (!options.json) {
+					this.logger.info('✓ Fire recall ended, elevators are back in service');
+					return;
+				}
+			} else if (mode !== undefined) {
+				this.logger.error(`Invalid mode: ${mode}. Must be on or off.`);
+				return;
+			}
+
+			const status = service.getFireService();
+			if (options.json) {
+				console.log(JSON.stringify(status, null, 2));
+				return;
+			}
+
+			console.log('\nFire service:');
+			console.log('─'.repeat(60));
+			if (!status.active) {
+				console.log('No fire alarm, all elevators serve rides');
+			} else {
+				console.log(`Alarm floors:  ${status.alarmFloors.length > 0 ? status.alarmFloors.join(', ') : '(unknown)'}`);
+				for (const [id, { phase, floor, recalled }] of Object.entries(status.elevators)) {
+					const what = phase === 'firefighter' ? 'firefighter operation'
+						: recalled ? `parked at floor ${floor}` : `recalled to floor ${floor}`;
+					console.log(`${id.padEnd(14)} ${what}`);
+				}
+			}
+			console.log('─'.repeat(60) + '\n');
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			const action = mode === 'on' ? 'recall elevators' : mode === 'off' ? 'end fire recall' : 'get fire service status';
+			if (error instanceof Error) {
+				this.logger.error(`Failed to ${action}: ${error.message}`);
+			} else {
+				this.logger.error(`Failed to ${action}: Unknown error`);
+			}
+		}
+	}
+
+	/**
+	 * Parse and validate a floor argument from the command line.
+	 * @param value - The string value from the command line
+	 * @returns The parsed floor number
+	 * @throws Error if the value is not a valid integer
+	 */
+	private parseFloor(value: string): number {
+		const parsed = parseInt(value, 10);
+		if (isNaN(parsed)) {
+			throw new Error(`Invalid floor number: ${value}. Must be an integer.`);
+		}
+		return parsed;
+	}
+}
@@ -0,0 +1,119 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { normalizeElevatorId } from '../../shared/ids';
+import { getElevatorNotFoundMessage } from './CommandHelpers';
+
+const ACTIONS = ['on', 'off', 'go', 'open', 'close', 'release'] as const;
+type Action = typeof ACTIONS[number];
+
+/** What each action does, for error messages */
+const DESCRIPTIONS: Record<Action, string> = {
+	on: 'take over elevator',
+	off: 'hand back elevator',
+	go: 'send elevator',
+	open: 'hold door open button',
+	close: 'hold door close button',
+	release: 'release door button',
+};
+
+/**
+ * Command to drive an elevator as a firefighter once it's been recalled (Phase II).
+ *
+ * The doors only move while a door button is held, so `open` and `close` push and hold the
+ * button until `release`, which sends doors that didn't make it all the way back again.
+ */
+export class FirefighterCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('firefighter')
+			.alias('ff')
+			.description('Drive a recalled elevator: take it over (on), hand it back (off), go to a floor or hold a door button')
+			.argument('<elevator-id>', 'Elevator ID (e.g., #1, 2, or Elevator#3)')
+			.argument('<action>', `What to do (${ACTIONS.join(', ')})`)
+			.argument('[floor]', 'Floor to go to with go (integer)', this.parseFloor)
+			.action((elevatorId: string, action: string, floor: number | undefined) => {
+				this.execute(elevatorId, action, floor);
+			});
+	}
+
+	/**
+	 * Parse and validate a floor argument from the command line.
+	 * @param value - The string value from the command line
+	 * @returns The parsed floor number
+	 * @throws Error if the value is not a valid integer
+	 */
+	private parseFloor(value: string): number {
+		const parsed = parseInt(value, 10);
+		if (isNaN(parsed)) {
+			throw new Error(`Invalid floor number: ${value}. Must be an integer.`);
+		}
+		return parsed;
+	}
+
+	/**
+	 * Execute the firefighter command.
+	 *
+	 * @param elevatorId - The elevator to drive
+	 * @param action - One of {@link ACTIONS}
+	 * @param floor - The floor to go to with `go`
+	 */
+	private execute(elevatorId: string, action: string, floor: number | undefined): void {
+		try {
+			const service = this.app.elevatorService;
+			// Normalize the elevator ID (supports shorthand like "#1" or "1")
+			const id = normalizeElevatorId(elevatorId, service);
+			if (!id) {
+				this.logger.error(getElevatorNotFoundMessage(elevatorId, service));
+				return;
+			}
+			if (!(ACTIONS as readonly string[]).includes(action)) {
+				this.logger.error(`Invalid action: ${action}. Must be one of ${ACTIONS.join(', ')}.`);
+				return;
+			}
+
+			switch (action as Action) {
+				case 'on':
+					service.startFirefighterOperation(id);
+					this.logger.info(`✓ ${id} is under firefighter operation`);
+					break;
+				case 'off':
+					service.endFirefighterOperation(id);
+					this.logger.info(`✓ ${id} handed back, returning to its recall floor`);
+					break;
+				case 'go':
+					if (floor === undefined) {
+						this.logger.error('Missing floor to go to');
+						return;
+					}
+					service.sendFirefighterTo(id, floor);
+					this.logger.info(`✓ ${id} goes to floor ${floor} once its doors are closed`);
+					break;
+				case 'open':
+				case 'close':
+					service.pressDoorButton(id, action as 'open' | 'close');
+					this.logger.info(`✓ Holding door ${action} in ${id}, release it with: firefighter ${elevatorId} release`);
+					break;
+				case 'release':
+					service.releaseDoorButton(id);
+					this.logger.info(`✓ Released the door button in ${id}, doors are ${service.getElevatorState(id).type}`);
+					break;
+			}
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			const description = DESCRIPTIONS[action as Action];
+			if (error instanceof Error) {
+				this.logger.error(`Failed to ${description}: ${error.message}`);
+			} else {
+				this.logger.error(`Failed to ${description}: Unknown error`);
+			}
+		}
+	}
+}
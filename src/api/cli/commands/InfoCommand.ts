@@ -2,6 +2,7 @@ import { Command } from 'commander';
 import { Application } from '../../../app/app';
 import { BaseCommand } from './CommandBase';
 import { Logger } from '../../../infra/logger/Logger';
+import { formatFloors } from '../../../domain/route/Floors';
 
 /**
  * Command to display information about the elevator service configuration.
@@ -49,9 +50,17 @@ export class InfoCommand extends BaseCommand {
 				moving: elevatorIds.filter(id =>
 					states[id].type === 'movingUp' || states[id].type === 'movingDown'
 				).length,
-				doorsOpen: elevatorIds.filter(id => states[id].type === 'doorsOpen').length,
+				doorsOpen: elevatorIds.filter(id =>
+					states[id].type === 'doorsOpening' || states[id].type === 'doorsOpen' || states[id].type === 'doorsClosing' || states[id].type === 'doorsHeldOpen'
+				).length,
+				stopped: elevatorIds.filter(id => states[id].type === 'stopped').length,
+				full: elevatorIds.filter(id => states[id].load.full).length,
+				passengers: elevatorIds.reduce((sum, id) => sum + states[id].load.passengers, 0),
+				outOfService: elevatorIds.filter(id => this.app.elevatorService.getMaintenance(id).status !== 'inService').length,
 				totalQueuedStops: elevatorIds.reduce((sum, id) => sum + buttons[id].length, 0),
 				running: this.app.elevatorService.isRunning(),
+				unreachable: this.app.elevatorService.getUnreachableFloors(),
+				fireRecall: this.app.elevatorService.getFireService().active,
 			};
 
 			// JSON mode: output structured data
@@ -80,10 +89,39 @@ export class InfoCommand extends BaseCommand {
 					`(${config.MAX_FLOOR - config.MIN_FLOOR + 1} floors)`);
 				console.log(`  Number of Elevators:   ${config.NR_OF_ELEVATORS}`);
 				console.log(`  Initial Floor:         ${config.INITIAL_FLOOR}`);
-				console.log(`  Travel Time/Floor:     ${config.TRAVEL_TIME_PER_FLOOR}ms`);
-				console.log(`  Door Open Time:        ${config.DOOR_OPEN_TIME}ms`);
+				if (config.MOTION_PROFILE === 'trapezoidal') {
+					console.log(`  Motion Profile:        trapezoidal (${config.FLOOR_HEIGHT}mm floors, ${config.MAX_SPEED}mm/s, ` +
+						`+${config.ACCELERATION}/-${config.DECELERATION}mm/s²)`);
+				} else {
+					console.log(`  Travel Time/Floor:     ${config.TRAVEL_TIME_PER_FLOOR}ms`);
+				}
+				console.log(`  Door Open Time:        ${config.DOOR_OPEN_TIME}ms` + (config.DOOR_OPENING_TIME || config.DOOR_CLOSING_TIME
+					? ` (+${config.DOOR_OPENING_TIME}ms opening, +${config.DOOR_CLOSING_TIME}ms closing)` : ''));
 				console.log(`  Estimation Limit:      ${config.ESTIMATION_LIMIT}ms`);
+				console.log(`  Strategy:              ${config.STRATEGY}` + (config.ELEVATOR_STRATEGIES ? ` (${config.ELEVATOR_STRATEGIES})` : ''));
+				if (config.ELEVATOR_ZONES) {
+					console.log(`  Zones:                 ${config.ELEVATOR_ZONES}`);
+				}
+				if (config.ELEVATOR_SERVED_FLOORS) {
+					console.log(`  Served Floors:         ${config.ELEVATOR_SERVED_FLOORS}`);
+				}
+				const capacity = [
+					...(config.CAPACITY > 0 ? [`${config.CAPACITY} passengers`] : []),
+					...(config.RATED_LOAD > 0 ? [`${config.RATED_LOAD}kg at ${config.PASSENGER_WEIGHT}kg/passenger`] : []),
+				];
+				console.log(`  Capacity:              ${capacity.length > 0 ? capacity.join(', ') : 'Unlimited'}`
+					+ (config.ELEVATOR_CAPACITIES ? ` (${config.ELEVATOR_CAPACITIES})` : ''));
 				console.log(`  Use Free First:        ${config.USE_FREE_FIRST ? 'Yes' : 'No'}`);
+				console.log(`  Dispatch Mode:         ${config.DISPATCH_MODE}` + (config.DISPATCH_MODE === 'destination'
+					? ` (groups of up to ${config.DESTINATION_GROUP_SIZE}, ±${config.DESTINATION_GROUPING_DISTANCE} floors)` : ''));
+				console.log(`  Fire Recall Floor:     ${config.FIRE_RECALL_FLOOR} (alternate ${config.FIRE_ALTERNATE_FLOOR})`);
+				console.log(`  Watchdog Tolerance:    ${config.WATCHDOG_TOLERANCE > 0 ? `${config.WATCHDOG_TOLERANCE}ms` : 'Off'}`);
+				if (config.DRIVER === 'modbus') {
+					console.log(`  Driver:                modbus (${config.MODBUS_HOST}:${config.MODBUS_PORT}, ${config.MODBUS_REGISTERS}, ` +
+						`polled every ${config.MODBUS_POLL_INTERVAL}ms)`);
+				} else {
+					console.log(`  Driver:                ${config.DRIVER}`);
+				}
 				console.log(`  Log Level:             ${config.LOG_LEVEL}`);
 			}
 
@@ -91,12 +129,17 @@ export class InfoCommand extends BaseCommand {
 			if (!options.configOnly) {
 				console.log('\n📊 Statistics:');
 				console.log('─'.repeat(70));
-				console.log(`  Service Status:        ${stats.running ? '✓ Running' : '✗ Stopped'}`);
-				console.log(`  Total Elevators:       ${stats.totalElevators}`);
+				console.log(`  Service Status:        ${stats.running ? '✓ Running' : '✗ Stopped'}`
+					+ (stats.fireRecall ? ' (🔥 fire recall, no rides taken)' : ''));
+				console.log(`  Total Elevators:       ${stats.totalElevators}` + (stats.outOfService > 0 ? ` (${stats.outOfService} out of service)` : ''));
 				console.log(`  State Breakdown:`);
 				console.log(`    - Idle:              ${stats.idle}`);
 				console.log(`    - Moving:            ${stats.moving}`);
 				console.log(`    - Doors Open:        ${stats.doorsOpen}`);
+				if (stats.stopped > 0) {
+					console.log(`    - Stopped:           ${stats.stopped}`);
+				}
+				console.log(`  Passengers:            ${stats.passengers}` + (stats.full > 0 ? ` (${stats.full} full)` : ''));
 				console.log(`  Total Queued Stops:    ${stats.totalQueuedStops}`);
 
 				// Calculate average queued stops per elevator
@@ -104,6 +147,18 @@ export class InfoCommand extends BaseCommand {
 					? (stats.totalQueuedStops / stats.totalElevators).toFixed(2)
 					: '0.00';
 				console.log(`  Avg Stops/Elevator:    ${avgQueuedStops}`);
+
+				// Floors the served floors of the elevators don't connect
+				const { unserved, rides } = stats.unreachable;
+				if (unserved.length > 0) {
+					console.log(`  Unserved Floors:       ${formatFloors(unserved)}`);
+				}
+				if (rides.length > 0) {
+					console.log(`  Unreachable Rides:`);
+					for (const { from, to } of rides) {
+						console.log(`    - From ${String(from).padEnd(14)} to ${formatFloors(to)}`);
+					}
+				}
 			}
 
 			console.log('\n' + '═'.repeat(70) + '\n');
@@ -0,0 +1,114 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { normalizeElevatorId } from '../../shared/ids';
+import { getElevatorNotFoundMessage } from './CommandHelpers';
+
+/**
+ * Command to show which elevators are in service, or take one out of service and put it back.
+ *
+ * An elevator taken out of service hands off the rides waiting for it to other elevators,
+ * finishes the rest and then parks, see {@link ElevatorService.startMaintenance()}.
+ */
+export class MaintenanceCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('maintenance')
+			.alias('mt')
+			.description('Show which elevators are in service or take one out of service (on) and back (off)')
+			.argument('[elevator-id]', 'Elevator ID (e.g., #1, 2, or Elevator#3)')
+			.argument('[mode]', 'on to take the elevator out of service, off to put it back')
+			.option('-p, --park <floor>', 'Floor to park at once the elevator is done (integer)', this.parseFloor)
+			.option('-j, --json', 'Output in JSON format')
+			.action(async (elevatorId: string | undefined, mode: string | undefined, options) => {
+				await this.execute(elevatorId, mode, options);
+			});
+	}
+
+	/**
+	 * Parse and validate a floor option from the command line.
+	 * @param value - The string value from the command line
+	 * @returns The parsed floor number
+	 * @throws Error if the value is not a valid integer
+	 */
+	private parseFloor(value: string): number {
+		const parsed = parseInt(value, 10);
+		if (isNaN(parsed)) {
+			throw new Error(`Invalid floor number: ${value}. Must be an integer.`);
+		}
+		return parsed;
+	}
+
+	/**
+	 * Execute the maintenance command.
+	 *
+	 * @param elevatorId - Optional elevator to show or change, or undefined for all
+	 * @param mode - Optional `on` or `off`
+	 * @param options - The floor to park at and output formatting
+	 */
+	private async execute(elevatorId: string | undefined, mode: string | undefined, options: { park?: number, json?: boolean }): Promise<void> {
+		try {
+			const service = this.app.elevatorService;
+			let ids = service.listElevators();
+			if (elevatorId !== undefined) {
+				// Normalize the elevator ID (supports shorthand like "#1" or "1")
+				const normalizedId = normalizeElevatorId(elevatorId, service);
+				if (!normalizedId) {
+					this.logger.error(getElevatorNotFoundMessage(elevatorId, service));
+					return;
+				}
+				ids = [normalizedId];
+
+				if (mode === 'on') {
+					const handoffs = await service.startMaintenance(normalizedId, options.park);
+					if (options.json) {
+						console.log(JSON.stringify({ ...service.getMaintenance(normalizedId), handoffs }, null, 2));
+						return;
+					}
+					this.logger.info(`✓ ${normalizedId} taken out of service${options.park !== undefined ? `, parking at floor ${options.park}` : ''}`);
+					for (const { ride, to } of handoffs) {
+						this.logger.info(`✓ ${ride.id} handed off to ${to}`);
+					}
+					return;
+				} else if (mode === 'off') {
+					service.endMaintenance(normalizedId);
+					if (!options.json) {
+						this.logger.info(`✓ ${normalizedId} back in service`);
+						return;
+					}
+				} else if (mode !== undefined) {
+					this.logger.error(`Invalid mode: ${mode}. Must be on or off.`);
+					return;
+				}
+			}
+
+			const statuses = Object.fromEntries(ids.map(id => [id, service.getMaintenance(id)]));
+			if (options.json) {
+				console.log(JSON.stringify(statuses, null, 2));
+				return;
+			}
+
+			console.log('\nService status:');
+			console.log('─'.repeat(60));
+			for (const [id, { status, parkAt }] of Object.entries(statuses)) {
+				console.log(`${id.padEnd(14)} ${status}${parkAt !== undefined ? ` (parking at floor ${parkAt})` : ''}`);
+			}
+			console.log('─'.repeat(60) + '\n');
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			const action = mode === 'on' ? 'take elevator out of service' : mode === 'off' ? 'put elevator back into service' : 'get service status';
+			if (error instanceof Error) {
+				this.logger.error(`Failed to ${action}: ${error.message}`);
+			} else {
+				this.logger.error(`Failed to ${action}: Unknown error`);
+			}
+		}
+	}
+}
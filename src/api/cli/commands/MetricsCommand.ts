@@ -0,0 +1,55 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { printRideMetrics } from './CommandHelpers';
+
+/**
+ * Command to show how long passengers have been waiting and riding since the application
+ * started, or since the metrics were last reset.
+ */
+export class MetricsCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('metrics')
+			.alias('m')
+			.description('Show wait, in-car and journey times of passengers (avg, p50/p90/p99, max)')
+			.option('-j, --json', 'Output in JSON format')
+			.option('-r, --reset', 'Start a new measuring period after showing the metrics')
+			.action((options) => {
+				this.execute(options);
+			});
+	}
+
+	/**
+	 * Execute the metrics command.
+	 * 
+	 * @param options - Command options for output formatting and resetting
+	 */
+	private execute(options: { json?: boolean; reset?: boolean }): void {
+		try {
+			const report = this.app.rideMetrics.getReport();
+			if (options.json) {
+				console.log(JSON.stringify(report, null, 2));
+			} else {
+				printRideMetrics(report);
+			}
+			if (options.reset) {
+				this.app.rideMetrics.reset();
+				this.logger.info('✓ Metrics reset');
+			}
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Failed to get metrics: ${error.message}`);
+			} else {
+				this.logger.error('Failed to get metrics: Unknown error');
+			}
+		}
+	}
+}
@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { NdjsonWriter } from '../../../infra/files/ndjson';
+import { TrafficRecorder } from '../../../domain/simulation/Recording';
+
+/**
+ * Command to record every ride requested from the elevator service to a newline-delimited JSON
+ * file, so the traffic can be replayed later with the `replay` command.
+ */
+export class RecordCommand extends BaseCommand {
+	private recording?: { recorder: TrafficRecorder; writer: NdjsonWriter; count: number };
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('record')
+			.description('Record requested rides to a file (appends), or show what is being recorded')
+			.argument('[file]', 'File to record to, e.g. traffic.ndjson')
+			.option('--stop', 'Stop recording')
+			.action(async (file: string | undefined, options) => {
+				await this.execute(file, options);
+			});
+	}
+
+	/**
+	 * Execute the record command.
+	 * 
+	 * @param file - Optional file to start recording to
+	 * @param options - Command options for stopping
+	 */
+	private async execute(file: string | undefined, options: { stop?: boolean }): Promise<void> {
+		try {
+			if (options.stop) {
+				await this.stop();
+				return;
+			}
+			if (file === undefined) {
+				this.logger.info(this.recording
+					? `Recording to ${this.recording.writer.path}, ${this.recording.count} ride(s) so far`
+					: 'Not recording');
+				return;
+			}
+			if (this.recording) {
+				this.logger.error(`Already recording to ${this.recording.writer.path}, stop that first with 'record --stop'`);
+				return;
+			}
+
+			const recording = { recorder: new TrafficRecorder(this.app.elevatorService), writer: new NdjsonWriter(file), count: 0 };
+			recording.recorder.on('record', (ride) => {
+				recording.writer.write(ride);
+				recording.count++;
+			});
+			this.recording = recording;
+			this.logger.info(`✓ Recording rides to ${file}`);
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Failed to record: ${error.message}`);
+			} else {
+				this.logger.error('Failed to record: Unknown error');
+			}
+		}
+	}
+
+	private async stop(): Promise<void> {
+		if (!this.recording) {
+			this.logger.error('Not recording');
+			return;
+		}
+		const { recorder, writer, count } = this.recording;
+		this.recording = undefined;
+		recorder.stop();
+		await writer.close();
+		this.logger.info(`✓ Recorded ${count} ride(s) to ${writer.path}`);
+	}
+}
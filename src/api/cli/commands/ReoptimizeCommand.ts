@@ -0,0 +1,55 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+
+/**
+ * Command to move rides which haven't been picked up yet to other elevators right now,
+ * instead of waiting for the next periodic or event-triggered pass.
+ */
+export class ReoptimizeCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('reoptimize')
+			.alias('ro')
+			.description('Move waiting rides to other elevators if that lowers the total wait')
+			.option('-j, --json', 'Output in JSON format')
+			.action(async (options) => {
+				await this.execute(options);
+			});
+	}
+
+	/**
+	 * Execute the reoptimize command.
+	 * 
+	 * @param options - Command options for output formatting
+	 */
+	private async execute(options: { json?: boolean }): Promise<void> {
+		try {
+			const moves = await this.app.elevatorService.reoptimize();
+			if (options.json) {
+				console.log(JSON.stringify(moves, null, 2));
+				return;
+			}
+			if (moves.length === 0) {
+				this.logger.info('✓ No rides moved, all elevators are already the best choice');
+				return;
+			}
+			for (const { ride, from, to, gain } of moves) {
+				this.logger.info(`✓ ${ride.id} moved from ${from} to ${to} (saves ${(gain / 1000).toFixed(1)}s)`);
+			}
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Failed to reoptimize rides: ${error.message}`);
+			} else {
+				this.logger.error('Failed to reoptimize rides: Unknown error');
+			}
+		}
+	}
+}
@@ -0,0 +1,115 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { readNdjson } from '../../../infra/files/ndjson';
+import { Clock } from '../../../infra/clock/Clock';
+import { ScaledClock } from '../../../infra/clock/ScaledClock';
+import { VirtualClock } from '../../../infra/clock/VirtualClock';
+import { parseRecordedRide, replayRecording } from '../../../domain/simulation/Recording';
+import { waitForArrivals } from '../../../domain/simulation/TrafficSimulator';
+import type { AssignmentDiff } from '../../../domain/simulation/types';
+import { parseOptionChanges, printRideMetrics } from './CommandHelpers';
+
+/**
+ * The longest we wait for the replayed passengers to arrive, in replayed time.
+ */
+const MAX_ARRIVAL_WAIT = 60 * 60 * 1000;
+
+/**
+ * Command to replay a recording made with the `record` command against a fresh application,
+ * optionally with another strategy or other options, and show which rides were assigned to
+ * other elevators than when they were recorded.
+ */
+export class ReplayCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('replay')
+			.description('Replay recorded rides on fresh elevators and compare the assignments')
+			.argument('<file>', 'Recording made with the record command')
+			.argument('[options...]', 'Options to change for the replay, e.g. USE_FREE_FIRST=false NR_OF_ELEVATORS=3')
+			.option('--strategy <name>', `Strategy of every elevator instead of the configured ones (${this.app.strategies.names().join(', ')})`)
+			.option('--speed <factor>', 'How much faster than real time to replay', '1')
+			.option('--fast', 'Replay in simulated time, as fast as possible')
+			.option('-j, --json', 'Output in JSON format')
+			.action(async (file: string, changes: string[], options) => {
+				await this.execute(file, changes, options);
+			});
+	}
+
+	/**
+	 * Execute the replay command.
+	 * 
+	 * @param file - The recording to replay
+	 * @param changes - `KEY=VALUE` options to change, on top of the current options
+	 * @param options - Command options for the strategy, speed and output formatting
+	 */
+	private async execute(file: string, changes: string[], options: { strategy?: string; speed: string; fast?: boolean; json?: boolean }): Promise<void> {
+		try {
+			const speed = parseFloat(options.speed);
+			if (isNaN(speed) || speed <= 0) {
+				this.logger.error('Speed must be a positive number');
+				return;
+			}
+			const overrides = Object.assign({}, ...changes.map(change => parseOptionChanges(change, this.app.options)));
+			if (options.strategy !== undefined) {
+				this.app.strategies.get(options.strategy); //throws if unknown
+				Object.assign(overrides, { STRATEGY: options.strategy, ELEVATOR_STRATEGIES: '' });
+			}
+			const recording = (await readNdjson(file)).map(parseRecordedRide);
+			if (recording.length === 0) {
+				this.logger.error(`No rides recorded in ${file}`);
+				return;
+			}
+
+			//A fresh application so the replay doesn't disturb the running one
+			const clock: Clock = options.fast ? new VirtualClock() : new ScaledClock(speed);
+			const replay = new Application({ ...this.app.options, LOG_LEVEL: 'warn', ...overrides }, undefined, clock, this.app.strategies);
+			if (!options.json) {
+				this.logger.info(`Replaying ${recording.length} ride(s) from ${file} with ${options.strategy ?? 'the configured strategies'}${options.fast ? ' in simulated time' : ` at ${speed}x`}...`);
+			}
+			await replay.start();
+			try {
+				const { summary, diff } = await replayRecording(recording, replay.elevatorService, clock);
+				const inProgress = await waitForArrivals(replay.elevatorService, clock, MAX_ARRIVAL_WAIT);
+				const metrics = replay.rideMetrics.getReport();
+
+				if (options.json) {
+					console.log(JSON.stringify({ summary, inProgress, diff, metrics }, null, 2));
+					return;
+				}
+				this.logger.info(`Replay complete: ${summary.added} rides added, ${summary.failed} failed, ${inProgress} still in progress`);
+				this.printDiff(diff);
+				printRideMetrics(metrics);
+			} finally {
+				await replay.stop();
+			}
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Replay failed: ${error.message}`);
+			} else {
+				this.logger.error('Replay failed: Unknown error');
+			}
+		}
+	}
+
+	private printDiff(diff: AssignmentDiff): void {
+		console.log(`\nAssignments: ${diff.same} of ${diff.total} the same, ${diff.changed.length} changed`);
+		if (diff.changed.length === 0) {
+			return;
+		}
+		console.log('─'.repeat(60));
+		for (const { recorded, replayed } of diff.changed) {
+			const floors = recorded.dropoff !== undefined ? `${recorded.pickup} → ${recorded.dropoff}` : `${recorded.pickup}`;
+			console.log(`${recorded.ride.padEnd(12)} ${floors.padEnd(10)} ${(recorded.elevator ?? '(none)').padEnd(14)} → ${replayed?.elevator ?? '(failed)'}`);
+		}
+		console.log('─'.repeat(60));
+	}
+}
@@ -0,0 +1,105 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { Ride } from '../../../domain/rides/types';
+import { isRideFinished } from '../../../domain/rides/RideTracker';
+import { normalizeRideId } from '../../shared/ids';
+
+/**
+ * Command to follow rides from request to dropoff.
+ *
+ * Without an argument it lists the rides in progress and the ones which finished most
+ * recently. With a ride id it shows the full timeline of that ride.
+ */
+export class RidesCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('rides')
+			.alias('rs')
+			.description('Show one or all rides and how far along they are')
+			.argument('[ride-id]', 'Specific ride ID to show (e.g., #1, 2, or Ride#3)')
+			.option('-j, --json', 'Output in JSON format')
+			.option('-a, --all', 'Include finished rides when listing')
+			.action((rideId: string | undefined, options) => {
+				this.execute(rideId, options);
+			});
+	}
+
+	/**
+	 * Execute the rides command.
+	 *
+	 * @param rideId - Optional specific ride to show, or undefined for all
+	 * @param options - Command options for output formatting
+	 */
+	private execute(rideId: string | undefined, options: { json?: boolean; all?: boolean }): void {
+		try {
+			// A single ride: show its timeline
+			if (rideId) {
+				const ride = this.app.elevatorService.getRide(normalizeRideId(rideId));
+				if (options.json) {
+					console.log(JSON.stringify(ride, null, 2));
+					return;
+				}
+				this.printTimeline(ride);
+				return;
+			}
+
+			// All rides: by default only the ones which are still going somewhere
+			const rides = this.app.elevatorService.listRides()
+				.filter(ride => options.all || !isRideFinished(ride));
+
+			if (options.json) {
+				console.log(JSON.stringify(rides, null, 2));
+				return;
+			}
+
+			console.log(`\n${options.all ? 'Rides' : 'Rides In Progress'}:`);
+			console.log('─'.repeat(60));
+			if (rides.length === 0) {
+				console.log('  (no rides)');
+			}
+			for (const ride of rides) {
+				const floors = ride.dropoff !== undefined ? `${ride.pickup} → ${ride.dropoff}` : `${ride.pickup}`;
+				console.log(`${ride.id.padEnd(12)} ${floors.padEnd(10)} ${ride.status.padEnd(12)} ${ride.elevator ?? ''}`);
+			}
+			console.log('─'.repeat(60) + '\n');
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Failed to get rides: ${error.message}`);
+			} else {
+				this.logger.error('Failed to get rides: Unknown error');
+			}
+		}
+	}
+
+	private printTimeline(ride: Ride): void {
+		console.log(`\n${ride.id}:`);
+		console.log(`  Pickup:   ${ride.pickup}`);
+		console.log(`  Dropoff:  ${ride.dropoff ?? '(not known yet)'}`);
+		console.log(`  Elevator: ${ride.elevator ?? '(not assigned)'}`);
+		console.log(`  Status:   ${ride.status}`);
+
+		const steps: Array<[string, number | undefined]> = [
+			['Requested', ride.requestedAt],
+			['Assigned', ride.assignedAt],
+			['Picked up', ride.pickedUpAt],
+			['Dropped off', ride.droppedOffAt],
+			['Cancelled', ride.cancelledAt],
+		];
+		for (const [label, time] of steps) {
+			if (time !== undefined) {
+				const sinceRequest = ((time - ride.requestedAt) / 1000).toFixed(1);
+				console.log(`    ${label.padEnd(12)} ${new Date(time).toLocaleTimeString()} (+${sinceRequest}s)`);
+			}
+		}
+		console.log();
+	}
+}
@@ -2,16 +2,23 @@ import { Command } from 'commander';
 import { Application } from '../../../app/app';
 import { BaseCommand } from './CommandBase';
 import { Logger } from '../../../infra/logger/Logger';
+import { TrafficSimulator } from '../../../domain/simulation/TrafficSimulator';
+import { generateTraffic, getTrafficProfile, TRAFFIC_PROFILES } from '../../../domain/simulation/TrafficProfiles';
+import { RideMetrics } from '../../../domain/metrics/RideMetrics';
+import { isRideFinished } from '../../../domain/rides/RideTracker';
+import type { RideId } from '../../../domain/rides/types';
+import { printRideMetrics } from './CommandHelpers';
 
 /**
- * Command to simulate elevator traffic by generating random ride requests.
+ * Command to simulate elevator traffic by generating ride requests.
  * 
  * This command is useful for testing and demonstrating the elevator system
- * under load. It generates ride requests at random intervals over a specified
- * time period, simulating realistic elevator usage patterns.
+ * under load. It generates ride requests following a traffic profile (like the
+ * morning up-peak) over a specified time period. Runs with the same seed generate
+ * the same rides so they can be compared.
  */
 export class SimulateCommand extends BaseCommand {
-	private isRunning: boolean = false;
+	private simulator?: TrafficSimulator;
 	private completedRides: number = 0;
 	private failedRides: number = 0;
 
@@ -23,11 +30,13 @@ export class SimulateCommand extends BaseCommand {
 		program
 			.command('simulate')
 			.alias('sim')
-			.description('Simulate random elevator traffic')
-			.option('-n, --number <rides>', 'Number of rides to generate', '100')
+			.description('Simulate elevator traffic')
+			.option('-n, --number <rides>', 'Average number of rides to generate', '100')
 			.option('-t, --time <seconds>', 'Time period to spread rides over (in seconds)', '30')
+			.option('-p, --profile <profile>', `Traffic profile (${Object.keys(TRAFFIC_PROFILES).join(', ')})`, 'interfloor')
+			.option('--seed <seed>', 'Seed for the random traffic, the same seed gives the same rides (default: random)')
 			.option('-v, --verbose', 'Show each ride as it is added')
-			.option('-s, --stats', 'Show statistics at the end')
+			.option('-s, --stats', 'Show statistics and passenger metrics once all rides are done')
 			.action((options) => {
 				this.execute(options);
 			});
@@ -36,15 +45,16 @@ export class SimulateCommand extends BaseCommand {
 	/**
 	 * Execute the simulate command.
 	 * 
-	 * Generates random ride requests spread out over the specified time period.
-	 * Each ride has randomly selected pickup and dropoff floors within the
-	 * configured floor range.
+	 * Generates ride requests following a traffic profile over the specified time period and
+	 * plays them into the elevator service, see {@link generateTraffic()} and {@link TrafficSimulator}.
 	 * 
-	 * @param options - Command options including number of rides and time period
+	 * @param options - Command options including number of rides, time period, profile and seed
 	 */
 	private async execute(options: { 
 		number?: string; 
 		time?: string; 
+		profile?: string;
+		seed?: string;
 		verbose?: boolean;
 		stats?: boolean;
 	}): Promise<void> {
@@ -52,6 +62,7 @@ export class SimulateCommand extends BaseCommand {
 			// Parse and validate options
 			const numRides = parseInt(options.number || '100', 10);
 			const timeSeconds = parseInt(options.time || '30', 10);
+			const seed = options.seed !== undefined ? parseInt(options.seed, 10) : Math.floor(Math.random() * 2 ** 32);
 
 			if (isNaN(numRides) || numRides < 1) {
 				this.logger.error('Number of rides must be at least 1');
@@ -63,80 +74,66 @@ export class SimulateCommand extends BaseCommand {
 				return;
 			}
 
-			// Get floor range from configuration
-			const minFloor = this.app.elevatorService.options.MIN_FLOOR;
-			const maxFloor = this.app.elevatorService.options.MAX_FLOOR;
-			const floorRange = maxFloor - minFloor + 1;
+			if (isNaN(seed)) {
+				this.logger.error('Seed must be an integer');
+				return;
+			}
 
-			if (floorRange < 2) {
-				this.logger.error('Need at least 2 floors to simulate rides');
+			if (this.simulator?.isRunning()) {
+				this.logger.error('A simulation is already running');
 				return;
 			}
 
+			const profile = getTrafficProfile(options.profile ?? 'interfloor');
+			const traffic = generateTraffic(profile, {
+				...this.app.elevatorService.options,
+				seed,
+				duration: timeSeconds * 1000,
+				rides: numRides,
+			});
+
 			// Display simulation info
-			this.logger.info(`Starting simulation: ${numRides} rides over ${timeSeconds} seconds`);
-			this.logger.info(`Floor range: ${minFloor} to ${maxFloor}`);
+			const { MIN_FLOOR: minFloor, MAX_FLOOR: maxFloor } = this.app.elevatorService.options;
+			this.logger.info(`Starting simulation: ${traffic.length} rides over ${timeSeconds} seconds`);
+			this.logger.info(`Profile: ${profile.name} (${profile.description})`);
+			this.logger.info(`Floor range: ${minFloor} to ${maxFloor}, seed: ${seed}`);
 			
 			if (!options.verbose) {
 				this.logger.info('Generating rides... (use -v to see each ride)');
 			}
 
-			this.isRunning = true;
-			this.completedRides = 0;
-			this.failedRides = 0;
-
-			// Calculate time intervals for each ride
-			// Spread rides randomly across the time period
-			const timeMs = timeSeconds * 1000;
-			const rideTimestamps = this.generateRideTimestamps(numRides, timeMs);
-
-			// Schedule all the rides
-			const startTime = Date.now();
-			
-			for (let i = 0; i < numRides; i++) {
-				if (!this.isRunning) break;
-
-				const delay = rideTimestamps[i];
-				
-				// Wait until it's time for this ride
-				await this.sleep(delay - (Date.now() - startTime));
-
-				// Generate random pickup and dropoff floors
-				const pickup = this.randomFloor(minFloor, maxFloor);
-				let dropoff = this.randomFloor(minFloor, maxFloor);
-				
-				// Ensure pickup and dropoff are different
-				while (dropoff === pickup && floorRange > 1) {
-					dropoff = this.randomFloor(minFloor, maxFloor);
-				}
-
-				// Add the ride
-				try {
-					const elevatorId = await this.app.elevatorService.addRide(pickup, dropoff);
-					this.completedRides++;
-					
-					if (options.verbose) {
-						this.logger.info(`[${this.completedRides}/${numRides}] Ride ${pickup}→${dropoff} assigned to ${elevatorId.replace('Elevator', '')}`);
-					}
-				} catch (error) {
-					this.failedRides++;
-					if (options.verbose) {
-						this.logger.error(`Failed to add ride ${pickup}→${dropoff}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-					}
-				}
+			// Play the rides into the elevator service
+			const simulator = new TrafficSimulator(this.app.elevatorService, undefined, this.app.clock);
+			this.simulator = simulator;
+			const added = new Set<RideId>();
+			simulator.on('added', ({ ride }) => added.add(ride.id));
+			if (options.verbose) {
+				simulator.on('added', ({ request, ride }) => {
+					this.logger.info(`[${ride.id}] ${request.pickup}→${request.dropoff} assigned to ${ride.elevator?.replace('Elevator', '')}`);
+				});
+				simulator.on('failed', ({ request, error }) => {
+					this.logger.error(`Failed to add ride ${request.pickup}→${request.dropoff}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				});
 			}
+			const metrics = options.stats ? new RideMetrics(this.app.elevatorService, this.app.clock) : undefined;
+			const summary = await simulator.run(traffic);
+			this.completedRides = summary.added;
+			this.failedRides = summary.failed;
 
 			// Show completion message
-			this.logger.info(`Simulation complete: ${this.completedRides} rides added, ${this.failedRides} failed`);
+			this.logger.info(`Simulation ${summary.stopped ? 'stopped' : 'complete'}: ${this.completedRides} rides added, ${this.failedRides} failed`);
 
-			// Show statistics if requested
-			if (options.stats) {
+			// Show statistics if requested, once every passenger has arrived
+			if (metrics) {
+				this.logger.info('Waiting for the last rides to finish...');
+				await this.waitForRides(added);
+				metrics.stop();
 				this.showStatistics();
+				printRideMetrics(metrics.getReport());
 			}
 
 		} catch (error) {
 			// Handle errors gracefully
-			this.isRunning = false;
 			if (error instanceof Error) {
 				this.logger.error(`Simulation failed: ${error.message}`);
 			} else {
@@ -146,47 +143,26 @@ export class SimulateCommand extends BaseCommand {
 	}
 
 	/**
-	 * Generate random timestamps for when each ride should be added.
-	 * 
-	 * This spreads the rides out randomly across the time period, simulating
-	 * realistic traffic patterns.
+	 * Wait until rides have been dropped off, cancelled or picked up without a dropoff.
 	 * 
-	 * @param numRides - Number of rides to generate
-	 * @param timeMs - Total time period in milliseconds
-	 * @returns Sorted array of timestamps (relative to start time)
+	 * @param ids - The rides to wait for
+	 * @returns Promise that resolves once none of them are in progress
 	 */
-	private generateRideTimestamps(numRides: number, timeMs: number): number[] {
-		const timestamps: number[] = [];
-		
-		// Generate random timestamps
-		for (let i = 0; i < numRides; i++) {
-			timestamps.push(Math.random() * timeMs);
-		}
-		
-		// Sort so we can schedule them in order
-		return timestamps.sort((a, b) => a - b);
-	}
-
-	/**
-	 * Generate a random floor number within the given range (inclusive).
-	 * 
-	 * @param min - Minimum floor number
-	 * @param max - Maximum floor number
-	 * @returns Random floor number
-	 */
-	private randomFloor(min: number, max: number): number {
-		return Math.floor(Math.random() * (max - min + 1)) + min;
-	}
-
-	/**
-	 * Sleep for a specified number of milliseconds.
-	 * 
-	 * @param ms - Number of milliseconds to sleep
-	 * @returns Promise that resolves after the delay
-	 */
-	private sleep(ms: number): Promise<void> {
-		if (ms <= 0) return Promise.resolve();
-		return new Promise(resolve => setTimeout(resolve, ms));
+	private waitForRides(ids: Set<RideId>): Promise<void> {
+		const service = this.app.elevatorService;
+		//Rides which aren't listed anymore have been forgotten, which only happens once they're finished
+		const pending = new Set(service.listRides().filter(ride => ids.has(ride.id) && !isRideFinished(ride)).map(ride => ride.id));
+		return new Promise(resolve => {
+			if (pending.size === 0) {
+				return resolve();
+			}
+			const unsubscribe = service.listen('ride', ({ ride }) => {
+				if (isRideFinished(ride) && pending.delete(ride.id) && pending.size === 0) {
+					unsubscribe();
+					resolve();
+				}
+			});
+		});
 	}
 
 	/**
@@ -206,7 +182,10 @@ export class SimulateCommand extends BaseCommand {
 		const movingCount = elevatorIds.filter(id => 
 			states[id].type === 'movingUp' || states[id].type === 'movingDown'
 		).length;
-		const doorsOpenCount = elevatorIds.filter(id => states[id].type === 'doorsOpen').length;
+		const doorsOpenCount = elevatorIds.filter(id =>
+			states[id].type === 'doorsOpening' || states[id].type === 'doorsOpen' || states[id].type === 'doorsClosing' || states[id].type === 'doorsHeldOpen'
+		).length;
+		const stoppedCount = elevatorIds.filter(id => states[id].type === 'stopped').length;
 		const totalQueuedStops = elevatorIds.reduce((sum, id) => sum + buttons[id].length, 0);
 
 		console.log(`\nRides:`);
@@ -218,6 +197,9 @@ export class SimulateCommand extends BaseCommand {
 		console.log(`  Idle:              ${idleCount}`);
 		console.log(`  Moving:            ${movingCount}`);
 		console.log(`  Doors Open:        ${doorsOpenCount}`);
+		if (stoppedCount > 0) {
+			console.log(`  Stopped:           ${stoppedCount}`);
+		}
 
 		console.log(`\nQueue:`);
 		console.log(`  Total Queued Stops: ${totalQueuedStops}`);
@@ -238,7 +220,7 @@ export class SimulateCommand extends BaseCommand {
 	 * Stop the simulation.
 	 */
 	stop(): void {
-		this.isRunning = false;
+		this.simulator?.stop();
 	}
 }
 
@@ -2,8 +2,10 @@ import { Command } from 'commander';
 import { Application } from '../../../app/app';
 import { BaseCommand } from './CommandBase';
 import { ElevatorStates } from '../../../domain/elevator/types';
+import { ElevatorLoad } from '../../../domain/elevator/Capacity';
 import { Logger } from '../../../infra/logger/Logger';
-import { normalizeElevatorId, getElevatorNotFoundMessage } from './CommandHelpers';
+import { normalizeElevatorId } from '../../shared/ids';
+import { getElevatorNotFoundMessage } from './CommandHelpers';
 
 /**
  * Command to get detailed status information about one or all elevators.
@@ -12,6 +14,8 @@ import { normalizeElevatorId, getElevatorNotFoundMessage } from './CommandHelper
  * - Current state type (idle, moving, doors opening, etc.)
  * - Current floor position
  * - Queued floor stops
+ * - Load (passengers on board and whether the car is full)
+ * - Whether it's in service, see the maintenance command
  * - State timing information
  */
 export class StatusCommand extends BaseCommand {
@@ -63,13 +67,15 @@ export class StatusCommand extends BaseCommand {
 				try {
 					const state = this.app.elevatorService.getElevatorState(id);
 					const buttons = this.app.elevatorService.getPushedButtons(id);
-					return { id, state, buttons, error: null };
+					const maintenance = this.app.elevatorService.getMaintenance(id);
+					return { id, state, buttons, maintenance, error: null };
 				} catch (error) {
 					// Handle per-elevator errors gracefully
 					return {
 						id,
 						state: null,
 						buttons: null,
+						maintenance: null,
 						error: error instanceof Error ? error.message : 'Unknown error'
 					};
 				}
@@ -77,7 +83,7 @@ export class StatusCommand extends BaseCommand {
 
 			// JSON mode: output structured data
 			if (options.json) {
-				const output = statuses.map(({ id, state, buttons, error }) => {
+				const output = statuses.map(({ id, state, buttons, maintenance, error }) => {
 					if (error) {
 						return { id, error };
 					}
@@ -95,6 +101,8 @@ export class StatusCommand extends BaseCommand {
 							startTime: state!.startTime,
 							...this.getStateSpecificFields(state!)
 						},
+						load: state!.load,
+						maintenance,
 						queuedStops: buttons
 					};
 				});
@@ -103,7 +111,7 @@ export class StatusCommand extends BaseCommand {
 			}
 
 			// Default mode: pretty formatted output
-			for (const { id, state, buttons, error } of statuses) {
+			for (const { id, state, buttons, maintenance, error } of statuses) {
 				console.log('\n' + '═'.repeat(70));
 				console.log(`Elevator: ${id}`);
 				console.log('═'.repeat(70));
@@ -126,11 +134,14 @@ export class StatusCommand extends BaseCommand {
 				}
 
 				console.log(`Start Time:   ${new Date(state!.startTime).toISOString()}`);
-				console.log(`Duration:     ${Date.now() - state!.startTime}ms`);
+				console.log(`Duration:     ${this.app.clock.now() - state!.startTime}ms`);
 
 				// Display state-specific fields
 				this.displayStateSpecificFields(state!);
 
+				console.log(`Load:         ${this.formatLoad(state!.load)}`);
+				console.log(`Service:      ${maintenance!.status}` + (maintenance!.parkAt !== undefined ? ` (parking at floor ${maintenance!.parkAt})` : ''));
+
 				// Display queued stops
 				console.log(`\nQueued Stops: ${buttons!.length > 0 ? buttons!.join(', ') : '(none)'}`);
 			}
@@ -167,10 +178,24 @@ export class StatusCommand extends BaseCommand {
 		if ('willClose' in state) {
 			fields.willClose = state.willClose;
 		}
+		if ('reason' in state) {
+			fields.reason = state.reason;
+		}
 
 		return fields;
 	}
 
+	/**
+	 * Format the load of a car, e.g. `6/8 passengers (450kg)`, with the limits it has and whether it's full.
+	 * 
+	 * @param load - The load of the car
+	 */
+	private formatLoad(load: ElevatorLoad): string {
+		const passengers = load.capacity !== undefined ? `${load.passengers}/${load.capacity}` : `${load.passengers}`;
+		const kg = load.ratedLoad !== undefined ? `${load.kg}/${load.ratedLoad}kg` : `${load.kg}kg`;
+		return `${passengers} passengers (${kg})` + (load.full ? ' FULL' : '');
+	}
+
 	/**
 	 * Display state-specific fields in a human-readable format.
 	 * Only displays timing-related fields, not structural fields like floor numbers
@@ -182,15 +207,18 @@ export class StatusCommand extends BaseCommand {
 		// Display timing fields specific to the current state type
 		if ('dueTime' in state && typeof state.dueTime === 'number') {
 			console.log(`Due Time:     ${new Date(state.dueTime).toISOString()}`);
-			console.log(`Time to Due:  ${Math.max(0, state.dueTime - Date.now())}ms`);
+			console.log(`Time to Due:  ${Math.max(0, state.dueTime - this.app.clock.now())}ms`);
 		}
 		if ('willArrive' in state && typeof state.willArrive === 'number') {
 			console.log(`Will Arrive:  ${new Date(state.willArrive).toISOString()}`);
-			console.log(`Time to Arr:  ${Math.max(0, state.willArrive - Date.now())}ms`);
+			console.log(`Time to Arr:  ${Math.max(0, state.willArrive - this.app.clock.now())}ms`);
 		}
 		if ('willClose' in state && typeof state.willClose === 'number') {
 			console.log(`Will Close:   ${new Date(state.willClose).toISOString()}`);
-			console.log(`Time to Cls:  ${Math.max(0, state.willClose - Date.now())}ms`);
+			console.log(`Time to Cls:  ${Math.max(0, state.willClose - this.app.clock.now())}ms`);
+		}
+		if ('reason' in state) {
+			console.log(`Stopped By:   ${state.reason === 'stuck' ? 'watchdog (stuck)' : state.reason === 'commLoss' ? 'lost connection to the car' : 'emergency stop'}`);
 		}
 	}
 }
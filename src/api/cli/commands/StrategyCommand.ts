@@ -0,0 +1,83 @@
+import { Command } from 'commander';
+import { Application } from '../../../app/app';
+import { BaseCommand } from './CommandBase';
+import { Logger } from '../../../infra/logger/Logger';
+import { normalizeElevatorId } from '../../shared/ids';
+import { getElevatorNotFoundMessage } from './CommandHelpers';
+
+/**
+ * Command to show which travel strategy each elevator uses, or swap the strategy of a running
+ * elevator. The elevator keeps its route, only the order it visits the floors in may change.
+ */
+export class StrategyCommand extends BaseCommand {
+
+	constructor(private readonly app: Application, logger?: Logger) {
+		super(logger);
+	}
+
+	register(program: Command): void {
+		program
+			.command('strategy')
+			.alias('st')
+			.description('Show the strategy of the elevators or change the strategy of one')
+			.argument('[elevator-id]', 'Elevator ID (e.g., #1, 2, or Elevator#3)')
+			.argument('[name]', `Strategy to change to (${this.app.strategies.names().join(', ')})`)
+			.option('-j, --json', 'Output in JSON format')
+			.action((elevatorId: string | undefined, name: string | undefined, options) => {
+				this.execute(elevatorId, name, options);
+			});
+	}
+
+	/**
+	 * Execute the strategy command.
+	 * 
+	 * @param elevatorId - Optional elevator to show or change, or undefined for all
+	 * @param name - Optional strategy to change the elevator to
+	 * @param options - Command options for output formatting
+	 */
+	private execute(elevatorId: string | undefined, name: string | undefined, options: { json?: boolean }): void {
+		try {
+			const service = this.app.elevatorService;
+			let ids = service.listElevators();
+			if (elevatorId !== undefined) {
+				// Normalize the elevator ID (supports shorthand like "#1" or "1")
+				const normalizedId = normalizeElevatorId(elevatorId, service);
+				if (!normalizedId) {
+					this.logger.error(getElevatorNotFoundMessage(elevatorId, service));
+					return;
+				}
+				ids = [normalizedId];
+
+				if (name !== undefined) {
+					const strategy = service.changeStrategy(normalizedId, this.app.strategies.get(name));
+					if (!options.json) {
+						this.logger.info(`✓ ${normalizedId} now uses ${strategy}`);
+						return;
+					}
+				}
+			}
+
+			const strategies = Object.fromEntries(ids.map(id => [id, service.getStrategy(id)]));
+			if (options.json) {
+				console.log(JSON.stringify({ strategies, available: this.app.strategies.names() }, null, 2));
+				return;
+			}
+
+			console.log('\nStrategies:');
+			console.log('─'.repeat(60));
+			for (const [id, strategy] of Object.entries(strategies)) {
+				console.log(`${id.padEnd(14)} ${strategy}`);
+			}
+			console.log('─'.repeat(60));
+			console.log(`Available: ${this.app.strategies.names().join(', ')}\n`);
+
+		} catch (error) {
+			// Handle errors gracefully and provide helpful feedback
+			if (error instanceof Error) {
+				this.logger.error(`Failed to ${name !== undefined ? 'change' : 'get'} strategy: ${error.message}`);
+			} else {
+				this.logger.error(`Failed to ${name !== undefined ? 'change' : 'get'} strategy: Unknown error`);
+			}
+		}
+	}
+}
@@ -3,7 +3,8 @@ import { Application } from '../../../app/app';
 import { BaseCommand } from './CommandBase';
 import { ElevatorStateChangeEvent } from '../../../domain/elevator/types';
 import { Logger } from '../../../infra/logger/Logger';
-import { normalizeElevatorId, getElevatorNotFoundMessage } from './CommandHelpers';
+import { normalizeElevatorId } from '../../shared/ids';
+import { getElevatorNotFoundMessage } from './CommandHelpers';
 import { AggregatedElevatorStateChangeEvents, ElevatorAvailabilityEvent } from '../../../domain/services/types';
 
 /**
@@ -26,7 +27,7 @@ export class WatchCommand extends BaseCommand {
 			.alias('w')
 			.description('Watch elevator events in real-time (Ctrl+C to stop)')
 			.argument('[elevator-id]', 'Specific elevator ID to watch (e.g., #1, 2, or Elevator#3)')
-			.option('-a, --availability', 'Watch elevator availability events (add/remove)')
+			.option('-a, --availability', 'Watch elevator availability events (add/remove/maintenance)')
 			.option('-q, --quiet', 'Show only state changes, no extra details')
 			.action((elevatorId: string | undefined, options) => {
 				this.execute(elevatorId, options);
@@ -147,7 +148,7 @@ export class WatchCommand extends BaseCommand {
 	}
 
 	/**
-	 * Display an availability event (elevator added or removed).
+	 * Display an availability event (elevator added, removed, taken out of or put back into service, or stopped and reset).
 	 * 
 	 * @param event - The availability event
 	 */
@@ -166,6 +167,17 @@ export class WatchCommand extends BaseCommand {
 			);
 		} else if (event.type === 'removed') {
 			console.log(`[${timestamp}] ⊖ Elevator ${event.elevator} removed`);
+		} else if (event.type === 'draining') {
+			const parkInfo = event.parkAt !== undefined ? `, parking at floor ${event.parkAt}` : '';
+			console.log(`[${timestamp}] ⚠ Elevator ${event.elevator} taken out of service (finishing rides${parkInfo})`);
+		} else if (event.type === 'outOfService') {
+			console.log(`[${timestamp}] ⛔ Elevator ${event.elevator} out of service at floor ${event.atFloor}`);
+		} else if (event.type === 'inService') {
+			console.log(`[${timestamp}] ✔ Elevator ${event.elevator} back in service`);
+		} else if (event.type === 'stopped') {
+			console.log(`[${timestamp}] 🛑 Elevator ${event.elevator} stopped (${event.reason === 'stuck' ? 'stuck' : event.reason === 'commLoss' ? 'lost connection' : 'emergency stop'})`);
+		} else if (event.type === 'reset') {
+			console.log(`[${timestamp}] ✔ Elevator ${event.elevator} reset`);
 		}
 	}
 }
@@ -4,12 +4,25 @@ import { HealthCommand } from './commands/HealthCommand';
 import { ExitCommand } from './commands/ExitCommand';
 import { HelpCommand } from './commands/HelpCommand';
 import { AddRideCommand } from './commands/AddRideCommand';
+import { RidesCommand } from './commands/RidesCommand';
+import { CancelRideCommand } from './commands/CancelRideCommand';
+import { ClearButtonCommand } from './commands/ClearButtonCommand';
+import { ReoptimizeCommand } from './commands/ReoptimizeCommand';
+import { StrategyCommand } from './commands/StrategyCommand';
+import { MaintenanceCommand } from './commands/MaintenanceCommand';
+import { FireCommand } from './commands/FireCommand';
+import { FirefighterCommand } from './commands/FirefighterCommand';
+import { EmergencyStopCommand } from './commands/EmergencyStopCommand';
 import { ListElevatorsCommand } from './commands/ListElevatorsCommand';
 import { StatusCommand } from './commands/StatusCommand';
 import { ButtonsCommand } from './commands/ButtonsCommand';
 import { WatchCommand } from './commands/WatchCommand';
 import { InfoCommand } from './commands/InfoCommand';
 import { SimulateCommand } from './commands/SimulateCommand';
+import { MetricsCommand } from './commands/MetricsCommand';
+import { BenchmarkCommand } from './commands/BenchmarkCommand';
+import { RecordCommand } from './commands/RecordCommand';
+import { ReplayCommand } from './commands/ReplayCommand';
 import { LogCommand } from './commands/LogCommand';
 import { Logger } from '../../infra/logger/Logger';
 import { Application } from '../../app/app';
@@ -42,12 +55,25 @@ export class CliApi {
 
 		// Elevator service commands
 		(new AddRideCommand(this.app, this.logger)).register(this.cli);
+		(new RidesCommand(this.app, this.logger)).register(this.cli);
+		(new CancelRideCommand(this.app, this.logger)).register(this.cli);
+		(new ClearButtonCommand(this.app, this.logger)).register(this.cli);
+		(new ReoptimizeCommand(this.app, this.logger)).register(this.cli);
+		(new StrategyCommand(this.app, this.logger)).register(this.cli);
+		(new MaintenanceCommand(this.app, this.logger)).register(this.cli);
+		(new FireCommand(this.app, this.logger)).register(this.cli);
+		(new FirefighterCommand(this.app, this.logger)).register(this.cli);
+		(new EmergencyStopCommand(this.app, this.logger)).register(this.cli);
 		(new ListElevatorsCommand(this.app, this.logger)).register(this.cli);
 		(new StatusCommand(this.app, this.logger)).register(this.cli);
 		(new ButtonsCommand(this.app, this.logger)).register(this.cli);
 		(new WatchCommand(this.app, this.logger)).register(this.cli);
 		(new InfoCommand(this.app, this.logger)).register(this.cli);
 		(new SimulateCommand(this.app, this.logger)).register(this.cli);
+		(new MetricsCommand(this.app, this.logger)).register(this.cli);
+		(new BenchmarkCommand(this.app, this.logger)).register(this.cli);
+		(new RecordCommand(this.app, this.logger)).register(this.cli);
+		(new ReplayCommand(this.app, this.logger)).register(this.cli);
 	}
 
 
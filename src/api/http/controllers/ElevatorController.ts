@@ -0,0 +1,154 @@
+import { NextFunction, Request, Response } from 'express';
+import { ElevatorService } from '../../../domain/services/ElevatorService';
+import { StrategyRegistry } from '../../../domain/strategies/StrategyRegistry';
+import { ValidationError } from '../../../domain/errors/ValidationErrors';
+import { normalizeElevatorId } from '../../shared/ids';
+
+/**
+ * Endpoints exposing the elevators of the live {@link ElevatorService}.
+ */
+export class ElevatorController {
+	constructor(private readonly elevatorService: ElevatorService, private readonly strategies: StrategyRegistry) { }
+
+	/**
+	 * Accept the same shorthand ids as the CLI (`1`, `#1`, `Elevator#1`). Unknown ids are passed on
+	 * as-is so the service can reject them with an {@link ElevatorNotFoundError}.
+	 */
+	private resolveId(req: Request): string {
+		return normalizeElevatorId(req.params.id, this.elevatorService) ?? req.params.id;
+	}
+
+	listElevators = (_req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const states = this.elevatorService.getAllElevatorStates();
+			const buttons = this.elevatorService.getAllPushedButtons();
+			res.json(this.elevatorService.listElevators().map(id => ({ id, state: states[id], buttons: buttons[id] })));
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getElevator = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			res.json({
+				id,
+				state: this.elevatorService.getElevatorState(id),
+				buttons: this.elevatorService.getPushedButtons(id),
+				strategy: this.elevatorService.getStrategy(id),
+				servedFloors: this.elevatorService.getServedFloors(id),
+				maintenance: this.elevatorService.getMaintenance(id),
+			});
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getButtons = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			res.json({ id, buttons: this.elevatorService.getPushedButtons(id) });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Un-push a button. Rides waiting on that floor are cancelled. Responds with `removed: false` if
+	 * the button wasn't pushed, so it's safe to repeat.
+	 */
+	removeButton = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			const floor = Number(req.params.floor); //validated by the service
+			const removed = this.elevatorService.removeButton(id, floor);
+			res.json({ id, floor, removed, buttons: this.elevatorService.getPushedButtons(id) });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getStrategy = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			res.json({ id, strategy: this.elevatorService.getStrategy(id), available: this.strategies.names() });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Swap the strategy of a running elevator, given as `{ name }`. Unknown strategies are rejected
+	 * with a {@link ValidationError}.
+	 */
+	changeStrategy = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			const name = req.body?.name;
+			if (typeof name !== 'string') {
+				throw new ValidationError(name, 'Expected the name of a strategy');
+			}
+			res.json({ id, strategy: this.elevatorService.changeStrategy(id, this.strategies.get(name)) });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	getMaintenance = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			res.json({ id, ...this.elevatorService.getMaintenance(id) });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Take an elevator out of service or put it back, given as `{ enabled, parkAt? }` where `enabled` turns
+	 * maintenance mode on. Responds with the rides which were handed off to other elevators.
+	 */
+	changeMaintenance = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = this.resolveId(req);
+			const { enabled, parkAt } = req.body ?? {};
+			if (typeof enabled !== 'boolean') {
+				throw new ValidationError(enabled, 'Expected enabled to be true or false');
+			}
+			if (!enabled) {
+				this.elevatorService.endMaintenance(id);
+				res.json({ id, ...this.elevatorService.getMaintenance(id), handoffs: [] });
+				return;
+			}
+			const handoffs = await this.elevatorService.startMaintenance(id, parkAt); //validated by the service
+			res.json({ id, ...this.elevatorService.getMaintenance(id), handoffs });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Stop an elevator where it is. Responds with its state and the rides which were handed off to other elevators.
+	 */
+	emergencyStop = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const id = this.resolveId(req);
+			const handoffs = await this.elevatorService.emergencyStop(id);
+			res.json({ id, state: this.elevatorService.getElevatorState(id), handoffs });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Get a stopped elevator going again.
+	 */
+	reset = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			this.elevatorService.resetElevator(id);
+			res.json({ id, state: this.elevatorService.getElevatorState(id) });
+		} catch (error) {
+			next(error);
+		}
+	};
+}
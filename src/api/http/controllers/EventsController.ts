@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response } from 'express';
+import { ElevatorService } from '../../../domain/services/ElevatorService';
+import type { ElevatorServiceEventMap } from '../../../domain/services/types';
+import { ValidationError } from '../../../domain/errors/ValidationErrors';
+import { normalizeElevatorId } from '../../shared/ids';
+import { SseStream } from '../sse/SseStream';
+
+/**
+ * The event types which can be streamed, see {@link ElevatorServiceEventMap}.
+ */
+export const STREAMABLE_EVENT_TYPES = ['state', 'buttons', 'availability', 'ride', 'fire'] as const;
+export type StreamableEventType = typeof STREAMABLE_EVENT_TYPES[number];
+
+const DEFAULT_HEARTBEAT_MS = 15000;
+const MIN_HEARTBEAT_MS = 1000;
+
+/**
+ * Streams events from the live {@link ElevatorService} to clients as Server-Sent Events.
+ *
+ * Query parameters:
+ *  - `types` - Optional. Comma separated list of {@link STREAMABLE_EVENT_TYPES}, defaults to all of them.
+ *  - `heartbeat` - Optional. Milliseconds between heartbeat comments, 0 disables them. Defaults to 15s.
+ */
+export class EventsController {
+	constructor(private readonly elevatorService: ElevatorService) { }
+
+	/**
+	 * Stream events from all elevators.
+	 */
+	streamAll = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			this.stream(req, res);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Stream events concerning a single elevator (its state changes, its buttons, its availability, its rides and
+	 * fire events for the whole bank).
+	 */
+	streamElevator = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = normalizeElevatorId(req.params.id, this.elevatorService) ?? req.params.id;
+			this.elevatorService.getElevatorState(id); //throws ElevatorNotFoundError before we send any headers
+			this.stream(req, res, id);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	private stream(req: Request, res: Response, elevatorId?: string): void {
+		//Parse everything before opening the stream so errors can still be sent as regular responses
+		const types = this.parseTypes(req.query.types);
+		const heartbeat = this.parseHeartbeat(req.query.heartbeat);
+
+		const stream = new SseStream(req, res, heartbeat);
+		for (const type of types) {
+			const stop = this.elevatorService.listen(type, (event: ElevatorServiceEventMap[typeof type]) => {
+				//Fire events without an elevator, i.e. a recall or reset, concern the whole bank and thus this elevator too
+				if (elevatorId === undefined || event.elevator === elevatorId || (type === 'fire' && event.elevator === undefined)) {
+					stream.send(type, event);
+				}
+			});
+			stream.onClose(stop);
+		}
+	}
+
+	private parseTypes(raw: unknown): StreamableEventType[] {
+		if (raw === undefined || raw === '') {
+			return [...STREAMABLE_EVENT_TYPES];
+		}
+		const types = [...new Set(String(raw).split(',').map(type => type.trim()))]; //each type is only streamed once
+		for (const type of types) {
+			if (!(STREAMABLE_EVENT_TYPES as readonly string[]).includes(type)) {
+				throw new ValidationError(type, `Unknown event type '${type}'. Expected one of: ${STREAMABLE_EVENT_TYPES.join(', ')}`);
+			}
+		}
+		return types as StreamableEventType[];
+	}
+
+	private parseHeartbeat(raw: unknown): number {
+		if (raw === undefined || raw === '') {
+			return DEFAULT_HEARTBEAT_MS;
+		}
+		const heartbeat = Number(raw);
+		if (!Number.isInteger(heartbeat) || (heartbeat !== 0 && heartbeat < MIN_HEARTBEAT_MS)) {
+			throw new ValidationError(raw, `Heartbeat must be 0 (disabled) or an integer of at least ${MIN_HEARTBEAT_MS}ms`);
+		}
+		return heartbeat;
+	}
+}
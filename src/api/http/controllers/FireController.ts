@@ -0,0 +1,105 @@
+import { NextFunction, Request, Response } from 'express';
+import { ElevatorService } from '../../../domain/services/ElevatorService';
+import { ValidationError } from '../../../domain/errors/ValidationErrors';
+import { normalizeElevatorId } from '../../shared/ids';
+
+/**
+ * Endpoints for the fire alarm input and firefighters driving the elevators of the live {@link ElevatorService},
+ * see {@link ElevatorService.startFireRecall()}.
+ */
+export class FireController {
+	constructor(private readonly elevatorService: ElevatorService) { }
+
+	/**
+	 * Accept the same shorthand ids as the CLI, see {@link ElevatorController}.
+	 */
+	private resolveId(req: Request): string {
+		return normalizeElevatorId(req.params.id, this.elevatorService) ?? req.params.id;
+	}
+
+	getStatus = (_req: Request, res: Response, next: NextFunction): void => {
+		try {
+			res.json(this.elevatorService.getFireService());
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Raise or reset the fire alarm, given as `{ active, alarmFloors? }`. Raising it again adds the alarm floors.
+	 */
+	changeAlarm = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const { active, alarmFloors } = req.body ?? {};
+			if (typeof active !== 'boolean') {
+				throw new ValidationError(active, 'Expected active to be true or false');
+			}
+			if (alarmFloors !== undefined && !Array.isArray(alarmFloors)) {
+				throw new ValidationError(alarmFloors, 'Expected alarmFloors to be a list of floors');
+			}
+			if (active) {
+				this.elevatorService.startFireRecall(alarmFloors); //floors validated by the service
+			} else {
+				this.elevatorService.endFireRecall();
+			}
+			res.json(this.elevatorService.getFireService());
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Hand a recalled elevator over to a firefighter or take it back, given as `{ enabled }`.
+	 */
+	changeFirefighter = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			const enabled = req.body?.enabled;
+			if (typeof enabled !== 'boolean') {
+				throw new ValidationError(enabled, 'Expected enabled to be true or false');
+			}
+			if (enabled) {
+				this.elevatorService.startFirefighterOperation(id);
+			} else {
+				this.elevatorService.endFirefighterOperation(id);
+			}
+			res.json({ id, fireService: this.elevatorService.getFireService().elevators[id] ?? null });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Send an elevator under firefighter operation to a floor, given as `{ floor }`.
+	 */
+	sendFirefighter = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			this.elevatorService.sendFirefighterTo(id, req.body?.floor); //validated by the elevator
+			res.json({ id, fireService: this.elevatorService.getFireService().elevators[id] ?? null });
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Hold a door button of an elevator under firefighter operation, given as `{ button }` where the button is
+	 * `open` or `close`, or let go of it with `null`. The doors only keep moving while the button is held.
+	 */
+	holdDoorButton = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const id = this.resolveId(req);
+			const button = req.body?.button;
+			if (button === null) {
+				this.elevatorService.releaseDoorButton(id);
+			} else if (button === 'open' || button === 'close') {
+				this.elevatorService.pressDoorButton(id, button);
+			} else {
+				throw new ValidationError(button, 'Expected button to be open, close or null');
+			}
+			res.json({ id, state: this.elevatorService.getElevatorState(id) });
+		} catch (error) {
+			next(error);
+		}
+	};
+}
@@ -1,13 +1,13 @@
 import { Request, Response } from 'express';
-import { HealthCheckUseCase } from '../../../app/health/HealthService';
+import { HealthService } from '../../../app/health/HealthService';
 
 export class HealthController {
-	constructor(private readonly healthCheckUseCase: HealthCheckUseCase) { }
+	constructor(private readonly healthService: HealthService) { }
 
 	getHealth = (_req: Request, res: Response): void => {
 		try {
-			const healthStatus = this.healthCheckUseCase.execute();
-			res.status(200).json(healthStatus.toJSON());
+			const healthy = this.healthService.isHealthy();
+			res.status(healthy ? 200 : 503).json({ healthy, ...this.healthService.getSystemHealth() });
 		} catch (error) {
 			res.status(500).json({
 				status: 'error',
@@ -16,4 +16,3 @@ export class HealthController {
 		}
 	};
 }
-
@@ -0,0 +1,33 @@
+import { NextFunction, Request, Response } from 'express';
+import { RideMetrics } from '../../../domain/metrics/RideMetrics';
+
+/**
+ * Endpoints for the passenger metrics of the live application, see {@link RideMetrics}.
+ */
+export class MetricsController {
+	constructor(private readonly rideMetrics: RideMetrics) { }
+
+	/**
+	 * Wait, in-car and journey times since the measuring period started, bank-wide and per elevator.
+	 */
+	getMetrics = (_req: Request, res: Response, next: NextFunction): void => {
+		try {
+			res.json(this.rideMetrics.getReport());
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Start a new measuring period and respond with the report of the one which ended.
+	 */
+	reset = (_req: Request, res: Response, next: NextFunction): void => {
+		try {
+			const report = this.rideMetrics.getReport();
+			this.rideMetrics.reset();
+			res.json(report);
+		} catch (error) {
+			next(error);
+		}
+	};
+}
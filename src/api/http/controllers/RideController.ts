@@ -0,0 +1,69 @@
+import { NextFunction, Request, Response } from 'express';
+import { ElevatorService } from '../../../domain/services/ElevatorService';
+import { normalizeRideId } from '../../shared/ids';
+
+/**
+ * Endpoints for requesting rides from the live {@link ElevatorService}.
+ */
+export class RideController {
+	constructor(private readonly elevatorService: ElevatorService) { }
+
+	/**
+	 * Request a ride. Expects a JSON body `{ pickup: number, dropoff?: number, direction?: 'up' | 'down' }` and
+	 * responds with the new ride, including its id and the elevator which was assigned. Floors and direction are
+	 * validated by the service itself.
+	 */
+	addRide = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			const { pickup, dropoff, direction } = req.body ?? {};
+			const ride = await this.elevatorService.addRide(pickup, dropoff, direction);
+			res.status(201).location(`${req.baseUrl}/${encodeURIComponent(ride.id)}`).json(ride);
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Run a re-optimisation pass now and respond with the rides which were moved.
+	 */
+	reoptimize = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+		try {
+			res.json(await this.elevatorService.reoptimize());
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * All rides in progress and the most recently finished ones.
+	 */
+	listRides = (_req: Request, res: Response, next: NextFunction): void => {
+		try {
+			res.json(this.elevatorService.listRides());
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * A single ride. Accepts shorthand ids like `/rides/12` for `Ride#12`.
+	 */
+	getRide = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			res.json(this.elevatorService.getRide(normalizeRideId(req.params.id)));
+		} catch (error) {
+			next(error);
+		}
+	};
+
+	/**
+	 * Cancel a ride which hasn't finished yet and respond with the cancelled ride.
+	 */
+	cancelRide = (req: Request, res: Response, next: NextFunction): void => {
+		try {
+			res.json(this.elevatorService.cancelRide(normalizeRideId(req.params.id)));
+		} catch (error) {
+			next(error);
+		}
+	};
+}
@@ -0,0 +1,114 @@
+import type { NextFunction } from 'express';
+import { Elevator } from '../../../../domain/elevator/Elevator';
+import { ElevatorNotFoundError } from '../../../../domain/errors/DomainErrors';
+import { ValidationError } from '../../../../domain/errors/ValidationErrors';
+import { ElevatorService } from '../../../../domain/services/ElevatorService';
+import { InsertOrder } from '../../../../domain/strategies/InsertOrder';
+import { VirtualClock } from '../../../../infra/clock/VirtualClock';
+import { AppOptions, defaultOptions } from '../../../../options';
+import { mockSseConnection } from '../../sse/__tests__/mockSseConnection';
+import { EventsController, STREAMABLE_EVENT_TYPES } from '../EventsController';
+
+const options: AppOptions = { ...defaultOptions, MIN_FLOOR: 0, MAX_FLOOR: 10, INITIAL_FLOOR: 0, USE_FREE_FIRST: true };
+
+describe('EventsController', () => {
+	let service: ElevatorService;
+	let controller: EventsController;
+	let next: jest.Mock;
+
+	/**
+	 * Open a stream like the router would, for all elevators or just one.
+	 */
+	function open(query: Record<string, string> = {}, elevator?: string) {
+		const connection = mockSseConnection();
+		Object.assign(connection.req, { query, params: { id: elevator } });
+		if (elevator === undefined) {
+			controller.streamAll(connection.request, connection.response, next as NextFunction);
+		} else {
+			controller.streamElevator(connection.request, connection.response, next as NextFunction);
+		}
+		return { ...connection, events: () => connection.written.slice(1).filter(chunk => chunk.startsWith('id: ')).map(chunk => {
+			const [, event, data] = /^id: \d+\nevent: (.+)\ndata: (.+)\n\n$/.exec(chunk)!;
+			return { event, data: JSON.parse(data) };
+		}) };
+	}
+
+	const listeners = () => STREAMABLE_EVENT_TYPES.reduce((count, type) => count + service.listenerCount(type), 0);
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		const clock = new VirtualClock(); //nothing moves unless a test says so
+		service = new ElevatorService(options, undefined, clock);
+		for (let i = 1; i <= 2; i++) {
+			service.addElevator(new Elevator(`Elevator#${i}`, new InsertOrder(options), options, undefined, clock));
+		}
+		controller = new EventsController(service);
+		next = jest.fn();
+	});
+
+	afterEach(() => {
+		service.shutdown();
+		jest.clearAllTimers();
+		jest.useRealTimers();
+	});
+
+	it('should stream every event type of every elevator by default', async () => {
+		const { events } = open();
+		await service.addRide(3, 5);
+		await service.addRide(4, 8);
+		expect(events().filter(({ event }) => event === 'ride').map(({ data }) => [data.elevator, data.to]))
+			.toEqual([[undefined, 'requested'], ['Elevator#1', 'assigned'], [undefined, 'requested'], ['Elevator#2', 'assigned']]);
+		service.startFireRecall();
+		expect(events().filter(({ event }) => event === 'fire').map(({ data }) => [data.elevator, data.type]))
+			.toEqual([[undefined, 'recall']]);
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it('should only stream the events of one elevator, and those of the whole bank', async () => {
+		const { events } = open({ types: 'ride,fire' }, '1');
+		await service.addRide(3, 5);
+		await service.addRide(4, 8);
+		service.startFireRecall();
+		service.endFireRecall();
+		expect(events().map(({ event, data }) => [event, data.elevator, data.to ?? data.type]))
+			.toEqual([['ride', 'Elevator#1', 'assigned'], ['ride', 'Elevator#1', 'cancelled'], ['fire', undefined, 'recall'], ['fire', undefined, 'reset']]);
+	});
+
+	it('should only stream the types asked for, each once', async () => {
+		const before = listeners();
+		const { events } = open({ types: 'fire, fire' });
+		expect(listeners()).toBe(before + 1);
+		await service.addRide(3, 5);
+		service.startFireRecall();
+		//Elevator#2 is recalled right away since it's idle at the recall floor already
+		expect(events().map(({ event, data }) => [event, data.type])).toEqual([['fire', 'recalled'], ['fire', 'recall']]);
+	});
+
+	it('should send heartbeats at the interval asked for', () => {
+		const { written } = open({ heartbeat: '2000' });
+		jest.advanceTimersByTime(4000);
+		expect(written.filter(chunk => chunk.startsWith(': heartbeat'))).toHaveLength(2);
+	});
+
+	it('should stop listening when the client disconnects', () => {
+		const before = listeners();
+		const { req, res } = open({ heartbeat: '1000' }, 'Elevator#2');
+		expect(listeners()).toBe(before + STREAMABLE_EVENT_TYPES.length);
+		req.emit('close');
+		expect(listeners()).toBe(before);
+		expect(res.end).toHaveBeenCalled();
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it.each([
+		['an unknown event type', { types: 'state,weather' }, undefined, ValidationError],
+		['an invalid heartbeat', { heartbeat: '10' }, undefined, ValidationError],
+		['an unknown elevator', {}, '9', ElevatorNotFoundError],
+	])('should pass on the error instead of streaming for %s', (_name, query, elevator, errorClass) => {
+		const before = listeners();
+		const { res } = open(query, elevator);
+		expect(next).toHaveBeenCalledWith(expect.any(errorClass));
+		expect(res.status).not.toHaveBeenCalled();
+		expect(listeners()).toBe(before);
+	});
+});
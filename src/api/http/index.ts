@@ -1,25 +1,42 @@
 import express, { Express } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { healthRouter } from './routes/health';
+import type { Server } from 'http';
+import { createHealthRouter } from './routes/health';
+import { createElevatorsRouter } from './routes/elevators';
+import { createRidesRouter } from './routes/rides';
+import { createEventsRouter } from './routes/events';
+import { createMetricsRouter } from './routes/metrics';
+import { createFireRouter } from './routes/fire';
 import { errorHandler } from './middleware/errorHandler';
+import { Application } from '../../app/app';
+import { attachWebSocketServer, WS_PATH } from '../ws';
 
 // Load environment variables
 dotenv.config();
 
-export function createHttpApp(): Express {
-	const app: Express = express();
+/**
+ * Create the express app exposing the services of a running {@link Application}.
+ * @param app - The application whose services should back the endpoints.
+ */
+export function createHttpApp(app: Application): Express {
+	const httpApp: Express = express();
 
 	// Middleware
-	app.use(cors());
-	app.use(express.json());
-	app.use(express.urlencoded({ extended: true }));
+	httpApp.use(cors());
+	httpApp.use(express.json());
+	httpApp.use(express.urlencoded({ extended: true }));
 
 	// Routes
-	app.use('/health', healthRouter);
+	httpApp.use('/health', createHealthRouter(app));
+	httpApp.use('/elevators', createElevatorsRouter(app));
+	httpApp.use('/rides', createRidesRouter(app));
+	httpApp.use('/events', createEventsRouter(app));
+	httpApp.use('/metrics', createMetricsRouter(app));
+	httpApp.use('/fire', createFireRouter(app));
 
 	// Root route
-	app.get('/', (_req, res) => {
+	httpApp.get('/', (_req, res) => {
 		res.json({
 			message: 'Stabelo Elevator API',
 			version: '1.0.0',
@@ -27,21 +44,25 @@ export function createHttpApp(): Express {
 	});
 
 	// Error handling middleware (must be last)
-	app.use(errorHandler);
+	httpApp.use(errorHandler);
 
-	return app;
+	return httpApp;
 }
 
-export function startHttpServer(): void {
-	const app = createHttpApp();
+/**
+ * Start listening for HTTP requests and websocket connections from panels on the same port.
+ * @param app - The application whose services should back the endpoints.
+ * @returns The underlying node server, so the caller can close it on shutdown.
+ */
+export function startHttpServer(app: Application): Server {
+	const httpApp = createHttpApp(app);
 	const PORT = process.env.PORT || 3000;
 
-	app.listen(PORT, () => {
+	const server = httpApp.listen(PORT, () => {
 		console.log(`🚀 HTTP Server running on port ${PORT}`);
+		console.log(`🔌 WebSocket panels connect to ws://localhost:${PORT}${WS_PATH}`);
 		console.log(`📍 Environment: ${process.env.NODE_ENV || 'development'}`);
 	});
+	attachWebSocketServer(server, app);
+	return server;
 }
-
-// For backward compatibility - can be imported directly
-export default createHttpApp();
-
@@ -0,0 +1,68 @@
+import type { NextFunction, Request, Response } from 'express';
+import { AppError, errorHandler, getStatusCode } from '../errorHandler';
+import { BUGBUG } from '../../../../shared/errors/Bug';
+import { DomainError, ElevatorNotFoundError, RideNotFoundError, RideVetoedError, TimeoutError, UnreachableRideError } from '../../../../domain/errors/DomainErrors';
+import { InvalidFloorError, ValidationError } from '../../../../domain/errors/ValidationErrors';
+import { InvalidStateTransitionError, StateError } from '../../../../domain/errors/StateErrors';
+import { ElevatorStateType } from '../../../../domain/elevator/types';
+
+describe('getStatusCode', () => {
+	it.each([
+		['ValidationError', new ValidationError(0, 'Invalid'), 400],
+		['InvalidFloorError', new InvalidFloorError(99, new Error('Out of range')), 400],
+		['ElevatorNotFoundError', new ElevatorNotFoundError('Elevator#9'), 404],
+		['RideNotFoundError', new RideNotFoundError('Ride#9'), 404],
+		['StateError', new StateError('Not now'), 409],
+		['InvalidStateTransitionError', new InvalidStateTransitionError({ expected: ElevatorStateType.IDLE, was: ElevatorStateType.MOVING_UP, target: ElevatorStateType.MOVING_UP }), 409],
+		['RideVetoedError', new RideVetoedError('Vetoed'), 422],
+		['UnreachableRideError', new UnreachableRideError('Unreachable'), 422],
+		['TimeoutError', new TimeoutError(1000), 504],
+		['BUGBUG', new BUGBUG('Impossible'), 500],
+		['other domain errors', new DomainError('Other'), 500],
+		['other errors', new Error('Other'), 500],
+	])('should map %s', (_name, error, statusCode) => {
+		expect(getStatusCode(error)).toBe(statusCode);
+	});
+
+	it('should use the ad-hoc status code of other errors if it is an error status', () => {
+		expect(getStatusCode(Object.assign(new SyntaxError('Unexpected token'), { status: 400 }))).toBe(400);
+		expect(getStatusCode(Object.assign(new Error('Too large'), { status: '413' }))).toBe(413);
+		expect(getStatusCode(Object.assign(new Error('Redirect'), { status: 302 }))).toBe(500);
+	});
+});
+
+describe('errorHandler', () => {
+	const nodeEnv = process.env.NODE_ENV;
+
+	function handle(error: AppError): { status: number, body: Record<string, unknown> } {
+		const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+		errorHandler(error, {} as Request, res as unknown as Response, jest.fn() as NextFunction);
+		return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+	}
+
+	afterEach(() => {
+		process.env.NODE_ENV = nodeEnv;
+	});
+
+	it('should send our errors with their name, message and sanitized context', () => {
+		const error = new ElevatorNotFoundError('Elevator#9 not found', { id: 'Elevator#9', logger: new Map() });
+		expect(handle(error)).toEqual({
+			status: 404,
+			body: { name: 'ElevatorNotFoundError', message: 'Elevator#9 not found', timestamp: error.timestamp, context: { id: 'Elevator#9', logger: '[Map]' } },
+		});
+	});
+
+	it('should hide bugs and unexpected errors outside development', () => {
+		process.env.NODE_ENV = 'production';
+		const internal = { name: 'InternalServerError', message: 'Internal server error', context: {} };
+		expect(handle(new BUGBUG('Route is corrupt', { route: [1, 2] }))).toMatchObject({ status: 500, body: internal });
+		expect(handle(new Error('Cannot read properties of undefined'))).toMatchObject({ status: 500, body: internal });
+		expect(handle(new TimeoutError(1000, 'Timed out'))).toMatchObject({ status: 504, body: { name: 'TimeoutError' } });
+	});
+
+	it('should show bugs and stacks in development', () => {
+		process.env.NODE_ENV = 'development';
+		const { body } = handle(new BUGBUG('Route is corrupt', { route: [1, 2] }));
+		expect(body).toMatchObject({ name: 'BUGBUG', message: 'Route is corrupt', context: { route: [1, 2] }, stack: expect.any(String) });
+	});
+});
@@ -1,23 +1,101 @@
 import { Request, Response, NextFunction } from 'express';
+import { BaseError } from '../../../shared/errors/BaseError';
+import { BUGBUG } from '../../../shared/errors/Bug';
+import { ValidationError } from '../../../domain/errors/ValidationErrors';
+import { ElevatorNotFoundError, RideNotFoundError, RideVetoedError, TimeoutError, UnreachableRideError } from '../../../domain/errors/DomainErrors';
+import { StateError } from '../../../domain/errors/StateErrors';
 
+/**
+ * Errors which don't belong to our {@link BaseError} hierarchy but which carry an ad-hoc status code,
+ * e.g. the ones thrown by express' body parsers on malformed JSON.
+ */
 export interface AppError extends Error {
-  statusCode?: number;
-  status?: string;
+	statusCode?: number;
+	status?: number | string;
+}
+
+/**
+ * The body of every error response. Clients can branch on `name`, which is the class name of the
+ * error thrown (e.g. `InvalidFloorError`), instead of parsing the message.
+ */
+export interface ErrorResponseDto {
+	name: string;
+	message: string;
+	timestamp: number;
+	context: Record<string, unknown>;
+}
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+/**
+ * Maps our error classes to HTTP status codes. Checked in order with `instanceof` so subclasses must be
+ * listed before their parents. Anything not matched here is a 500.
+ */
+export const errorStatusCodes: ReadonlyArray<[ErrorClass, number]> = [
+	[ValidationError, 400],
+	[ElevatorNotFoundError, 404],
+	[RideNotFoundError, 404],
+	[StateError, 409],
+	[RideVetoedError, 422],
+	[UnreachableRideError, 422],
+	[TimeoutError, 504],
+	[BUGBUG, 500],
+];
+
+/**
+ * Get the HTTP status code for an error, see {@link errorStatusCodes}.
+ * @param err - The error to get the status code for.
+ * @returns A status code between 400 and 599.
+ */
+export function getStatusCode(err: AppError): number {
+	for (const [errorClass, statusCode] of errorStatusCodes) {
+		if (err instanceof errorClass) {
+			return statusCode;
+		}
+	}
+	const adHoc = Number(err.statusCode ?? err.status);
+	return adHoc >= 400 && adHoc < 600 ? adHoc : 500;
 }
 
 export const errorHandler = (
-  err: AppError,
-  _req: Request,
-  res: Response,
-  _next: NextFunction
+	err: AppError,
+	_req: Request,
+	res: Response,
+	_next: NextFunction
 ): void => {
-  const statusCode = err.statusCode || 500;
-  const status = err.status || 'error';
-
-  res.status(statusCode).json({
-    status,
-    message: err.message || 'Internal server error',
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
-  });
-};
+	const statusCode = getStatusCode(err);
+	const isDevelopment = process.env.NODE_ENV === 'development';
+
+	//Don't leak the internals of bugs and unexpected errors unless we're developing, our other errors
+	//are meant for clients
+	const expose = isDevelopment || (err instanceof BaseError ? !(err instanceof BUGBUG) : statusCode < 500);
 
+	let body: ErrorResponseDto;
+	if (!expose) {
+		body = {
+			name: 'InternalServerError',
+			message: 'Internal server error',
+			timestamp: err instanceof BaseError ? err.timestamp : Date.now(),
+			context: {},
+		};
+	} else if (err instanceof BaseError) {
+		body = {
+			name: err.name,
+			message: err.message,
+			timestamp: err.timestamp,
+			context: err.getSanitizedContext(),
+		};
+	} else {
+		body = {
+			name: err.name || 'Error',
+			message: err.message || 'Internal server error',
+			timestamp: Date.now(),
+			context: {},
+		};
+	}
+
+	res.status(statusCode).json({
+		...body,
+		...(isDevelopment && { stack: err.stack }),
+	});
+};
@@ -0,0 +1,30 @@
+import { startTestServer, TestServer } from './testServer';
+
+describe('/elevators', () => {
+	let server: TestServer;
+
+	beforeEach(async () => {
+		server = await startTestServer();
+	});
+
+	afterEach(async () => {
+		await server.close();
+	});
+
+	describe('GET /:id/buttons', () => {
+		it('should respond with the pushed buttons of an elevator, by full or shorthand id', async () => {
+			await server.app.elevatorService.addRide(2, 7);
+			for (const id of ['Elevator%231', '1', '%231']) {
+				const res = await fetch(`${server.url}/elevators/${id}/buttons`);
+				expect(res.status).toBe(200);
+				expect(await res.json()).toEqual({ id: 'Elevator#1', buttons: [2] }); //the dropoff is pushed once the passenger is in
+			}
+		});
+
+		it('should respond 404 for an unknown elevator', async () => {
+			const res = await fetch(`${server.url}/elevators/9/buttons`);
+			expect(res.status).toBe(404);
+			expect(await res.json()).toMatchObject({ name: 'ElevatorNotFoundError' });
+		});
+	});
+});
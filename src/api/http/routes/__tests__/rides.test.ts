@@ -0,0 +1,39 @@
+import { Ride, RideStatus } from '../../../../domain/rides/types';
+import { startTestServer, TestServer } from './testServer';
+
+describe('/rides', () => {
+	let server: TestServer;
+
+	const post = (body: string) => fetch(`${server.url}/rides`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+	beforeEach(async () => {
+		server = await startTestServer();
+	});
+
+	afterEach(async () => {
+		await server.close();
+	});
+
+	describe('POST /', () => {
+		it('should respond 201 with the assigned ride and where to find it', async () => {
+			const res = await post(JSON.stringify({ pickup: 2, dropoff: 7 }));
+			expect(res.status).toBe(201);
+			const ride = await res.json() as Ride;
+			expect(ride).toMatchObject({ pickup: 2, dropoff: 7, direction: 'up', status: RideStatus.ASSIGNED, elevator: 'Elevator#1' });
+			expect(res.headers.get('location')).toBe(`/rides/${encodeURIComponent(ride.id)}`);
+			expect(server.app.elevatorService.getPushedButtons('Elevator#1')).toContain(2);
+		});
+
+		it.each([
+			['without a pickup', JSON.stringify({ dropoff: 7 })],
+			['outside the building', JSON.stringify({ pickup: 2, dropoff: 11 })],
+			['with a direction away from the dropoff', JSON.stringify({ pickup: 2, dropoff: 7, direction: 'down' })],
+			['which is not JSON', '{ "pickup": 2,'],
+		])('should respond 400 to a ride %s', async (_name, body) => {
+			const res = await post(body);
+			expect(res.status).toBe(400);
+			expect(await res.json()).toMatchObject({ name: expect.any(String), message: expect.any(String) });
+			expect(server.app.elevatorService.listRides()).toEqual([]);
+		});
+	});
+});
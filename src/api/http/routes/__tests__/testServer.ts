@@ -0,0 +1,29 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Application } from '../../../../app/app';
+import { VirtualClock } from '../../../../infra/clock/VirtualClock';
+import { AppOptions, defaultOptions } from '../../../../options';
+import { createHttpApp } from '../..';
+
+/**
+ * The HTTP api of an application in simulated time, listening on a free port of localhost. Nothing moves
+ * unless a test advances the clock.
+ */
+export type TestServer = { app: Application, clock: VirtualClock, url: string, close: () => Promise<void> };
+
+export async function startTestServer(options: Partial<AppOptions> = {}): Promise<TestServer> {
+	const clock = new VirtualClock();
+	const app = new Application({ ...defaultOptions, MIN_FLOOR: 0, MAX_FLOOR: 10, INITIAL_FLOOR: 0, NR_OF_ELEVATORS: 2, LOG_LEVEL: 'error', ...options }, undefined, clock);
+	const server: Server = await new Promise(resolve => {
+		const server = createHttpApp(app).listen(0, '127.0.0.1', () => resolve(server));
+	});
+	return {
+		app,
+		clock,
+		url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		close: async () => {
+			await app.stop();
+			await new Promise(resolve => server.close(resolve));
+		},
+	};
+}
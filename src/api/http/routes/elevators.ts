@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { ElevatorController } from '../controllers/ElevatorController';
+import { EventsController } from '../controllers/EventsController';
+import { Application } from '../../../app/app';
+
+/**
+ * Create the router for `/elevators` backed by the running application's {@link ElevatorService}.
+ */
+export function createElevatorsRouter(app: Application): Router {
+	const elevatorController = new ElevatorController(app.elevatorService, app.strategies);
+	const eventsController = new EventsController(app.elevatorService);
+
+	const elevatorsRouter = Router();
+	elevatorsRouter.get('/', elevatorController.listElevators);
+	elevatorsRouter.get('/:id', elevatorController.getElevator);
+	elevatorsRouter.get('/:id/buttons', elevatorController.getButtons);
+	elevatorsRouter.delete('/:id/buttons/:floor', elevatorController.removeButton);
+	elevatorsRouter.get('/:id/strategy', elevatorController.getStrategy);
+	elevatorsRouter.put('/:id/strategy', elevatorController.changeStrategy);
+	elevatorsRouter.get('/:id/maintenance', elevatorController.getMaintenance);
+	elevatorsRouter.put('/:id/maintenance', elevatorController.changeMaintenance);
+	elevatorsRouter.post('/:id/stop', elevatorController.emergencyStop);
+	elevatorsRouter.post('/:id/reset', elevatorController.reset);
+	elevatorsRouter.get('/:id/events', eventsController.streamElevator);
+	return elevatorsRouter;
+}
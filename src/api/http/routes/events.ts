@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { EventsController } from '../controllers/EventsController';
+import { Application } from '../../../app/app';
+
+/**
+ * Create the router for `/events`, a Server-Sent Events stream of everything happening in the
+ * running application's {@link ElevatorService}.
+ */
+export function createEventsRouter(app: Application): Router {
+	const eventsController = new EventsController(app.elevatorService);
+
+	const eventsRouter = Router();
+	eventsRouter.get('/', eventsController.streamAll);
+	return eventsRouter;
+}
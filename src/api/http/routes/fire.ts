@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { FireController } from '../controllers/FireController';
+import { Application } from '../../../app/app';
+
+/**
+ * Create the router for `/fire` backed by the running application's {@link ElevatorService}.
+ */
+export function createFireRouter(app: Application): Router {
+	const fireController = new FireController(app.elevatorService);
+
+	const fireRouter = Router();
+	fireRouter.get('/', fireController.getStatus);
+	fireRouter.put('/', fireController.changeAlarm);
+	fireRouter.put('/firefighter/:id', fireController.changeFirefighter);
+	fireRouter.post('/firefighter/:id/call', fireController.sendFirefighter);
+	fireRouter.put('/firefighter/:id/doors', fireController.holdDoorButton);
+	return fireRouter;
+}
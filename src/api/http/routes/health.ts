@@ -1,14 +1,14 @@
 import { Router } from 'express';
 import { HealthController } from '../controllers/HealthController';
-import { HealthCheckUseCase } from '../../../app/health/HealthService';
-import { HealthService } from '../../../domain/health/HealthService';
-
-// Dependency injection setup
-const healthService = new HealthService();
-const healthCheckUseCase = new HealthCheckUseCase(healthService);
-const healthController = new HealthController(healthCheckUseCase);
-
-export const healthRouter = Router();
-
-healthRouter.get('/', healthController.getHealth);
-
+import { Application } from '../../../app/app';
+
+/**
+ * Create the router for `/health` backed by the running application's {@link HealthService}.
+ */
+export function createHealthRouter(app: Application): Router {
+	const healthController = new HealthController(app.healthService);
+
+	const healthRouter = Router();
+	healthRouter.get('/', healthController.getHealth);
+	return healthRouter;
+}
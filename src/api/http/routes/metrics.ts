@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { MetricsController } from '../controllers/MetricsController';
+import { Application } from '../../../app/app';
+
+/**
+ * Create the router for `/metrics` backed by the running application's {@link RideMetrics}.
+ */
+export function createMetricsRouter(app: Application): Router {
+	const metricsController = new MetricsController(app.rideMetrics);
+
+	const metricsRouter = Router();
+	metricsRouter.get('/', metricsController.getMetrics);
+	metricsRouter.post('/reset', metricsController.reset);
+	return metricsRouter;
+}
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { RideController } from '../controllers/RideController';
+import { Application } from '../../../app/app';
+
+/**
+ * Create the router for `/rides` backed by the running application's {@link ElevatorService}.
+ */
+export function createRidesRouter(app: Application): Router {
+	const rideController = new RideController(app.elevatorService);
+
+	const ridesRouter = Router();
+	ridesRouter.get('/', rideController.listRides);
+	ridesRouter.post('/', rideController.addRide);
+	ridesRouter.post('/reoptimize', rideController.reoptimize);
+	ridesRouter.get('/:id', rideController.getRide);
+	ridesRouter.delete('/:id', rideController.cancelRide);
+	return ridesRouter;
+}
@@ -0,0 +1,79 @@
+import type { Request, Response } from 'express';
+
+/**
+ * How long clients should wait before reconnecting after the stream drops, in milliseconds.
+ */
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * A thin wrapper around an express response which speaks the Server-Sent Events protocol.
+ *
+ * Creating the stream sends the headers right away. The stream stays open until either side closes
+ * it, at which point all callbacks registered with {@link onClose()} are run (exactly once).
+ */
+export class SseStream {
+	private nextId = 1;
+	private closed = false;
+	private heartbeat?: NodeJS.Timeout;
+	private readonly closeCallbacks: Array<() => void> = [];
+
+	/**
+	 * @param req - The incoming request, used to detect when the client disconnects.
+	 * @param res - The response to stream events to.
+	 * @param heartbeatMs - Optional. Send a comment line at this interval to keep proxies from timing out
+	 *                      the connection. Omit or pass 0 to disable.
+	 */
+	constructor(req: Request, private readonly res: Response, heartbeatMs?: number) {
+		res.status(200).set({
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			'Connection': 'keep-alive',
+			'X-Accel-Buffering': 'no', //stop nginx from buffering the stream
+		});
+		res.flushHeaders();
+		res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+		if (heartbeatMs) {
+			this.heartbeat = setInterval(() => this.comment(`heartbeat ${new Date().toISOString()}`), heartbeatMs);
+		}
+		req.on('close', () => this.close());
+	}
+
+	/**
+	 * Send a named event. The data is serialized as JSON on a single line.
+	 * @param event - The event name, which clients subscribe to with `addEventListener(event, ...)`
+	 * @param data - The payload.
+	 */
+	send(event: string, data: unknown): void {
+		if (this.closed) return;
+		this.res.write(`id: ${this.nextId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+	}
+
+	/**
+	 * Send a comment, which clients ignore but which keeps the connection alive.
+	 */
+	comment(text: string): void {
+		if (this.closed) return;
+		this.res.write(`: ${text}\n\n`);
+	}
+
+	/**
+	 * Register a callback to run when the stream closes, e.g. to remove event listeners.
+	 */
+	onClose(callback: () => void): void {
+		this.closeCallbacks.push(callback);
+	}
+
+	/**
+	 * End the stream and run all close callbacks. Safe to call multiple times.
+	 */
+	close(): void {
+		if (this.closed) return;
+		this.closed = true;
+		clearInterval(this.heartbeat);
+		for (const callback of this.closeCallbacks) {
+			callback();
+		}
+		this.res.end();
+	}
+}
@@ -0,0 +1,69 @@
+import { SseStream } from '../SseStream';
+import { mockSseConnection } from './mockSseConnection';
+
+describe('SseStream', () => {
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.clearAllTimers();
+		jest.useRealTimers();
+	});
+
+	it('should send the event stream headers and the reconnect delay right away', () => {
+		const { res, written, request, response } = mockSseConnection();
+		new SseStream(request, response);
+		expect(res.status).toHaveBeenCalledWith(200);
+		expect(res.set).toHaveBeenCalledWith(expect.objectContaining({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }));
+		expect(res.flushHeaders).toHaveBeenCalled();
+		expect(written).toEqual(['retry: 3000\n\n']);
+	});
+
+	it('should send numbered events with their data as JSON', () => {
+		const { written, request, response } = mockSseConnection();
+		const stream = new SseStream(request, response);
+		stream.send('state', { elevator: 'Elevator#1', floor: 2 });
+		stream.send('fire', { type: 'reset' });
+		expect(written.slice(1)).toEqual([
+			'id: 1\nevent: state\ndata: {"elevator":"Elevator#1","floor":2}\n\n',
+			'id: 2\nevent: fire\ndata: {"type":"reset"}\n\n',
+		]);
+	});
+
+	it('should send heartbeat comments at the interval until it closes', () => {
+		const { written, request, response } = mockSseConnection();
+		const stream = new SseStream(request, response, 1000);
+		jest.advanceTimersByTime(999);
+		expect(written).toHaveLength(1);
+		jest.advanceTimersByTime(1001);
+		expect(written.slice(1)).toEqual([expect.stringMatching(/^: heartbeat /), expect.stringMatching(/^: heartbeat /)]);
+
+		stream.close();
+		jest.advanceTimersByTime(5000);
+		expect(written).toHaveLength(3);
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it('should not send heartbeats when they are disabled', () => {
+		const { request, response } = mockSseConnection();
+		new SseStream(request, response, 0);
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it('should run the close callbacks once when the client disconnects', () => {
+		const { req, res, written, request, response } = mockSseConnection();
+		const stream = new SseStream(request, response, 1000);
+		const callback = jest.fn();
+		stream.onClose(callback);
+
+		req.emit('close');
+		stream.close();
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(res.end).toHaveBeenCalledTimes(1);
+
+		stream.send('state', {});
+		stream.comment('ignored');
+		expect(written).toHaveLength(1);
+	});
+});
@@ -0,0 +1,18 @@
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+
+/**
+ * Just enough of a request and a response for a stream, with everything written collected in `written`.
+ */
+export function mockSseConnection() {
+	const req = new EventEmitter();
+	const written: string[] = [];
+	const res = {
+		status: jest.fn().mockReturnThis(),
+		set: jest.fn().mockReturnThis(),
+		flushHeaders: jest.fn(),
+		write: jest.fn((chunk: string) => written.push(chunk)),
+		end: jest.fn(),
+	};
+	return { req, res, written, request: req as unknown as Request, response: res as unknown as Response };
+}
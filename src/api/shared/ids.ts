@@ -0,0 +1,69 @@
+import type { ElevatorService } from '../../domain/services/ElevatorService';
+
+/**
+ * Helper function to normalize elevator IDs given by users of the CLI and the HTTP and websocket apis.
+ * 
+ * This allows users to type shorthand like "#1", "1", or "#5" instead of 
+ * the full "Elevator#1" or "Elevator#5". The actual elevator IDs remain 
+ * unchanged in the system.
+ * 
+ * @param userInput - The user's input (e.g., "#1", "1", "Elevator#1")
+ * @param elevatorService - The elevator service to validate against
+ * @returns The full elevator ID (e.g., "Elevator#1") or null if not found
+ * 
+ * @example
+ * normalizeElevatorId("#1", service) // returns "Elevator#1"
+ * normalizeElevatorId("1", service)  // returns "Elevator#1"
+ * normalizeElevatorId("Elevator#1", service) // returns "Elevator#1"
+ */
+export function normalizeElevatorId(
+	userInput: string,
+	elevatorService: ElevatorService
+): string | null {
+	// If the user already typed the full ID, verify it exists and return it
+	const allElevatorIds = elevatorService.listElevators();
+	if (allElevatorIds.includes(userInput)) {
+		return userInput;
+	}
+
+	// Try to expand shorthand notation
+	// Support formats like: "#1", "1", "#5", "5", etc.
+	let expandedId: string;
+	
+	if (userInput.startsWith('#')) {
+		// User typed "#1" -> expand to "Elevator#1"
+		expandedId = `Elevator${userInput}`;
+	} else if (/^\d+$/.test(userInput)) {
+		// User typed just "1" -> expand to "Elevator#1"
+		expandedId = `Elevator#${userInput}`;
+	} else {
+		// Unknown format, return null
+		return null;
+	}
+
+	// Verify the expanded ID exists
+	if (allElevatorIds.includes(expandedId)) {
+		return expandedId;
+	}
+
+	// Not found
+	return null;
+}
+
+/**
+ * Helper function to normalize ride IDs, like {@link normalizeElevatorId()} does for elevators.
+ * 
+ * Unlike elevators we don't verify the ride exists here, since rides come and go, the elevator
+ * service will throw a {@link RideNotFoundError} when it's looked up instead.
+ * 
+ * @param userInput - The user's input (e.g., "#12", "12", "Ride#12")
+ * @returns The full ride ID (e.g., "Ride#12"), or the input as-is if it's not shorthand
+ */
+export function normalizeRideId(userInput: string): string {
+	if (userInput.startsWith('#')) {
+		return `Ride${userInput}`;
+	} else if (/^\d+$/.test(userInput)) {
+		return `Ride#${userInput}`;
+	}
+	return userInput;
+}
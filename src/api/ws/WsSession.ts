@@ -0,0 +1,224 @@
+import WebSocket from 'ws';
+import { ElevatorService } from '../../domain/services/ElevatorService';
+import type { ElevatorId } from '../../domain/elevator/Elevator';
+import type { CallDirection, Floor } from '../../domain/route/Floors';
+import { RideStatus, type RideId } from '../../domain/rides/types';
+import { isRideFinished } from '../../domain/rides/RideTracker';
+import type { AggregatedElevatorStateChangeEvents } from '../../domain/services/types';
+import { Logger } from '../../infra/logger/Logger';
+import { normalizeElevatorId } from '../shared/ids';
+import {
+	PROTOCOL_VERSION,
+	TOPICS,
+	Topic,
+	ClientMessage,
+	RideMessage,
+	ServerMessage,
+	SubscribeMessage,
+	UnsubscribeMessage,
+	parseClientMessage,
+} from './protocol';
+
+/**
+ * Messages are built without the version which is added by {@link WsSession.send()}
+ */
+type Unversioned<T> = T extends unknown ? Omit<T, 'v'> : never;
+
+/**
+ * A ride requested over this connection which hasn't been picked up yet.
+ */
+type PendingRide = { ref?: string, ride: RideId, elevator: ElevatorId, pickup: Floor, direction?: CallDirection, etaSeq: number };
+
+/**
+ * A single websocket connection, e.g. one hall panel or one in-car panel.
+ *
+ * Each session keeps its own subscriptions and its own list of rides it has requested. It listens to
+ * the {@link ElevatorService} for as long as the socket is open and removes all listeners when it closes.
+ */
+export class WsSession {
+	private readonly topics = new Set<Topic>();
+	private elevators: Set<ElevatorId> | null = null; //null means all elevators
+	private readonly pendingRides: PendingRide[] = [];
+	private readonly stopListening: Array<() => void> = [];
+
+	constructor(
+		private readonly socket: WebSocket
+		, private readonly elevatorService: ElevatorService
+		, private readonly logger?: Logger
+	) {
+		socket.on('message', (data) => this.handle(data.toString()));
+		socket.on('close', () => this.close());
+		//Without a listener a bad frame from a client would be thrown and take the whole process down
+		socket.on('error', (error) => {
+			this.logger?.warn('Closing websocket after an error:', error);
+			socket.terminate();
+			this.close();
+		});
+
+		//We always follow state and ride changes since we need them to send ETAs and arrivals for our own rides...
+		this.stopListening.push(this.elevatorService.listen('state', (event) => {
+			this.updateRides(event);
+			this.forward('state', event.elevator, { type: 'state', event });
+		}));
+		this.stopListening.push(this.elevatorService.listen('ride', (event) => {
+			if (event.to === RideStatus.PICKED_UP) {
+				this.arrived(event.ride.id);
+			} else if (isRideFinished(event.ride)) {
+				this.forgetRide(event.ride.id);
+			} else if (event.reassignedFrom !== undefined) {
+				this.followRide(event.ride.id, event.ride.elevator!);
+			}
+			this.forward('ride', event.elevator, { type: 'ride', event });
+		}));
+		//...and the rest we listen to anyway since it's cheap to filter
+		this.stopListening.push(this.elevatorService.listen('buttons', (event) => {
+			this.forward('buttons', event.elevator, { type: 'buttons', event });
+		}));
+		this.stopListening.push(this.elevatorService.listen('availability', (event) => {
+			this.forward('availability', event.elevator, { type: 'availability', event });
+		}));
+		this.stopListening.push(this.elevatorService.listen('fire', (event) => {
+			this.forward('fire', event.elevator, { type: 'fire', event });
+		}));
+
+		this.send({ type: 'welcome', topics: TOPICS, elevators: this.elevatorService.listElevators() });
+	}
+
+	/**
+	 * Remove all listeners from the service. Called automatically when the socket closes.
+	 */
+	close(): void {
+		for (const stop of this.stopListening.splice(0)) {
+			stop();
+		}
+	}
+
+	private send(msg: Unversioned<ServerMessage>): void {
+		if (this.socket.readyState === WebSocket.OPEN) {
+			this.socket.send(JSON.stringify({ v: PROTOCOL_VERSION, ...msg }));
+		}
+	}
+
+	private forward(topic: Topic, elevator: ElevatorId | undefined, msg: Unversioned<ServerMessage>): void {
+		if (this.topics.has(topic) && (this.elevators === null || (elevator !== undefined && this.elevators.has(elevator)))) {
+			this.send(msg);
+		}
+	}
+
+	private async handle(raw: string): Promise<void> {
+		let msg: ClientMessage | undefined;
+		try {
+			msg = parseClientMessage(raw);
+			switch (msg.type) {
+				case 'ride':
+					return await this.requestRide(msg);
+				case 'subscribe':
+					return this.subscribe(msg);
+				case 'unsubscribe':
+					return this.unsubscribe(msg);
+				case 'ping':
+					return this.send({ type: 'pong', ref: msg.ref });
+			}
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			this.logger?.debug(`Rejected websocket message: ${err.message}`);
+			this.send({ type: 'error', ref: msg?.ref, name: err.name, message: err.message });
+		}
+	}
+
+	private async requestRide(msg: RideMessage): Promise<void> {
+		const { id: ride, elevator, direction } = await this.elevatorService.addRide(msg.pickup, msg.dropoff, msg.direction);
+		const eta = await this.estimate(elevator!, msg.pickup, direction); //addRide() only returns assigned rides
+
+		//The ride isn't followed until now, so it may have moved on without us, e.g. a car which was idle at the
+		//pickup floor opens its doors before addRide() even returns
+		const current = this.elevatorService.getRide(ride);
+		this.send({ type: 'rideAssigned', ref: msg.ref, ride, elevator: current.elevator!, pickup: msg.pickup, dropoff: msg.dropoff, eta });
+		if (current.status === RideStatus.ASSIGNED) {
+			const pending: PendingRide = { ref: msg.ref, ride, elevator: current.elevator!, pickup: msg.pickup, direction, etaSeq: 0 };
+			this.pendingRides.push(pending);
+			if (current.elevator !== elevator) { //reassigned meanwhile, so the ETA was for the wrong car
+				this.sendEta(pending);
+			}
+		} else if (current.pickedUpAt !== undefined) {
+			this.send({ type: 'arrived', ref: msg.ref, elevator: current.elevator!, floor: msg.pickup });
+		}
+	}
+
+	private subscribe(msg: SubscribeMessage): void {
+		msg.topics.forEach(topic => this.topics.add(topic));
+		if (msg.elevators !== undefined) {
+			this.elevators = new Set(msg.elevators.map(id => normalizeElevatorId(id, this.elevatorService) ?? id));
+		}
+		this.sendSubscriptions(msg.ref);
+	}
+
+	private unsubscribe(msg: UnsubscribeMessage): void {
+		msg.topics.forEach(topic => this.topics.delete(topic));
+		this.sendSubscriptions(msg.ref);
+	}
+
+	private sendSubscriptions(ref?: string): void {
+		this.send({ type: 'subscriptions', ref, topics: [...this.topics], elevators: this.elevators && [...this.elevators] });
+	}
+
+	/**
+	 * Send new ETAs for the rides of this session which are affected by a state change. Arrivals come from
+	 * the ride being picked up instead, see {@link arrived()}.
+	 */
+	private updateRides(event: AggregatedElevatorStateChangeEvents): void {
+		for (const ride of this.pendingRides.filter(ride => ride.elevator === event.elevator)) {
+			this.sendEta(ride);
+		}
+	}
+
+	/**
+	 * Tell the panel the elevator of one of its rides has opened its doors to pick the passenger up.
+	 */
+	private arrived(id: RideId): void {
+		const i = this.pendingRides.findIndex(ride => ride.ride === id);
+		if (i > -1) {
+			const [ride] = this.pendingRides.splice(i, 1);
+			this.send({ type: 'arrived', ref: ride.ref, elevator: ride.elevator, floor: ride.pickup });
+		}
+	}
+
+	private sendEta(ride: PendingRide): void {
+		//Estimates are async so they may resolve out of order or after the ride has arrived,
+		//in which case we drop them.
+		const seq = ++ride.etaSeq;
+		this.estimate(ride.elevator, ride.pickup, ride.direction)
+			.then(eta => {
+				if (seq === ride.etaSeq && this.pendingRides.includes(ride)) {
+					this.send({ type: 'eta', ref: ride.ref, elevator: ride.elevator, pickup: ride.pickup, eta });
+				}
+			})
+			.catch(error => this.logger?.warn(`Failed to estimate ETA for ${ride.elevator}:`, error));
+	}
+
+	/**
+	 * Send ETAs from another elevator for a ride which was moved to it.
+	 */
+	private followRide(id: RideId, elevator: ElevatorId): void {
+		const ride = this.pendingRides.find(ride => ride.ride === id);
+		if (ride) {
+			ride.elevator = elevator;
+			this.sendEta(ride);
+		}
+	}
+
+	/**
+	 * Stop sending ETAs for a ride, e.g. because it was cancelled.
+	 */
+	private forgetRide(id: RideId): void {
+		const i = this.pendingRides.findIndex(ride => ride.ride === id);
+		if (i > -1) {
+			this.pendingRides.splice(i, 1);
+		}
+	}
+
+	private async estimate(elevator: ElevatorId, pickup: Floor, direction?: CallDirection): Promise<number | null> {
+		const eta = await this.elevatorService.estimateRide(elevator, pickup, undefined, direction);
+		return eta > -1 ? eta : null;
+	}
+}
@@ -0,0 +1,137 @@
+import type { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { Elevator } from '../../../domain/elevator/Elevator';
+import { ElevatorService } from '../../../domain/services/ElevatorService';
+import { RideStatus } from '../../../domain/rides/types';
+import { InsertOrder } from '../../../domain/strategies/InsertOrder';
+import { VirtualClock } from '../../../infra/clock/VirtualClock';
+import { AppOptions, defaultOptions } from '../../../options';
+import { PROTOCOL_VERSION, ServerMessage } from '../protocol';
+import { WsSession } from '../WsSession';
+
+const options: AppOptions = { ...defaultOptions, MIN_FLOOR: 0, MAX_FLOOR: 10, INITIAL_FLOOR: 0 };
+
+describe('WsSession', () => {
+	let service: ElevatorService;
+	let clock: VirtualClock;
+	let wss: WebSocketServer;
+	let sessions: WsSession[];
+	let client: WebSocket;
+	let received: ServerMessage[];
+	let waiting: (() => void) | undefined;
+	let welcome: ServerMessage;
+
+	/**
+	 * Wait for the next message of a type, skipping the others.
+	 */
+	async function next<T extends ServerMessage['type']>(type: T): Promise<Extract<ServerMessage, { type: T }>> {
+		for (;;) {
+			const i = received.findIndex(msg => msg.type === type);
+			if (i > -1) {
+				return received.splice(0, i + 1)[i] as Extract<ServerMessage, { type: T }>;
+			}
+			await new Promise<void>(resolve => waiting = resolve);
+		}
+	}
+
+	/**
+	 * Get everything sent so far which hasn't been looked at, by waiting for the answer to a ping.
+	 */
+	async function flush(): Promise<ServerMessage[]> {
+		send({ type: 'ping', ref: 'flush' });
+		while (!received.some(msg => msg.type === 'pong')) {
+			await new Promise<void>(resolve => waiting = resolve);
+		}
+		return received.splice(0).filter(msg => msg.type !== 'pong');
+	}
+
+	function send(msg: object): void {
+		client.send(JSON.stringify({ v: PROTOCOL_VERSION, ...msg }));
+	}
+
+	beforeEach(async () => {
+		clock = new VirtualClock(); //nothing moves unless a test says so
+		service = new ElevatorService(options, undefined, clock);
+		for (let i = 1; i <= 2; i++) {
+			service.addElevator(new Elevator(`Elevator#${i}`, new InsertOrder(options), options, undefined, clock));
+		}
+		sessions = [];
+		wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+		wss.on('connection', (socket) => sessions.push(new WsSession(socket, service)));
+		await new Promise(resolve => wss.once('listening', resolve));
+
+		received = [];
+		client = new WebSocket(`ws://127.0.0.1:${(wss.address() as AddressInfo).port}`);
+		client.on('message', (data) => {
+			received.push(JSON.parse(data.toString()));
+			waiting?.();
+		});
+		welcome = await next('welcome'); //also means the connection is open
+	});
+
+	afterEach(async () => {
+		client.terminate();
+		await new Promise(resolve => wss.close(resolve));
+		service.shutdown();
+	});
+
+	it('should welcome a new connection', async () => {
+		expect(welcome).toMatchObject({ v: PROTOCOL_VERSION, elevators: ['Elevator#1', 'Elevator#2'] });
+	});
+
+	it('should only forward the events of the topics and elevators subscribed to', async () => {
+		send({ type: 'subscribe', ref: 's', topics: ['ride'], elevators: ['#2'] });
+		expect(await next('subscriptions')).toMatchObject({ ref: 's', topics: ['ride'], elevators: ['Elevator#2'] });
+
+		const first = await service.addRide(3, 5); //to the first free elevator
+		const second = await service.addRide(4, 8);
+		expect(first.elevator).toBe('Elevator#1');
+		expect(second.elevator).toBe('Elevator#2');
+
+		const { event } = await next('ride');
+		expect(event).toMatchObject({ elevator: 'Elevator#2', ride: { id: second.id } });
+		expect(received.filter(msg => msg.type !== 'ride' || msg.event.elevator !== 'Elevator#2')).toEqual([]);
+	});
+
+	it('should answer a ride request with the assigned elevator', async () => {
+		send({ type: 'ride', ref: 'r', pickup: 2, dropoff: 6 });
+		expect(await next('rideAssigned')).toMatchObject({ ref: 'r', elevator: 'Elevator#1', pickup: 2, dropoff: 6, eta: expect.any(Number) });
+	});
+
+	it('should send ETAs until the elevator arrives at the pickup floor, and nothing after', async () => {
+		send({ type: 'ride', ref: 'r', pickup: 3, dropoff: 6 });
+		expect(await next('rideAssigned')).toMatchObject({ ref: 'r', elevator: 'Elevator#1' });
+		await clock.advanceAsync(options.TRAVEL_TIME_PER_FLOOR);
+		expect(await next('eta')).toMatchObject({ ref: 'r', elevator: 'Elevator#1', pickup: 3 });
+
+		await clock.advanceAsync(60000); //there, and on to the dropoff
+		expect(await next('arrived')).toEqual({ v: PROTOCOL_VERSION, type: 'arrived', ref: 'r', elevator: 'Elevator#1', floor: 3 });
+		expect((await flush()).filter(msg => msg.type === 'eta' || msg.type === 'arrived')).toEqual([]);
+	});
+
+	it('should tell when an elevator which is already at the pickup floor has arrived', async () => {
+		send({ type: 'ride', ref: 'r', pickup: 0, dropoff: 5 }); //the doors open before the ride is even assigned
+		expect(await next('rideAssigned')).toMatchObject({ ref: 'r', elevator: 'Elevator#1', pickup: 0 });
+		expect(await next('arrived')).toMatchObject({ ref: 'r', elevator: 'Elevator#1', floor: 0 });
+
+		//The ride is done as far as the panel is concerned, so moving on to the dropoff doesn't send ETAs
+		await clock.advanceAsync(60000);
+		expect(service.getRide(service.listRides()[0].id).status).toBe(RideStatus.DROPPED_OFF);
+		expect((await flush()).filter(msg => msg.type === 'eta' || msg.type === 'arrived')).toEqual([]);
+	});
+
+	it('should answer invalid messages with an error', async () => {
+		send({ type: 'ride', ref: 'r', pickup: 20 });
+		expect(await next('error')).toMatchObject({ ref: 'r', name: 'InvalidFloorError' });
+		client.send('not json');
+		expect(await next('error')).toMatchObject({ name: 'ValidationError' });
+	});
+
+	it('should close the connection instead of crashing on a bad frame', async () => {
+		const closed = new Promise(resolve => client.once('close', resolve));
+		//Clients have to mask their frames, which the server rejects with an error on the socket
+		(client as unknown as { _socket: NodeJS.WritableStream })._socket.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+		await closed;
+		expect(service.listenerCount('state')).toBe(0);
+	});
+});
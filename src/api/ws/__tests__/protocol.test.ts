@@ -0,0 +1,33 @@
+import { ValidationError } from '../../../domain/errors/ValidationErrors';
+import { PROTOCOL_VERSION, parseClientMessage } from '../protocol';
+
+describe('parseClientMessage', () => {
+	const parse = (msg: object) => parseClientMessage(JSON.stringify({ v: PROTOCOL_VERSION, ...msg }));
+
+	it('should parse every message type', () => {
+		expect(parse({ type: 'ride', ref: 'a', pickup: 1, dropoff: 5 })).toEqual({ v: PROTOCOL_VERSION, type: 'ride', ref: 'a', pickup: 1, dropoff: 5 });
+		expect(parse({ type: 'subscribe', topics: ['state', 'fire'], elevators: ['1'] })).toMatchObject({ type: 'subscribe', topics: ['state', 'fire'], elevators: ['1'] });
+		expect(parse({ type: 'unsubscribe', topics: [] })).toMatchObject({ type: 'unsubscribe', topics: [] });
+		expect(parse({ type: 'ping' })).toMatchObject({ type: 'ping' });
+	});
+
+	it('should reject messages which are not JSON objects', () => {
+		expect(() => parseClientMessage('{"v":1,')).toThrow('not valid JSON');
+		expect(() => parseClientMessage('[1]')).toThrow('JSON object');
+		expect(() => parseClientMessage('null')).toThrow('JSON object');
+	});
+
+	it('should reject other protocol versions', () => {
+		expect(() => parseClientMessage(JSON.stringify({ type: 'ping' }))).toThrow('Unsupported protocol version');
+		expect(() => parseClientMessage(JSON.stringify({ v: PROTOCOL_VERSION + 1, type: 'ping' }))).toThrow(ValidationError);
+	});
+
+	it('should reject messages which do not match their schema', () => {
+		expect(() => parse({ type: 'ping', ref: 1 })).toThrow(`'ref' must be a string`);
+		expect(() => parse({ type: 'ride', dropoff: 5 })).toThrow(`'pickup' is required`);
+		expect(() => parse({ type: 'subscribe', topics: ['state', 'weather'] })).toThrow(`'topics' must be an array`);
+		expect(() => parse({ type: 'unsubscribe' })).toThrow(`'topics' must be an array`);
+		expect(() => parse({ type: 'subscribe', topics: [], elevators: [1] })).toThrow(`'elevators' must be an array`);
+		expect(() => parse({ type: 'dance' })).toThrow(`Unknown message type 'dance'`);
+	});
+});
@@ -0,0 +1,32 @@
+import type { Server } from 'http';
+import { WebSocketServer } from 'ws';
+import { Application } from '../../app/app';
+import { Logger } from '../../infra/logger/Logger';
+import { WsSession } from './WsSession';
+
+/**
+ * The path on the HTTP server where websocket connections are accepted.
+ */
+export const WS_PATH = '/ws';
+
+/**
+ * Accept websocket connections from hall panels and in-car panels on an existing HTTP server. See
+ * {@link ./protocol.ts} for the messages they can exchange.
+ *
+ * @param server - The HTTP server to share the port with.
+ * @param app - The application whose {@link ElevatorService} the panels talk to.
+ * @returns The websocket server, which is closed along with the HTTP server.
+ */
+export function attachWebSocketServer(server: Server, app: Application): WebSocketServer {
+	const logger = new Logger('ws', app.options.LOG_LEVEL);
+	const wss = new WebSocketServer({ server, path: WS_PATH });
+
+	wss.on('connection', (socket, req) => {
+		logger.debug(`Panel connected from ${req.socket.remoteAddress}`);
+		new WsSession(socket, app.elevatorService, logger);
+	});
+	wss.on('error', (error) => logger.error('Websocket server error:', error));
+	server.on('close', () => wss.close());
+
+	return wss;
+}
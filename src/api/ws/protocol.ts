@@ -0,0 +1,150 @@
+import type { ElevatorId } from '../../domain/elevator/Elevator';
+import type { CallDirection, Floor } from '../../domain/route/Floors';
+import type { RideId } from '../../domain/rides/types';
+import type {
+	AggregatedButtonActiveEvents,
+	AggregatedElevatorStateChangeEvents,
+	AggregatedRideStatusChangeEvents,
+	ElevatorAvailabilityEvent,
+	FireServiceEvent,
+} from '../../domain/services/types';
+import { ValidationError } from '../../domain/errors/ValidationErrors';
+
+/**
+ * The version of the message schema. Every message in both directions carries it as `v` so panels
+ * and server can detect a mismatch instead of misinterpreting each other.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * The event streams a connection can subscribe to, see {@link SubscribeMessage}.
+ */
+export const TOPICS = ['state', 'buttons', 'availability', 'ride', 'fire'] as const;
+export type Topic = typeof TOPICS[number];
+
+/**
+ * An optional client-chosen id which is echoed back on every response to that message, so a panel
+ * can match answers to requests.
+ */
+type Ref = { ref?: string };
+type Versioned = { v: typeof PROTOCOL_VERSION };
+
+
+
+//-------------------------------- Client -> Server --------------------------------
+
+/**
+ * Request a ride, answered with a {@link RideAssignedMessage} followed by {@link EtaMessage}s. Hall panels
+ * without a destination keypad send the `direction` of the button which was pushed instead of a `dropoff`.
+ */
+export type RideMessage = Versioned & Ref & { type: 'ride', pickup: Floor, dropoff?: Floor, direction?: CallDirection };
+
+/** Start receiving events. Omitting `elevators` means all of them. Replaces previous filters. */
+export type SubscribeMessage = Versioned & Ref & { type: 'subscribe', topics: Topic[], elevators?: ElevatorId[] };
+
+/** Stop receiving events. */
+export type UnsubscribeMessage = Versioned & Ref & { type: 'unsubscribe', topics: Topic[] };
+
+/** Check the connection is alive, answered with a {@link PongMessage}. */
+export type PingMessage = Versioned & Ref & { type: 'ping' };
+
+export type ClientMessage = RideMessage | SubscribeMessage | UnsubscribeMessage | PingMessage;
+
+
+
+//-------------------------------- Server -> Client --------------------------------
+
+/** Sent once when the connection opens. */
+export type WelcomeMessage = Versioned & { type: 'welcome', topics: readonly Topic[], elevators: ElevatorId[] };
+
+/** The answer to a {@link RideMessage}. `eta` is in milliseconds, or null if it's too far out to estimate. */
+export type RideAssignedMessage = Versioned & Ref & { type: 'rideAssigned', ride: RideId, elevator: ElevatorId, pickup: Floor, dropoff?: Floor, eta: number | null };
+
+/** An updated estimate of when the assigned elevator will arrive at the pickup floor. */
+export type EtaMessage = Versioned & Ref & { type: 'eta', elevator: ElevatorId, pickup: Floor, eta: number | null };
+
+/** The assigned elevator has opened its doors at the pickup floor. No more ETAs follow for this ride. */
+export type ArrivedMessage = Versioned & Ref & { type: 'arrived', elevator: ElevatorId, floor: Floor };
+
+/** Confirms a {@link SubscribeMessage} or {@link UnsubscribeMessage} with the resulting subscriptions. */
+export type SubscriptionsMessage = Versioned & Ref & { type: 'subscriptions', topics: Topic[], elevators: ElevatorId[] | null };
+
+export type StateMessage = Versioned & { type: 'state', event: AggregatedElevatorStateChangeEvents };
+export type ButtonsMessage = Versioned & { type: 'buttons', event: AggregatedButtonActiveEvents };
+export type AvailabilityMessage = Versioned & { type: 'availability', event: ElevatorAvailabilityEvent };
+/** Elevators went on or off fire service. Events for the whole bank only go to connections following every elevator. */
+export type FireMessage = Versioned & { type: 'fire', event: FireServiceEvent };
+/** A ride changed status. Not to be confused with the {@link RideMessage} which goes the other way. */
+export type RideStatusMessage = Versioned & { type: 'ride', event: AggregatedRideStatusChangeEvents };
+
+export type PongMessage = Versioned & Ref & { type: 'pong' };
+
+/** Something went wrong handling a message. `name` is the error class, like in the HTTP api. */
+export type ErrorMessage = Versioned & Ref & { type: 'error', name: string, message: string };
+
+export type ServerMessage =
+	| WelcomeMessage
+	| RideAssignedMessage
+	| EtaMessage
+	| ArrivedMessage
+	| SubscriptionsMessage
+	| StateMessage
+	| ButtonsMessage
+	| AvailabilityMessage
+	| FireMessage
+	| RideStatusMessage
+	| PongMessage
+	| ErrorMessage;
+
+
+
+//-------------------------------- Parsing --------------------------------
+
+/**
+ * Parse and validate a raw message received from a client.
+ * @param raw - The raw text of the message.
+ * @returns A {@link ClientMessage}. Floors are only checked to be present, the service validates their range.
+ * @throws A {@link ValidationError} if the message is not valid JSON or doesn't match the schema.
+ */
+export function parseClientMessage(raw: string): ClientMessage {
+	let msg: Record<string, unknown>;
+	try {
+		msg = JSON.parse(raw);
+	} catch (cause) {
+		throw new ValidationError(raw, 'Message is not valid JSON', {}, cause as Error);
+	}
+	if (typeof msg !== 'object' || msg === null || Array.isArray(msg)) {
+		throw new ValidationError(raw, 'Message must be a JSON object');
+	}
+	if (msg.v !== PROTOCOL_VERSION) {
+		throw new ValidationError(msg.v, `Unsupported protocol version ${msg.v}, expected ${PROTOCOL_VERSION}`);
+	}
+	if (msg.ref !== undefined && typeof msg.ref !== 'string') {
+		throw new ValidationError(msg.ref, `'ref' must be a string`);
+	}
+
+	switch (msg.type) {
+		case 'ride':
+			if (msg.pickup === undefined) {
+				throw new ValidationError(msg, `'pickup' is required`);
+			}
+			return msg as RideMessage;
+		case 'subscribe':
+		case 'unsubscribe':
+			validateTopics(msg.topics);
+			if (msg.elevators !== undefined && (!Array.isArray(msg.elevators) || msg.elevators.some(id => typeof id !== 'string'))) {
+				throw new ValidationError(msg.elevators, `'elevators' must be an array of elevator ids`);
+			}
+			return msg as SubscribeMessage | UnsubscribeMessage;
+		case 'ping':
+			return msg as PingMessage;
+		default:
+			throw new ValidationError(msg.type, `Unknown message type '${msg.type}'`);
+	}
+}
+
+function validateTopics(topics: unknown): asserts topics is Topic[] {
+	if (!Array.isArray(topics) || topics.some(topic => !(TOPICS as readonly unknown[]).includes(topic))) {
+		throw new ValidationError(topics, `'topics' must be an array containing any of: ${TOPICS.join(', ')}`);
+	}
+}
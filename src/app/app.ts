@@ -4,7 +4,14 @@ import { CreateHeapChecker } from './health/HeapCheck';
 import type { AppOptions } from '../options';
 import { ElevatorService } from '../domain/services/ElevatorService';
 import { Elevator } from '../domain/elevator/Elevator';
-import { InsertOrder } from '../domain/strategies/InsertOrder';
+import { createDefaultStrategyRegistry, parseElevatorStrategies, StrategyRegistry } from '../domain/strategies/StrategyRegistry';
+import { Zoned } from '../domain/strategies/Zoned';
+import { formatFloors, parseElevatorFloors } from '../domain/route/Floors';
+import { parseElevatorCapacities } from '../domain/elevator/Capacity';
+import { createElevatorDriver } from '../domain/elevator/drivers';
+import { RideMetrics } from '../domain/metrics/RideMetrics';
+import { Clock } from '../infra/clock/Clock';
+import { RealClock } from '../infra/clock/RealClock';
 
 /**
  * Main Application class that initializes and runs the core application.
@@ -13,31 +20,55 @@ import { InsertOrder } from '../domain/strategies/InsertOrder';
 export class Application {
 	public readonly healthService: HealthService;
 	public readonly elevatorService: ElevatorService;
+	public readonly rideMetrics: RideMetrics;
 
 	/**
 	 * Initialize the application and all its services
 	 * @param options - The application options
+	 * @param logger - Optional. The logger for the application
+	 * @param clock - Optional. Where all services get the time from, pass a {@link VirtualClock} to run in simulated time
+	 * @param strategies - Optional. The strategies elevators can be configured with, see {@link AppOptions.STRATEGY}
+	 *  and {@link AppOptions.ELEVATOR_STRATEGIES}
+	 * @throws A {@link ValidationError} if the options name a strategy which isn't in the registry, zones or
+	 *  served floors outside the building, capacities which can't be parsed, or a driver which doesn't exist or is
+	 *  misconfigured
 	 */
-	constructor(public readonly options: AppOptions, public readonly logger?: Logger) {
+	constructor(
+		public readonly options: AppOptions
+		, public readonly logger?: Logger
+		, public readonly clock: Clock = new RealClock()
+		, public readonly strategies: StrategyRegistry = createDefaultStrategyRegistry()
+	) {
 
 		// Initialize health service which will use to monitor the 
 		// load and functionality on the system (this was really only
 		// created as a first simple service to make sure things were
 		// working and we could test the cli)
-		this.healthService = new HealthService();
-		this.healthService.registerCheck(CreateHeapChecker());
+		this.healthService = new HealthService(undefined, undefined, clock);
+		this.healthService.registerCheck(CreateHeapChecker(undefined, clock));
 
 
-		// Initialize the main elevator service and populate it with elevators
-		this.elevatorService = new ElevatorService(this.options, new Logger('ElevatorService', this.options.LOG_LEVEL));
+		// Initialize the main elevator service and populate it with elevators, each with its configured strategy
+		// floors it stops at, capacity and driver, and limited to its zone if it has one
+		const elevatorStrategies = parseElevatorStrategies(this.options.ELEVATOR_STRATEGIES, strategies);
+		const zones = parseElevatorFloors(this.options.ELEVATOR_ZONES, this.options);
+		const servedFloors = parseElevatorFloors(this.options.ELEVATOR_SERVED_FLOORS, this.options);
+		const capacities = parseElevatorCapacities(this.options.ELEVATOR_CAPACITIES);
+		this.elevatorService = new ElevatorService(this.options, new Logger('ElevatorService', this.options.LOG_LEVEL), clock);
 		for (let i = 0; i < this.options.NR_OF_ELEVATORS; i++) {
 			const id = `Elevator#${(i + 1).toString()}`; //so we get pretty names starting at 1
 			const logger = new Logger(id, this.options.LOG_LEVEL);
-			const strategy = new InsertOrder(this.options, logger);
-			const elevator = new Elevator(id, strategy, this.options, logger);
+			const strategy = strategies.create(elevatorStrategies.get(i + 1) ?? this.options.STRATEGY, this.options, logger);
+			const zone = zones.get(i + 1);
+			const elevatorOptions = { ...this.options, SERVED_FLOORS: servedFloors.get(i + 1), ...capacities.get(i + 1) };
+			const driver = createElevatorDriver(i + 1, this.options, logger, clock);
+			const elevator = new Elevator(id, zone ? new Zoned(strategy, zone, this.options.INITIAL_FLOOR) : strategy, elevatorOptions, logger, clock, driver);
 			this.elevatorService.addElevator(elevator);
 		}
 
+		// Measure how long passengers wait and ride from the start
+		this.rideMetrics = new RideMetrics(this.elevatorService, clock);
+
 
 	}
 
@@ -51,6 +82,15 @@ export class Application {
 		this.healthService.start();
 		this.elevatorService.start();
 
+		// Let whoever configured the served floors know if some rides are impossible
+		const { unserved, rides } = this.elevatorService.getUnreachableFloors();
+		if (unserved.length > 0) {
+			this.logger?.warn(`No elevator stops at floor(s) ${formatFloors(unserved)}`);
+		}
+		for (const { from, to } of rides) {
+			this.logger?.warn(`No elevator goes from floor ${from} to ${formatFloors(to)}`);
+		}
+
 
 		this.logger?.info('Application started successfully');
 
@@ -64,6 +104,8 @@ export class Application {
 
 		// Shutdown services
 		this.healthService.shutdown();
+		this.elevatorService.shutdown();
+		this.rideMetrics.stop();
 
 		this.logger?.info('Application stopped');
 	}
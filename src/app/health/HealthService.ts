@@ -1,6 +1,8 @@
 import { ComponentHealthCheck, ComponentHealthDto } from '../../domain/health/ComponentHealthCheck';
 import { TypedEventEmitter } from "../../infra/events/TypedEventEmitter";
 import { Logger } from '../../infra/logger/Logger';
+import type { Clock, TimerId } from '../../infra/clock/Clock';
+import { RealClock } from '../../infra/clock/RealClock';
 
 /**
  * The default interval between health checks in milliseconds.
@@ -31,17 +33,17 @@ export type HealthServiceEventMap = {
 
 export class HealthService extends TypedEventEmitter<HealthServiceEventMap> {
 	private checks: ComponentHealthCheck[] = [];
-	private intervalId: NodeJS.Timeout | undefined;
+	private intervalId: TimerId | undefined;
 	private lastStatuses: Map<string, ComponentHealthDto> = new Map();
 
-	constructor(private readonly checkIntervalMs: number = DEFAULT_CHECK_INTERVAL_MS, logger?: Logger) {
+	constructor(private readonly checkIntervalMs: number = DEFAULT_CHECK_INTERVAL_MS, logger?: Logger, private readonly clock: Clock = new RealClock()) {
 		super(logger);
 	}
 
 	public start(): void {
 		if (!this.intervalId) {
 			this.logger?.debug('Starting health check service...');
-			this.intervalId = setInterval(this.runChecks.bind(this), this.checkIntervalMs);
+			this.intervalId = this.clock.setInterval(this.runChecks.bind(this), this.checkIntervalMs);
 			//Run once right away
 			this.runChecks();
 		}
@@ -49,7 +51,7 @@ export class HealthService extends TypedEventEmitter<HealthServiceEventMap> {
 
 	public shutdown(): void {
 		if (this.intervalId) {
-			clearInterval(this.intervalId);
+			this.clock.clearInterval(this.intervalId);
 			this.intervalId = undefined;
 			this.logger?.info('Health check service stopped');
 		}
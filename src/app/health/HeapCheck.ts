@@ -1,4 +1,5 @@
 import { ComponentHealthCheck } from "../../domain/health/ComponentHealthCheck";
+import type { Clock } from "../../infra/clock/Clock";
 
 /**
  * The default percentage of heap usage above which the health check will fail which
@@ -6,7 +7,7 @@ import { ComponentHealthCheck } from "../../domain/health/ComponentHealthCheck";
  */
 const DEFAULT_HEAP_THRESHOLD = 0.9;
 
-export function CreateHeapChecker(pctThreshold: number = DEFAULT_HEAP_THRESHOLD): ComponentHealthCheck {
+export function CreateHeapChecker(pctThreshold: number = DEFAULT_HEAP_THRESHOLD, clock?: Clock): ComponentHealthCheck {
 	return new ComponentHealthCheck('memory', () => {
 		const used = process.memoryUsage();
 		const pctUsed = used.heapUsed / used.heapTotal;
@@ -15,5 +16,5 @@ export function CreateHeapChecker(pctThreshold: number = DEFAULT_HEAP_THRESHOLD)
 			throw new Error(`High heap usage: ${pctUsedStr}%`);
 		}
 		return `Heap usage: ${pctUsedStr}%`;
-	});
+	}, undefined, undefined, clock);
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+import type { AppOptions } from "../../options";
+import { ValidationError } from "../errors/ValidationErrors";
+
+/**
+ * How much a car can carry. Both limits are optional and 0 means no limit, so by default cars never fill up.
+ */
+export type CapacityOptions = Partial<Pick<AppOptions, 'CAPACITY' | 'RATED_LOAD' | 'PASSENGER_WEIGHT'>>;
+
+/**
+ * What a car is carrying right now. We only count passengers who told us where they're going since
+ * nobody else can be counted off again, see {@link ElevatorRoute.visitNow()}.
+ */
+export type ElevatorLoad = {
+	passengers: number,
+	/** Estimated from {@link AppOptions.PASSENGER_WEIGHT} */
+	kg: number,
+	/** The most passengers the car takes, omitted when there is no limit */
+	capacity?: number,
+	/** The most kg the car takes, omitted when there is no limit */
+	ratedLoad?: number,
+	/** True if one more passenger wouldn't fit */
+	full: boolean,
+}
+
+/**
+ * Work out the load of a car from the number of passengers inside it.
+ * @param passengers - The number of passengers in the car.
+ * @param options - The capacity of the car.
+ */
+export function getLoad(passengers: number, options: CapacityOptions): ElevatorLoad {
+	const weight = options.PASSENGER_WEIGHT ?? 0;
+	const capacity = options.CAPACITY || undefined;
+	const ratedLoad = options.RATED_LOAD || undefined;
+	return {
+		passengers,
+		kg: passengers * weight,
+		...(capacity !== undefined && { capacity }),
+		...(ratedLoad !== undefined && { ratedLoad }),
+		full: (capacity !== undefined && passengers >= capacity)
+			|| (ratedLoad !== undefined && (passengers + 1) * weight > ratedLoad),
+	};
+}
+
+/**
+ * Parse per elevator capacities, i.e. comma separated `<elevator number>:<capacity>` pairs numbered
+ * from 1 where the capacity is a number of passengers or kg with a `kg` suffix, e.g. `1:8,2:630kg`.
+ * @param value - The option value to parse.
+ * @returns The capacity of each elevator which has one.
+ * @throws A {@link ValidationError} if the value can't be parsed.
+ */
+export function parseElevatorCapacities(value: string): Map<number, CapacityOptions> {
+	const capacities = new Map<number, CapacityOptions>();
+	for (const pair of value.split(',').map(part => part.trim()).filter(part => part !== '')) {
+		const match = /^(\d+)\s*:\s*(\d+)\s*(kg)?$/i.exec(pair);
+		const elevator = Number(match?.[1]);
+		if (!match || elevator < 1) {
+			throw new ValidationError(value, `Invalid elevator capacity '${pair}', expected <elevator number>:<passengers> or <elevator number>:<kg>kg`);
+		}
+		capacities.set(elevator, match[3] ? { RATED_LOAD: Number(match[2]) } : { CAPACITY: Number(match[2]) });
+	}
+	return capacities;
+}
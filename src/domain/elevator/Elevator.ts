@@ -1,14 +1,24 @@
 import { ElevatorIO } from "./ElevatorIO";
-import { ElevatorStateType, IdleState } from "./types";
+import { DoorButton, ElevatorStateType, FaultReason, FireServiceMode, IdleState } from "./types";
 import { ElevatorRoute } from "../route/ElevatorRoute";
 import { Logger } from "../../infra/logger/Logger";
+import type { Clock } from "../../infra/clock/Clock";
 import { Strategy } from "../strategies/Strategy";
-import { Floor, validateFloors } from "../route/Floors";
+import { CallDirection, Floor, FloorRange, isFloorServed, validateFloor, validateFloors } from "../route/Floors";
 import type { AppOptions } from "../../options";
 import type { ElevatorIOOptions } from "./ElevatorIO";
 import { ExplicitAny } from "../../shared/types/helpers";
+import { CapacityOptions, ElevatorLoad, getLoad } from "./Capacity";
+import { StateError } from "../errors/StateErrors";
+import { Watchdog, WatchdogOptions } from "./Watchdog";
+import type { ElevatorDriver } from "./ElevatorDriver";
 
-export type ElevatorOptions = Pick<AppOptions, 'MIN_FLOOR' | 'MAX_FLOOR'> & ElevatorIOOptions;
+/**
+ * The floors an elevator can stop at default to every floor of the building, but a car may serve fewer, see
+ * {@link FloorRange}. Without a capacity the car never fills up, see {@link CapacityOptions}. Without a watchdog
+ * tolerance nobody notices when the car gets stuck, see {@link WatchdogOptions}.
+ */
+export type ElevatorOptions = FloorRange & ElevatorIOOptions & CapacityOptions & WatchdogOptions;
 export type ElevatorId = string;
 
 
@@ -17,6 +27,7 @@ export type ElevatorId = string;
  * 
  * It's responsible for bringing 3 things together:
  *  - **IO** - reading the elevator's state (like which floor it's at and what it's doing) and sending commands to it
+ *    through its {@link ElevatorDriver}
  *  - **Route** - an input-ordered and request-counted list of floors to visit
  *  - **Travel strategy** - a strategy to decide in which order floors should be visted
  * 
@@ -26,17 +37,29 @@ export type ElevatorId = string;
 export class Elevator {
 	public readonly route: ElevatorRoute;
 	public readonly io: ElevatorIO;
+	private readonly watchdog: Watchdog;
 	private _running_listener?: (...args: ExplicitAny[]) => void;
 
+	/** The number of passengers in the car, counted on and off as the route is visited */
+	private passengers = 0;
+
+	/** Set while the elevator is on fire service, which overrides the strategy, see {@link recall()} */
+	private fireService?: FireServiceMode;
+
 	constructor(
 		public readonly id: ElevatorId
 		, private travelStrategy: Strategy
 		, public readonly options: ElevatorOptions
 		, public readonly logger?: Logger
+		, clock?: Clock
+		, driver?: ElevatorDriver
 	) {
 		this.route = new ElevatorRoute();
-		this.io = new ElevatorIO(options, logger);
-
+		this.io = new ElevatorIO(options, logger, clock, undefined, driver);
+		this.watchdog = new Watchdog(this.io, options, logger, clock);
+		this.route.on('visit', ({ boarded, alighted }) => {
+			this.passengers = Math.max(0, this.passengers - alighted) + boarded;
+		});
 	}
 
 	/**
@@ -57,6 +80,8 @@ export class Elevator {
 		const listener = this.tellElevatorWhatToDoNext.bind(this);
 		this.io.listen(ElevatorStateType.IDLE, listener);
 		this._running_listener = listener;
+		this.watchdog.start();
+		this.io.driver.connect();
 	}
 
 	/**
@@ -73,14 +98,24 @@ export class Elevator {
 	/**
 	 * Graceful shutdown handler. 
 	 * 
-	 * Currently this only only removes all listeners (internal and external) for state change events.
+	 * Currently this only only removes all listeners (internal and external) for state change events
+	 * and disconnects the driver.
 	 */
 	shutdown(): void {
+		this.watchdog.stop();
+		this.io.driver.disconnect();
 		this.io.removeAllListeners();
 		this.route.removeAllListeners();
 	}
 
 
+	/**
+	 * Get the travel strategy of the elevator.
+	 */
+	getTravelStrategy(): Strategy {
+		return this.travelStrategy;
+	}
+
 	/**
 	 * Change the travel strategy of the elevator.
 	 * @param travelStrategy - The new travel strategy.
@@ -89,7 +124,7 @@ export class Elevator {
 		if (this.travelStrategy === travelStrategy) {
 			return;
 		}
-		this.logger?.info(`Changing travel strategy from ${this.travelStrategy.constructor.name} to ${travelStrategy.constructor.name}`);
+		this.logger?.info(`Changing travel strategy from ${this.travelStrategy.name} to ${travelStrategy.name}`);
 		this.travelStrategy = travelStrategy;
 	}
 
@@ -99,19 +134,28 @@ export class Elevator {
 	 */
 	private tellElevatorWhatToDoNext(state: IdleState): void {
 		try {
+			//Fire service overrides whatever the strategy would do
+			if (this.fireService) {
+				this.tellElevatorWhatToDoOnFireService(state, this.fireService);
+				return;
+			}
+
+			const route = this.getRouteForStrategy();
+
 			//If we're at a floor we should stop at...
-			if (this.route.shouldVisit(state.atFloor)) {
-				// ...register the stop on the route...
-				this.route.visitNow(state.atFloor);
+			if (this.travelStrategy.shouldStopAt(route, state.atFloor)) {
+				// ...register the stop on the route, answering the hall calls going the way we'll leave in...
+				const direction = this.travelStrategy.getDepartureDirection(route, state.atFloor);
+				this.route.visitNow(state.atFloor, direction);
 
 				// ... and open the doors. When the doors close in the future it will trigger another IDLE event
 				// which will cause this handler to run again.
-				this.io.openDoors();
+				this.io.openDoors(direction);
 			} else {
 				//If we're not at a floor we should stop at but there are still stops to visit...
 				if (this.route.length() > 0) {
 					//...then we let the strategy tell us how many floors to move
-					this.io.move(this.travelStrategy.getNrFloorsToMove(this.route, state.atFloor));
+					this.io.move(this.travelStrategy.getNrFloorsToMove(route, state.atFloor));
 				}
 			}
 		} catch (error) {
@@ -124,12 +168,246 @@ export class Elevator {
 
 
 
+	/**
+	 * The override of {@link tellElevatorWhatToDoNext()} while on fire service. Cars go non-stop, without
+	 * looking at the route.
+	 */
+	private tellElevatorWhatToDoOnFireService(state: IdleState, fireService: FireServiceMode): void {
+		if (fireService.phase === 'recall') {
+			if (state.atFloor === fireService.floor) {
+				//Everyone gets out at the recall floor and the doors stay open for the firefighters
+				this.passengers = 0;
+				this.io.holdDoorsOpen();
+			} else {
+				this.io.move(fireService.floor - state.atFloor);
+			}
+		} else if (fireService.target !== undefined) {
+			//The firefighter has to open the doors themselves once the car is there
+			if (state.atFloor === fireService.target) {
+				delete fireService.target;
+			} else {
+				this.io.move(fireService.target - state.atFloor);
+			}
+		}
+	}
+
+	/**
+	 * Recall the elevator on fire service (Phase I). Its route is cleared and it goes non-stop to the recall
+	 * floor, where it opens its doors and stays, see {@link FireServiceMode}. A car which is moving away first
+	 * arrives at the floor it's moving to, and one with its doors open closes them right away.
+	 * @param floor - The floor to go to, which is expected to have been validated already.
+	 */
+	recall(floor: Floor): void {
+		if (this.fireService?.phase === 'firefighter') {
+			throw new StateError(`Elevator ${this.id} is under firefighter operation`, { fireService: { ...this.fireService } });
+		}
+		this.logger?.warn(`Recalled to floor ${floor} on fire service`);
+		this.fireService = { phase: 'recall', floor };
+		this.route.clear();
+		this.resumeFireService();
+	}
+
+	/**
+	 * Get what the elevator does on fire service, or undefined if it's serving rides.
+	 */
+	getFireService(): FireServiceMode | undefined {
+		return this.fireService && { ...this.fireService };
+	}
+
+	/**
+	 * Check if the elevator has been recalled on fire service and is parked at its recall floor with its doors
+	 * open, which is when firefighters can take it over, see {@link startFirefighterOperation()}.
+	 */
+	isRecalled(): boolean {
+		const state = this.io.getState();
+		return this.fireService?.phase === 'recall'
+			&& state.type === ElevatorStateType.DOORS_HELD_OPEN
+			&& state.atFloor === this.fireService.floor;
+	}
+
+	/**
+	 * Hand the elevator over to a firefighter (Phase II), see {@link FireServiceMode}.
+	 * @throws A {@link StateError} if the elevator hasn't been recalled to its recall floor yet.
+	 */
+	startFirefighterOperation(): void {
+		if (this.fireService?.phase === 'firefighter') {
+			return;
+		}
+		if (!this.fireService || !this.isRecalled()) {
+			throw new StateError(`Elevator ${this.id} has to be recalled before firefighters can take it over`, { fireService: this.getFireService() });
+		}
+		this.logger?.warn('Under firefighter operation');
+		this.fireService = { phase: 'firefighter', floor: this.fireService.floor };
+	}
+
+	/**
+	 * Take the elevator back from the firefighter. It's recalled to its recall floor again.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation.
+	 */
+	endFirefighterOperation(): void {
+		const fireService = this.getFirefighterOperation();
+		this.fireService = undefined;
+		this.recall(fireService.floor);
+	}
+
+	/**
+	 * Send the elevator to a floor under firefighter operation, replacing the floor it was going to. It
+	 * leaves once the doors are closed.
+	 * @param floor - The floor to go to.
+	 * @throws A {@link ValidationError} if the elevator can't stop at the floor.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation.
+	 */
+	sendFirefighterTo(floor: Floor): void {
+		validateFloor(floor, this.options, 'floor');
+		const fireService = this.getFirefighterOperation();
+		fireService.target = floor;
+		this.resumeFireService();
+	}
+
+	/**
+	 * Push and hold a door button under firefighter operation. The doors move until they're fully open or closed,
+	 * unless the button is let go before that, see {@link releaseDoorButton()}.
+	 * @param button - The button to hold.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation, is moving or is stopped.
+	 */
+	pressDoorButton(button: DoorButton): void {
+		const fireService = this.getFirefighterOperation();
+		const type = this.io.getState('type');
+		if (type === ElevatorStateType.MOVING_UP || type === ElevatorStateType.MOVING_DOWN || type === ElevatorStateType.STOPPED) {
+			throw new StateError(`Elevator ${this.id} is ${type === ElevatorStateType.STOPPED ? 'stopped' : 'moving'}, the doors can't be operated`, { state: this.io.getState() });
+		}
+		fireService.button = button;
+		if (button === 'open') {
+			this.io.holdDoorsOpen();
+		} else {
+			this.io.closeDoors();
+		}
+	}
+
+	/**
+	 * Let go of the door button held under firefighter operation. Doors which haven't made it all the way go back.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation.
+	 */
+	releaseDoorButton(): void {
+		const fireService = this.getFirefighterOperation();
+		const type = this.io.getState('type');
+		if (fireService.button === 'open' && type === ElevatorStateType.DOORS_OPENING) {
+			this.io.closeDoors();
+		} else if (fireService.button === 'close' && type === ElevatorStateType.DOORS_CLOSING) {
+			this.io.holdDoorsOpen();
+		}
+		delete fireService.button;
+	}
+
+	/**
+	 * Take the elevator off fire service so it serves rides again. Doors held open close.
+	 */
+	cancelFireService(): void {
+		if (!this.fireService) {
+			return;
+		}
+		this.logger?.info('Back from fire service');
+		this.fireService = undefined;
+		if (this.io.getState('type') === ElevatorStateType.DOORS_HELD_OPEN) {
+			this.io.closeDoors();
+		}
+	}
+
+	/**
+	 * Get the mode of an elevator under firefighter operation, which is updated in place.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation.
+	 */
+	private getFirefighterOperation(): Extract<FireServiceMode, { phase: 'firefighter' }> {
+		if (this.fireService?.phase !== 'firefighter') {
+			throw new StateError(`Elevator ${this.id} isn't under firefighter operation`, { fireService: this.getFireService() });
+		}
+		return this.fireService;
+	}
+
+	/**
+	 * Get the elevator going on fire service from whatever it's doing. Idle cars are told what to do now, cars
+	 * with open doors close them first (unless they're already where they're going) and moving ones carry on
+	 * until they arrive. Stopped ones wait until they're reset.
+	 */
+	private resumeFireService(): void {
+		const state = this.io.getState();
+		if (state.type === ElevatorStateType.IDLE) {
+			this.tellElevatorWhatToDoNext(state);
+		} else if (this.fireService?.phase === 'recall' && state.type !== ElevatorStateType.STOPPED && 'atFloor' in state) {
+			if (state.atFloor === this.fireService.floor) {
+				this.passengers = 0;
+				this.io.holdDoorsOpen();
+			} else {
+				this.io.closeDoors();
+			}
+		}
+	}
+
+	/**
+	 * Stop the car where it is, see {@link ElevatorIO.stop()}. Its route is kept, so once it's {@link reset()} it
+	 * carries on with whatever is left of it.
+	 * @param reason - Optional. Why the car is stopped, by default because of the emergency stop.
+	 */
+	emergencyStop(reason: FaultReason = 'emergencyStop'): void {
+		this.logger?.warn(`Stopping elevator ${this.id} (${reason})`);
+		this.io.stop(reason);
+	}
+
+	/**
+	 * Check if the car has been stopped, either with {@link emergencyStop()} or by the {@link Watchdog}.
+	 */
+	isStopped(): boolean {
+		return this.io.getState('type') === ElevatorStateType.STOPPED;
+	}
+
+	/**
+	 * Get a stopped car going again, see {@link ElevatorIO.reset()}.
+	 * @throws A {@link StateError} if the car isn't stopped.
+	 */
+	reset(): void {
+		if (!this.isStopped()) {
+			throw new StateError(`Elevator ${this.id} isn't stopped`, { state: this.io.getState() });
+		}
+		this.logger?.info(`Resetting elevator ${this.id}`);
+		this.io.reset();
+	}
+
+	/**
+	 * Get the route the strategy decides where to go next from. A full car passes floors where people are
+	 * only waiting to get on, so the strategy doesn't see those, unless nothing else is left (e.g. when the
+	 * passengers we counted haven't pushed a button) since then we'd never move again.
+	 */
+	private getRouteForStrategy(): ElevatorRoute {
+		if (!this.isFull()) {
+			return this.route;
+		}
+		const route = this.route.copyWithoutHallCalls();
+		return route.length() > 0 ? route : this.route;
+	}
+
+	/**
+	 * Get what the car is carrying right now, see {@link ElevatorLoad}.
+	 */
+	getLoad(): ElevatorLoad {
+		return getLoad(this.passengers, this.options);
+	}
+
+	/**
+	 * Check if the car is full, i.e. one more passenger wouldn't fit. Full cars skip hall calls until
+	 * someone gets off.
+	 */
+	isFull(): boolean {
+		return this.getLoad().full;
+	}
+
 	/**
 	 * Add a floor as a stop to the elevator's route.
 	 * @param floor - The floor to add as a stop.
+	 * @param direction - Optional. The direction of the hall call at the pickup floor, see {@link ElevatorRoute.addRide()}.
+	 * @returns True if the ride was added, false if the strategy vetoed it at the last moment.
 	 * @throws RangeError if the floor is out of bounds.
 	 */
-	addRide(pickupFloor: Floor, dropoffFloor?: Floor): void {
+	addRide(pickupFloor: Floor, dropoffFloor?: Floor, direction?: CallDirection): boolean {
 		//First check we have (a) valid floor(s) within the bounds of the elevator. Do this even if the ElevatorService 
 		//already has (defensive programming and all that)
 		validateFloors(pickupFloor, dropoffFloor, this.options);
@@ -137,17 +415,18 @@ export class Elevator {
 
 		//Check for veto again in case the strategy changed its mind. 
 		if (this.checkIfRideIsVetoed(pickupFloor, dropoffFloor)) {
-			this.logger?.warn(`Late veto of ride from ${pickupFloor} to ${dropoffFloor} by strategy '${this.travelStrategy.constructor.name}'`);
-			return;
+			this.logger?.warn(`Late veto of ride from ${pickupFloor} to ${dropoffFloor} by strategy '${this.travelStrategy.name}'`);
+			return false;
 		}
 		//All good! Let's add the ride to the route
-		this.route.addRide(pickupFloor, dropoffFloor);
+		this.route.addRide(pickupFloor, dropoffFloor, direction);
 
 		//Then we have to start proceedings somehow. If the elevator is already doing things then
 		//it'll naturally get to our new floor in due time, but if it's not it needs nudging...
 		if (this.io.getState('type') === ElevatorStateType.IDLE) {
 			this.tellElevatorWhatToDoNext(this.io.getState() as IdleState);
 		}
+		return true;
 	}
 
 
@@ -162,20 +441,47 @@ export class Elevator {
 	 * 
 	 * @param pickupFloor - The floor to pickup the passenger from.
 	 * @param dropoffFloor - Optional.The floor to drop the passenger off at.
+	 * @param direction - Optional. The direction of the hall call at the pickup floor.
+	 * @param route - Optional. Estimate based on this route instead of the elevator's own, e.g. to see what
+	 *  would happen if rides were moved between elevators. It's copied and thus **NOT** altered.
 	 * 
 	 * @returns A Promise containing the estimated time in milliseconds which is less than
 	 *  {@link AppOptions.ESTIMATION_LIMIT} or -1 if that limit was reached.
 	 */
-	async estimatePickupDropoffTime(pickupFloor: Floor, dropoffFloor?: Floor): Promise<number> {
+	async estimatePickupDropoffTime(pickupFloor: Floor, dropoffFloor?: Floor, direction?: CallDirection, route: ElevatorRoute = this.route): Promise<number> {
 		return this.travelStrategy.estimatePickupDropoffTime(
-			this.route.copy()
-			, this.io.getState('atFloor')
+			route.copy()
+			, this.io.getNextFloorWhereElevatorAcceptsCommands() //while moving there is no atFloor
 			, pickupFloor
 			, dropoffFloor
+			, direction
 		);
 	}
 
 
+	/**
+	 * Check if the elevator can stop at both floors of a ride, see {@link ElevatorOptions}. Unlike a veto this
+	 * never changes.
+	 * @param pickupFloor - The floor to pickup the passenger from.
+	 * @param dropoffFloor - Optional. The floor to drop the passenger off at.
+	 */
+	canServe(pickupFloor: Floor, dropoffFloor?: Floor): boolean {
+		return isFloorServed(pickupFloor, this.options) && (dropoffFloor === undefined || isFloorServed(dropoffFloor, this.options));
+	}
+
+	/**
+	 * Get the floors the elevator can stop at, lowest first.
+	 */
+	getServedFloors(): Floor[] {
+		const floors: Floor[] = [];
+		for (let floor = this.options.MIN_FLOOR; floor <= this.options.MAX_FLOOR; floor++) {
+			if (isFloorServed(floor, this.options)) {
+				floors.push(floor);
+			}
+		}
+		return floors;
+	}
+
 	/**
 	 * Check if the strategy employed by this elevator vetos this ride.
 	 * @param pickupFloor - The floor to pickup the passenger from.
@@ -186,7 +492,7 @@ export class Elevator {
 		if (this.travelStrategy.checkIfRideIsVetoed)
 			return this.travelStrategy.checkIfRideIsVetoed(
 				this.route
-				, this.io.getState('atFloor')
+				, this.io.getNextFloorWhereElevatorAcceptsCommands()
 				, pickupFloor
 				, dropoffFloor
 			);
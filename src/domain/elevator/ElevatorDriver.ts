@@ -0,0 +1,68 @@
+import { TypedEventEmitter } from "../../infra/events/TypedEventEmitter";
+import type { Floor } from "../route/Floors";
+import type { FaultReason } from "./types";
+
+/**
+ * The events a driver reports. The sensor events carry the floor the car was at or passed when they happened.
+ */
+export type ElevatorDriverEventMap = {
+	/** The car passed a floor without stopping, on its way to the floor it was sent to */
+	floorPassed: { floor: Floor },
+	/** The car stopped level with a floor, usually the one it was sent to */
+	arrived: { floor: Floor },
+	/** The doors are fully open */
+	doorsOpened: { floor: Floor },
+	/** The doors are fully closed */
+	doorsClosed: { floor: Floor },
+	/** Something is in the way of the doors closing, e.g. a passenger, so they've stopped closing */
+	obstruction: { floor: Floor },
+	/** The car can't be driven any more, e.g. because the connection to its controller was lost */
+	fault: { reason: FaultReason, message: string },
+};
+
+/**
+ * What actually moves the car and its doors, i.e. the hardware (or an emulation of it) behind an
+ * {@link ElevatorIO}. Commands go out through the methods and the car reports back with events, see
+ * {@link ElevatorDriverEventMap}. The IO doesn't assume a command worked until the event comes in, so a car which
+ * never reports back stays in the state it was in until the {@link Watchdog} notices.
+ *
+ * Each command comes with the time the IO expects it to take according to its {@link MotionProfile}. Real cars take
+ * as long as they take, but the {@link SimulatedDriver} takes exactly that long. A driver may report back before a
+ * command returns, e.g. when it takes no time.
+ */
+export abstract class ElevatorDriver extends TypedEventEmitter<ElevatorDriverEventMap> {
+
+	/**
+	 * Send the car to a floor where it stops, reporting the floors it passes on the way.
+	 * @param toFloor - The floor to stop at.
+	 * @param expectedTime - How long the IO expects the trip to take in milliseconds.
+	 */
+	abstract move(toFloor: Floor, expectedTime: number): void;
+
+	/**
+	 * Open the doors, or open them again from wherever they are if they're closing.
+	 * @param expectedTime - How long the IO expects them to take to open in milliseconds.
+	 */
+	abstract openDoors(expectedTime: number): void;
+
+	/**
+	 * Close the doors, or close them again from wherever they are if they're opening.
+	 * @param expectedTime - How long the IO expects them to take to close in milliseconds.
+	 */
+	abstract closeDoors(expectedTime: number): void;
+
+	/**
+	 * Stop whatever the car is doing right where it is.
+	 */
+	abstract stop(): void;
+
+	/**
+	 * Connect to the car, for drivers which need to. Called when the elevator starts.
+	 */
+	connect(): void { }
+
+	/**
+	 * Disconnect from the car, for drivers which need to. Called when the elevator shuts down.
+	 */
+	disconnect(): void { }
+}
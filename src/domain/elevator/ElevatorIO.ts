@@ -3,24 +3,30 @@
  * state machine including:
  *  - Accept command to move up or down
  *  - Accept command to open and close doors
- *  - Emit signal when on events (simulating real-world sensors detecting it arriving at a floors and opening/closing doors)
+ *  - Emit signal when on events, as reported by the {@link ElevatorDriver} (the sensors detecting the car arriving
+ *    at a floor and the doors opening/closing)
  * 
  * @note The elevator can only accept commands when it's in the {@link ElevatorStateType.IDLE} state.
  */
 
 import { TypedEventEmitter } from "../../infra/events/TypedEventEmitter";
 import { Logger } from "../../infra/logger/Logger";
+import { Clock, TimerId } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
 import { DistributiveOmit } from "../../shared/types/helpers";
 import { BUGBUG } from "../../shared/errors/Bug";
-import { Floor } from "../route/Floors";
+import { CallDirection, Floor } from "../route/Floors";
 import { ElevatorStateType, StateProps, StatesWithProp } from "./types";
-import type { ElevatorEventMap, ElevatorStates } from "./types";
+import type { DoorsClosingState, DoorsOpeningState, ElevatorEventMap, ElevatorStates, FaultReason, MovingDownState, MovingUpState, StoppedState } from "./types";
 import type { AppOptions } from "../../options";
+import { createMotionProfile, MotionOptions, MotionProfile } from "./MotionProfile";
+import type { ElevatorDriver, ElevatorDriverEventMap } from "./ElevatorDriver";
+import { SimulatedDriver } from "./SimulatedDriver";
 
 /**
  * Options required by the ElevatorIO class.
  */
-export type ElevatorIOOptions = Pick<AppOptions, 'INITIAL_FLOOR' | 'TRAVEL_TIME_PER_FLOOR' | 'DOOR_OPEN_TIME'>;
+export type ElevatorIOOptions = Pick<AppOptions, 'INITIAL_FLOOR'> & MotionOptions;
 
 
 type SettableState = DistributiveOmit<ElevatorStates, 'startTime'>;
@@ -31,31 +37,71 @@ type SettableState = DistributiveOmit<ElevatorStates, 'startTime'>;
 export class ElevatorIO extends TypedEventEmitter<ElevatorEventMap> {
 
 	/**
-	 * A timeout to schedule a future state change. This being set means the state machine
-	 * is in between two points in time where new commands are accepted.
+	 * The dwell, i.e. a timeout to close the doors once they've been open for long enough. Everything else
+	 * ends when the driver says so.
 	 */
-	private timeout?: NodeJS.Timeout;
+	private timeout?: TimerId;
 
 	/**
 	 * The current state of the elevator. 
 	 * 
-	 * Always set before state machine enters the "{@link timeout} period" so it can 
-	 * always be queries with {@link getState()}.
+	 * Always set before the car is sent off to do something so it can always be queried with {@link getState()}.
 	 * 
 	 * Only changed by setter {@link setState()} which also the change as events.
 	 */
 	private state: ElevatorStates; //! = Initialized in constructor via setState()
 
+	/**
+	 * The run the car is on, i.e. the floors it has moved in one direction without stopping. Moving on in the
+	 * same direction the moment it arrives at a floor continues the run, see {@link move()}.
+	 */
+	private run?: { direction: 1 | -1, floors: number };
+
+	/**
+	 * The driver event which ends what the car was sent to do, and the floor it's expected at. Anything else the
+	 * driver reports is out of place and ignored.
+	 */
+	private awaiting?: { event: keyof ElevatorDriverEventMap, floor: Floor };
+
+	/** The last floor the driver reported passing on the way to the one the car is moving to */
+	private passedFloor?: Floor;
+
+	/** Whether the doors which are opening are held open once they are, see {@link holdDoorsOpen()} */
+	private hold = false;
+
+	/** The hall lantern of the doors which are opening, open or closing, see {@link DoorsOpenState} */
+	private lantern: { direction?: CallDirection } = {};
+
 
 	/**
 	 * Initialize the ElevatorIO with the initial state. This should happen before the elevator is started.
 	 * @param options - The options for the ElevatorIO.
 	 * @param logger - The logger for the ElevatorIO.
+	 * @param clock - Optional. Where the time comes from, defaults to the system time.
+	 * @param motion - Optional. How long moving and stopping takes, defaults to the one the options ask for.
+	 * @param driver - Optional. What moves the car and its doors, defaults to a {@link SimulatedDriver} which
+	 *  takes as long as the motion profile says.
+	 * @throws A {@link ValidationError} if the options ask for a motion profile which doesn't exist or is misconfigured.
 	 */
-	constructor(private readonly options: ElevatorIOOptions, logger?: Logger) {
+	constructor(
+		options: ElevatorIOOptions
+		, logger?: Logger
+		, private readonly clock: Clock = new RealClock()
+		, public readonly motion: MotionProfile = createMotionProfile(options)
+		, public readonly driver: ElevatorDriver = new SimulatedDriver(options, undefined, clock)
+	) {
 		super(logger);
 		//ugly workaround setting it here directly the first time
-		this.state = { type: ElevatorStateType.IDLE, atFloor: options.INITIAL_FLOOR, startTime: Date.now() };
+		this.state = { type: ElevatorStateType.IDLE, atFloor: options.INITIAL_FLOOR, startTime: clock.now() };
+		driver.on('floorPassed', ({ floor }) => this.onFloorPassed(floor));
+		driver.on('arrived', ({ floor }) => this.onArrived(floor));
+		driver.on('doorsOpened', ({ floor }) => this.onDoorsOpened(floor));
+		driver.on('doorsClosed', ({ floor }) => this.onDoorsClosed(floor));
+		driver.on('obstruction', ({ floor }) => this.onObstruction(floor));
+		driver.on('fault', ({ reason, message }) => {
+			this.logger?.error(`The driver reports a fault: ${message}. Stopping the car`);
+			this.stop(reason);
+		});
 	}
 
 
@@ -71,11 +117,15 @@ export class ElevatorIO extends TypedEventEmitter<ElevatorEventMap> {
 	 */
 	private setState<K extends ElevatorStateType>(state: Extract<SettableState, { type: K }>): void { //TODO: do we need extract here?
 		const oldState = this.state;
-		this.state = { ...state, startTime: Date.now() }
+		const newState: ElevatorStates = { ...state, startTime: this.clock.now() };
+		this.state = newState;
 		// `\x1b[32m[${String(name)}]`
-		this.logger?.debug(`\x1b[32mState changed from \x1b[33m${oldState.type}\x1b[32m to \x1b[38;5;208m${this.state.type}\x1b[32m\x1b[0m `);
-		this.emit(this.state.type, { ...this.state });
-		this.emit('change', { from: oldState, to: this.state }); //makes it easy to listen to all state changes
+		this.logger?.debug(`\x1b[32mState changed from \x1b[33m${oldState.type}\x1b[32m to \x1b[38;5;208m${newState.type}\x1b[32m\x1b[0m `);
+		//NOTE: 'change' goes first and we don't read this.state again after emitting, since listeners of the
+		//specific state (like Elevator listening for IDLE) may synchronously set yet another state. Doing it
+		//the other way around would emit the nested change before this one.
+		this.emit('change', { from: oldState, to: newState }); //makes it easy to listen to all state changes
+		this.emit(newState.type, { ...newState });
 	}
 
 
@@ -110,37 +160,49 @@ export class ElevatorIO extends TypedEventEmitter<ElevatorEventMap> {
 	}
 
 	/**
-	 * Schedule a future state change to the given state at a given delay.
-	 * @param state - The state to change to.
-	 * @param delay - The delay in milliseconds at which to change to the state.
-	 * @param replaceExisting - Whether to replace an existing timeout if one exists.
+	 * Send a command to the driver and wait for the event which ends it. Unless the driver reports back right
+	 * away, e.g. because it takes no time, the car is in the given state until it does.
+	 * @param command - Sends the command.
+	 * @param event - The driver event which ends the command.
+	 * @param state - The state the car is in until then.
 	 */
-	private setFutureState(state: SettableState, delay: number, replaceExisting = false): void {
-		if (this.timeout) {
-			this.logger?.warn(`Current state: ${JSON.stringify(this.state)}`);
-			if (replaceExisting) {
-				this.logger?.warn(`Cancelling existing timeout in favor of one which will set this state: ${JSON.stringify(state)}`);
-				clearTimeout(this.timeout);
-			} else {
-				this.logger?.error(`A timeout is already scheduled and you havn't opted to replacing it, \
-					so this state will never be set: ${JSON.stringify(state)}`);
-				return;
-			}
-		}
-		this.timeout = setTimeout(() => {
-			this.timeout = undefined;
+	private send(command: () => void, event: keyof ElevatorDriverEventMap, state: SettableState): void {
+		const before = this.state;
+		this.awaiting = { event, floor: 'atFloor' in state ? state.atFloor : state.toFloor };
+		command();
+		if (this.state === before) {
 			this.setState(state);
-		}, delay);
+		}
+	}
+
+	/**
+	 * Take the event the car was waiting for, if this is the one.
+	 * @param event - The event which ends what the car is doing.
+	 * @param floor - The floor the driver reported it at.
+	 * @param reported - Optional. The event the driver reported if it's another one which also ends it.
+	 * @returns The floor the car expected the event at, or undefined if it wasn't waiting for the event.
+	 */
+	private take(event: keyof ElevatorDriverEventMap, floor: Floor, reported = event): Floor | undefined {
+		if (this.awaiting?.event !== event) {
+			this.ignore(reported, floor);
+			return undefined;
+		}
+		const expected = this.awaiting.floor;
+		this.awaiting = undefined;
+		return expected;
 	}
 
 
+	private ignore(event: keyof ElevatorDriverEventMap, floor: Floor): void {
+		this.logger?.warn(`Ignoring ${event} at floor ${floor} reported by the driver in state ${this.state.type}`);
+	}
+
 	/**
-	 * Schedule a future state change to the IDLE state at a given floor and time.
-	 * @param floor - The floor to idle at.
-	 * @param delay - The delay in milliseconds at which to idle at the floor.	
+	 * Cancel closing the doors once they've been open for long enough, since they're changing now instead.
 	 */
-	private setFutureIdleAtFloor(floor: Floor, delay: number, replaceExisting = false): void {
-		this.setFutureState({ type: ElevatorStateType.IDLE, atFloor: floor }, delay, replaceExisting);
+	private cancelDwell(): void {
+		this.clock.clearTimeout(this.timeout);
+		this.timeout = undefined;
 	}
 
 	/**
@@ -148,6 +210,11 @@ export class ElevatorIO extends TypedEventEmitter<ElevatorEventMap> {
 	 * 
 	 * NOTE: We don't keep track of the total number of floors here, that should be handled before this is called.
 	 * 
+	 * Strategies often move one floor at a time to check for stops on the way, but the car doesn't stop at
+	 * each of them. If it's told to keep going the same way the moment it arrives at a floor it's still on the
+	 * same run, so this leg only takes the extra time the {@link MotionProfile} needs for the longer run. A run
+	 * of single floors thus takes as long as moving all of them at once.
+	 * 
 	 * @param n - The number of floors to move up or down.
 	 */
 	move(n: number): void {
@@ -159,39 +226,269 @@ export class ElevatorIO extends TypedEventEmitter<ElevatorEventMap> {
 			throw new Error('Elevator is not idle, cannot move ' + direction);
 		}
 
-		//Change the state now to 'moving'...
+		//Continue the run if we only just arrived here going the same way, or start a new one...
+		const sign = n > 0 ? 1 : -1;
+		const continues = this.run?.direction === sign && this.state.startTime === this.clock.now();
+		const before = continues ? this.run!.floors : 0; //continues is only true when run is set
+		this.run = { direction: sign, floors: before + Math.abs(n) };
+
+		//...then send the car off, it's 'moving' until the driver says it has arrived
 		const toFloor = this.state.atFloor + n;
-		const travelTime = this.options.TRAVEL_TIME_PER_FLOOR * Math.abs(n);
-		const dueTime = Date.now() + travelTime;
+		const travelTime = this.motion.getTravelTime(this.run.floors) - this.motion.getTravelTime(before);
+		const dueTime = this.clock.now() + travelTime;
 		const type = direction === 'up' ? ElevatorStateType.MOVING_UP : ElevatorStateType.MOVING_DOWN;
-		this.setState({ type, fromFloor: this.state.atFloor, toFloor, dueTime });
-
-		//Schedule a future state change to 'idle' when it arrives at the new floor...
-		this.setFutureIdleAtFloor(toFloor, travelTime);
+		this.passedFloor = undefined;
+		this.send(() => this.driver.move(toFloor, travelTime), 'arrived', { type, fromFloor: this.state.atFloor, toFloor, dueTime });
 	}
 
 
 	/**
 	 * Send a command to open the doors at the current floor.
 	 * 
-	 * NOTE: can only be called when this.state.type === ElevatorStateType.DOORS_OPEN || this.state.type === ElevatorStateType.IDLE
+	 * The doors go through up to three states: {@link ElevatorStateType.DOORS_OPENING}, {@link ElevatorStateType.DOORS_OPEN}
+	 * and {@link ElevatorStateType.DOORS_CLOSING}, after which the elevator is idle again. Opening and closing are skipped
+	 * if the driver reports them done right away, like the {@link SimulatedDriver} does when the {@link MotionProfile}
+	 * says they take no time.
+	 * 
+	 * NOTE: can only be called when the elevator is idle or the doors are open, opening or closing. Closing doors
+	 * open again. Doors which are held open start closing by themselves once the dwell is over.
 	 * 
+	 * @param direction - Optional. The direction to light the hall lantern in, see {@link DoorsOpenState}.
+	 */
+	openDoors(direction?: CallDirection): void {
+		const { type, atFloor } = this.getStateAtFloor('open doors');
+		const { opening, dwell } = this.motion.getDoorTimes();
+		this.run = undefined; //stopping here ends the run
+
+		//Doors which are on their way open will open in due time, and then stay open as long as they always do
+		if (type === ElevatorStateType.DOORS_OPENING) {
+			return;
+		}
+		this.hold = false;
+		this.lantern = direction !== undefined ? { direction } : {};
+
+		//If they have to open first we wait for the driver to say they're open...
+		if (type !== ElevatorStateType.DOORS_OPEN && type !== ElevatorStateType.DOORS_HELD_OPEN) {
+			this.sendOpenDoors(atFloor, opening);
+			return;
+		}
+
+		//...else change the state now to 'doors open'. If they already are that will tell anyone listening that
+		//they're going to stay open for longer
+		this.scheduleClosingDoors(atFloor);
+		this.setState({ type: ElevatorStateType.DOORS_OPEN, atFloor, dueTime: this.clock.now() + dwell, ...this.lantern });
+	}
+
+	/**
+	 * Send a command to open the doors at the current floor and keep them open until {@link closeDoors()} is called,
+	 * e.g. for a car parked on fire service. Doors which are closing open again from wherever they are.
+	 *
+	 * NOTE: does nothing if the doors are already held open, and can't be called while the elevator is moving.
+	 */
+	holdDoorsOpen(): void {
+		const state = this.getStateAtFloor('hold doors open');
+		if (state.type === ElevatorStateType.DOORS_HELD_OPEN) {
+			return;
+		}
+		const atFloor = state.atFloor;
+		const { opening, closing } = this.motion.getDoorTimes();
+		this.run = undefined; //stopping here ends the run
+		this.hold = true;
+		this.lantern = {};
+
+		//Doors which are on their way open are held once they are...
+		if (state.type === ElevatorStateType.DOORS_OPENING) {
+			return;
+		}
+
+		//...ones which are closing only have to go back as far as they've come...
+		if (state.type === ElevatorStateType.DOORS_CLOSING || state.type === ElevatorStateType.IDLE) {
+			const delay = state.type === ElevatorStateType.DOORS_CLOSING ? this.getReversalTime(state, closing, opening) : opening;
+			this.sendOpenDoors(atFloor, delay);
+			return;
+		}
+
+		//...and ones which are already open just stop closing by themselves
+		this.cancelDwell();
+		this.setState({ type: ElevatorStateType.DOORS_HELD_OPEN, atFloor });
+	}
+
+	/**
+	 * Send a command to close the doors now instead of when they would by themselves, e.g. when the car is recalled
+	 * on fire service. Doors which are opening close again from wherever they are. The elevator is idle once they're
+	 * closed.
+	 *
+	 * NOTE: does nothing if the doors are already closed or closing, and can't be called while the elevator is moving.
+	 */
+	closeDoors(): void {
+		const state = this.getStateAtFloor('close doors');
+		if (state.type === ElevatorStateType.IDLE || state.type === ElevatorStateType.DOORS_CLOSING) {
+			return;
+		}
+		const { opening, closing } = this.motion.getDoorTimes();
+		this.hold = false;
+		this.cancelDwell();
+		this.sendCloseDoors(state.atFloor, state.type === ElevatorStateType.DOORS_OPENING ? this.getReversalTime(state, opening, closing) : closing);
+	}
+
+	/**
+	 * Stop the car where it is, e.g. on an emergency stop. Whatever it was going to do next is cancelled and it
+	 * does nothing until it's {@link reset()}. A moving car stops between the last floor the driver reported
+	 * passing and the next one, i.e. it's never counted as having arrived.
+	 *
+	 * NOTE: does nothing if the car is already stopped, which keeps the reason it was first stopped for.
+	 * @param reason - Why the car is stopped.
 	 */
-	openDoors(): void {
-		if (this.state.type !== ElevatorStateType.DOORS_OPEN && this.state.type !== ElevatorStateType.IDLE) {
-			throw new Error('Elevator is not idle or doors are open, cannot open doors');
+	stop(reason: FaultReason): void {
+		const state = this.state;
+		if (state.type === ElevatorStateType.STOPPED) {
+			return;
+		}
+		this.cancelDwell();
+		this.run = undefined;
+		this.awaiting = undefined;
+		this.hold = false;
+		this.driver.stop();
+		if (state.type === ElevatorStateType.MOVING_UP || state.type === ElevatorStateType.MOVING_DOWN) {
+			this.setState({ type: ElevatorStateType.STOPPED, ...this.getFloorsAround(state), reason });
+		} else {
+			this.setState({ type: ElevatorStateType.STOPPED, atFloor: state.atFloor, reason });
 		}
-		//Change the state now to 'doors open'. If they already are that will tell anyone listening that they're going to 
-		//stay open for longer
-		this.setState({ type: ElevatorStateType.DOORS_OPEN, atFloor: this.state.atFloor, dueTime: Date.now() + this.options.DOOR_OPEN_TIME });
+	}
 
-		//Schedule a future state change to 'idle' when the doors are closed. If the doors are already open then there would
-		//be an existing timeout which would be replaced by this one. (currently that will log a warning)
-		this.setFutureIdleAtFloor(this.state.atFloor, this.options.DOOR_OPEN_TIME, true); //true = replace existing timeout
+	/**
+	 * Get a stopped car going again. One stopped at a floor is idle right away, one stopped between floors first
+	 * moves on to the floor it was heading to and is idle there.
+	 * @throws An Error if the car isn't stopped.
+	 */
+	reset(): void {
+		const state = this.state;
+		if (state.type !== ElevatorStateType.STOPPED) {
+			throw new Error('Elevator is not stopped, cannot reset');
+		}
+		if ('atFloor' in state) {
+			this.setState({ type: ElevatorStateType.IDLE, atFloor: state.atFloor });
+			return;
+		}
+		const { fromFloor, toFloor } = state;
+		const travelTime = this.motion.getTravelTime(1);
+		const type = toFloor > fromFloor ? ElevatorStateType.MOVING_UP : ElevatorStateType.MOVING_DOWN;
+		this.passedFloor = undefined;
+		this.send(() => this.driver.move(toFloor, travelTime), 'arrived', { type, fromFloor, toFloor, dueTime: this.clock.now() + travelTime });
 	}
 
+	/**
+	 * Work out which two floors a moving car is between now, i.e. the last one the driver reported passing (or the
+	 * one it left) and the next one.
+	 */
+	private getFloorsAround(state: MovingUpState | MovingDownState): { fromFloor: Floor, toFloor: Floor } {
+		const direction = state.toFloor > state.fromFloor ? 1 : -1;
+		const fromFloor = this.passedFloor ?? state.fromFloor;
+		return { fromFloor, toFloor: fromFloor + direction };
+	}
 
+	/**
+	 * Get the state of a car which can work its doors, i.e. one which is at a floor and isn't moving or stopped.
+	 * @param action - What we'd like to do, for the error.
+	 * @throws An Error if the car is moving or stopped.
+	 */
+	private getStateAtFloor(action: string): Exclude<ElevatorStates, MovingUpState | MovingDownState | StoppedState> {
+		const state = this.state;
+		if (state.type === ElevatorStateType.MOVING_UP || state.type === ElevatorStateType.MOVING_DOWN) {
+			throw new Error(`Elevator is moving, cannot ${action}`);
+		}
+		if (state.type === ElevatorStateType.STOPPED) {
+			throw new Error(`Elevator is stopped, cannot ${action}`);
+		}
+		return state;
+	}
 
+	/**
+	 * Get how long doors which are opening or closing take to go back the other way from where they are now.
+	 * @param state - The state the doors are in.
+	 * @param duration - How long the phase they're in takes from fully open or closed.
+	 * @param reverse - How long the other phase takes.
+	 */
+	private getReversalTime(state: DoorsOpeningState | DoorsClosingState, duration: number, reverse: number): number {
+		const remaining = Math.min(1, Math.max(0, (state.dueTime - this.clock.now()) / duration));
+		return Math.round((1 - remaining) * reverse);
+	}
 
+	private sendOpenDoors(atFloor: Floor, delay: number): void {
+		this.send(() => this.driver.openDoors(delay), 'doorsOpened'
+			, { type: ElevatorStateType.DOORS_OPENING, atFloor, dueTime: this.clock.now() + delay, ...this.lantern });
+	}
 
-}
\ No newline at end of file
+	private sendCloseDoors(atFloor: Floor, delay: number): void {
+		this.send(() => this.driver.closeDoors(delay), 'doorsClosed'
+			, { type: ElevatorStateType.DOORS_CLOSING, atFloor, dueTime: this.clock.now() + delay, ...this.lantern });
+	}
+
+	/**
+	 * Schedule closing the doors once they've been open for long enough, replacing the dwell of doors which are
+	 * already open.
+	 */
+	private scheduleClosingDoors(atFloor: Floor): void {
+		const { dwell, closing } = this.motion.getDoorTimes();
+		this.cancelDwell();
+		this.timeout = this.clock.setTimeout(() => {
+			this.timeout = undefined;
+			this.sendCloseDoors(atFloor, closing);
+		}, dwell);
+	}
+
+	private onFloorPassed(floor: Floor): void {
+		if (this.awaiting?.event !== 'arrived') {
+			this.ignore('floorPassed', floor);
+			return;
+		}
+		this.passedFloor = floor;
+	}
+
+	private onArrived(floor: Floor): void {
+		const expected = this.take('arrived', floor);
+		if (expected === undefined) {
+			return;
+		}
+		if (floor !== expected) {
+			this.logger?.warn(`The driver reports arriving at floor ${floor} instead of floor ${expected}`);
+			this.run = undefined; //it didn't stop where the run was going, so it can't be continued
+		}
+		this.setState({ type: ElevatorStateType.IDLE, atFloor: floor });
+	}
+
+	private onDoorsOpened(floor: Floor): void {
+		const atFloor = this.take('doorsOpened', floor);
+		if (atFloor === undefined) {
+			return;
+		}
+		if (this.hold) {
+			this.setState({ type: ElevatorStateType.DOORS_HELD_OPEN, atFloor });
+			return;
+		}
+		//Schedule the dwell first, so listeners of the state see the timeout which ends it
+		this.scheduleClosingDoors(atFloor);
+		const { dwell } = this.motion.getDoorTimes();
+		this.setState({ type: ElevatorStateType.DOORS_OPEN, atFloor, dueTime: this.clock.now() + dwell, ...this.lantern });
+	}
+
+	private onDoorsClosed(floor: Floor): void {
+		const atFloor = this.take('doorsClosed', floor);
+		if (atFloor === undefined) {
+			return;
+		}
+		this.setState({ type: ElevatorStateType.IDLE, atFloor });
+	}
+
+	/**
+	 * Doors which are obstructed while closing open again, and then stay open as long as they always do.
+	 */
+	private onObstruction(floor: Floor): void {
+		const atFloor = this.take('doorsClosed', floor, 'obstruction');
+		if (atFloor === undefined) {
+			return;
+		}
+		this.logger?.info(`The doors at floor ${atFloor} are obstructed, opening them again`);
+		this.sendOpenDoors(atFloor, this.motion.getDoorTimes().opening);
+	}
+}
@@ -0,0 +1,278 @@
+import type { Logger } from "../../infra/logger/Logger";
+import type { Clock, TimerId } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
+import { ModbusClient } from "../../infra/modbus/ModbusClient";
+import type { AppOptions } from "../../options";
+import { ValidationError } from "../errors/ValidationErrors";
+import type { Floor } from "../route/Floors";
+import { ElevatorDriver } from "./ElevatorDriver";
+
+/**
+ * Options required by the ModbusDriver class.
+ */
+export type ModbusDriverOptions = Pick<AppOptions, 'MODBUS_HOST' | 'MODBUS_PORT' | 'MODBUS_REGISTERS'
+	| 'MODBUS_POLL_INTERVAL' | 'MODBUS_TIMEOUT' | 'MODBUS_RECONNECT_DELAY'>;
+
+/**
+ * The addresses of the holding registers of a car:
+ * - `command`: written to tell the car what to do, see {@link ModbusCommand}. The PLC clears it once it has
+ *   taken the command, so the same command can be given twice.
+ * - `target`: the floor to move to, written right before the move command.
+ * - `position`: read, the floor the car is at or last passed.
+ * - `status`: read, what the car is doing, see {@link ModbusStatus}.
+ *
+ * Floors are signed 16 bit values, i.e. negative floors are written as two's complement.
+ */
+export type ModbusRegisterMap = Record<'command' | 'target' | 'position' | 'status', number>;
+
+/** The values written to the `command` register */
+export enum ModbusCommand {
+	MOVE = 1,
+	OPEN_DOORS = 2,
+	CLOSE_DOORS = 3,
+	STOP = 4,
+}
+
+/** The bits of the `status` register */
+export enum ModbusStatus {
+	MOVING = 1,
+	DOORS_OPEN = 2,
+	DOORS_CLOSED = 4,
+	/** Something is in the way of the doors, only reported when it starts */
+	OBSTRUCTED = 8,
+}
+
+/**
+ * Parse a register map, i.e. comma separated `<signal>:<address>` pairs for all the signals of
+ * {@link ModbusRegisterMap}, e.g. `command:0,target:1,position:2,status:3`.
+ * @param value - The option value to parse.
+ * @throws A {@link ValidationError} if the value can't be parsed or a signal is missing.
+ */
+export function parseModbusRegisters(value: string): ModbusRegisterMap {
+	const registers: Partial<ModbusRegisterMap> = {};
+	for (const pair of value.split(',').map(part => part.trim()).filter(part => part !== '')) {
+		const match = /^(command|target|position|status)\s*:\s*(\d+)$/.exec(pair);
+		const address = Number(match?.[2]);
+		if (!match || address > 0xffff) {
+			throw new ValidationError(value, `Invalid Modbus register '${pair}', expected <command|target|position|status>:<address>`);
+		}
+		registers[match[1] as keyof ModbusRegisterMap] = address;
+	}
+	const missing = (['command', 'target', 'position', 'status'] as const).filter(signal => registers[signal] === undefined);
+	if (missing.length > 0) {
+		throw new ValidationError(value, `Missing Modbus register(s) ${missing.join(', ')}`);
+	}
+	return registers as ModbusRegisterMap;
+}
+
+/**
+ * Drives a car whose PLC exposes it as holding registers over Modbus/TCP, see {@link ModbusRegisterMap}.
+ *
+ * Commands are written to the registers and the position and status are polled every
+ * {@link AppOptions.MODBUS_POLL_INTERVAL}. The sensor events are worked out from those by comparing them to the
+ * last command, e.g. the car has arrived when it has stopped moving after it was sent somewhere. So a command
+ * which is done by the next poll is still reported.
+ *
+ * When the connection is lost, or can't be made, the driver reports a `commLoss` fault, which stops the car, and
+ * connects again after {@link AppOptions.MODBUS_RECONNECT_DELAY}. The car stays stopped until it's reset, since
+ * nobody knows what it did meanwhile. Commands which can't be written are reported as faults as well.
+ *
+ * The time the IO expects commands to take is ignored, the car takes as long as it takes.
+ */
+export class ModbusDriver extends ElevatorDriver {
+	private readonly client: ModbusClient;
+	private readonly registers: ModbusRegisterMap;
+
+	/** Whether the driver should be connected, i.e. it's between {@link connect()} and {@link disconnect()} */
+	private running = false;
+
+	/** Whether the connection was lost and hasn't been made again since */
+	private lost = false;
+
+	private poller?: TimerId;
+	private polling = false;
+	private reconnect?: TimerId;
+
+	/** The last command, until the car reports it's done */
+	private pending?: { command: ModbusCommand.MOVE, target: Floor, moved: boolean }
+		| { command: ModbusCommand.OPEN_DOORS | ModbusCommand.CLOSE_DOORS };
+
+	/** The position at the last poll */
+	private position?: Floor;
+
+	/** Whether the doors were obstructed at the last poll */
+	private obstructed = false;
+
+	/**
+	 * @param unitId - The Modbus unit of the car.
+	 * @param options - Where the PLC is and its register map.
+	 * @param logger - Optional. The logger for the driver.
+	 * @param clock - Optional. Where the time comes from, defaults to the system time.
+	 * @throws A {@link ValidationError} if the register map can't be parsed.
+	 */
+	constructor(
+		unitId: number
+		, public readonly options: ModbusDriverOptions
+		, logger?: Logger
+		, private readonly clock: Clock = new RealClock()
+	) {
+		super(logger);
+		this.registers = parseModbusRegisters(options.MODBUS_REGISTERS);
+		this.client = new ModbusClient({ host: options.MODBUS_HOST, port: options.MODBUS_PORT, unitId, timeout: options.MODBUS_TIMEOUT }, logger, clock);
+		this.client.on('close', ({ error }) => this.lose(error?.message ?? 'Connection closed'));
+	}
+
+	move(toFloor: Floor): void {
+		this.pending = { command: ModbusCommand.MOVE, target: toFloor, moved: false };
+		this.send(ModbusCommand.MOVE, toFloor);
+	}
+
+	openDoors(): void {
+		this.pending = { command: ModbusCommand.OPEN_DOORS };
+		this.send(ModbusCommand.OPEN_DOORS);
+	}
+
+	closeDoors(): void {
+		this.pending = { command: ModbusCommand.CLOSE_DOORS };
+		this.send(ModbusCommand.CLOSE_DOORS);
+	}
+
+	stop(): void {
+		this.pending = undefined;
+		this.send(ModbusCommand.STOP);
+	}
+
+	override connect(): void {
+		if (this.running) {
+			return;
+		}
+		this.running = true;
+		void this.open();
+	}
+
+	override disconnect(): void {
+		this.running = false;
+		this.clock.clearInterval(this.poller);
+		this.clock.clearTimeout(this.reconnect);
+		this.poller = undefined;
+		this.reconnect = undefined;
+		this.pending = undefined;
+		this.client.close();
+	}
+
+	private async open(): Promise<void> {
+		this.reconnect = undefined;
+		const { MODBUS_HOST: host, MODBUS_PORT: port } = this.options;
+		try {
+			await this.client.connect();
+		} catch (error) {
+			this.lose(`Couldn't connect: ${error instanceof Error ? error.message : error}`);
+			return;
+		}
+		if (!this.running) { //disconnected meanwhile
+			this.client.close();
+			return;
+		}
+		this.logger?.info(`${this.lost ? 'Reconnected' : 'Connected'} to ${host}:${port} unit ${this.client.options.unitId}`);
+		this.lost = false;
+		this.poller = this.clock.setInterval(() => void this.poll(), this.options.MODBUS_POLL_INTERVAL);
+		void this.poll(); //so we know where the car is before it's sent anywhere
+	}
+
+	/**
+	 * Report the connection as lost, unless it already was, and connect again later.
+	 */
+	private lose(message: string): void {
+		this.clock.clearInterval(this.poller);
+		this.poller = undefined;
+		if (!this.running || this.reconnect !== undefined) {
+			return;
+		}
+		this.pending = undefined;
+		this.client.close();
+		this.reconnect = this.clock.setTimeout(() => void this.open(), this.options.MODBUS_RECONNECT_DELAY);
+		if (!this.lost) {
+			this.lost = true;
+			const { MODBUS_HOST: host, MODBUS_PORT: port } = this.options;
+			this.emit('fault', { reason: 'commLoss', message: `Lost the connection to ${host}:${port}: ${message}` });
+		}
+	}
+
+	/**
+	 * Write a command, and the floor to move to first if there is one.
+	 */
+	private send(command: ModbusCommand, target?: Floor): void {
+		void (async () => {
+			try {
+				if (target !== undefined) {
+					await this.client.writeRegister(this.registers.target, target);
+				}
+				await this.client.writeRegister(this.registers.command, command);
+			} catch (error) {
+				const message = `Couldn't send ${ModbusCommand[command]}: ${error instanceof Error ? error.message : error}`;
+				if (command === ModbusCommand.STOP) { //it's stopped as a fault anyway
+					this.logger?.warn(message);
+				} else {
+					this.emit('fault', { reason: 'commLoss', message });
+				}
+			}
+		})();
+	}
+
+	private async poll(): Promise<void> {
+		if (this.polling) {
+			return;
+		}
+		this.polling = true;
+		//Requests go out in order, so the status only tells us about a command which was written before we asked
+		const pending = this.pending;
+		try {
+			const { position, status } = this.registers;
+			const [positionValue, statusValue] = status === position + 1
+				? await this.client.readHoldingRegisters(position, 2)
+				: [(await this.client.readHoldingRegisters(position, 1))[0], (await this.client.readHoldingRegisters(status, 1))[0]];
+			if (this.pending === pending) {
+				this.update(positionValue > 0x7fff ? positionValue - 0x10000 : positionValue, statusValue);
+			}
+		} catch (error) {
+			//a request which times out closes the connection, which is reported as lost
+			this.logger?.warn(`Couldn't poll: ${error instanceof Error ? error.message : error}`);
+		} finally {
+			this.polling = false;
+		}
+	}
+
+	/**
+	 * Report whatever the position and status say has happened since the last poll.
+	 */
+	private update(position: Floor, status: number): void {
+		const from = this.position ?? position;
+		const obstruction = (status & ModbusStatus.OBSTRUCTED) !== 0 && !this.obstructed;
+		this.position = position;
+		this.obstructed = (status & ModbusStatus.OBSTRUCTED) !== 0;
+		const pending = this.pending;
+
+		//The pending command is cleared before reporting, since listeners may send the next one right away
+		if (pending?.command === ModbusCommand.MOVE) {
+			const moving = (status & ModbusStatus.MOVING) !== 0;
+			pending.moved ||= moving;
+			const direction = pending.target > from ? 1 : -1;
+			for (let floor = from + direction; (floor - position) * direction <= 0 && floor !== pending.target; floor += direction) {
+				this.emit('floorPassed', { floor });
+			}
+			if (!moving && (pending.moved || position === pending.target)) {
+				this.pending = undefined;
+				this.emit('arrived', { floor: position });
+			}
+		} else if (pending?.command === ModbusCommand.OPEN_DOORS && (status & ModbusStatus.DOORS_OPEN) !== 0) {
+			this.pending = undefined;
+			this.emit('doorsOpened', { floor: position });
+		} else if (pending?.command === ModbusCommand.CLOSE_DOORS && obstruction) {
+			this.pending = undefined;
+			this.emit('obstruction', { floor: position });
+		} else if (pending?.command === ModbusCommand.CLOSE_DOORS && (status & ModbusStatus.DOORS_CLOSED) !== 0) {
+			this.pending = undefined;
+			this.emit('doorsClosed', { floor: position });
+		}
+	}
+}
@@ -0,0 +1,131 @@
+import type { AppOptions } from "../../options";
+import { ValidationError } from "../errors/ValidationErrors";
+
+/**
+ * Options required by the motion profiles. Everything but {@link AppOptions.TRAVEL_TIME_PER_FLOOR} and
+ * {@link AppOptions.DOOR_OPEN_TIME} is optional, which gets the {@link ConstantSpeed} profile with doors that
+ * open and close instantly.
+ */
+export type MotionOptions = Pick<AppOptions, 'TRAVEL_TIME_PER_FLOOR' | 'DOOR_OPEN_TIME'>
+	& Partial<Pick<AppOptions,
+		'MOTION_PROFILE'
+		| 'FLOOR_HEIGHT'
+		| 'MAX_SPEED'
+		| 'ACCELERATION'
+		| 'DECELERATION'
+		| 'DOOR_OPENING_TIME'
+		| 'DOOR_CLOSING_TIME'
+	>>;
+
+/**
+ * How long each phase of a stop takes in milliseconds. The doors are opening, then fully open (the dwell),
+ * then closing.
+ */
+export type DoorTimes = { opening: number, dwell: number, closing: number };
+
+/**
+ * Decides how long the elevator takes to move and to make a stop. Both the {@link ElevatorIO} (which moves the
+ * car) and the {@link Strategy} (which estimates how long rides take) get their times from here, so estimates
+ * match what the car actually does.
+ */
+export abstract class MotionProfile {
+
+	constructor(protected readonly options: MotionOptions) { }
+
+	/**
+	 * Get the time it takes to travel a number of floors, from standing still to standing still. Cars don't
+	 * have to stop at every floor they travel to (see {@link ElevatorIO.move()}), so for runs of several floors
+	 * this is the time for the whole run, not the sum of the floors.
+	 * @param floors - The number of floors to travel, in either direction.
+	 * @returns The time in milliseconds, 0 for 0 floors.
+	 */
+	abstract getTravelTime(floors: number): number;
+
+	/**
+	 * Get how long each phase of a stop takes.
+	 */
+	getDoorTimes(): DoorTimes {
+		return {
+			opening: this.options.DOOR_OPENING_TIME ?? 0,
+			dwell: this.options.DOOR_OPEN_TIME,
+			closing: this.options.DOOR_CLOSING_TIME ?? 0,
+		};
+	}
+
+	/**
+	 * Get how long a stop takes from the doors starting to open until they're closed.
+	 */
+	getStopTime(): number {
+		const { opening, dwell, closing } = this.getDoorTimes();
+		return opening + dwell + closing;
+	}
+}
+
+/**
+ * Every floor takes {@link AppOptions.TRAVEL_TIME_PER_FLOOR}, however far the car goes.
+ */
+export class ConstantSpeed extends MotionProfile {
+	getTravelTime(floors: number): number {
+		return Math.abs(floors) * this.options.TRAVEL_TIME_PER_FLOOR;
+	}
+}
+
+/**
+ * The car accelerates up to {@link AppOptions.MAX_SPEED}, cruises, and decelerates to a stop, so the speed over
+ * time is a trapezoid. On short runs it never reaches its top speed and starts braking half way (a triangle), which
+ * makes a one floor trip take longer per floor than a ten floor express run.
+ */
+export class Trapezoidal extends MotionProfile {
+	private readonly height: number;
+	private readonly speed: number;
+	private readonly acceleration: number;
+	private readonly deceleration: number;
+
+	/**
+	 * @throws A {@link ValidationError} if the floor height, speed or (de)acceleration isn't a positive number.
+	 */
+	constructor(options: MotionOptions) {
+		super(options);
+		this.height = positive(options.FLOOR_HEIGHT, 'FLOOR_HEIGHT');
+		this.speed = positive(options.MAX_SPEED, 'MAX_SPEED');
+		this.acceleration = positive(options.ACCELERATION, 'ACCELERATION');
+		this.deceleration = positive(options.DECELERATION, 'DECELERATION');
+	}
+
+	getTravelTime(floors: number): number {
+		const distance = Math.abs(floors) * this.height;
+		const { speed, acceleration: a, deceleration: d } = this;
+
+		//The distance it takes to get up to speed and back down again...
+		const rampDistance = speed ** 2 / (2 * a) + speed ** 2 / (2 * d);
+		if (distance >= rampDistance) {
+			//...and if we have room for it, whatever is left we cruise at top speed
+			return Math.round(1000 * (speed / a + speed / d + (distance - rampDistance) / speed));
+		}
+		//...else we brake as soon as we reach the highest speed we can while still stopping in time
+		const peak = Math.sqrt(2 * distance * a * d / (a + d));
+		return Math.round(1000 * (peak / a + peak / d));
+	}
+}
+
+/**
+ * Create the motion profile the options ask for, see {@link AppOptions.MOTION_PROFILE}.
+ * @throws A {@link ValidationError} if the profile is unknown or its options are invalid.
+ */
+export function createMotionProfile(options: MotionOptions): MotionProfile {
+	switch (options.MOTION_PROFILE ?? 'constant') {
+		case 'constant':
+			return new ConstantSpeed(options);
+		case 'trapezoidal':
+			return new Trapezoidal(options);
+		default:
+			throw new ValidationError(options.MOTION_PROFILE, `Unknown motion profile '${options.MOTION_PROFILE}', expected constant or trapezoidal`);
+	}
+}
+
+function positive(value: number | undefined, name: string): number {
+	if (value === undefined || !Number.isFinite(value) || value <= 0) {
+		throw new ValidationError(value, `${name} must be a positive number for the trapezoidal motion profile`);
+	}
+	return value;
+}
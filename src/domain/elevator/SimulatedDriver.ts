@@ -0,0 +1,112 @@
+import type { Logger } from "../../infra/logger/Logger";
+import type { Clock, TimerId } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
+import type { AppOptions } from "../../options";
+import type { Floor } from "../route/Floors";
+import { ElevatorDriver } from "./ElevatorDriver";
+
+/**
+ * Options required by the SimulatedDriver class.
+ */
+export type SimulatedDriverOptions = Pick<AppOptions, 'INITIAL_FLOOR'>;
+
+/**
+ * A car which does what it's told on time, every time. Everything takes exactly as long as the IO expects, so
+ * this is what the elevators run on unless they're given another {@link ElevatorDriver}. Floors are passed at an
+ * even pace along the way.
+ *
+ * It only ever does one thing at a time, so a new command replaces whatever it was doing, e.g. opening the doors
+ * while they're closing.
+ */
+export class SimulatedDriver extends ElevatorDriver {
+
+	/** The floor the car is at, or last passed while moving */
+	private floor: Floor;
+
+	/** Whether the doors are closing, which is when they can be obstructed, see {@link obstruct()} */
+	private closing = false;
+
+	/** The timer of the next thing to report */
+	private timeout?: TimerId;
+
+	constructor(
+		options: SimulatedDriverOptions
+		, logger?: Logger
+		, private readonly clock: Clock = new RealClock()
+	) {
+		super(logger);
+		this.floor = options.INITIAL_FLOOR;
+	}
+
+	move(toFloor: Floor, expectedTime: number): void {
+		this.cancel();
+		const fromFloor = this.floor;
+		const floors = Math.abs(toFloor - fromFloor);
+		const direction = toFloor > fromFloor ? 1 : -1;
+		const startTime = this.clock.now();
+		const pass = (passed: number): void => {
+			const dueTime = startTime + (floors > 0 ? Math.round(passed * expectedTime / floors) : 0);
+			this.after(dueTime - this.clock.now(), () => {
+				this.floor = fromFloor + passed * direction;
+				if (passed < floors) {
+					pass(passed + 1); //schedule first, since listeners may stop the car
+					this.emit('floorPassed', { floor: this.floor });
+				} else {
+					this.emit('arrived', { floor: this.floor });
+				}
+			});
+		};
+		pass(Math.min(1, floors));
+	}
+
+	openDoors(expectedTime: number): void {
+		this.cancel();
+		this.after(expectedTime, () => this.emit('doorsOpened', { floor: this.floor }));
+	}
+
+	closeDoors(expectedTime: number): void {
+		this.cancel();
+		this.closing = true;
+		this.after(expectedTime, () => {
+			this.closing = false;
+			this.emit('doorsClosed', { floor: this.floor });
+		});
+	}
+
+	stop(): void {
+		this.cancel();
+	}
+
+	/**
+	 * Put something in the way of the doors, which stops them if they're closing.
+	 * @returns True if the doors were closing, false if there was nothing to obstruct.
+	 */
+	obstruct(): boolean {
+		if (!this.closing) {
+			return false;
+		}
+		this.cancel();
+		this.emit('obstruction', { floor: this.floor });
+		return true;
+	}
+
+	/**
+	 * Report something after a delay, or right away if it takes no time.
+	 */
+	private after(delay: number, report: () => void): void {
+		if (delay <= 0) {
+			report();
+			return;
+		}
+		this.timeout = this.clock.setTimeout(() => {
+			this.timeout = undefined;
+			report();
+		}, delay);
+	}
+
+	private cancel(): void {
+		this.clock.clearTimeout(this.timeout);
+		this.timeout = undefined;
+		this.closing = false;
+	}
+}
@@ -0,0 +1,66 @@
+import type { Logger } from "../../infra/logger/Logger";
+import type { Clock, TimerId } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
+import type { AppOptions } from "../../options";
+import type { ElevatorIO } from "./ElevatorIO";
+import type { ElevatorStateChangeEvent } from "./types";
+
+/**
+ * Without a tolerance the watchdog is off, see {@link AppOptions.WATCHDOG_TOLERANCE}.
+ */
+export type WatchdogOptions = Partial<Pick<AppOptions, 'WATCHDOG_TOLERANCE'>>;
+
+/**
+ * Keeps an eye on an {@link ElevatorIO} and stops the car as `stuck` when it's still in a state after the
+ * state's `dueTime` plus {@link AppOptions.WATCHDOG_TOLERANCE}, e.g. a car which never arrives at the floor it's
+ * moving to or doors which never close. The IO itself just trusts that whatever it's waiting for happens.
+ *
+ * States without a `dueTime` (idle, doors held open, stopped) can last forever.
+ */
+export class Watchdog {
+	private unlisten?: () => void;
+
+	/** The timer which goes off if the current state lasts too long */
+	private timeout?: TimerId;
+
+	constructor(
+		private readonly io: ElevatorIO
+		, public readonly options: WatchdogOptions
+		, private readonly logger?: Logger
+		, private readonly clock: Clock = new RealClock()
+	) { }
+
+	/**
+	 * Start watching the state changes of the IO. Does nothing if it's already watching or the watchdog is off.
+	 */
+	start(): void {
+		if (this.unlisten || !this.options.WATCHDOG_TOLERANCE) {
+			return;
+		}
+		this.unlisten = this.io.listen('change', (event) => this.watch(event));
+	}
+
+	/**
+	 * Stop watching, e.g. when the elevator shuts down.
+	 */
+	stop(): void {
+		this.unlisten?.();
+		this.unlisten = undefined;
+		this.clock.clearTimeout(this.timeout);
+		this.timeout = undefined;
+	}
+
+	private watch({ to }: ElevatorStateChangeEvent): void {
+		this.clock.clearTimeout(this.timeout);
+		this.timeout = undefined;
+		if (!('dueTime' in to)) {
+			return;
+		}
+		const delay = Math.max(0, to.dueTime - this.clock.now()) + this.options.WATCHDOG_TOLERANCE!; //start() checks it's set
+		this.timeout = this.clock.setTimeout(() => {
+			this.timeout = undefined;
+			this.logger?.error(`Stuck in state ${to.type} since ${to.startTime}, it was due to end at ${to.dueTime}. Stopping the car`);
+			this.io.stop('stuck');
+		}, delay);
+	}
+}
@@ -0,0 +1,41 @@
+import { getLoad, parseElevatorCapacities } from '../Capacity';
+import { ValidationError } from '../../errors/ValidationErrors';
+
+describe('Capacity', () => {
+	describe('getLoad', () => {
+		it('should never be full without a limit', () => {
+			expect(getLoad(50, { CAPACITY: 0, RATED_LOAD: 0, PASSENGER_WEIGHT: 75 })).toEqual({ passengers: 50, kg: 3750, full: false });
+			expect(getLoad(3, {})).toEqual({ passengers: 3, kg: 0, full: false });
+		});
+
+		it('should be full when one more passenger would not fit', () => {
+			expect(getLoad(7, { CAPACITY: 8 }).full).toBe(false);
+			expect(getLoad(8, { CAPACITY: 8 })).toEqual({ passengers: 8, kg: 0, capacity: 8, full: true });
+
+			//8 passengers weigh 600kg, so the 9th would go over 630kg
+			expect(getLoad(7, { RATED_LOAD: 630, PASSENGER_WEIGHT: 75 }).full).toBe(false);
+			expect(getLoad(8, { RATED_LOAD: 630, PASSENGER_WEIGHT: 75 })).toEqual({ passengers: 8, kg: 600, ratedLoad: 630, full: true });
+		});
+
+		it('should be full when either limit is reached', () => {
+			expect(getLoad(4, { CAPACITY: 10, RATED_LOAD: 320, PASSENGER_WEIGHT: 80 }).full).toBe(true);
+			expect(getLoad(4, { CAPACITY: 4, RATED_LOAD: 1000, PASSENGER_WEIGHT: 80 }).full).toBe(true);
+		});
+	});
+
+	describe('parseElevatorCapacities', () => {
+		it('should parse passengers and kg per elevator', () => {
+			expect(parseElevatorCapacities('1:8, 2:630kg,')).toEqual(new Map([
+				[1, { CAPACITY: 8 }],
+				[2, { RATED_LOAD: 630 }],
+			]));
+			expect(parseElevatorCapacities('')).toEqual(new Map());
+		});
+
+		it('should reject anything else', () => {
+			for (const value of ['8', '0:8', '1:', '1:8lb', '1:-8', 'a:8']) {
+				expect(() => parseElevatorCapacities(value)).toThrow(ValidationError);
+			}
+		});
+	});
+});
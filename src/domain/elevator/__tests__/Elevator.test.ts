@@ -381,7 +381,8 @@ describe('Elevator', () => {
 				expect.any(ElevatorRoute), // route copy
 				elevatorOptions.INITIAL_FLOOR, // current floor
 				5, // pickup
-				7  // dropoff
+				7, // dropoff
+				undefined // direction
 			);
 		});
 
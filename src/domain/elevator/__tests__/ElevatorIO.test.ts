@@ -1,5 +1,9 @@
 import { ElevatorIO, ElevatorIOOptions } from '../ElevatorIO';
-import { ElevatorStateType, IdleState, MovingUpState, MovingDownState, DoorsOpenState } from '../types';
+import { ElevatorStateType, ElevatorStateChangeEvent, IdleState, MovingUpState, MovingDownState, DoorsOpenState } from '../types';
+import { CallDirection } from '../../route/Floors';
+import { RealClock } from '../../../infra/clock/RealClock';
+import { createMotionProfile } from '../MotionProfile';
+import { ScriptedDriver } from './ScriptedDriver';
 
 
 /**
@@ -324,5 +328,261 @@ describe('ElevatorIO', () => {
 			expect(io.getState('type')).toBe(ElevatorStateType.IDLE);
 		});
 	});
-});
 
+	/**
+	 * Tests for the aggregated 'change' events.
+	 */
+	describe('Change events', () => {
+		/**
+		 * Listeners of a specific state (like `Elevator` listening for IDLE) may synchronously set a new
+		 * state. The 'change' event of the outer transition must still be emitted first, and with the
+		 * state it actually transitioned to, otherwise anyone following the stream sees it out of order.
+		 */
+		it('should emit nested state changes in the order they happened', () => {
+			const changes: string[] = [];
+			io.on('change', ({ from, to }) => changes.push(`${from.type}->${to.type}`));
+			io.once(ElevatorStateType.IDLE, () => io.openDoors());
+
+			io.move(1);
+			jest.advanceTimersByTime(baseOptions.TRAVEL_TIME_PER_FLOOR);
+
+			expect(changes).toEqual([
+				`${ElevatorStateType.IDLE}->${ElevatorStateType.MOVING_UP}`,
+				`${ElevatorStateType.MOVING_UP}->${ElevatorStateType.IDLE}`,
+				`${ElevatorStateType.IDLE}->${ElevatorStateType.DOORS_OPEN}`,
+			]);
+		});
+
+		/**
+		 * Followers of the 'change' stream (the service, the SSE and websocket apis) only see the changes, so
+		 * each has to start in the state the one before it ended in, even when a state listener moves on.
+		 */
+		it('should emit each change from the state the one before it changed to', () => {
+			const changes: ElevatorStateChangeEvent[] = [];
+			const idle: IdleState[] = [];
+			io.on('change', (change) => changes.push(change));
+			io.on(ElevatorStateType.IDLE, (state) => idle.push(state));
+			io.once(ElevatorStateType.IDLE, () => io.openDoors());
+
+			io.move(1);
+			jest.advanceTimersByTime(baseOptions.TRAVEL_TIME_PER_FLOOR);
+
+			expect(changes.map(({ to }) => to.type)).toEqual([ElevatorStateType.MOVING_UP, ElevatorStateType.IDLE, ElevatorStateType.DOORS_OPEN]);
+			for (let i = 1; i < changes.length; i++) {
+				expect(changes[i].from).toEqual(changes[i - 1].to);
+			}
+			expect(idle).toEqual([changes[1].to]); //not the state it was changed to meanwhile
+		});
+	});
+
+	/**
+	 * Tests for the timing which comes from the {@link MotionProfile}.
+	 */
+	describe('Motion profiles', () => {
+		it('should open, dwell and close the doors in separate phases', () => {
+			io = new ElevatorIO({ ...baseOptions, DOOR_OPENING_TIME: 1000, DOOR_CLOSING_TIME: 2000 });
+			const changes: string[] = [];
+			io.on('change', ({ to }) => changes.push(to.type));
+
+			io.openDoors(CallDirection.UP);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.DOORS_OPENING, direction: CallDirection.UP });
+			jest.advanceTimersByTime(1000);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.DOORS_OPEN, dueTime: Date.now() + 5000, direction: CallDirection.UP });
+			jest.advanceTimersByTime(5000);
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_CLOSING);
+			jest.advanceTimersByTime(2000);
+			expect(changes).toEqual([
+				ElevatorStateType.DOORS_OPENING,
+				ElevatorStateType.DOORS_OPEN,
+				ElevatorStateType.DOORS_CLOSING,
+				ElevatorStateType.IDLE,
+			]);
+		});
+
+		it('should open closing doors again', () => {
+			io = new ElevatorIO({ ...baseOptions, DOOR_OPENING_TIME: 1000, DOOR_CLOSING_TIME: 2000 });
+			io.openDoors();
+			jest.advanceTimersByTime(6000 + 1000); //half way through closing
+			io.openDoors();
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_OPENING);
+			jest.advanceTimersByTime(1000 + 5000 + 2000);
+			expect(io.getState('type')).toBe(ElevatorStateType.IDLE);
+		});
+
+		/**
+		 * Moving one floor at a time without stopping is one run, so it takes as long as moving all the floors
+		 * at once, 6.1s for 3 floors with these options (see the MotionProfile tests).
+		 */
+		it('should not accelerate again when moving on without stopping', () => {
+			io = new ElevatorIO({
+				...baseOptions, MOTION_PROFILE: 'trapezoidal', FLOOR_HEIGHT: 3000, MAX_SPEED: 2500, ACCELERATION: 1000, DECELERATION: 1000
+			});
+			io.on(ElevatorStateType.IDLE, ({ atFloor }) => {
+				if (atFloor < 6) io.move(1);
+			});
+
+			io.move(1);
+			jest.advanceTimersByTime(6099);
+			expect(io.getState('type')).toBe(ElevatorStateType.MOVING_UP);
+			jest.advanceTimersByTime(1);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 6 });
+
+			//After a stop the next run starts from standing still
+			io.openDoors();
+			jest.advanceTimersByTime(baseOptions.DOOR_OPEN_TIME);
+			io.move(-1);
+			expect(io.getState('dueTime')).toBe(Date.now() + 3464);
+		});
+	});
+
+	describe('Holding the doors', () => {
+		beforeEach(() => {
+			io = new ElevatorIO({ ...baseOptions, DOOR_OPENING_TIME: 1000, DOOR_CLOSING_TIME: 2000 });
+		});
+
+		it('should keep the doors open until they are told to close', () => {
+			io.holdDoorsOpen();
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_OPENING);
+			jest.advanceTimersByTime(1000);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.DOORS_HELD_OPEN, atFloor: baseOptions.INITIAL_FLOOR });
+			jest.advanceTimersByTime(60 * 1000);
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_HELD_OPEN);
+
+			io.closeDoors();
+			expect(io.getState('dueTime')).toBe(Date.now() + 2000);
+			jest.advanceTimersByTime(2000);
+			expect(io.getState('type')).toBe(ElevatorStateType.IDLE);
+		});
+
+		it('should stop open doors from closing by themselves', () => {
+			io.openDoors();
+			jest.advanceTimersByTime(1000 + 1000);
+			io.holdDoorsOpen();
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_HELD_OPEN);
+			jest.advanceTimersByTime(60 * 1000);
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_HELD_OPEN);
+		});
+
+		it('should send the doors back from wherever they are', () => {
+			io.holdDoorsOpen();
+			jest.advanceTimersByTime(250); //a quarter open...
+			io.closeDoors();
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.DOORS_CLOSING, dueTime: Date.now() + 500 });
+
+			jest.advanceTimersByTime(250); //...and now half as open as that
+			io.holdDoorsOpen();
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.DOORS_OPENING, dueTime: Date.now() + 875 });
+			jest.advanceTimersByTime(875);
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_HELD_OPEN);
+		});
+
+		it('should close the doors right away when asked to', () => {
+			io.openDoors();
+			jest.advanceTimersByTime(1000);
+			io.closeDoors();
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_CLOSING);
+			jest.advanceTimersByTime(2000);
+			expect(io.getState('type')).toBe(ElevatorStateType.IDLE);
+			jest.advanceTimersByTime(60 * 1000); //nothing left over from the dwell
+			expect(io.getState('type')).toBe(ElevatorStateType.IDLE);
+		});
+	});
+
+	describe('Stopping', () => {
+		it('should stop a moving car between floors and finish the floor it was heading to when reset', () => {
+			io.move(4);
+			jest.advanceTimersByTime(2 * 2000 + 500); //half way between the 2nd and 3rd floor it passes
+			io.stop('emergencyStop');
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.STOPPED, fromFloor: 5, toFloor: 6, reason: 'emergencyStop' });
+			jest.advanceTimersByTime(60 * 1000); //never arrives by itself
+			expect(io.getState('type')).toBe(ElevatorStateType.STOPPED);
+
+			io.reset();
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.MOVING_UP, fromFloor: 5, toFloor: 6, dueTime: Date.now() + 2000 });
+			jest.advanceTimersByTime(2000);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 6 });
+		});
+
+		it('should stop a car at a floor where it is and refuse commands until reset', () => {
+			io.openDoors();
+			io.stop('stuck');
+			io.stop('emergencyStop'); //keeps the first reason
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.STOPPED, atFloor: baseOptions.INITIAL_FLOOR, reason: 'stuck' });
+			expect(() => io.openDoors()).toThrow('Elevator is stopped, cannot open doors');
+			expect(() => io.move(1)).toThrow();
+			jest.advanceTimersByTime(60 * 1000); //the doors don't close by themselves
+			expect(io.getState('type')).toBe(ElevatorStateType.STOPPED);
+
+			io.reset();
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: baseOptions.INITIAL_FLOOR });
+			expect(() => io.reset()).toThrow('Elevator is not stopped, cannot reset');
+		});
+	});
+
+	describe('Driver feedback', () => {
+		let driver: ScriptedDriver;
+
+		beforeEach(() => {
+			driver = new ScriptedDriver();
+			io = new ElevatorIO(baseOptions, undefined, new RealClock(), createMotionProfile(baseOptions), driver);
+		});
+
+		it('should send commands with the time they are expected to take and wait for the car to report back', () => {
+			io.move(2);
+			expect(driver.commands).toEqual([{ command: 'move', toFloor: 5, expectedTime: 4000 }]);
+			jest.advanceTimersByTime(60 * 1000); //nothing happens until the car says so
+			expect(io.getState('type')).toBe(ElevatorStateType.MOVING_UP);
+
+			driver.report('arrived', 5);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 5 });
+			io.openDoors();
+			expect(driver.commands.at(-1)).toEqual({ command: 'openDoors', expectedTime: 0 });
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_OPENING);
+
+			driver.report('doorsOpened', 5);
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_OPEN);
+			jest.advanceTimersByTime(5000); //the dwell is up to the IO
+			expect(driver.commands.at(-1)).toEqual({ command: 'closeDoors', expectedTime: 0 });
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_CLOSING);
+			driver.report('doorsClosed', 5);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 5 });
+		});
+
+		it('should skip the states of commands the car reports done right away', () => {
+			driver.respond('openDoors', () => driver.report('doorsOpened', 3));
+			const changes: ElevatorStateType[] = [];
+			io.on('change', ({ to }) => changes.push(to.type));
+			io.openDoors();
+			expect(changes).toEqual([ElevatorStateType.DOORS_OPEN]);
+		});
+
+		it('should idle where the car says it arrived and ignore events it is not waiting for', () => {
+			driver.report('doorsClosed', 3);
+			io.move(-2);
+			driver.report('arrived', 2);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 2 });
+			driver.report('arrived', 1);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 2 });
+		});
+
+		it('should open the doors again when they are obstructed while closing', () => {
+			driver.respond('openDoors', () => driver.report('doorsOpened', 3));
+			io.openDoors(CallDirection.UP);
+			jest.advanceTimersByTime(5000);
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_CLOSING);
+
+			driver.report('obstruction', 3);
+			expect(driver.commands.map(({ command }) => command)).toEqual(['openDoors', 'closeDoors', 'openDoors']);
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.DOORS_OPEN, direction: CallDirection.UP, dueTime: Date.now() + 5000 });
+			driver.report('obstruction', 3); //open doors can't be obstructed
+			expect(io.getState('type')).toBe(ElevatorStateType.DOORS_OPEN);
+		});
+
+		it('should stop the car when the driver reports a fault', () => {
+			io.move(1);
+			driver.emit('fault', { reason: 'commLoss', message: 'Lost the connection' });
+			expect(io.getState()).toMatchObject({ type: ElevatorStateType.STOPPED, fromFloor: 3, toFloor: 4, reason: 'commLoss' });
+			expect(driver.commands.at(-1)).toEqual({ command: 'stop' });
+		});
+	});
+});
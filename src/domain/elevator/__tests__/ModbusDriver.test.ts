@@ -0,0 +1,152 @@
+import { ModbusCommand, ModbusDriver, ModbusDriverOptions, ModbusStatus, parseModbusRegisters } from '../ModbusDriver';
+import { ElevatorDriverEventMap } from '../ElevatorDriver';
+import { ModbusTestServer } from '../../../infra/modbus/__tests__/ModbusTestServer';
+
+const UNIT = 3;
+const COMMAND = 10, TARGET = 11, POSITION = 0, STATUS = 1;
+
+/**
+ * Wait until something is true, checking every few milliseconds.
+ */
+async function waitUntil(condition: () => boolean, timeout = 2000): Promise<void> {
+	const deadline = Date.now() + timeout;
+	while (!condition()) {
+		if (Date.now() > deadline) {
+			throw new Error(`Timed out waiting for ${condition}`);
+		}
+		await new Promise(resolve => setTimeout(resolve, 5));
+	}
+}
+
+describe('ModbusDriver', () => {
+	let server: ModbusTestServer;
+	let options: ModbusDriverOptions;
+	let driver: ModbusDriver;
+	let events: (ElevatorDriverEventMap[keyof ElevatorDriverEventMap] & { event: keyof ElevatorDriverEventMap })[];
+
+	/** Play the part of the PLC by setting the position and status the driver polls */
+	const plc = (position: number, status: number) => {
+		server.setRegister(UNIT, POSITION, position);
+		server.setRegister(UNIT, STATUS, status);
+	};
+	const reported = (event: keyof ElevatorDriverEventMap) => events.filter(e => e.event === event);
+
+	beforeEach(async () => {
+		server = new ModbusTestServer(20);
+		options = {
+			MODBUS_HOST: '127.0.0.1',
+			MODBUS_PORT: await server.start(),
+			MODBUS_REGISTERS: `command:${COMMAND},target:${TARGET},position:${POSITION},status:${STATUS}`,
+			MODBUS_POLL_INTERVAL: 10,
+			MODBUS_TIMEOUT: 200,
+			MODBUS_RECONNECT_DELAY: 50,
+		};
+		driver = new ModbusDriver(UNIT, options);
+		events = [];
+		for (const event of ['floorPassed', 'arrived', 'doorsOpened', 'doorsClosed', 'obstruction', 'fault'] as const) {
+			driver.on(event, (arg) => events.push({ event, ...arg }));
+		}
+	});
+
+	afterEach(async () => {
+		driver.disconnect();
+		await server.close();
+	});
+
+	/**
+	 * Wait until the driver has polled, which it has once it asks for the next poll since requests go out one
+	 * at a time.
+	 */
+	async function polled(): Promise<void> {
+		let reads = 0;
+		const unlisten = server.listen('read', () => reads++);
+		await waitUntil(() => reads >= 2);
+		unlisten();
+	}
+
+	async function connect(): Promise<void> {
+		driver.connect();
+		await polled();
+	}
+
+	it('should write the floor to move to and then the command', async () => {
+		await connect();
+		const writes: unknown[] = [];
+		server.on('write', (write) => writes.push(write));
+		driver.move(-2);
+		await waitUntil(() => writes.length === 2);
+		expect(writes).toEqual([
+			{ unitId: UNIT, address: TARGET, value: 0xfffe },
+			{ unitId: UNIT, address: COMMAND, value: ModbusCommand.MOVE },
+		]);
+	});
+
+	it('should report the floors passed and arriving from the position and status', async () => {
+		await connect();
+		driver.move(3);
+		plc(1, ModbusStatus.MOVING | ModbusStatus.DOORS_CLOSED);
+		await waitUntil(() => reported('floorPassed').length === 1);
+		plc(3, ModbusStatus.DOORS_CLOSED); //passed 2 and arrived between polls
+		await waitUntil(() => reported('arrived').length === 1);
+		expect(events).toEqual([
+			{ event: 'floorPassed', floor: 1 },
+			{ event: 'floorPassed', floor: 2 },
+			{ event: 'arrived', floor: 3 },
+		]);
+	});
+
+	it('should report the doors opening, being obstructed while closing and closing', async () => {
+		plc(4, ModbusStatus.DOORS_CLOSED);
+		await connect();
+		driver.openDoors();
+		plc(4, ModbusStatus.DOORS_OPEN);
+		await waitUntil(() => events.length === 1);
+		driver.closeDoors();
+		plc(4, ModbusStatus.OBSTRUCTED);
+		await waitUntil(() => events.length === 2);
+		driver.openDoors();
+		plc(4, ModbusStatus.DOORS_OPEN | ModbusStatus.OBSTRUCTED);
+		await waitUntil(() => events.length === 3);
+		driver.closeDoors(); //still obstructed, but that's not news
+		plc(4, ModbusStatus.DOORS_CLOSED);
+		await waitUntil(() => events.length === 4);
+		expect(events.map(({ event }) => event)).toEqual(['doorsOpened', 'obstruction', 'doorsOpened', 'doorsClosed']);
+		expect(events[3]).toEqual({ event: 'doorsClosed', floor: 4 });
+	});
+
+	it('should report a fault once when the connection is lost and connect again', async () => {
+		await connect();
+		server.dropConnections();
+		await waitUntil(() => reported('fault').length === 1);
+		expect(events[0]).toMatchObject({ event: 'fault', reason: 'commLoss' });
+
+		await polled(); //connected again
+		driver.openDoors();
+		plc(0, ModbusStatus.DOORS_OPEN);
+		await waitUntil(() => reported('doorsOpened').length === 1);
+		expect(reported('fault')).toHaveLength(1);
+	});
+
+	it('should report a fault when the PLC stops answering', async () => {
+		await connect();
+		server.setResponding(false);
+		await waitUntil(() => reported('fault').length === 1);
+		expect(events[0]).toMatchObject({ event: 'fault', reason: 'commLoss', message: expect.stringContaining('Timed out') });
+	});
+
+	it('should report a fault when it cannot connect or send a command', async () => {
+		await server.close();
+		driver.connect();
+		await waitUntil(() => reported('fault').length === 1);
+		driver.closeDoors();
+		await waitUntil(() => reported('fault').length === 2);
+		expect(events[1]).toMatchObject({ event: 'fault', message: expect.stringContaining("Couldn't send CLOSE_DOORS") });
+	});
+
+	it('should parse the register map', () => {
+		expect(parseModbusRegisters(' status:3, position:2,command:0,target : 1')).toEqual({ command: 0, target: 1, position: 2, status: 3 });
+		expect(() => parseModbusRegisters('command:0,target:1,position:2')).toThrow('Missing Modbus register(s) status');
+		expect(() => parseModbusRegisters('command:0,target:1,position:2,status:3,speed:4')).toThrow("Invalid Modbus register 'speed:4'");
+		expect(() => new ModbusDriver(1, { ...options, MODBUS_REGISTERS: 'command:-1' })).toThrow();
+	});
+});
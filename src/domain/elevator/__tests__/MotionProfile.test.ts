@@ -0,0 +1,53 @@
+import { ConstantSpeed, createMotionProfile, MotionOptions, Trapezoidal } from '../MotionProfile';
+import { ValidationError } from '../../errors/ValidationErrors';
+
+const options: MotionOptions = {
+	TRAVEL_TIME_PER_FLOOR: 2000,
+	DOOR_OPEN_TIME: 5000,
+	FLOOR_HEIGHT: 3000,
+	MAX_SPEED: 2500,
+	ACCELERATION: 1000,
+	DECELERATION: 1000,
+};
+
+describe('MotionProfile', () => {
+	it('should take the same time for every floor at constant speed', () => {
+		const motion = new ConstantSpeed(options);
+		expect(motion.getTravelTime(0)).toBe(0);
+		expect(motion.getTravelTime(1)).toBe(2000);
+		expect(motion.getTravelTime(-10)).toBe(20000);
+	});
+
+	/**
+	 * Getting up to 2.5m/s and back down takes 6.25m, so one floor (3m) never reaches top speed
+	 * while ten floors (30m) cruise for the 23.75m in between.
+	 */
+	it('should accelerate, cruise and decelerate with the trapezoidal profile', () => {
+		const motion = new Trapezoidal(options);
+		expect(motion.getTravelTime(0)).toBe(0);
+		expect(motion.getTravelTime(1)).toBe(3464); //2 * sqrt(3)s, braking half way
+		expect(motion.getTravelTime(10)).toBe(14500); //2.5s up to speed, 9.5s cruising, 2.5s down
+		expect(motion.getTravelTime(-10)).toBe(14500);
+		expect(motion.getTravelTime(10) / 10).toBeLessThan(motion.getTravelTime(1));
+	});
+
+	it('should take longer to brake when decelerating slower', () => {
+		const gentle = new Trapezoidal({ ...options, DECELERATION: 500 });
+		expect(gentle.getTravelTime(10)).toBe(15750); //5s instead of 2.5s down, over 6.25m instead of 3.125m
+	});
+
+	it('should split stops into opening, dwell and closing', () => {
+		expect(new ConstantSpeed(options).getDoorTimes()).toEqual({ opening: 0, dwell: 5000, closing: 0 });
+		const motion = new ConstantSpeed({ ...options, DOOR_OPENING_TIME: 1500, DOOR_CLOSING_TIME: 2500 });
+		expect(motion.getDoorTimes()).toEqual({ opening: 1500, dwell: 5000, closing: 2500 });
+		expect(motion.getStopTime()).toBe(9000);
+	});
+
+	it('should create the profile the options ask for', () => {
+		expect(createMotionProfile(options)).toBeInstanceOf(ConstantSpeed);
+		expect(createMotionProfile({ ...options, MOTION_PROFILE: 'trapezoidal' })).toBeInstanceOf(Trapezoidal);
+		expect(() => createMotionProfile({ ...options, MOTION_PROFILE: 'warp' as 'constant' })).toThrow(ValidationError);
+		expect(() => createMotionProfile({ ...options, MOTION_PROFILE: 'trapezoidal', MAX_SPEED: 0 })).toThrow(ValidationError);
+		expect(() => createMotionProfile({ TRAVEL_TIME_PER_FLOOR: 1, DOOR_OPEN_TIME: 1, MOTION_PROFILE: 'trapezoidal' })).toThrow('FLOOR_HEIGHT');
+	});
+});
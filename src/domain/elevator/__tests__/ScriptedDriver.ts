@@ -0,0 +1,65 @@
+import { Floor } from "../../route/Floors";
+import { ElevatorDriver, ElevatorDriverEventMap } from "../ElevatorDriver";
+
+/**
+ * A command the IO sent to the driver.
+ */
+export type DriverCommand =
+	| { command: 'move', toFloor: Floor, expectedTime: number }
+	| { command: 'openDoors', expectedTime: number }
+	| { command: 'closeDoors', expectedTime: number }
+	| { command: 'stop' };
+
+/**
+ * A driver for testing which does nothing by itself: it records the commands it's sent and the test plays the
+ * part of the car by emitting the sensor events, or by scripting them with {@link respond()}:
+ * - Reports the car doing something wrong or nothing at all, e.g. arriving at another floor or never arriving
+ * - Controls when things happen without any timers
+ */
+export class ScriptedDriver extends ElevatorDriver {
+
+	/** The commands sent so far, oldest first */
+	readonly commands: DriverCommand[] = [];
+
+	private readonly responses = new Map<DriverCommand['command'], (command: DriverCommand) => void>();
+
+	/**
+	 * Respond to a command whenever it's sent, before it returns.
+	 * @param command - The command to respond to.
+	 * @param response - Emits the events the car reports, e.g. `() => driver.emit('doorsOpened', { floor: 1 })`.
+	 */
+	respond(command: DriverCommand['command'], response: (command: DriverCommand) => void): this {
+		this.responses.set(command, response);
+		return this;
+	}
+
+	move(toFloor: Floor, expectedTime: number): void {
+		this.record({ command: 'move', toFloor, expectedTime });
+	}
+
+	openDoors(expectedTime: number): void {
+		this.record({ command: 'openDoors', expectedTime });
+	}
+
+	closeDoors(expectedTime: number): void {
+		this.record({ command: 'closeDoors', expectedTime });
+	}
+
+	stop(): void {
+		this.record({ command: 'stop' });
+	}
+
+	/**
+	 * Emit several events at once, e.g. the floors passed on the way somewhere.
+	 */
+	report(event: Exclude<keyof ElevatorDriverEventMap, 'fault'>, ...floors: Floor[]): void {
+		for (const floor of floors) {
+			this.emit(event, { floor });
+		}
+	}
+
+	private record(command: DriverCommand): void {
+		this.commands.push(command);
+		this.responses.get(command.command)?.(command);
+	}
+}
@@ -0,0 +1,52 @@
+import { SimulatedDriver } from '../SimulatedDriver';
+import { ElevatorDriverEventMap } from '../ElevatorDriver';
+import { VirtualClock } from '../../../infra/clock/VirtualClock';
+
+describe('SimulatedDriver', () => {
+	let clock: VirtualClock;
+	let driver: SimulatedDriver;
+	let events: [keyof ElevatorDriverEventMap, number, number][];
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		driver = new SimulatedDriver({ INITIAL_FLOOR: 2 }, undefined, clock);
+		events = [];
+		for (const event of ['floorPassed', 'arrived', 'doorsOpened', 'doorsClosed', 'obstruction'] as const) {
+			driver.on(event, ({ floor }) => events.push([event, floor, clock.now()]));
+		}
+	});
+
+	it('should pass floors at an even pace and arrive in the expected time', () => {
+		driver.move(-1, 3000);
+		clock.advance(3000);
+		expect(events).toEqual([['floorPassed', 1, 1000], ['floorPassed', 0, 2000], ['arrived', -1, 3000]]);
+	});
+
+	it('should go on from where it stopped', () => {
+		driver.move(6, 4000);
+		clock.advance(1500);
+		driver.stop();
+		clock.advance(60 * 1000);
+		driver.move(4, 2000);
+		clock.advance(2000);
+		expect(events).toEqual([['floorPassed', 3, 1000], ['arrived', 4, 63500]]);
+	});
+
+	it('should work the doors, right away if it takes no time, and reverse them on a new command', () => {
+		driver.openDoors(0);
+		driver.closeDoors(2000);
+		clock.advance(1000);
+		driver.openDoors(500);
+		clock.advance(500);
+		expect(events).toEqual([['doorsOpened', 2, 0], ['doorsOpened', 2, 1500]]);
+	});
+
+	it('should stop closing doors which are obstructed', () => {
+		expect(driver.obstruct()).toBe(false);
+		driver.closeDoors(2000);
+		clock.advance(1000);
+		expect(driver.obstruct()).toBe(true);
+		clock.advance(60 * 1000);
+		expect(events).toEqual([['obstruction', 2, 1000]]);
+	});
+});
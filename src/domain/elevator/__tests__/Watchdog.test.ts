@@ -0,0 +1,57 @@
+import { ElevatorIO, ElevatorIOOptions } from '../ElevatorIO';
+import { Watchdog } from '../Watchdog';
+import { ElevatorStateType } from '../types';
+import { VirtualClock } from '../../../infra/clock/VirtualClock';
+import { MotionProfile, createMotionProfile } from '../MotionProfile';
+import { ScriptedDriver } from './ScriptedDriver';
+
+const options: ElevatorIOOptions = {
+	INITIAL_FLOOR: 0,
+	TRAVEL_TIME_PER_FLOOR: 1000,
+	DOOR_OPEN_TIME: 1000,
+};
+
+describe('Watchdog', () => {
+	let clock: VirtualClock;
+	let motion: MotionProfile;
+	let driver: ScriptedDriver;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		motion = createMotionProfile(options);
+		driver = new ScriptedDriver();
+	});
+
+	it('should stop a car which is late arriving by more than the tolerance', () => {
+		const io = new ElevatorIO(options, undefined, clock, motion, driver);
+		new Watchdog(io, { WATCHDOG_TOLERANCE: 500 }, undefined, clock).start();
+		io.move(3);
+		driver.report('floorPassed', 1, 2); //...but never arrives
+		clock.advance(3000 + 499);
+		expect(io.getState('type')).toBe(ElevatorStateType.MOVING_UP);
+		clock.advance(1);
+		expect(io.getState()).toMatchObject({ type: ElevatorStateType.STOPPED, fromFloor: 2, toFloor: 3, reason: 'stuck' });
+		expect(driver.commands.at(-1)).toEqual({ command: 'stop' });
+	});
+
+	it('should leave a car alone which gets where it is going', () => {
+		const io = new ElevatorIO(options, undefined, clock);
+		new Watchdog(io, { WATCHDOG_TOLERANCE: 1 }, undefined, clock).start();
+		io.move(3);
+		clock.advance(3000);
+		io.openDoors();
+		clock.advance(60 * 1000);
+		expect(io.getState()).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 3 });
+	});
+
+	it('should do nothing when it is off or stopped', () => {
+		const io = new ElevatorIO(options, undefined, clock, motion, driver);
+		new Watchdog(io, { WATCHDOG_TOLERANCE: 0 }, undefined, clock).start();
+		const watchdog = new Watchdog(io, { WATCHDOG_TOLERANCE: 500 }, undefined, clock);
+		watchdog.start();
+		io.openDoors(); //...which never open
+		watchdog.stop();
+		clock.advance(60 * 1000);
+		expect(io.getState('type')).toBe(ElevatorStateType.DOORS_OPENING);
+	});
+});
@@ -0,0 +1,31 @@
+import type { Logger } from "../../infra/logger/Logger";
+import type { Clock } from "../../infra/clock/Clock";
+import type { AppOptions } from "../../options";
+import { ValidationError } from "../errors/ValidationErrors";
+import type { ElevatorDriver } from "./ElevatorDriver";
+import { ModbusDriver, ModbusDriverOptions } from "./ModbusDriver";
+import { SimulatedDriver, SimulatedDriverOptions } from "./SimulatedDriver";
+
+/**
+ * Create the driver the options ask for, see {@link AppOptions.DRIVER}.
+ * @param elevator - The number of the elevator, counted from 1, which is also its Modbus unit.
+ * @param options - The options for the driver.
+ * @param logger - Optional. The logger for the driver.
+ * @param clock - Optional. Where the time comes from.
+ * @throws A {@link ValidationError} if the driver doesn't exist or is misconfigured.
+ */
+export function createElevatorDriver(
+	elevator: number
+	, options: Partial<Pick<AppOptions, 'DRIVER'>> & SimulatedDriverOptions & ModbusDriverOptions
+	, logger?: Logger
+	, clock?: Clock
+): ElevatorDriver {
+	switch (options.DRIVER ?? 'simulated') {
+		case 'simulated':
+			return new SimulatedDriver(options, logger, clock);
+		case 'modbus':
+			return new ModbusDriver(elevator, options, logger, clock);
+		default:
+			throw new ValidationError(options.DRIVER, `Unknown driver '${options.DRIVER}', expected simulated or modbus`);
+	}
+}
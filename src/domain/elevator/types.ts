@@ -1,12 +1,17 @@
 import { KeysOfUnion } from "../../shared/types/helpers";
+import type { CallDirection, Floor } from "../route/Floors";
 
 
 
 export enum ElevatorStateType {
 	MOVING_UP = 'movingUp',
 	MOVING_DOWN = 'movingDown',
+	DOORS_OPENING = 'doorsOpening',
 	DOORS_OPEN = 'doorsOpen',
+	DOORS_CLOSING = 'doorsClosing',
+	DOORS_HELD_OPEN = 'doorsHeldOpen',
 	IDLE = 'idle',
+	STOPPED = 'stopped',
 }
 
 type Started = { startTime: number };
@@ -17,14 +22,29 @@ type Stationary = { atFloor: number }
 
 export type MovingUpState = Traveling & Timed & { type: ElevatorStateType.MOVING_UP }
 export type MovingDownState = Traveling & Timed & { type: ElevatorStateType.MOVING_DOWN }
-export type DoorsOpenState = Stationary & Timed & { type: ElevatorStateType.DOORS_OPEN }
+/** `direction` is the hall lantern, i.e. which way the elevator will leave. Not set if it'll take everyone. */
+export type DoorsOpenState = Stationary & Timed & { type: ElevatorStateType.DOORS_OPEN, direction?: CallDirection }
+/** Only entered if opening the doors takes time, see {@link MotionProfile.getDoorTimes()}. Same for closing. */
+export type DoorsOpeningState = Stationary & Timed & { type: ElevatorStateType.DOORS_OPENING, direction?: CallDirection }
+export type DoorsClosingState = Stationary & Timed & { type: ElevatorStateType.DOORS_CLOSING, direction?: CallDirection }
+/** The doors are open and stay open until they're told to close, see {@link ElevatorIO.holdDoorsOpen()}. */
+export type DoorsHeldOpenState = Stationary & Started & { type: ElevatorStateType.DOORS_HELD_OPEN }
 export type IdleState = Stationary & Started & { type: ElevatorStateType.IDLE }
+/**
+ * The car has been stopped where it is and does nothing until it's reset, see {@link ElevatorIO.stop()}. A car
+ * stopped between floors has the floors on either side instead of `atFloor`, `toFloor` being the one it was heading to.
+ */
+export type StoppedState = (Stationary | Traveling) & Started & { type: ElevatorStateType.STOPPED, reason: FaultReason }
 
 export type ElevatorStates =
 	| MovingUpState
 	| MovingDownState
+	| DoorsOpeningState
 	| DoorsOpenState
+	| DoorsClosingState
+	| DoorsHeldOpenState
 	| IdleState
+	| StoppedState
 
 
 /**
@@ -46,3 +66,31 @@ export type ElevatorEventMap = {
 
 export type StateProps = KeysOfUnion<ElevatorStates> //any prop in any state
 export type StatesWithProp<K extends StateProps> = Extract<ElevatorStates, Record<K, unknown>> //subset of states which have specific prop
+
+
+/**
+ * Why an elevator was stopped, see {@link StoppedState}.
+ * - `emergencyStop`: someone pushed the emergency stop.
+ * - `stuck`: the car didn't get to the end of a state in time, e.g. it never arrived at the floor it was moving
+ *   to, see {@link Watchdog}.
+ * - `commLoss`: the driver lost the connection to the car's controller, see {@link ModbusDriver}.
+ */
+export type FaultReason = 'emergencyStop' | 'stuck' | 'commLoss';
+
+/**
+ * The buttons a firefighter holds to open or close the doors, see {@link FireServiceMode}.
+ */
+export type DoorButton = 'open' | 'close';
+
+/**
+ * What an elevator does on fire service instead of serving rides.
+ * - `recall` (Phase I): the car goes non-stop to its recall floor, opens its doors and stays there.
+ * - `firefighter` (Phase II): a firefighter in the car drives it. It goes to the `target` floor they picked
+ *   and the doors only move while they hold a {@link DoorButton}, i.e. letting go of `open` before the doors
+ *   are fully open closes them again and letting go of `close` before they're closed opens them again.
+ *
+ * `floor` is the recall floor in both phases, which the car goes back to when the firefighter is done.
+ */
+export type FireServiceMode =
+	| { phase: 'recall', floor: Floor }
+	| { phase: 'firefighter', floor: Floor, target?: Floor, button?: DoorButton }
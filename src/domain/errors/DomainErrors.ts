@@ -21,4 +21,36 @@ export class ElevatorNotFoundError extends DomainError {
 	constructor(message: string, context?: Record<string, unknown>, cause?: Error) {
 		super(message, context, cause);
 	}
-}
\ No newline at end of file
+}
+
+
+
+export class RideNotFoundError extends DomainError {
+	constructor(message: string, context?: Record<string, unknown>, cause?: Error) {
+		super(message, context, cause);
+	}
+}
+
+
+
+/**
+ * Thrown when no elevator can stop at both floors of a ride, i.e. the floors are in the building but the
+ * passenger would have to change elevators on the way, see {@link ElevatorOptions}.
+ */
+export class UnreachableRideError extends DomainError {
+	constructor(message: string, context?: Record<string, unknown>, cause?: Error) {
+		super(message, context, cause);
+	}
+}
+
+
+
+/**
+ * Thrown when no elevator will take a ride, e.g. because it starts or ends outside the zone of every
+ * elevator (see {@link Zoned}). The floors are valid, the building just can't serve that ride.
+ */
+export class RideVetoedError extends DomainError {
+	constructor(message: string, context?: Record<string, unknown>, cause?: Error) {
+		super(message, context, cause);
+	}
+}
@@ -1,4 +1,6 @@
 import { TimeoutError } from "../errors/DomainErrors";
+import type { Clock, TimerId } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
 
 /**
  * A DTO containing the health status of a component.
@@ -25,12 +27,14 @@ export class ComponentHealthCheck {
 	 * @param fn - Function which performs the health check. Should reject with error or string if unhealthy. Resolves with an optional info message if healthy.
 	 * @param minInterval - The minimum interval between two executions of the health check.
 	 * @param timeout - The timeout for the health check function.
+	 * @param clock - Optional. Where the time comes from, defaults to the system time.
 	 */
 	constructor(
 		public readonly name: string
 		, private readonly fn: () => string | undefined | Promise<string | undefined>
 		, public readonly minIntervalMs: number = 0
 		, public readonly timeoutMs: number = 1000
+		, private readonly clock: Clock = new RealClock()
 	) {
 		this.lastStatus = { name: this.name, healthy: true, timestamp: 0, message: "Never run" };
 	}
@@ -44,7 +48,7 @@ export class ComponentHealthCheck {
 	 * @returns Time in milliseconds
 	 */
 	public timeSinceLastRun(): number {
-		return Date.now() - this.getLastStatus().timestamp;
+		return this.clock.now() - this.getLastStatus().timestamp;
 	}
 
 	/**
@@ -70,22 +74,27 @@ export class ComponentHealthCheck {
 
 		let healthy: boolean = false;
 		let result;
+		let timeout: TimerId | undefined;
 		try {
 			//Run the health check function and timeout if it takes too long
 			result = await Promise.race([
 				this.fn(),
-				new Promise<undefined>((_, reject) => setTimeout(() => reject(new TimeoutError(this.timeoutMs)), this.timeoutMs))
+				new Promise<undefined>((_, reject) => {
+					timeout = this.clock.setTimeout(() => reject(new TimeoutError(this.timeoutMs)), this.timeoutMs);
+				})
 			]);
 			healthy = true;
 		} catch (error) {
 			result = error ?? "Unknown error";
+		} finally {
+			this.clock.clearTimeout(timeout);
 		}
 
 		let message = String(result); //Handles primitives, arrays and Errors
 		if (message == '[object Object]') message = JSON.stringify(result); //Handles objects
 
 		//Update the last status and then return it as the current status. 
-		this.lastStatus = { name: this.name, healthy, timestamp: Date.now(), message };
+		this.lastStatus = { name: this.name, healthy, timestamp: this.clock.now(), message };
 		return this.lastStatus;
 	}
 
@@ -0,0 +1,100 @@
+import type { Clock } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
+import type { ElevatorId } from "../elevator/Elevator";
+import { RideStatus } from "../rides/types";
+import type { ElevatorService } from "../services/ElevatorService";
+import type { AggregatedRideStatusChangeEvents } from "../services/types";
+import { summarizeDurations } from "./stats";
+import type { RideMetricsGroup, RideMetricsReport } from "./types";
+
+type Samples = {
+	wait: number[];
+	inCar: number[];
+	journey: number[];
+};
+
+/**
+ * Measures how long passengers wait and ride, so strategies can be judged against each other.
+ *
+ * Listens to the `ride` events of an {@link ElevatorService}. A ride is picked up when the doors of its
+ * elevator open at the pickup floor (i.e. the `state` stream, see {@link RideTracker}), so the timestamps on
+ * the rides are all we need. Each ride counts towards the elevator which picked it up.
+ *
+ * Measurements are made when rides are picked up and dropped off, so a period (see {@link reset()}) also
+ * includes rides which were requested before it started.
+ */
+export class RideMetrics {
+	private since: number;
+	private samples = new Map<ElevatorId, Samples>();
+	private readonly unsubscribe: () => void;
+
+	/**
+	 * Start measuring right away.
+	 * @param service - The service whose rides to measure.
+	 * @param clock - Optional. Where the time comes from, should be the same one the service uses.
+	 */
+	constructor(service: ElevatorService, private readonly clock: Clock = new RealClock()) {
+		this.since = clock.now();
+		this.unsubscribe = service.listen('ride', this.record.bind(this));
+	}
+
+	/**
+	 * Forget everything measured so far and start a new period.
+	 */
+	reset(): void {
+		this.since = this.clock.now();
+		this.samples = new Map();
+	}
+
+	/**
+	 * Stop measuring. The report can still be made afterwards.
+	 */
+	stop(): void {
+		this.unsubscribe();
+	}
+
+	/**
+	 * Summarize the rides measured since the period started.
+	 */
+	getReport(): RideMetricsReport {
+		const all: Samples = { wait: [], inCar: [], journey: [] };
+		const elevators: Record<ElevatorId, RideMetricsGroup> = {};
+		for (const [elevator, samples] of this.samples) {
+			elevators[elevator] = summarize(samples);
+			all.wait.push(...samples.wait);
+			all.inCar.push(...samples.inCar);
+			all.journey.push(...samples.journey);
+		}
+		return { since: this.since, until: this.clock.now(), overall: summarize(all), elevators };
+	}
+
+	private record({ to, ride }: AggregatedRideStatusChangeEvents): void {
+		if (ride.elevator === undefined) {
+			return;
+		}
+		if (to === RideStatus.PICKED_UP) {
+			this.getSamples(ride.elevator).wait.push(ride.pickedUpAt! - ride.requestedAt); //set by this change
+		} else if (to === RideStatus.DROPPED_OFF) {
+			const samples = this.getSamples(ride.elevator);
+			samples.inCar.push(ride.droppedOffAt! - ride.pickedUpAt!); //only picked up rides are dropped off
+			samples.journey.push(ride.droppedOffAt! - ride.requestedAt);
+		}
+	}
+
+	private getSamples(elevator: ElevatorId): Samples {
+		let samples = this.samples.get(elevator);
+		if (samples === undefined) {
+			samples = { wait: [], inCar: [], journey: [] };
+			this.samples.set(elevator, samples);
+		}
+		return samples;
+	}
+}
+
+function summarize(samples: Samples): RideMetricsGroup {
+	return {
+		wait: summarizeDurations(samples.wait),
+		inCar: summarizeDurations(samples.inCar),
+		journey: summarizeDurations(samples.journey),
+	};
+}
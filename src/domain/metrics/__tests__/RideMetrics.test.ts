@@ -0,0 +1,90 @@
+import { RideMetrics } from '../RideMetrics';
+import { summarizeDurations } from '../stats';
+import { ElevatorService } from '../../services/ElevatorService';
+import { Elevator } from '../../elevator/Elevator';
+import { InsertOrder } from '../../strategies/InsertOrder';
+import { AppOptions, defaultOptions } from '../../../options';
+import { VirtualClock } from '../../../infra/clock/VirtualClock';
+
+const options: AppOptions = {
+	...defaultOptions,
+	MIN_FLOOR: 0,
+	MAX_FLOOR: 20,
+	INITIAL_FLOOR: 0,
+	TRAVEL_TIME_PER_FLOOR: 1000,
+	DOOR_OPEN_TIME: 1000,
+	ESTIMATION_LIMIT: 100000,
+	REOPTIMIZE_WHEN_FREE: false,
+};
+
+describe('RideMetrics', () => {
+	it('should summarize durations with nearest-rank percentiles', () => {
+		const durations = Array.from({ length: 100 }, (_, i) => (100 - i) * 10); //10, 20, ... 1000 in reverse
+		expect(summarizeDurations(durations)).toEqual({ count: 100, mean: 505, p50: 500, p90: 900, p99: 990, max: 1000 });
+		expect(summarizeDurations([7])).toEqual({ count: 1, mean: 7, p50: 7, p90: 7, p99: 7, max: 7 });
+		expect(summarizeDurations([])).toEqual({ count: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 });
+	});
+
+	describe('Measuring rides', () => {
+		let clock: VirtualClock;
+		let service: ElevatorService;
+		let metrics: RideMetrics;
+
+		beforeEach(() => {
+			clock = new VirtualClock();
+			service = new ElevatorService(options, undefined, clock);
+			for (let i = 1; i <= 2; i++) {
+				service.addElevator(new Elevator(`Elevator#${i}`, new InsertOrder(options), options, undefined, clock));
+			}
+			service.start();
+			metrics = new RideMetrics(service, clock);
+		});
+
+		afterEach(() => {
+			metrics.stop();
+			service.shutdown();
+		});
+
+		it('should measure wait, in-car and journey times per elevator and for the whole bank', async () => {
+			await service.addRide(0, 3); //doors open right away, then 3 floors up
+			await service.addRide(5, 1); //the other elevator goes up 5 floors first
+			await service.addRide(8); //no dropoff, so only a wait
+			await clock.advanceAsync(60 * 1000);
+
+			const report = metrics.getReport();
+			expect(report).toMatchObject({ since: 0, until: 60 * 1000 });
+			expect(report.elevators['Elevator#1']).toMatchObject({
+				wait: { count: 2, p50: 0 },
+				inCar: { count: 1, mean: 4000 },
+				journey: { count: 1, mean: 4000 },
+			});
+			expect(report.elevators['Elevator#2']).toMatchObject({
+				wait: { count: 1, mean: 5000 },
+				inCar: { count: 1, mean: 5000 },
+				journey: { count: 1, mean: 10000 },
+			});
+			expect(report.overall.wait.count).toBe(3);
+			expect(report.overall.journey).toMatchObject({ count: 2, mean: 7000, max: 10000 });
+
+			//Every wait is from request to the doors opening at the pickup
+			const waits = service.listRides().map(ride => ride.pickedUpAt! - ride.requestedAt).sort((a, b) => a - b);
+			expect(report.overall.wait.max).toBe(waits[waits.length - 1]);
+		});
+
+		it('should start a new period when reset and stop measuring when stopped', async () => {
+			await service.addRide(0, 3);
+			await clock.advanceAsync(10 * 1000);
+			metrics.reset();
+			expect(metrics.getReport()).toMatchObject({ since: 10 * 1000, overall: { wait: { count: 0 } }, elevators: {} });
+
+			await service.addRide(2);
+			await clock.advanceAsync(10 * 1000);
+			expect(metrics.getReport().overall.wait.count).toBe(1);
+
+			metrics.stop();
+			await service.addRide(4);
+			await clock.advanceAsync(10 * 1000);
+			expect(metrics.getReport().overall.wait.count).toBe(1);
+		});
+	});
+});
@@ -0,0 +1,30 @@
+import type { DurationStats } from "./types";
+
+/**
+ * Summarize a set of durations, see {@link DurationStats}.
+ * @param durations - The durations in milliseconds, in any order. Not changed.
+ */
+export function summarizeDurations(durations: readonly number[]): DurationStats {
+	if (durations.length === 0) {
+		return { count: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 };
+	}
+	const sorted = [...durations].sort((a, b) => a - b);
+	const total = sorted.reduce((sum, duration) => sum + duration, 0);
+	return {
+		count: sorted.length,
+		mean: total / sorted.length,
+		p50: percentile(sorted, 50),
+		p90: percentile(sorted, 90),
+		p99: percentile(sorted, 99),
+		max: sorted[sorted.length - 1],
+	};
+}
+
+/**
+ * Get a percentile with the nearest-rank method.
+ * @param sorted - The values sorted in ascending order, at least one.
+ * @param p - The percentile, 0 < p <= 100.
+ */
+function percentile(sorted: readonly number[], p: number): number {
+	return sorted[Math.ceil((p / 100) * sorted.length) - 1];
+}
@@ -0,0 +1,40 @@
+import type { ElevatorId } from "../elevator/Elevator";
+
+/**
+ * A summary of a set of durations in milliseconds. Percentiles use the nearest-rank method, i.e. they're
+ * always one of the durations. Everything is 0 when there are no durations.
+ */
+export type DurationStats = {
+	count: number;
+	mean: number;
+	p50: number;
+	p90: number;
+	p99: number;
+	max: number;
+};
+
+/**
+ * How long passengers spent on the parts of their journey:
+ *  - **wait** - From requesting the ride until the doors opened at the pickup floor.
+ *  - **inCar** - From the pickup until the doors opened at the dropoff floor.
+ *  - **journey** - From requesting the ride until the dropoff, i.e. both of the above.
+ *
+ * Rides without a dropoff only have a wait.
+ */
+export type RideMetricsGroup = {
+	wait: DurationStats;
+	inCar: DurationStats;
+	journey: DurationStats;
+};
+
+/**
+ * The metrics of every ride which was picked up or dropped off during a period, bank-wide and per elevator.
+ */
+export type RideMetricsReport = {
+	/** When the period started, see {@link RideMetrics.reset()} */
+	since: number;
+	/** When the report was made */
+	until: number;
+	overall: RideMetricsGroup;
+	elevators: Record<ElevatorId, RideMetricsGroup>;
+};
@@ -0,0 +1,258 @@
+import { TypedEventEmitter } from "../../infra/events/TypedEventEmitter";
+import type { Logger } from "../../infra/logger/Logger";
+import type { Clock } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
+import type { AppOptions } from "../../options";
+import type { ElevatorId } from "../elevator/Elevator";
+import type { CallDirection, Floor } from "../route/Floors";
+import { RideNotFoundError } from "../errors/DomainErrors";
+import { StateError } from "../errors/StateErrors";
+import { Ride, RideId, RideStatus, RideTrackerEventMap } from "./types";
+
+export type RideTrackerOptions = Pick<AppOptions, 'RIDE_HISTORY_LIMIT'>;
+
+/**
+ * Which timestamp to set on a {@link Ride} when it reaches a status.
+ */
+const timestamps = {
+	[RideStatus.REQUESTED]: 'requestedAt',
+	[RideStatus.ASSIGNED]: 'assignedAt',
+	[RideStatus.PICKED_UP]: 'pickedUpAt',
+	[RideStatus.DROPPED_OFF]: 'droppedOffAt',
+	[RideStatus.CANCELLED]: 'cancelledAt',
+} as const;
+
+/**
+ * Check if a ride has reached the end of its lifecycle, i.e. it's been dropped off, cancelled, or
+ * picked up without a known dropoff floor.
+ */
+export function isRideFinished(ride: Ride): boolean {
+	return ride.status === RideStatus.DROPPED_OFF
+		|| ride.status === RideStatus.CANCELLED
+		|| (ride.status === RideStatus.PICKED_UP && ride.dropoff === undefined);
+}
+
+/**
+ * Check if a passenger would get on an elevator, i.e. if we don't know which way one of them is going
+ * or they're both going the same way.
+ */
+function isGoingTheSameWay(ride?: CallDirection, elevator?: CallDirection): boolean {
+	return ride === undefined || elevator === undefined || ride === elevator;
+}
+
+/**
+ * Keeps track of every ride requested from the {@link ElevatorService} so it can be followed from
+ * request to dropoff.
+ *
+ * The route of an elevator only knows about floors, not about who asked for them, so this class
+ * doesn't look at the route at all. Instead it's told which elevator accepted a ride and then
+ * watches for that elevator opening its doors at the pickup and dropoff floors. Since the route
+ * visits floors in order (a dropoff isn't visited until after its pickup) that's all we need.
+ *
+ * Every status change emits a `ride` event. Callers only ever get snapshots of rides, never the
+ * objects we update.
+ */
+export class RideTracker extends TypedEventEmitter<RideTrackerEventMap> {
+	private lastId = 0;
+
+	/** All rides we remember, in the order they were requested */
+	private readonly rides = new Map<RideId, Ride>();
+
+	/** Rides which are assigned or picked up, grouped by the elevator serving them */
+	private readonly active = new Map<ElevatorId, Set<Ride>>();
+
+	/** Finished rides in the order they finished, so we know which ones to forget first */
+	private readonly finished = new Set<RideId>();
+
+	constructor(
+		public readonly options: RideTrackerOptions
+		, logger?: Logger
+		, private readonly clock: Clock = new RealClock()
+	) {
+		super(logger);
+	}
+
+	/**
+	 * Start tracking a new ride. Floors are expected to have been validated already.
+	 * @param pickup - The floor to pickup the passenger from.
+	 * @param dropoff - Optional. The floor to drop the passenger off at.
+	 * @param direction - Optional. The direction of the hall call, also validated already.
+	 * @returns A snapshot of the new ride with status {@link RideStatus.REQUESTED}.
+	 */
+	request(pickup: Floor, dropoff?: Floor, direction?: CallDirection): Ride {
+		const ride: Ride = {
+			id: `Ride#${++this.lastId}`,
+			status: RideStatus.REQUESTED,
+			pickup,
+			...(dropoff !== undefined && { dropoff }),
+			...(direction !== undefined && { direction }),
+			requestedAt: this.clock.now(),
+		};
+		this.rides.set(ride.id, ride);
+		this.emit('ride', { from: null, to: ride.status, ride: { ...ride } });
+		return { ...ride };
+	}
+
+	/**
+	 * Register that an elevator has added a ride to its route.
+	 * @param id - The id of the ride.
+	 * @param elevator - The id of the elevator which accepted the ride.
+	 * @param reserved - Optional. True if the passenger will be told to take this elevator, see {@link Ride}.
+	 * @returns A snapshot of the ride after the change.
+	 * @throws A {@link RideNotFoundError} if the ride doesn't exist.
+	 * @throws A {@link StateError} if the ride isn't waiting to be assigned.
+	 */
+	assign(id: RideId, elevator: ElevatorId, reserved?: boolean): Ride {
+		const ride = this.find(id);
+		this.expectStatus(ride, RideStatus.REQUESTED);
+		ride.elevator = elevator;
+		if (reserved) {
+			ride.reserved = true;
+		}
+		this.getActiveSet(elevator).add(ride);
+		return this.transition(ride, RideStatus.ASSIGNED);
+	}
+
+	/**
+	 * Register that a ride which hasn't been picked up yet has been moved to another elevator.
+	 * @param id - The id of the ride.
+	 * @param elevator - The id of the elevator which accepted the ride instead.
+	 * @param override - Optional. Move the ride even if it's reserved, e.g. since its elevator has broken down. It's
+	 *  reserved for the new elevator instead.
+	 * @returns A snapshot of the ride after the change.
+	 * @throws A {@link RideNotFoundError} if the ride doesn't exist.
+	 * @throws A {@link StateError} if the ride isn't waiting to be picked up or is reserved for its elevator.
+	 */
+	reassign(id: RideId, elevator: ElevatorId, override = false): Ride {
+		const ride = this.find(id);
+		this.expectStatus(ride, RideStatus.ASSIGNED);
+		if (ride.reserved && !override) {
+			throw new StateError(`Ride ${id} is reserved for ${ride.elevator}`, { ride: { ...ride } });
+		}
+		const previous = ride.elevator!; //assigned rides always have one
+		this.active.get(previous)?.delete(ride);
+		ride.elevator = elevator;
+		this.getActiveSet(elevator).add(ride);
+		return this.transition(ride, RideStatus.ASSIGNED, previous);
+	}
+
+	/**
+	 * Cancel a ride which hasn't finished yet.
+	 * @param id - The id of the ride.
+	 * @returns A snapshot of the ride after the change.
+	 * @throws A {@link RideNotFoundError} if the ride doesn't exist.
+	 * @throws A {@link StateError} if the ride has already been dropped off or cancelled.
+	 */
+	cancel(id: RideId): Ride {
+		const ride = this.find(id);
+		if (isRideFinished(ride)) {
+			throw new StateError(`Ride ${id} is already ${ride.status}`, { ride: { ...ride } });
+		}
+		return this.transition(ride, RideStatus.CANCELLED);
+	}
+
+	/**
+	 * Register that an elevator has opened its doors at a floor. This picks up all rides waiting
+	 * for that elevator on that floor and drops off all rides which were going there.
+	 * @param elevator - The id of the elevator.
+	 * @param floor - The floor the doors opened at.
+	 * @param direction - Optional. The direction the elevator is leaving in. Rides waiting to go the other
+	 *  way stay behind. Without it everyone gets on.
+	 */
+	registerDoorsOpen(elevator: ElevatorId, floor: Floor, direction?: CallDirection): void {
+		const rides = this.active.get(elevator);
+		if (rides === undefined) {
+			return;
+		}
+		//NOTE: Copy since transitioning removes finished rides from the set we're iterating. Also, each
+		//ride takes at most one step per stop so a ride from and to the same floor needs two stops.
+		for (const ride of [...rides]) {
+			if (ride.status === RideStatus.ASSIGNED && ride.pickup === floor && isGoingTheSameWay(ride.direction, direction)) {
+				this.transition(ride, RideStatus.PICKED_UP);
+			} else if (ride.status === RideStatus.PICKED_UP && ride.dropoff === floor) {
+				this.transition(ride, RideStatus.DROPPED_OFF);
+			}
+		}
+	}
+
+	/**
+	 * Get a snapshot of a ride.
+	 * @param id - The id of the ride.
+	 * @throws A {@link RideNotFoundError} if the ride doesn't exist or has been forgotten, see
+	 *  {@link AppOptions.RIDE_HISTORY_LIMIT}.
+	 */
+	getRide(id: RideId): Ride {
+		return { ...this.find(id) };
+	}
+
+	/**
+	 * Get snapshots of all rides we remember, in the order they were requested.
+	 */
+	listRides(): Ride[] {
+		return [...this.rides.values()].map(ride => ({ ...ride }));
+	}
+
+	/**
+	 * Get snapshots of the rides an elevator is currently serving, i.e. assigned or picked up.
+	 * @param elevator - The id of the elevator.
+	 */
+	getActiveRides(elevator: ElevatorId): Ride[] {
+		return [...(this.active.get(elevator) ?? [])].map(ride => ({ ...ride }));
+	}
+
+	private find(id: RideId): Ride {
+		const ride = this.rides.get(id);
+		if (!ride) {
+			throw new RideNotFoundError(`Ride ${id} not found`);
+		}
+		return ride;
+	}
+
+	private expectStatus(ride: Ride, expected: RideStatus): void {
+		if (ride.status !== expected) {
+			throw new StateError(`Expected ride ${ride.id} to be ${expected}, but it was ${ride.status}`, { ride: { ...ride } });
+		}
+	}
+
+	private getActiveSet(elevator: ElevatorId): Set<Ride> {
+		let rides = this.active.get(elevator);
+		if (rides === undefined) {
+			rides = new Set();
+			this.active.set(elevator, rides);
+		}
+		return rides;
+	}
+
+	/**
+	 * Change the status of a ride, emit the change and forget about old rides if this one finished.
+	 * @param reassignedFrom - Optional. The elevator the ride was moved from, see {@link reassign()}.
+	 * @returns A snapshot of the ride after the change.
+	 */
+	private transition(ride: Ride, to: RideStatus, reassignedFrom?: ElevatorId): Ride {
+		const from = ride.status;
+		ride.status = to;
+		ride[timestamps[to]] = this.clock.now();
+
+		if (isRideFinished(ride)) {
+			if (ride.elevator !== undefined) {
+				this.active.get(ride.elevator)?.delete(ride);
+			}
+			this.finished.add(ride.id);
+			this.forgetOldRides();
+		}
+
+		const snapshot = { ...ride };
+		this.emit('ride', { from, to, ride: snapshot, ...(reassignedFrom !== undefined && { reassignedFrom }) });
+		return { ...snapshot };
+	}
+
+	private forgetOldRides(): void {
+		for (const id of this.finished) {
+			if (this.finished.size <= this.options.RIDE_HISTORY_LIMIT) {
+				break;
+			}
+			this.finished.delete(id);
+			this.rides.delete(id);
+		}
+	}
+}
@@ -0,0 +1,185 @@
+import { RideTracker } from '../RideTracker';
+import { RideStatus, RideStatusChangeEvent } from '../types';
+import { RideNotFoundError } from '../../errors/DomainErrors';
+import { StateError } from '../../errors/StateErrors';
+
+describe('RideTracker', () => {
+	let tracker: RideTracker;
+	let events: RideStatusChangeEvent[];
+
+	beforeEach(() => {
+		tracker = new RideTracker({ RIDE_HISTORY_LIMIT: 3 });
+		events = [];
+		tracker.on('ride', (event) => events.push(event));
+	});
+
+	describe('Lifecycle', () => {
+		it('should give each ride a unique id and emit when it is requested', () => {
+			const first = tracker.request(3, 7);
+			const second = tracker.request(5);
+			expect(first.id).toBe('Ride#1');
+			expect(second.id).toBe('Ride#2');
+			expect(first.status).toBe(RideStatus.REQUESTED);
+			expect(first.requestedAt).toEqual(expect.any(Number));
+			expect(second).not.toHaveProperty('dropoff');
+			expect(events.map(e => [e.from, e.to, e.ride.id])).toEqual([
+				[null, RideStatus.REQUESTED, 'Ride#1'],
+				[null, RideStatus.REQUESTED, 'Ride#2'],
+			]);
+		});
+
+		it('should follow a ride from request to dropoff', () => {
+			const { id } = tracker.request(3, 7);
+			tracker.assign(id, 'Elevator#1');
+			expect(tracker.getRide(id)).toMatchObject({ status: RideStatus.ASSIGNED, elevator: 'Elevator#1' });
+
+			tracker.registerDoorsOpen('Elevator#1', 3);
+			expect(tracker.getRide(id).status).toBe(RideStatus.PICKED_UP);
+
+			tracker.registerDoorsOpen('Elevator#1', 7);
+			const ride = tracker.getRide(id);
+			expect(ride.status).toBe(RideStatus.DROPPED_OFF);
+			expect(ride.assignedAt).toBeGreaterThanOrEqual(ride.requestedAt);
+			expect(ride.pickedUpAt).toBeGreaterThanOrEqual(ride.assignedAt!);
+			expect(ride.droppedOffAt).toBeGreaterThanOrEqual(ride.pickedUpAt!);
+			expect(events.map(e => [e.from, e.to])).toEqual([
+				[null, RideStatus.REQUESTED],
+				[RideStatus.REQUESTED, RideStatus.ASSIGNED],
+				[RideStatus.ASSIGNED, RideStatus.PICKED_UP],
+				[RideStatus.PICKED_UP, RideStatus.DROPPED_OFF],
+			]);
+			expect(tracker.getActiveRides('Elevator#1')).toEqual([]);
+		});
+
+		it('should not drop off a ride before it has been picked up', () => {
+			const { id } = tracker.request(3, 7);
+			tracker.assign(id, 'Elevator#1');
+			tracker.registerDoorsOpen('Elevator#1', 7);
+			expect(tracker.getRide(id).status).toBe(RideStatus.ASSIGNED);
+		});
+
+		it('should only react to the elevator the ride was assigned to', () => {
+			const { id } = tracker.request(3, 7);
+			tracker.assign(id, 'Elevator#1');
+			tracker.registerDoorsOpen('Elevator#2', 3);
+			expect(tracker.getRide(id).status).toBe(RideStatus.ASSIGNED);
+		});
+
+		it('should need two stops for a ride from and to the same floor', () => {
+			const { id } = tracker.request(4, 4);
+			tracker.assign(id, 'Elevator#1');
+			tracker.registerDoorsOpen('Elevator#1', 4);
+			expect(tracker.getRide(id).status).toBe(RideStatus.PICKED_UP);
+			tracker.registerDoorsOpen('Elevator#1', 4);
+			expect(tracker.getRide(id).status).toBe(RideStatus.DROPPED_OFF);
+		});
+
+		it('should finish a ride without dropoff once it has been picked up', () => {
+			const { id } = tracker.request(4);
+			tracker.assign(id, 'Elevator#1');
+			tracker.registerDoorsOpen('Elevator#1', 4);
+			expect(tracker.getRide(id).status).toBe(RideStatus.PICKED_UP);
+			expect(tracker.getActiveRides('Elevator#1')).toEqual([]);
+		});
+
+		it('should pick up all rides waiting at the same floor with one stop', () => {
+			const a = tracker.request(2, 5);
+			const b = tracker.request(2, 8);
+			tracker.assign(a.id, 'Elevator#1');
+			tracker.assign(b.id, 'Elevator#1');
+			tracker.registerDoorsOpen('Elevator#1', 2);
+			expect(tracker.getActiveRides('Elevator#1').map(r => r.status)).toEqual([RideStatus.PICKED_UP, RideStatus.PICKED_UP]);
+		});
+
+		it('should remember if the passenger was told which car to take', () => {
+			const reserved = tracker.request(3, 7);
+			const other = tracker.request(3, 7);
+			expect(tracker.assign(reserved.id, 'Elevator#1', true).reserved).toBe(true);
+			expect(tracker.assign(other.id, 'Elevator#1')).not.toHaveProperty('reserved');
+		});
+
+		it('should move a ride which has not been picked up to another elevator', () => {
+			const { id } = tracker.request(3, 7);
+			tracker.assign(id, 'Elevator#1');
+			const ride = tracker.reassign(id, 'Elevator#2');
+			expect(ride).toMatchObject({ status: RideStatus.ASSIGNED, elevator: 'Elevator#2' });
+			expect(events.at(-1)).toMatchObject({ from: RideStatus.ASSIGNED, to: RideStatus.ASSIGNED, reassignedFrom: 'Elevator#1' });
+			expect(tracker.getActiveRides('Elevator#1')).toEqual([]);
+
+			//Only the new elevator picks it up
+			tracker.registerDoorsOpen('Elevator#1', 3);
+			expect(tracker.getRide(id).status).toBe(RideStatus.ASSIGNED);
+			tracker.registerDoorsOpen('Elevator#2', 3);
+			expect(tracker.getRide(id).status).toBe(RideStatus.PICKED_UP);
+			expect(() => tracker.reassign(id, 'Elevator#1')).toThrow(StateError);
+		});
+
+		it('should not move a reserved ride', () => {
+			const { id } = tracker.request(3, 7);
+			tracker.assign(id, 'Elevator#1', true);
+			expect(() => tracker.reassign(id, 'Elevator#2')).toThrow(StateError);
+		});
+
+		it('should move a reserved ride when told to, keeping it reserved for the new elevator', () => {
+			const { id } = tracker.request(3, 7);
+			tracker.assign(id, 'Elevator#1', true);
+			expect(tracker.reassign(id, 'Elevator#2', true)).toMatchObject({ elevator: 'Elevator#2', reserved: true });
+		});
+
+		it('should not assign a ride twice', () => {
+			const { id } = tracker.request(3, 7);
+			tracker.assign(id, 'Elevator#1');
+			expect(() => tracker.assign(id, 'Elevator#2')).toThrow(StateError);
+		});
+	});
+
+	describe('Cancellation', () => {
+		it('should cancel a ride in progress', () => {
+			const { id } = tracker.request(3, 7);
+			tracker.assign(id, 'Elevator#1');
+			const ride = tracker.cancel(id);
+			expect(ride.status).toBe(RideStatus.CANCELLED);
+			expect(ride.cancelledAt).toEqual(expect.any(Number));
+			expect(tracker.getActiveRides('Elevator#1')).toEqual([]);
+
+			//Doors opening at the pickup floor afterwards doesn't revive it
+			tracker.registerDoorsOpen('Elevator#1', 3);
+			expect(tracker.getRide(id).status).toBe(RideStatus.CANCELLED);
+		});
+
+		it('should not cancel a ride which has finished', () => {
+			const { id } = tracker.request(3);
+			tracker.assign(id, 'Elevator#1');
+			tracker.registerDoorsOpen('Elevator#1', 3);
+			expect(() => tracker.cancel(id)).toThrow(StateError);
+		});
+	});
+
+	describe('Queries', () => {
+		it('should throw RideNotFoundError for unknown rides', () => {
+			expect(() => tracker.getRide('Ride#42')).toThrow(RideNotFoundError);
+			expect(() => tracker.assign('Ride#42', 'Elevator#1')).toThrow(RideNotFoundError);
+		});
+
+		it('should return snapshots which are not updated', () => {
+			const { id } = tracker.request(3, 7);
+			const snapshot = tracker.getRide(id);
+			tracker.assign(id, 'Elevator#1');
+			expect(snapshot.status).toBe(RideStatus.REQUESTED);
+			expect(events[0].ride.status).toBe(RideStatus.REQUESTED);
+		});
+
+		it('should forget the oldest finished rides beyond the history limit, but never rides in progress', () => {
+			const active = tracker.request(10, 11);
+			tracker.assign(active.id, 'Elevator#2');
+			const finished = [1, 2, 3, 4, 5].map(floor => {
+				const { id } = tracker.request(floor);
+				tracker.assign(id, 'Elevator#1');
+				tracker.registerDoorsOpen('Elevator#1', floor);
+				return id;
+			});
+			expect(tracker.listRides().map(r => r.id)).toEqual([active.id, ...finished.slice(2)]);
+			expect(() => tracker.getRide(finished[0])).toThrow(RideNotFoundError);
+		});
+	});
+});
@@ -0,0 +1,62 @@
+import type { ElevatorId } from "../elevator/Elevator";
+import type { CallDirection, Floor } from "../route/Floors";
+
+export type RideId = string;
+
+export enum RideStatus {
+	/** The ride has been validated but no elevator has accepted it yet */
+	REQUESTED = 'requested',
+	/** An elevator has added the ride to its route */
+	ASSIGNED = 'assigned',
+	/** The assigned elevator has opened its doors at the pickup floor */
+	PICKED_UP = 'pickedUp',
+	/** The assigned elevator has opened its doors at the dropoff floor */
+	DROPPED_OFF = 'droppedOff',
+	/** The ride will never complete, e.g. because no elevator accepted it */
+	CANCELLED = 'cancelled',
+}
+
+/**
+ * A single ride requested from the {@link ElevatorService}, followed from request to dropoff.
+ *
+ * All timestamps are in milliseconds since epoch and are only set once the ride reaches that status.
+ *
+ * @note A ride without a dropoff floor (someone pushing the call button in the hall) is complete once
+ * it has been picked up, since we can't know where the passenger is going until they push a button
+ * inside the car, which is a new ride.
+ *
+ * `direction` is set when we know which hall call button the passenger pushed, either because they
+ * told us or because the dropoff floor gives it away. Such a ride is only picked up by an elevator
+ * leaving in that direction.
+ *
+ * `reserved` is set when the passenger has been told which car to take (see {@link DispatchMode}), so
+ * the ride must stay with that elevator.
+ */
+export type Ride = {
+	id: RideId;
+	status: RideStatus;
+	pickup: Floor;
+	dropoff?: Floor;
+	direction?: CallDirection;
+	elevator?: ElevatorId;
+	reserved?: boolean;
+	requestedAt: number;
+	assignedAt?: number;
+	pickedUpAt?: number;
+	droppedOffAt?: number;
+	cancelledAt?: number;
+}
+
+/**
+ * An event emitted every time a ride changes status. `from` is null when the ride was just requested.
+ * `ride` is a snapshot taken after the change. A ride which was moved to another elevator before being
+ * picked up goes from `assigned` to `assigned` again, with `reassignedFrom` set to the previous elevator.
+ */
+export type RideStatusChangeEvent = { from: RideStatus | null, to: RideStatus, ride: Ride, reassignedFrom?: ElevatorId }
+
+/**
+ * The event map for the RideTracker class.
+ */
+export type RideTrackerEventMap = {
+	ride: RideStatusChangeEvent
+}
@@ -1,20 +1,29 @@
 import { TypedMap } from "../../shared/util/TypedMap";
-import { RouteItem } from "./RouteItem";
-import { Floor, ConditionalFloor, validateFloor, isFloor } from "./Floors";
+import { RouteItem, type FloorCalls } from "./RouteItem";
+import { Floor, ConditionalFloor, CallDirection, validateFloor, isFloor, oppositeDirection } from "./Floors";
 import { TypedEventEmitter } from "../../infra/events/TypedEventEmitter";
 import { Logger } from "../../infra/logger/Logger";
 
 /**
  * An event emitted both then new floors are requested to be visited and when they are visited.
- * This helps clients keep track of which buttons should be lit up.
+ * This helps clients keep track of which buttons should be lit up. Each floor has up to three
+ * buttons: the up and down hall call buttons (with `direction`) and the button inside the car
+ * (without `direction`), which also lights up for requests we don't know the direction of.
  */
-export type ButtonActiveEvent = { floor: Floor, active: boolean }
+export type ButtonActiveEvent = { floor: Floor, active: boolean, direction?: CallDirection }
+
+/**
+ * An event emitted when a floor is visited, with how many passengers got on and off. Only passengers who
+ * told us where they're going are counted, see {@link ElevatorRoute.visitNow()}.
+ */
+export type FloorVisitEvent = { floor: Floor, boarded: number, alighted: number, direction?: CallDirection }
 
 /**
  * Events which can be emitted by the ElevatorRoute class. 
  */
 export type ElevatorRouteEventMap = {
 	buttons: ButtonActiveEvent
+	visit: FloorVisitEvent
 }
 
 
@@ -129,6 +138,15 @@ export class ElevatorRoute extends TypedEventEmitter<ElevatorRouteEventMap> impl
 		return Array.from(this.route.keys()).filter(isFloor);
 	}
 
+	/**
+	 * Get how many times a floor has been requested, split by which button was pushed. Strategies can 
+	 * use this to e.g. only stop for hall calls in the direction they're travelling.
+	 * @returns The {@link FloorCalls}, or undefined if the floor isn't on the route.
+	 */
+	getCalls(floor: Floor): FloorCalls | undefined {
+		return this.route.get(floor)?.calls;
+	}
+
 	/**
 	 * Get the last floor in the route.
 	 * NOTE: This is O(n) time complexity.
@@ -156,25 +174,28 @@ export class ElevatorRoute extends TypedEventEmitter<ElevatorRouteEventMap> impl
 	 * @param pickup The floor to add as a {@link RouteItem} to the {@link route} right now. 
 	 * @param dropoff Optional. A floor which will be added as a {@link ConditionalFloor} to 
 	 *                the RouteItem mentioned above AND to the queue.
+	 * @param direction Optional. The direction of the hall call at the pickup floor. Without it the 
+	 *                  request counts as a car call which is answered whichever way the elevator goes.
 	 * @return The {@link RouteItem} we just created or fetched from the queue. This is used
 	 *         by {@link visitNow()} when upgrading ConditionalFloors to RouteItems.
 	 */
-	addRide(pickup: Floor, dropoff?: Floor): RouteItem {
+	addRide(pickup: Floor, dropoff?: Floor, direction?: CallDirection): RouteItem {
 		//Make sure we have an iteger and not a NaN or Decimal. Since this is the only place
 		//we add stuff to the queue, this is the only place we can mess it up.
 		validateFloor(pickup);
 
 		//Check if the floor is already in the queue...
 		let item = this.route.get(pickup);
+		const before = item?.calls;
 		if (item === undefined) {
 			//...if not create a new RouteItem and add it
-			item = new RouteItem(pickup);
+			item = new RouteItem(pickup, direction);
 			this.route.set(pickup, item);
-			this.emit('buttons', { floor: pickup, active: true });
 		} else {
 			//...if it is increment the request count
-			item.requestAgain();
+			item.requestAgain(direction);
 		}
+		this.emitButtons(pickup, before, item.calls);
 
 		//If there is a dropoff, add it to the RouteItem AND place the ConditionalFloor
 		//it returns in the queue which ensures it retains it's place in line.
@@ -238,16 +259,42 @@ export class ElevatorRoute extends TypedEventEmitter<ElevatorRouteEventMap> impl
 	 * //move to 4
 	 * ```
 	 * 
+	 * If a `direction` is given and there are hall calls on this floor in the other direction, then
+	 * those passengers don't get on. The floor stays on the route with just their calls, and only the 
+	 * ConditionalFloors in the direction we're going are added as above.
+	 * 
+	 * Each ConditionalFloor which is added is a passenger getting on and each one which is deleted is a
+	 * passenger getting off, which is what the {@link FloorVisitEvent} counts. Passengers without a dropoff
+	 * get on too, but since we'll never know when they get off they aren't counted.
+	 * 
 	 * @param floor The floor to make a stop at.
-	 * @returns True if the floor was removed from the set, false otherwise.
+	 * @param direction Optional. The direction the elevator will leave in. Without it everyone gets on.
+	 * @returns True if the floor was visited, false if it wasn't on the route.
 	 * @throws Never, even on bad input or multiple calls for the same floor.
 	 */
-	visitNow(floor: Floor): boolean {
+	visitNow(floor: Floor, direction?: CallDirection): boolean {
 		//Check if it's in the queue else return false
 		const item = this.route.get(floor)
 		if (item === undefined) return false;
 
-		//Any ConditionalFloors which where waiting on this floor should now be 
+		//If someone is going the other way they'll have to wait, so we only answer some of the calls...
+		if (direction !== undefined && item.hasHallCall(oppositeDirection(direction))) {
+			const boarding = item.takeVisitAfter(direction);
+			for (const cf of boarding) {
+				this.addRide(Number(cf)).addDeleteOnVisit(cf);
+			}
+			const alighting = item.takeDeleteOnVisit();
+			for (const cf of alighting) {
+				this.route.delete(cf); //everyone who wanted to get off here does
+			}
+			const before = item.calls;
+			item.answerCalls(direction);
+			this.emitButtons(floor, before, item.calls);
+			this.emit('visit', { floor, boarded: boarding.length, alighted: alighting.length, direction });
+			return true;
+		}
+
+		//...else any ConditionalFloors which where waiting on this floor should now be 
 		//added as regular RouteItems, with the cf attached as something to 
 		//delete when we eventually visit that floor...
 		for (const cf of item.visitAfter) {
@@ -260,11 +307,153 @@ export class ElevatorRoute extends TypedEventEmitter<ElevatorRouteEventMap> impl
 		}
 
 		//Finally remove from the queue and return true
+		const before = item.calls;
 		this.route.delete(floor);
-		this.emit('buttons', { floor: floor, active: false });
+		this.emitButtons(floor, before, undefined);
+		this.emit('visit', {
+			floor
+			, boarded: item.visitAfter.length
+			, alighted: item.deleteOnVisit.length
+			, ...(direction !== undefined && { direction })
+		});
+		return true;
+	}
+
+	/**
+	 * Undo a call to {@link addRide()} for a passenger who hasn't been picked up yet. This removes
+	 * one request from the pickup floor and, if a dropoff was given, one of the {@link ConditionalFloor}s
+	 * waiting on it. If nobody else needs the pickup floor it's removed from the route entirely.
+	 * 
+	 * @param pickup The pickup floor passed to {@link addRide()}
+	 * @param dropoff The dropoff floor passed to {@link addRide()}, if any
+	 * @param direction The direction passed to {@link addRide()}, if any
+	 * @returns True if the ride was found and removed, false otherwise.
+	 * @throws Never, even on bad input.
+	 */
+	cancelRide(pickup: Floor, dropoff?: Floor, direction?: CallDirection): boolean {
+		const item = this.route.get(pickup);
+		if (item === undefined) return false;
+
+		if (dropoff !== undefined) {
+			const cf = item.removeVisitAfter(dropoff);
+			if (cf === undefined) return false;
+			this.route.delete(cf);
+		}
+
+		this.cancelRequest(item, direction);
+		return true;
+	}
+
+	/**
+	 * Undo the dropoff of a passenger who has already been picked up. This is the counterpart of
+	 * {@link cancelRide()} for after {@link visitNow()} has turned the dropoff into a regular floor
+	 * on the route, see the explanation there.
+	 * 
+	 * @param dropoff The dropoff floor passed to {@link addRide()}
+	 * @returns True if the dropoff was found and removed, false otherwise.
+	 * @throws Never, even on bad input.
+	 */
+	cancelDropoff(dropoff: Floor): boolean {
+		const item = this.route.get(dropoff);
+		if (item === undefined) return false;
+
+		//The ConditionalFloor which kept the dropoff's original place in line
+		const cf = item.removeDeleteOnVisit();
+		if (cf !== undefined) {
+			this.route.delete(cf);
+		}
+
+		this.cancelRequest(item);
 		return true;
 	}
 
+	/**
+	 * Create a copy of the route without the floors which only have hall calls, i.e. what's left once we stop
+	 * picking people up. Floors with a car call keep their hall calls since we stop there anyway.
+	 */
+	copyWithoutHallCalls(): ElevatorRoute {
+		const copy = this.copy();
+		for (const floor of copy.getPushedButtons()) {
+			if (copy.getCalls(floor)!.car === 0) { //buttons are always on the route
+				copy.removeFloor(floor);
+			}
+		}
+		return copy;
+	}
+
+	/**
+	 * Remove a floor from the route regardless of how many times it was requested, like un-pushing 
+	 * a button. Dropoffs which were waiting on this floor are removed too since they can no longer
+	 * be reached.
+	 * 
+	 * @param floor The floor to remove.
+	 * @returns True if the floor was on the route, false otherwise.
+	 * @throws Never, even on bad input.
+	 */
+	removeFloor(floor: Floor): boolean {
+		const item = this.route.get(floor);
+		if (item === undefined) return false;
+		this.removeItem(item);
+		return true;
+	}
+
+	/**
+	 * Remove every floor from the route, like un-pushing every button, e.g. when the elevator is recalled on
+	 * fire service.
+	 * @returns The number of buttons which were pushed.
+	 */
+	clear(): number {
+		const floors = this.getPushedButtons();
+		for (const floor of floors) {
+			this.removeFloor(floor);
+		}
+		//Removing the floors removes the dropoffs linked to them, but make sure nothing is left behind
+		this.route.clear();
+		this.deleteOnVisit.clear();
+		return floors.length;
+	}
+
+	/**
+	 * Withdraw one request from a {@link RouteItem}, removing it if nobody needs it anymore.
+	 */
+	private cancelRequest(item: RouteItem, direction?: CallDirection): void {
+		const before = item.calls;
+		if (item.cancelRequest(direction) <= 0) {
+			this.removeItem(item, before);
+		} else {
+			this.emitButtons(item.floor, before, item.calls);
+		}
+	}
+
+	/**
+	 * Remove a {@link RouteItem} from the route along with all {@link ConditionalFloor}s linked to it.
+	 * @param before The calls of the item before whatever made us remove it, so we know which buttons go dark.
+	 */
+	private removeItem(item: RouteItem, before: FloorCalls = item.calls): void {
+		for (const cf of [...item.visitAfter, ...item.deleteOnVisit]) {
+			this.route.delete(cf);
+		}
+		this.route.delete(item.floor);
+		this.emitButtons(item.floor, before, undefined);
+	}
+
+	/**
+	 * Emit a {@link ButtonActiveEvent} for each button on a floor which lit up or went dark.
+	 * @param before The calls of the floor before the change, undefined if it wasn't on the route.
+	 * @param after The calls of the floor after the change, undefined if it's no longer on the route.
+	 */
+	private emitButtons(floor: Floor, before: FloorCalls | undefined, after: FloorCalls | undefined): void {
+		for (const button of ['car', CallDirection.UP, CallDirection.DOWN] as const) {
+			const wasActive = (before?.[button] ?? 0) > 0;
+			const isActive = (after?.[button] ?? 0) > 0;
+			if (wasActive !== isActive) {
+				this.emit('buttons', button === 'car'
+					? { floor, active: isActive }
+					: { floor, active: isActive, direction: button });
+			}
+		}
+	}
+
 
 
 
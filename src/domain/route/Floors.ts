@@ -19,7 +19,48 @@ export function isFloor(floor: unknown): floor is Floor {
 
 
 
-type FloorRange = Pick<AppOptions, 'MIN_FLOOR' | 'MAX_FLOOR'>;
+/**
+ * The direction of a hall call, i.e. which of the up/down buttons outside the elevator was pushed.
+ */
+export enum CallDirection {
+	UP = 'up',
+	DOWN = 'down',
+}
+
+/**
+ * Get the direction a passenger is going in.
+ * @param pickup The floor they're getting on at.
+ * @param dropoff Optional. The floor they're getting off at.
+ * @returns The direction, or undefined if we don't know the dropoff or it's the same floor.
+ */
+export function getCallDirection(pickup: Floor, dropoff?: Floor): CallDirection | undefined {
+	if (dropoff === undefined || dropoff === pickup) {
+		return undefined;
+	}
+	return dropoff > pickup ? CallDirection.UP : CallDirection.DOWN;
+}
+
+/**
+ * Get the other direction.
+ */
+export function oppositeDirection(direction: CallDirection): CallDirection {
+	return direction === CallDirection.UP ? CallDirection.DOWN : CallDirection.UP;
+}
+
+
+
+/**
+ * The floors an elevator can stop at: every floor from `MIN_FLOOR` to `MAX_FLOOR`, or only the ones in
+ * `SERVED_FLOORS` if it's given, e.g. for a car which skips floors or stops short of the penthouse.
+ */
+export type FloorRange = Pick<AppOptions, 'MIN_FLOOR' | 'MAX_FLOOR'> & { SERVED_FLOORS?: ReadonlyArray<Floor> };
+
+/**
+ * Check if a floor can be stopped at, see {@link FloorRange}.
+ */
+export function isFloorServed(floor: Floor, range: FloorRange): boolean {
+	return floor >= range.MIN_FLOOR && floor <= range.MAX_FLOOR && (range.SERVED_FLOORS?.includes(floor) ?? true);
+}
 
 
 
@@ -34,7 +75,7 @@ export function validateFloor(floor: unknown): void;
  * @param floor The unknown value to validate.
  * @param range - The {@link FloorRange} to validate against (inclusive).
  * @throws A TypeError if the value is not a floor number.
- * @throws A RangeError if the value is outside the given range.
+ * @throws A RangeError if the value is outside the given range or not one of its served floors.
  */
 export function validateFloor(floor: unknown, range: FloorRange, argName?: string): void;
 export function validateFloor(floor: unknown, range?: FloorRange, argName?: string): void {
@@ -45,6 +86,8 @@ export function validateFloor(floor: unknown, range?: FloorRange, argName?: stri
 			throw new RangeError(`Below the minimum floor ${range.MIN_FLOOR}`);
 		if (range?.MAX_FLOOR !== undefined && floor > range.MAX_FLOOR)
 			throw new RangeError(`Above the maximum floor ${range.MAX_FLOOR}`);
+		if (range?.SERVED_FLOORS !== undefined && !range.SERVED_FLOORS.includes(floor))
+			throw new RangeError(`Not served, only ${formatFloors(range.SERVED_FLOORS)} are`);
 	} catch (cause) {
 		throw new InvalidFloorError(floor, cause as Error, argName);
 	}
@@ -65,6 +108,33 @@ export function validateFloors(pickupFloor: unknown, dropoffFloor: unknown, rang
 	}
 }
 
+/**
+ * Validate the direction of a hall call, working it out from the floors if it wasn't given.
+ * @param direction The unknown value to validate, undefined if the caller didn't say.
+ * @param pickupFloor The validated pickup floor.
+ * @param dropoffFloor The validated dropoff floor, if any.
+ * @param range - The {@link FloorRange} of the building, since there's no up button on the top floor and vice versa.
+ * @returns The direction, or undefined if it can't be known (see {@link getCallDirection()}).
+ * @throws A {@link ValidationError} if it's not a {@link CallDirection}, there's no such button on the pickup floor
+ *  or the dropoff floor is the other way.
+ */
+export function validateCallDirection(direction: unknown, pickupFloor: Floor, dropoffFloor: Floor | undefined, range: FloorRange): CallDirection | undefined {
+	const expected = getCallDirection(pickupFloor, dropoffFloor);
+	if (direction === undefined) {
+		return expected;
+	}
+	if (direction !== CallDirection.UP && direction !== CallDirection.DOWN) {
+		throw new ValidationError(direction, `Invalid direction: ${direction}. Must be '${CallDirection.UP}' or '${CallDirection.DOWN}'`);
+	}
+	if ((direction === CallDirection.UP && pickupFloor === range.MAX_FLOOR) || (direction === CallDirection.DOWN && pickupFloor === range.MIN_FLOOR)) {
+		throw new ValidationError(direction, `There is no ${direction} button on floor ${pickupFloor}`);
+	}
+	if (expected !== undefined && direction !== expected) {
+		throw new ValidationError(direction, `Can't go ${direction} from ${pickupFloor} to ${dropoffFloor}`);
+	}
+	return direction;
+}
+
 
 /**
  * A Symbol-like wrapper for a {@link Floor} number which makes it unique, but allows for easy 
@@ -87,4 +157,65 @@ export class ConditionalFloor {
 	valueOf(): number {
 		return this.floor;
 	}
-}
\ No newline at end of file
+}
+
+
+/**
+ * Write floors as a short list, e.g. `0, 10..20`.
+ */
+export function formatFloors(floors: Iterable<Floor>): string {
+	const sorted = [...new Set(floors)].sort((a, b) => a - b);
+	const parts: string[] = [];
+	for (let i = 0; i < sorted.length; i++) {
+		const from = sorted[i];
+		while (sorted[i + 1] === sorted[i] + 1) {
+			i++;
+		}
+		parts.push(from === sorted[i] ? `${from}` : `${from}..${sorted[i]}`);
+	}
+	return parts.join(', ');
+}
+
+/**
+ * Parse a list of floors: floors and `from..to` ranges joined by `+`, e.g. `0+10..20`.
+ * @throws A {@link ValidationError} if it isn't a list of floors within the range.
+ */
+export function parseFloors(value: string, range: FloorRange): Floor[] {
+	const floors: Floor[] = [];
+	for (const part of value.split('+').map(part => part.trim())) {
+		const match = /^(-?\d+)(?:\.\.(-?\d+))?$/.exec(part);
+		if (match === null) {
+			throw new ValidationError(value, `Invalid floors '${value}', expected floors and ranges joined by +, e.g. 0+10..20`);
+		}
+		const from = Number(match[1]);
+		const to = match[2] !== undefined ? Number(match[2]) : from;
+		validateFloor(from, range);
+		validateFloor(to, range);
+		for (let floor = Math.min(from, to); floor <= Math.max(from, to); floor++) {
+			floors.push(floor);
+		}
+	}
+	return floors;
+}
+
+/**
+ * Parse options with floors per elevator, like {@link AppOptions.ELEVATOR_ZONES}: comma separated
+ * `<elevator number>:<floors>` pairs where elevators are numbered from 1 and floors are written as in
+ * {@link parseFloors()}, e.g. `1:0..10,2:0..10,3:11..20`.
+ * @param value - The option. Empty means no elevator has any.
+ * @param range - The floors of the building.
+ * @returns The floors by elevator number.
+ * @throws A {@link ValidationError} if a pair is malformed or has floors outside the building.
+ */
+export function parseElevatorFloors(value: string, range: FloorRange): Map<number, Floor[]> {
+	const floors = new Map<number, Floor[]>();
+	for (const pair of value.split(',').map(part => part.trim()).filter(part => part !== '')) {
+		const [number, list] = pair.split(':').map(part => part.trim());
+		const elevator = Number(number);
+		if (!Number.isInteger(elevator) || elevator < 1 || !list) {
+			throw new ValidationError(value, `Invalid elevator floors '${pair}', expected <elevator number>:<floors>`);
+		}
+		floors.set(elevator, parseFloors(list, range));
+	}
+	return floors;
+}
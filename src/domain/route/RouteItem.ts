@@ -1,4 +1,10 @@
-import { Floor, ConditionalFloor } from "./Floors";
+import { Floor, ConditionalFloor, CallDirection } from "./Floors";
+
+/**
+ * The number of requests for a floor, split by which button was pushed. `car` are all requests
+ * without a direction: buttons inside the car, dropoffs and pickups we don't know the direction of.
+ */
+export type FloorCalls = { car: number, [CallDirection.UP]: number, [CallDirection.DOWN]: number };
 
 /**
  * A requested visit on the route.
@@ -35,30 +41,44 @@ export class RouteItem {
 	}
 
 	/**
-	 * The number of times this floor has been requested. Only reason this exists is to
-	 * allow strategies to optionally use it to decide visit order.
+	 * The number of times this floor has been requested, split by direction. Strategies may use
+	 * it to decide visit order, and when it reaches zero nobody needs to stop here anymore.
 	 */
-	private _requestCount: number = 1;
+	private readonly _calls: FloorCalls = { car: 0, [CallDirection.UP]: 0, [CallDirection.DOWN]: 0 };
 
 	get requestCount(): number {
-		return this._requestCount;
+		return this._calls.car + this._calls[CallDirection.UP] + this._calls[CallDirection.DOWN];
+	}
+
+	get calls(): FloorCalls {
+		return { ...this._calls };
 	}
 
 	/** 
+	 * @param direction Optional. The direction of the hall call which created this item.
 	 * @param itemToCopy Optional. A route item to copy.
 	 */
-	constructor(floor: Floor);
+	constructor(floor: Floor, direction?: CallDirection);
 	constructor(itemToCopy: RouteItem);
-	constructor(floorOrItem: RouteItem | Floor) {
+	constructor(floorOrItem: RouteItem | Floor, direction?: CallDirection) {
 		if (typeof floorOrItem === 'number') {
 			this.floor = floorOrItem;
+			this._calls[direction ?? 'car'] = 1;
 		} else {
 			this.floor = floorOrItem.floor;
 			this._visitAfter = floorOrItem.visitAfter;
-			this._requestCount = floorOrItem.requestCount;
+			this._deleteOnVisit = floorOrItem.deleteOnVisit;
+			this._calls = floorOrItem.calls;
 		}
 	}
 
+	/**
+	 * Check if anybody has pushed the hall call button for a direction on this floor.
+	 */
+	hasHallCall(direction: CallDirection): boolean {
+		return this._calls[direction] > 0;
+	}
+
 	/**
 	 * Mark a floor to be visited after this floor is visited.
 	 * @param floor The other floor
@@ -80,17 +100,91 @@ export class RouteItem {
 		return cf;
 	}
 
+	/**
+	 * Take the floors to visit after this one for the passengers going in a direction, i.e. those
+	 * who board when the elevator stops here on its way in that direction. They are removed from this item.
+	 * @param direction The direction the elevator is leaving in.
+	 * @returns The {@link ConditionalFloor}s above this floor when going up or below it when going down.
+	 */
+	takeVisitAfter(direction: CallDirection): Array<ConditionalFloor> {
+		const taken: Array<ConditionalFloor> = [];
+		for (let i = this._visitAfter.length - 1; i >= 0; i--) {
+			const cf = this._visitAfter[i];
+			if (direction === CallDirection.UP ? cf.floor > this.floor : cf.floor < this.floor) {
+				taken.unshift(...this._visitAfter.splice(i, 1));
+			}
+		}
+		return taken;
+	}
+
+	/**
+	 * Take all the ConditionalFloors to delete when this floor is visited, see {@link addDeleteOnVisit()}.
+	 * They are removed from this item.
+	 */
+	takeDeleteOnVisit(): Array<ConditionalFloor> {
+		return this._deleteOnVisit.splice(0);
+	}
+
+	/**
+	 * Stop waiting to visit a floor after this one, i.e. undo {@link addVisitAfter()}. If the same floor
+	 * was added multiple times the most recently added one is removed.
+	 * @param floor The other floor
+	 * @returns The {@link ConditionalFloor} which needs to be removed from the queue, or undefined if
+	 *          we weren't going to visit that floor after this one.
+	 */
+	removeVisitAfter(floor: Floor): ConditionalFloor | undefined {
+		const i = this._visitAfter.map(Number).lastIndexOf(floor);
+		return i > -1 ? this._visitAfter.splice(i, 1)[0] : undefined;
+	}
+
+	/**
+	 * Stop tracking one of the ConditionalFloors to delete when this floor is visited, i.e. undo 
+	 * {@link addDeleteOnVisit()}. They all represent this floor so it doesn't matter which one.
+	 * @returns The {@link ConditionalFloor} which needs to be removed from the queue, or undefined if
+	 *          there were none.
+	 */
+	removeDeleteOnVisit(): ConditionalFloor | undefined {
+		return this._deleteOnVisit.pop();
+	}
+
 	/**
 	 * Request this floor again (increases counter and can be used by strategies to decide when to visit the floor)
+	 * @param direction Optional. The direction of the hall call, if that's what was pushed.
 	 * @returns The new request count.
 	 */
-	requestAgain(): number {
-		return this._requestCount++;
+	requestAgain(direction?: CallDirection): number {
+		this._calls[direction ?? 'car']++;
+		return this.requestCount;
+	}
+
+	/**
+	 * Withdraw one request of this floor, i.e. undo {@link requestAgain()} or the request implied by creating it.
+	 * @param direction Optional. The direction of the hall call, if that's what was requested.
+	 * @returns The new request count. When it reaches 0 nobody needs to stop here anymore.
+	 */
+	cancelRequest(direction?: CallDirection): number {
+		const key = direction ?? 'car';
+		if (this._calls[key] > 0) {
+			this._calls[key]--;
+		}
+		return this.requestCount;
+	}
+
+	/**
+	 * Answer the requests of everybody who gets on or off when the elevator stops here on its way in
+	 * a direction: all car calls and the hall calls in that direction.
+	 * @param direction The direction the elevator is leaving in.
+	 * @returns The new request count, which is the number of hall calls left in the other direction.
+	 */
+	answerCalls(direction: CallDirection): number {
+		this._calls.car = 0;
+		this._calls[direction] = 0;
+		return this.requestCount;
 	}
 
 	/**
 	 * Create a copy of this route item which is not linked to the original.
-	 * @returns A new route item with the same addOnVisit and requestCount.
+	 * @returns A new route item with the same visitAfter, deleteOnVisit and calls.
 	 */
 	copy(): RouteItem {
 		return new RouteItem(this);
@@ -1,4 +1,5 @@
-import { ElevatorRoute } from '../ElevatorRoute';
+import { ElevatorRoute, ButtonActiveEvent, FloorVisitEvent } from '../ElevatorRoute';
+import { CallDirection } from '../Floors';
 
 describe('ElevatorRoute', () => {
 	describe('Basic CRUD operations', () => {
@@ -124,5 +125,237 @@ describe('ElevatorRoute', () => {
 			});
 		});
 	});
-});
 
+	describe('Cancellation', () => {
+		describe('this.cancelRide', () => {
+			it('should only remove the pickup floor once nobody else requested it', () => {
+				const route = new ElevatorRoute();
+				const buttons: Array<[number, boolean]> = [];
+				route.on('buttons', ({ floor, active }) => buttons.push([floor, active]));
+				route.addRide(3);
+				route.addRide(3);
+				expect(route.cancelRide(3)).toBe(true);
+				expect(route.shouldVisit(3)).toBe(true);
+				expect(route.cancelRide(3)).toBe(true);
+				expect(route.shouldVisit(3)).toBe(false);
+				expect(route.length()).toBe(0);
+				expect(buttons).toEqual([[3, true], [3, false]]);
+			});
+
+			it('should remove the dropoff waiting on the pickup', () => {
+				const route = new ElevatorRoute();
+				route.addRide(3, 7);
+				route.addRide(3, 9);
+				expect(route.toArray()).toEqual([3, 7, 9]);
+				expect(route.cancelRide(3, 7)).toBe(true);
+				expect(route.toArray()).toEqual([3, 9]);
+				route.visitNow(3);
+				expect(route.toArray()).toEqual([9, 9]); //the ConditionalFloor and the RouteItem it was upgraded to
+				expect(route.shouldVisit(7)).toBe(false);
+			});
+
+			it('should return false for rides which are not on the route', () => {
+				const route = new ElevatorRoute();
+				route.addRide(3, 7);
+				expect(route.cancelRide(4)).toBe(false);
+				expect(route.cancelRide(3, 8)).toBe(false);
+				expect(route.toArray()).toEqual([3, 7]);
+			});
+		});
+
+		describe('this.cancelDropoff', () => {
+			it('should remove the dropoff and the ConditionalFloor keeping its place in line', () => {
+				const route = new ElevatorRoute();
+				route.addRide(3, 7);
+				route.addRide(10);
+				route.visitNow(3);
+				expect(route.toArray()).toEqual([7, 10, 7]);
+				expect(route.cancelDropoff(7)).toBe(true);
+				expect(route.toArray()).toEqual([10]);
+			});
+
+			it('should keep the floor if someone else still needs it', () => {
+				const route = new ElevatorRoute();
+				route.addRide(3, 7);
+				route.addRide(7);
+				route.visitNow(3);
+				expect(route.cancelDropoff(7)).toBe(true);
+				expect(route.toArray()).toEqual([7]);
+				expect(route.shouldVisit(7)).toBe(true);
+			});
+		});
+
+		describe('this.removeFloor', () => {
+			it('should remove the floor no matter how many times it was requested, along with dropoffs waiting on it', () => {
+				const route = new ElevatorRoute();
+				const buttons: Array<[number, boolean]> = [];
+				route.addRide(3, 7);
+				route.addRide(3);
+				route.addRide(5);
+				route.on('buttons', ({ floor, active }) => buttons.push([floor, active]));
+				expect(route.removeFloor(3)).toBe(true);
+				expect(route.toArray()).toEqual([5]);
+				expect(buttons).toEqual([[3, false]]);
+				expect(route.removeFloor(3)).toBe(false);
+			});
+
+			it('should remove the ConditionalFloors which kept dropoffs in line', () => {
+				const route = new ElevatorRoute();
+				route.addRide(3, 7);
+				route.visitNow(3);
+				expect(route.removeFloor(7)).toBe(true);
+				expect(route.length()).toBe(0);
+			});
+		});
+
+		describe('this.clear', () => {
+			it('should remove every floor and turn off every button', () => {
+				const route = new ElevatorRoute();
+				const buttons: Array<[number, boolean]> = [];
+				route.addRide(3, 7);
+				route.addRide(9, 1);
+				route.visitNow(3);
+				route.on('buttons', ({ floor, active }) => buttons.push([floor, active]));
+				expect(route.clear()).toBe(2);
+				expect(route.length()).toBe(0);
+				expect(buttons).toEqual([[9, false], [7, false]]);
+			});
+		});
+
+		it('should not affect copies', () => {
+			const route = new ElevatorRoute();
+			route.addRide(3, 7);
+			route.visitNow(3);
+			const copy = route.copy();
+			copy.cancelDropoff(7);
+			expect(copy.length()).toBe(0);
+			expect(route.toArray()).toEqual([7, 7]);
+		});
+
+		it('should let copies delete the ConditionalFloors of dropoffs when visiting them', () => {
+			const route = new ElevatorRoute();
+			route.addRide(3, 7);
+			route.visitNow(3);
+			const copy = route.copy();
+			copy.visitNow(7);
+			expect(copy.length()).toBe(0);
+		});
+	});
+
+	describe('Hall calls', () => {
+		const { UP, DOWN } = CallDirection;
+
+		it('should light one button per direction and the car button separately', () => {
+			const route = new ElevatorRoute();
+			const buttons: ButtonActiveEvent[] = [];
+			route.on('buttons', (event) => buttons.push(event));
+			route.addRide(5, undefined, UP);
+			route.addRide(5, undefined, UP);
+			route.addRide(5, undefined, DOWN);
+			route.addRide(5);
+			expect(route.getCalls(5)).toEqual({ car: 1, [UP]: 2, [DOWN]: 1 });
+			expect(buttons).toEqual([
+				{ floor: 5, active: true, direction: UP },
+				{ floor: 5, active: true, direction: DOWN },
+				{ floor: 5, active: true },
+			]);
+		});
+
+		it('should leave passengers going the other way behind', () => {
+			const route = new ElevatorRoute();
+			route.addRide(5, 9, UP);
+			route.addRide(5, 1, DOWN);
+			route.addRide(5); //someone in the car getting off here
+			const buttons: ButtonActiveEvent[] = [];
+			route.on('buttons', (event) => buttons.push(event));
+
+			expect(route.visitNow(5, UP)).toBe(true);
+			expect(route.shouldVisit(5)).toBe(true);
+			expect(route.getCalls(5)).toEqual({ car: 0, [UP]: 0, [DOWN]: 1 });
+			expect(route.shouldVisit(9)).toBe(true); //the passenger going up pushed their button...
+			expect(route.shouldVisit(1)).toBe(false); //...but the one going down is still waiting
+			expect(buttons).toEqual([
+				{ floor: 9, active: true },
+				{ floor: 5, active: false },
+				{ floor: 5, active: false, direction: UP },
+			]);
+
+			//Coming back down we pick them up
+			route.visitNow(5, DOWN);
+			expect(route.shouldVisit(5)).toBe(false);
+			expect(route.shouldVisit(1)).toBe(true);
+		});
+
+		it('should answer all calls without a direction, or when nobody is going the other way', () => {
+			const route = new ElevatorRoute();
+			route.addRide(5, 9, UP);
+			route.addRide(5, 1, DOWN);
+			route.visitNow(5);
+			expect(route.getPushedButtons()).toEqual([9, 1]);
+
+			route.addRide(3, undefined, DOWN);
+			route.addRide(3);
+			route.visitNow(3, DOWN);
+			expect(route.shouldVisit(3)).toBe(false);
+		});
+
+		it('should only cancel the call in the direction of the ride', () => {
+			const route = new ElevatorRoute();
+			const buttons: ButtonActiveEvent[] = [];
+			route.addRide(5, undefined, UP);
+			route.addRide(5, 2, DOWN);
+			route.on('buttons', (event) => buttons.push(event));
+			expect(route.cancelRide(5, 2, DOWN)).toBe(true);
+			expect(route.getCalls(5)).toEqual({ car: 0, [UP]: 1, [DOWN]: 0 });
+			expect(buttons).toEqual([{ floor: 5, active: false, direction: DOWN }]);
+
+			expect(route.cancelRide(5, undefined, UP)).toBe(true);
+			expect(route.length()).toBe(0);
+			expect(buttons.at(-1)).toEqual({ floor: 5, active: false, direction: UP });
+		});
+
+		it('should keep the calls in copies', () => {
+			const route = new ElevatorRoute();
+			route.addRide(5, undefined, DOWN);
+			const copy = route.copy();
+			copy.visitNow(5, DOWN);
+			expect(route.getCalls(5)).toEqual({ car: 0, [UP]: 0, [DOWN]: 1 });
+		});
+	});
+
+	describe('Passengers', () => {
+		const { UP, DOWN } = CallDirection;
+
+		it('should count the passengers with a dropoff getting on and off at each visit', () => {
+			const route = new ElevatorRoute();
+			const visits: FloorVisitEvent[] = [];
+			route.on('visit', (event) => visits.push(event));
+			route.addRide(2, 6, UP);
+			route.addRide(2, 8, UP);
+			route.addRide(2, 0, DOWN);
+			route.addRide(4); //nobody knows when this one gets off
+			route.visitNow(2, UP);
+			route.visitNow(4, UP);
+			route.visitNow(6, UP);
+			expect(visits).toEqual([
+				{ floor: 2, boarded: 2, alighted: 0, direction: UP },
+				{ floor: 4, boarded: 0, alighted: 0, direction: UP },
+				{ floor: 6, boarded: 0, alighted: 1, direction: UP },
+			]);
+		});
+
+		it('should copy the route without the floors where people are only waiting to get on', () => {
+			const route = new ElevatorRoute();
+			route.addRide(2, 6, UP);
+			route.addRide(3, undefined, DOWN);
+			route.addRide(4);
+			route.addRide(4, undefined, UP);
+			route.visitNow(2, UP);
+
+			const copy = route.copyWithoutHallCalls();
+			expect(copy.getPushedButtons()).toEqual([4, 6]);
+			expect(copy.getCalls(4)).toEqual({ car: 1, [UP]: 1, [DOWN]: 0 });
+			expect(route.getPushedButtons()).toEqual([3, 4, 6]);
+		});
+	});
+});
@@ -0,0 +1,40 @@
+import { formatFloors, isFloorServed, parseElevatorFloors, parseFloors, validateFloors } from '../Floors';
+import { InvalidFloorError, ValidationError } from '../../errors/ValidationErrors';
+
+const building = { MIN_FLOOR: -2, MAX_FLOOR: 20 };
+
+describe('Floors', () => {
+	describe('Served floors', () => {
+		const garage = { ...building, SERVED_FLOORS: [-2, -1, 0] };
+
+		it('should only accept the served floors of a range', () => {
+			expect(isFloorServed(-1, garage)).toBe(true);
+			expect(isFloorServed(5, garage)).toBe(false);
+			expect(isFloorServed(5, building)).toBe(true);
+			expect(isFloorServed(21, building)).toBe(false);
+		});
+
+		it('should say which floors are served when validating', () => {
+			expect(() => validateFloors(-2, 0, garage)).not.toThrow();
+			expect(() => validateFloors(0, 5, garage)).toThrow(InvalidFloorError);
+			expect(() => validateFloors(0, 5, garage)).toThrow('Invalid dropoffFloor: 5. Not served, only -2..0 are');
+		});
+	});
+
+	describe('Parsing', () => {
+		it('should parse floors and ranges', () => {
+			expect(parseFloors('0+10..12', building)).toEqual([0, 10, 11, 12]);
+			expect(parseFloors('-2..-1 + 3', building)).toEqual([-2, -1, 3]);
+			expect(parseElevatorFloors('1:0..2, 3:15..13', building)).toEqual(new Map([[1, [0, 1, 2]], [3, [13, 14, 15]]]));
+			expect(parseElevatorFloors('', building)).toEqual(new Map());
+			expect(formatFloors([12, 0, 10, 11, -1])).toBe('-1..0, 10..12');
+		});
+
+		it('should reject malformed lists and floors outside the building', () => {
+			expect(() => parseFloors('low', building)).toThrow(ValidationError);
+			expect(() => parseFloors('10..25', building)).toThrow(ValidationError);
+			expect(() => parseElevatorFloors('0..10', building)).toThrow(ValidationError);
+			expect(() => parseElevatorFloors('1:', building)).toThrow(ValidationError);
+		});
+	});
+});
@@ -1,12 +1,21 @@
 import { TypedEventEmitter } from "../../infra/events/TypedEventEmitter";
 import type { Logger } from "../../infra/logger/Logger";
+import type { Clock, TimerId } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
 import { type AppOptions } from "../../options";
 import { BUGBUG } from "../../shared/errors/Bug";
 import { Elevator, type ElevatorId } from "../elevator/Elevator";
-import { ElevatorStateChangeEvent, ElevatorStates } from "../elevator/types";
-import { DomainError, ElevatorNotFoundError } from "../errors/DomainErrors";
-import { validateFloors, type Floor } from "../route/Floors";
-import { ElevatorServiceEventMap } from "./types";
+import { DoorButton, ElevatorStateChangeEvent, ElevatorStateType, FaultReason } from "../elevator/types";
+import { DomainError, ElevatorNotFoundError, RideVetoedError, UnreachableRideError } from "../errors/DomainErrors";
+import { StateError } from "../errors/StateErrors";
+import { ValidationError } from "../errors/ValidationErrors";
+import { formatFloors, getCallDirection, validateCallDirection, validateFloor, validateFloors, type CallDirection, type Floor } from "../route/Floors";
+import type { ButtonActiveEvent, ElevatorRoute } from "../route/ElevatorRoute";
+import type { StrategyFactory } from "../strategies/Strategy";
+import { Zoned } from "../strategies/Zoned";
+import { RideTracker } from "../rides/RideTracker";
+import { RideStatus, type Ride, type RideId } from "../rides/types";
+import { ElevatorServiceEventMap, ElevatorStateWithLoad, FireServiceStatus, MaintenanceStatus, RideHandoff, RideReassignment, UnreachableFloors } from "./types";
 
 /**
  * This domain service is responsible for coordinating multiple elevators.
@@ -14,14 +23,43 @@ import { ElevatorServiceEventMap } from "./types";
  * It's responsible for:
  * - Deciding which elevator to use for a ride
  * - Relaying the ride to the chosen elevator
+ * - Following each ride until it's been dropped off (see {@link RideTracker})
  */
 export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap> {
 	private readonly elevators: Map<ElevatorId, Elevator> = new Map();
+	private readonly rides: RideTracker;
 
+	/** The periodic re-optimisation, see {@link AppOptions.REOPTIMIZE_INTERVAL} */
+	private reoptimizeInterval: TimerId | undefined;
+
+	/** The re-optimisation pass currently running, if any */
+	private reoptimizing: Promise<RideReassignment[]> | undefined;
+
+	/** Elevators which have been taken out of service, see {@link startMaintenance()} */
+	private readonly maintenance = new Map<ElevatorId, { parkAt?: Floor, parked: boolean }>();
+
+	/** Set while a fire alarm is active, see {@link startFireRecall()} */
+	private fireRecall: { alarmFloors: Floor[] } | undefined;
+
+	/** The rides being handed off by each elevator which has been stopped, see {@link emergencyStop()} */
+	private readonly stopHandoffs = new Map<ElevatorId, Promise<RideHandoff[]>>();
+
+	/**
+	 * @param options - The application options.
+	 * @param logger - Optional. The logger for the service.
+	 * @param clock - Optional. Where the time comes from, should be the same one the elevators use.
+	 */
 	constructor(
 		public readonly options: AppOptions
-		, public readonly logger?: Logger) {
+		, public readonly logger?: Logger
+		, private readonly clock: Clock = new RealClock()) {
 		super(logger);
+
+		//Re-emit ride changes with the elevator id on top so they can be filtered like all our other events
+		this.rides = new RideTracker(options, undefined, clock);
+		this.rides.listen('ride', (event) => {
+			this.emit('ride', { ...event, elevator: event.ride.elevator });
+		});
 	}
 
 	/**
@@ -33,6 +71,9 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 			this.logger?.debug(`Starting elevator ${elevator.id}...`);
 			elevator.start(true);
 		}
+		if (this.options.REOPTIMIZE_INTERVAL > 0 && this.reoptimizeInterval === undefined) {
+			this.reoptimizeInterval = this.clock.setInterval(() => this.reoptimizeInBackground(), this.options.REOPTIMIZE_INTERVAL);
+		}
 		this.logger?.debug('Elevator service started successfully');
 	}
 
@@ -41,6 +82,8 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 	 */
 	shutdown(): void {
 		this.logger?.debug('Shutting down elevator service...');
+		this.clock.clearInterval(this.reoptimizeInterval);
+		this.reoptimizeInterval = undefined;
 		for (const elevator of this.elevators.values()) {
 			this.logger?.debug(`Shutting down elevator ${elevator.id}...`);
 			elevator.shutdown();
@@ -97,7 +140,54 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 		elevator.io.listen('change', (event: ElevatorStateChangeEvent) => {
 			this.emit(elevator.id, event)
 			this.emit('state', { ...event, elevator: elevator.id });
+
+			//Opening the doors is what picks up and drops off passengers
+			if (event.to.type === ElevatorStateType.DOORS_OPEN) {
+				this.rides.registerDoorsOpen(elevator.id, event.to.atFloor, event.to.direction);
+			}
+
+			//A stopped elevator won't get to anyone until it's reset...
+			if (event.to.type === ElevatorStateType.STOPPED) {
+				this.handleStop(elevator, event.to.reason);
+				return;
+			}
+			if (event.from.type === ElevatorStateType.STOPPED) {
+				this.stopHandoffs.delete(elevator.id);
+				this.logger?.info(`Elevator ${elevator.id} has been reset`);
+				this.emit('availability', { type: 'reset', elevator: elevator.id });
+			}
+
+			//...one on fire service does its own thing...
+			if (elevator.getFireService()) {
+				if (event.to.type === ElevatorStateType.DOORS_HELD_OPEN && elevator.isRecalled()) {
+					this.emit('fire', { type: 'recalled', elevator: elevator.id, atFloor: event.to.atFloor });
+				}
+				return;
+			}
+
+			//...one taken out of service parks once it's done...
+			if (this.maintenance.has(elevator.id)) {
+				if (event.to.type === ElevatorStateType.IDLE) {
+					this.parkWhenDrained(elevator, false);
+				}
+				return;
+			}
+
+			//...and one in service with nothing to do might be able to take over rides from the busy ones
+			if (this.options.REOPTIMIZE_WHEN_FREE && event.to.type === ElevatorStateType.IDLE && elevator.isFree()) {
+				this.reoptimizeInBackground();
+			}
+		});
+
+		//Same thing for the buttons which light up and go dark as floors are added to and visited on the route
+		elevator.route.listen('buttons', (event: ButtonActiveEvent) => {
+			this.emit('buttons', { ...event, elevator: elevator.id });
 		});
+
+		//An elevator added during a fire alarm joins the others at the recall floor
+		if (this.fireRecall) {
+			elevator.recall(this.getRecallFloor(elevator, this.fireRecall.alarmFloors));
+		}
 	}
 
 	removeElevator(x: Elevator | ElevatorId): void {
@@ -108,8 +198,19 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 			const elevator = this.elevators.get(id)!;
 			elevator.shutdown(); //this will stop the service receiving any more state changes
 			this.elevators.delete(id); //remove from service
+			this.maintenance.delete(id);
+			this.stopHandoffs.delete(id);
 			this.removeAllListeners(id); //remove downstream listeners
 			this.emit('availability', { type: 'removed', elevator: elevator.id });
+
+			//The rides it was serving will never complete
+			const active = this.rides.getActiveRides(id);
+			for (const ride of active) {
+				this.rides.cancel(ride.id);
+			}
+			if (active.length > 0) {
+				this.logger?.warn(`Cancelled ${active.length} ride(s) of elevator ${id} by removing it, take it out of service first to finish or hand them off`);
+			}
 		}
 	}
 
@@ -135,21 +236,22 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 	/**
 	 * Get the current state of an elevator.
 	 * @param id - The id of the elevator to get the state of.
-	 * @returns The current state of the elevator.
+	 * @returns The current state of the elevator and what it's carrying.
 	 * @throws A {@link DomainError} if the elevator does not exist.
 	 */
-	getElevatorState(id: ElevatorId): ElevatorStates {
-		return this.getElevator(id).io.getState();
+	getElevatorState(id: ElevatorId): ElevatorStateWithLoad {
+		const elevator = this.getElevator(id);
+		return { ...elevator.io.getState(), load: elevator.getLoad() };
 	}
 
 	/**
 	 * Get the current state of all elevators in the service.
-	 * @returns An object with the elevator id as the key and the state as the value.
+	 * @returns An object with the elevator id as the key and the state and load as the value.
 	 */
-	getAllElevatorStates(): Record<ElevatorId, ElevatorStates> {
-		const states: Record<ElevatorId, ElevatorStates> = {};
+	getAllElevatorStates(): Record<ElevatorId, ElevatorStateWithLoad> {
+		const states: Record<ElevatorId, ElevatorStateWithLoad> = {};
 		for (const elevator of this.elevators.values()) {
-			states[elevator.id] = elevator.io.getState();
+			states[elevator.id] = { ...elevator.io.getState(), load: elevator.getLoad() };
 		}
 		return states;
 	}
@@ -177,31 +279,542 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 	}
 
 	/**
-	 * Add a ride to one of the elevators co-ordinated by this service.
+	 * Get the floors an elevator can stop at, see {@link Elevator.getServedFloors()}.
+	 * @param id - The id of the elevator.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 */
+	getServedFloors(id: ElevatorId): Floor[] {
+		return this.getElevator(id).getServedFloors();
+	}
+
+	/**
+	 * Find the floors which can't be reached with one ride since no elevator stops at both, e.g. a garage
+	 * car and a penthouse car without any car stopping at both. Such rides are rejected by {@link addRide()}.
+	 * @returns Nothing but empty lists if every elevator serves every floor.
+	 */
+	getUnreachableFloors(): UnreachableFloors {
+		const served = [...this.elevators.values()].map(elevator => new Set(elevator.getServedFloors()));
+		const floors: Floor[] = [];
+		for (let floor = this.options.MIN_FLOOR; floor <= this.options.MAX_FLOOR; floor++) {
+			floors.push(floor);
+		}
+		const unreachable: UnreachableFloors = {
+			unserved: floors.filter(floor => !served.some(set => set.has(floor))),
+			rides: [],
+		};
+		for (const from of floors) {
+			if (unreachable.unserved.includes(from)) {
+				continue;
+			}
+			const to = floors.filter(floor => floor !== from && !unreachable.unserved.includes(floor)
+				&& !served.some(set => set.has(from) && set.has(floor)));
+			if (to.length > 0) {
+				unreachable.rides.push({ from, to });
+			}
+		}
+		return unreachable;
+	}
+
+	/**
+	 * Get the name of the travel strategy an elevator uses, see {@link Strategy.name}.
+	 * @param id - The id of the elevator.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 */
+	getStrategy(id: ElevatorId): string {
+		return this.getElevator(id).getTravelStrategy().name;
+	}
+
+	/**
+	 * Swap the travel strategy of a running elevator. Its route is kept, so rides it has accepted are
+	 * still served, only the order of the stops may change. An elevator limited to a zone stays in it,
+	 * see {@link Zoned.withStrategy()}.
+	 * @param id - The id of the elevator.
+	 * @param createStrategy - Creates the new strategy, which gets the elevator's logger.
+	 * @returns The name of the new strategy, see {@link getStrategy()}.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 */
+	changeStrategy(id: ElevatorId, createStrategy: StrategyFactory): string {
+		const elevator = this.getElevator(id);
+		const strategy = createStrategy(this.options, elevator.logger);
+		const current = elevator.getTravelStrategy();
+		elevator.changeTravelStrategy(current instanceof Zoned ? current.withStrategy(strategy) : strategy);
+		return this.getStrategy(id);
+	}
+
+	/**
+	 * Take an elevator out of service, e.g. for maintenance. It's no longer given new rides, and the rides
+	 * waiting for it are handed off to other elevators where one can take them. Passengers already on board
+	 * and rides nobody else can take (e.g. reserved ones, see {@link AppOptions.DISPATCH_MODE}) are still
+	 * finished. After that it parks and stays there until {@link endMaintenance()}.
+	 *
+	 * Emits a `draining` availability event now and an `outOfService` one once it has parked.
+	 * @param id - The id of the elevator.
+	 * @param parkAt - Optional. The floor to park at, by default wherever it finishes.
+	 * @returns Promise containing the rides which were handed off.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link ValidationError} if the elevator can't stop at the floor to park at.
+	 * @throws A {@link StateError} if the elevator is already out of service.
+	 */
+	async startMaintenance(id: ElevatorId, parkAt?: Floor): Promise<RideHandoff[]> {
+		const elevator = this.getElevator(id);
+		if (parkAt !== undefined) {
+			validateFloor(parkAt, this.options, 'parkAt');
+			if (!elevator.canServe(parkAt)) {
+				throw new ValidationError(parkAt, `Elevator ${id} can't park at ${parkAt}, it serves ${formatFloors(elevator.getServedFloors())}`);
+			}
+		}
+		if (this.maintenance.has(id)) {
+			throw new StateError(`Elevator ${id} is already out of service`, { elevator: id, ...this.getMaintenance(id) });
+		}
+		this.maintenance.set(id, { ...(parkAt !== undefined && { parkAt }), parked: false });
+		this.logger?.info(`Taking elevator ${id} out of service${parkAt !== undefined ? `, parking at ${parkAt}` : ''}`);
+		this.emit('availability', { type: 'draining', elevator: id, ...(parkAt !== undefined && { parkAt }) });
+
+		const waiting = this.getWaitingRides(id).filter(ride => !ride.reserved);
+		const handoffs = await this.handOffRides(elevator, waiting, () => this.maintenance.has(id));
+		this.parkWhenDrained(elevator, true);
+		return handoffs;
+	}
+
+	/**
+	 * Put an elevator which was taken out of service with {@link startMaintenance()} back into service.
+	 * Emits an `inService` availability event.
+	 * @param id - The id of the elevator.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link StateError} if the elevator is in service.
+	 */
+	endMaintenance(id: ElevatorId): void {
+		this.getElevator(id);
+		if (!this.maintenance.delete(id)) {
+			throw new StateError(`Elevator ${id} is already in service`, { elevator: id });
+		}
+		this.logger?.info(`Putting elevator ${id} back into service`);
+		this.emit('availability', { type: 'inService', elevator: id });
+	}
+
+	/**
+	 * Get whether an elevator takes rides, see {@link startMaintenance()}.
+	 * @param id - The id of the elevator.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 */
+	getMaintenance(id: ElevatorId): MaintenanceStatus {
+		this.getElevator(id);
+		const maintenance = this.maintenance.get(id);
+		if (maintenance === undefined) {
+			return { status: 'inService' };
+		}
+		return {
+			status: maintenance.parked ? 'outOfService' : 'draining',
+			...(maintenance.parkAt !== undefined && { parkAt: maintenance.parkAt }),
+		};
+	}
+
+	/**
+	 * Recall every elevator on a fire alarm (Phase I). The rides they were serving are cancelled and they go
+	 * non-stop to {@link AppOptions.FIRE_RECALL_FLOOR}, or {@link AppOptions.FIRE_ALTERNATE_FLOOR} if that's
+	 * where the alarm is, where they open their doors and stay until {@link endFireRecall()}. Elevators which
+	 * don't stop at either go to the closest floor without an alarm. No rides are taken in the meantime.
+	 *
+	 * Calling this again for another alarm adds its floors, which may send the elevators elsewhere. Elevators
+	 * under firefighter operation stay with the firefighter.
+	 *
+	 * Emits a `recall` fire event now and a `recalled` one as each elevator arrives.
+	 * @param alarmFloors - Optional. The floors where the alarm went off.
+	 * @returns The floor each elevator is recalled to.
+	 * @throws A {@link ValidationError} if an alarm floor is invalid.
+	 */
+	startFireRecall(alarmFloors: Floor[] = []): Record<ElevatorId, Floor> {
+		for (const floor of alarmFloors) {
+			validateFloor(floor, this.options, 'alarmFloors');
+		}
+		const alarms = [...new Set([...(this.fireRecall?.alarmFloors ?? []), ...alarmFloors])];
+		this.fireRecall = { alarmFloors: alarms };
+
+		const floors: Record<ElevatorId, Floor> = {};
+		let cancelled = 0;
+		for (const elevator of this.elevators.values()) {
+			//Passengers are let out at the recall floor, so nothing we were asked to do will happen
+			for (const ride of this.rides.getActiveRides(elevator.id)) {
+				this.rides.cancel(ride.id);
+				cancelled++;
+			}
+			const maintenance = this.maintenance.get(elevator.id);
+			if (maintenance) {
+				maintenance.parked = false; //it has to park again afterwards
+			}
+			if (elevator.getFireService()?.phase === 'firefighter') {
+				continue;
+			}
+			floors[elevator.id] = this.getRecallFloor(elevator, alarms);
+			elevator.recall(floors[elevator.id]);
+		}
+		this.logger?.warn(`Fire recall with alarms at ${alarms.length > 0 ? alarms.join(', ') : 'unknown floors'}, cancelled ${cancelled} ride(s)`);
+		this.emit('fire', { type: 'recall', alarmFloors: alarms, floors });
+		return floors;
+	}
+
+	/**
+	 * Reset the fire alarm, i.e. take every elevator off fire service so they serve rides again. Emits a
+	 * `reset` fire event.
+	 * @throws A {@link StateError} if there is no fire alarm or a firefighter still has an elevator.
+	 */
+	endFireRecall(): void {
+		if (!this.fireRecall) {
+			throw new StateError('There is no fire recall to end', {});
+		}
+		const firefighters = [...this.elevators.values()].filter(elevator => elevator.getFireService()?.phase === 'firefighter');
+		if (firefighters.length > 0) {
+			throw new StateError(
+				`Firefighters have to hand back ${firefighters.map(elevator => elevator.id).join(', ')} first`
+				, { elevators: firefighters.map(elevator => elevator.id) });
+		}
+		this.fireRecall = undefined;
+		for (const elevator of this.elevators.values()) {
+			elevator.cancelFireService();
+		}
+		this.logger?.info('Fire recall ended, serving rides again');
+		this.emit('fire', { type: 'reset' });
+	}
+
+	/**
+	 * Get whether there is a fire alarm and what each elevator is doing about it.
+	 */
+	getFireService(): FireServiceStatus {
+		const elevators: FireServiceStatus['elevators'] = {};
+		for (const elevator of this.elevators.values()) {
+			const fireService = elevator.getFireService();
+			if (fireService) {
+				elevators[elevator.id] = { ...fireService, recalled: elevator.isRecalled() };
+			}
+		}
+		return { active: this.fireRecall !== undefined, alarmFloors: [...(this.fireRecall?.alarmFloors ?? [])], elevators };
+	}
+
+	/**
+	 * Hand an elevator which has been recalled over to a firefighter (Phase II), see {@link Elevator.startFirefighterOperation()}.
+	 * Emits a `firefighterStarted` fire event.
+	 * @param id - The id of the elevator.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link StateError} if there is no fire alarm or the elevator hasn't arrived at its recall floor.
+	 */
+	startFirefighterOperation(id: ElevatorId): void {
+		const elevator = this.getElevator(id);
+		if (!this.fireRecall) {
+			throw new StateError(`Elevator ${id} can only be taken over by firefighters during a fire recall`, { elevator: id });
+		}
+		elevator.startFirefighterOperation();
+		this.emit('fire', { type: 'firefighterStarted', elevator: id });
+	}
+
+	/**
+	 * Take an elevator back from the firefighter, which sends it back to its recall floor. Emits a
+	 * `firefighterEnded` fire event.
+	 * @param id - The id of the elevator.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation.
+	 */
+	endFirefighterOperation(id: ElevatorId): void {
+		this.getElevator(id).endFirefighterOperation();
+		this.emit('fire', { type: 'firefighterEnded', elevator: id });
+	}
+
+	/**
+	 * Send an elevator under firefighter operation to a floor, see {@link Elevator.sendFirefighterTo()}.
+	 * @param id - The id of the elevator.
+	 * @param floor - The floor to go to.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link ValidationError} if the elevator can't stop at the floor.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation.
+	 */
+	sendFirefighterTo(id: ElevatorId, floor: Floor): void {
+		this.getElevator(id).sendFirefighterTo(floor);
+	}
+
+	/**
+	 * Push and hold a door button of an elevator under firefighter operation, see {@link Elevator.pressDoorButton()}.
+	 * @param id - The id of the elevator.
+	 * @param button - The button to hold.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation or is moving.
+	 */
+	pressDoorButton(id: ElevatorId, button: DoorButton): void {
+		this.getElevator(id).pressDoorButton(button);
+	}
+
+	/**
+	 * Let go of the door button held in an elevator under firefighter operation, see {@link Elevator.releaseDoorButton()}.
+	 * @param id - The id of the elevator.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link StateError} if the elevator isn't under firefighter operation.
+	 */
+	releaseDoorButton(id: ElevatorId): void {
+		this.getElevator(id).releaseDoorButton();
+	}
+
+	/**
+	 * Stop an elevator where it is, e.g. since something is wrong with it, see {@link Elevator.emergencyStop()}. It
+	 * takes no new rides and the rides waiting for it, reserved or not, are handed off to other elevators where one
+	 * can take them. Passengers in the car and rides no other elevator can take stay with it until it's reset.
+	 *
+	 * Elevators stopped by the {@link Watchdog} are handled the same way. Either way a `stopped` availability event
+	 * is emitted.
+	 * @param id - The id of the elevator.
+	 * @returns Promise containing the rides which were handed off.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link StateError} if the elevator is already stopped.
+	 */
+	async emergencyStop(id: ElevatorId): Promise<RideHandoff[]> {
+		const elevator = this.getElevator(id);
+		if (elevator.isStopped()) {
+			throw new StateError(`Elevator ${id} is already stopped`, { elevator: id, state: elevator.io.getState() });
+		}
+		elevator.emergencyStop();
+		return this.stopHandoffs.get(id) ?? [];
+	}
+
+	/**
+	 * Get an elevator which was stopped going again. It carries on with the passengers and rides it still has, and
+	 * takes new rides again. Emits a `reset` availability event.
+	 * @param id - The id of the elevator.
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 * @throws A {@link StateError} if the elevator isn't stopped.
+	 */
+	resetElevator(id: ElevatorId): void {
+		this.getElevator(id).reset();
+	}
+
+	/**
+	 * React to an elevator having been stopped, see {@link emergencyStop()}.
+	 */
+	private handleStop(elevator: Elevator, reason: FaultReason): void {
+		this.logger?.warn(`Elevator ${elevator.id} has been stopped (${reason}), handing off its rides`);
+		this.emit('availability', { type: 'stopped', elevator: elevator.id, reason });
+
+		const handingOff = this.handOffRides(elevator, this.getWaitingRides(elevator.id), () => elevator.isStopped(), true);
+		this.stopHandoffs.set(elevator.id, handingOff);
+		handingOff.then(() => {
+			const left = this.rides.getActiveRides(elevator.id).length;
+			if (left > 0 && elevator.isStopped()) {
+				this.logger?.warn(`${left} ride(s) are stuck with elevator ${elevator.id} until it's reset`);
+			}
+		}).catch(error => this.logger?.error(`Failed to hand off the rides of elevator ${elevator.id}:`, error));
+	}
+
+	/**
+	 * Move rides which haven't been picked up yet from an elevator which can't or shouldn't take them to other
+	 * elevators, see {@link findReplacement()}. Rides no other elevator can take stay where they are.
+	 * @param from - The elevator to take the rides from.
+	 * @param rides - The rides to move.
+	 * @param isStillNeeded - Checked after each (async) estimate, so we stop when e.g. the elevator is put back.
+	 * @param override - Optional. Move reserved rides too, see {@link RideTracker.reassign()}.
+	 * @returns Promise containing the rides which were handed off.
+	 */
+	private async handOffRides(from: Elevator, rides: Ride[], isStillNeeded: () => boolean, override = false): Promise<RideHandoff[]> {
+		const handoffs: RideHandoff[] = [];
+		for (const candidate of rides) {
+			const to = await this.findReplacement(candidate);
+			//The estimates are async so the ride may have been picked up in the meantime
+			const ride = to && isStillNeeded() ? this.migrateRide(candidate.id, from, to, override) : undefined;
+			if (ride) {
+				this.logger?.debug(`Handed off ride ${ride.id} from ${from.id} to ${to!.id}`);
+				handoffs.push({ ride, from: from.id, to: to!.id });
+			}
+		}
+		return handoffs;
+	}
+
+	/**
+	 * Pick the floor to recall an elevator to, see {@link startFireRecall()}.
+	 */
+	private getRecallFloor(elevator: Elevator, alarmFloors: Floor[]): Floor {
+		const { FIRE_RECALL_FLOOR: designated, FIRE_ALTERNATE_FLOOR: alternate } = this.options;
+		const safe = elevator.getServedFloors().filter(floor => !alarmFloors.includes(floor));
+		if (safe.includes(designated)) {
+			return designated;
+		}
+		if (safe.includes(alternate)) {
+			return alternate;
+		}
+		return safe.sort((a, b) => Math.abs(a - designated) - Math.abs(b - designated)).at(0) ?? designated;
+	}
+
+	/**
+	 * Check if an elevator takes new rides, i.e. it hasn't been taken out of service, isn't on fire service and
+	 * hasn't been stopped.
+	 */
+	private isInService(elevator: Elevator): boolean {
+		return !this.maintenance.has(elevator.id) && elevator.getFireService() === undefined && !elevator.isStopped();
+	}
+
+	/**
+	 * Send an elevator which is out of service to the floor it parks at once it's finished its rides, or
+	 * emit that it has parked if it's already there.
+	 * @param nudge - True if the elevator has to be told to move, false if we're handling its IDLE state
+	 *  change in which case it's about to look at its route anyway.
+	 */
+	private parkWhenDrained(elevator: Elevator, nudge: boolean): void {
+		const maintenance = this.maintenance.get(elevator.id);
+		const state = elevator.io.getState();
+		if (maintenance === undefined || maintenance.parked || elevator.getFireService()
+			|| !elevator.isFree() || state.type !== ElevatorStateType.IDLE) {
+			return;
+		}
+		if (maintenance.parkAt !== undefined && state.atFloor !== maintenance.parkAt) {
+			this.logger?.debug(`Elevator ${elevator.id} is done, parking at ${maintenance.parkAt}`);
+			if (nudge) {
+				elevator.addRide(maintenance.parkAt);
+			} else {
+				elevator.route.addRide(maintenance.parkAt);
+			}
+			return;
+		}
+		maintenance.parked = true;
+		this.logger?.info(`Elevator ${elevator.id} is out of service at ${state.atFloor}`);
+		this.emit('availability', { type: 'outOfService', elevator: elevator.id, atFloor: state.atFloor });
+	}
+
+	/**
+	 * Find an elevator in service to take over a ride from one which is being taken out of service or stopped. Like
+	 * {@link addRide()} this prefers elevators with room and then the one which estimates the ride fastest.
+	 * @param ride - A ride which hasn't been picked up yet.
+	 * @returns The elevator, or undefined if no elevator in service can take it.
+	 */
+	private async findReplacement(ride: Ride): Promise<Elevator | undefined> {
+		const accepting = [...this.elevators.values()].filter(elevator => this.isInService(elevator)
+			&& elevator.canServe(ride.pickup, ride.dropoff)
+			&& !elevator.checkIfRideIsVetoed(ride.pickup, ride.dropoff));
+		const withRoom = accepting.filter(elevator => !elevator.isFull());
+		const elevators = withRoom.length > 0 ? withRoom : accepting;
+
+		const estimates = await Promise.all(
+			elevators.map(elevator => elevator.estimatePickupDropoffTime(ride.pickup, ride.dropoff, ride.direction))
+		);
+		const fastest = elevators
+			.map((elevator, i) => ({ elevator, estimate: estimates[i] }))
+			.filter(({ estimate }) => estimate > -1)
+			.sort((a, b) => a.estimate - b.estimate).at(0);
+		return fastest?.elevator
+			?? elevators.map(elevator => ({ elevator, length: elevator.getRouteLength() })).sort((a, b) => a.length - b.length).at(0)?.elevator;
+	}
+
+	/**
+	 * Get a ride by id.
+	 * @param id - The id of the ride.
+	 * @returns A snapshot of the ride.
+	 * @throws A {@link RideNotFoundError} if the ride doesn't exist or finished too long ago to be remembered.
+	 */
+	getRide(id: RideId): Ride {
+		return this.rides.getRide(id);
+	}
+
+	/**
+	 * Get all rides in progress and the most recently finished ones, see {@link AppOptions.RIDE_HISTORY_LIMIT}.
+	 * @returns Snapshots of the rides in the order they were requested.
+	 */
+	listRides(): Ride[] {
+		return this.rides.listRides();
+	}
+
+	/**
+	 * Estimate how long it would take a specific elevator to complete a ride given its current route.
+	 * If the ride has already been added to that elevator this works as an ETA for it.
+	 * @param id - The id of the elevator to ask.
+	 * @param pickupFloor - The floor to pickup the passenger from.
+	 * @param dropoffFloor - Optional. The floor to drop off the passenger at.
+	 * @param direction - Optional. The direction of the hall call at the pickup floor.
+	 * @returns See {@link Elevator.estimatePickupDropoffTime()}
+	 * @throws A {@link DomainError} if the elevator does not exist.
+	 */
+	async estimateRide(id: ElevatorId, pickupFloor: Floor, dropoffFloor?: Floor, direction?: CallDirection): Promise<number> {
+		return this.getElevator(id).estimatePickupDropoffTime(pickupFloor, dropoffFloor, direction ?? getCallDirection(pickupFloor, dropoffFloor));
+	}
+
+	/**
+	 * Add a ride to one of the elevators co-ordinated by this service. With {@link AppOptions.DISPATCH_MODE}
+	 * `destination` rides with a dropoff join a car with others going to nearby floors if there is one, and
+	 * the returned ride is `reserved` so the passenger can be told which car to take.
 	 * @param pickupFloor - The floor to pickup the passenger from.
 	 * @param dropoffFloor - The floor to drop off the passenger at.
-	 * @returns Promise containing the id of the elevator that will be used to complete the ride
+	 * @param direction - Optional. Which hall call button was pushed at the pickup floor. Worked out from the
+	 *  dropoff floor if not given.
+	 * @returns Promise containing the newly assigned ride, including the id of the elevator that will be used to complete it
+	 * @throws A {@link ValidationError} if the floors or direction are invalid
+	 * @throws An {@link UnreachableRideError} if no elevator stops at both floors, see {@link getUnreachableFloors()}
+	 * @throws A {@link RideVetoedError} if every elevator which could vetoed the ride, e.g. since it's outside all their zones,
+	 *  or is out of service, see {@link startMaintenance()} and {@link emergencyStop()}
 	 * @throws A {@link DomainError} if no elevator can be found to complete the ride
 	 */
-	async addRide(pickupFloor: Floor, dropoffFloor?: Floor): Promise<ElevatorId> {
-		//First check we have (a) valid floor(s) within the bounds of the elevator. 
+	async addRide(pickupFloor: Floor, dropoffFloor?: Floor, direction?: CallDirection): Promise<Ride> {
+		//First check we have (a) valid floor(s) within the bounds of the elevator, and that the direction matches them
 		validateFloors(pickupFloor, dropoffFloor, this.options);
+		direction = validateCallDirection(direction, pickupFloor, dropoffFloor, this.options);
 		const rideStr = (dropoffFloor !== undefined) ? `ride from ${pickupFloor} to ${dropoffFloor}` : `pickup at ${pickupFloor}`;
 
-		//We start by checking which elevators won't veto this ride
-		const elevators = [...this.elevators.values()]
-			.filter(elevator => elevator.checkIfRideIsVetoed(pickupFloor, dropoffFloor) == false);
-		if (elevators.length === 0) {
-			throw new DomainError(`All elevators vetoed ${rideStr}`);
+		//We start by checking which elevators can stop at both floors...
+		const reachable = [...this.elevators.values()].filter(elevator => elevator.canServe(pickupFloor, dropoffFloor));
+		if (reachable.length === 0) {
+			const served = Object.fromEntries([...this.elevators.values()].map(elevator => [elevator.id, formatFloors(elevator.getServedFloors())]));
+			throw new UnreachableRideError(
+				`No elevator stops at both floors of the ${rideStr}: ${Object.entries(served).map(([id, floors]) => `${id} serves ${floors}`).join(', ')}`
+				, { pickup: pickupFloor, dropoff: dropoffFloor, served });
+		}
+
+		//...and which of those are in service and won't veto it...
+		const accepting = reachable.filter(elevator => this.isInService(elevator)
+			&& elevator.checkIfRideIsVetoed(pickupFloor, dropoffFloor) == false);
+		if (accepting.length === 0) {
+			const strategies = Object.fromEntries(reachable.map(elevator => [elevator.id, elevator.getTravelStrategy().name]));
+			const reasons = reachable.map(elevator => elevator.isStopped() ? `${elevator.id} is stopped`
+				: elevator.getFireService() ? `${elevator.id} is on fire service`
+				: this.maintenance.has(elevator.id) ? `${elevator.id} is out of service`
+					: `${elevator.id} runs ${strategies[elevator.id]}`);
+			throw new RideVetoedError(
+				`No elevator serves the ${rideStr}: ${reasons.join(', ')}`
+				, { pickup: pickupFloor, dropoff: dropoffFloor, strategies, outOfService: reachable.filter(elevator => !this.isInService(elevator)).map(elevator => elevator.id) });
+		}
+
+		//...preferring the ones with room for another passenger. If they're all full the ride still has to go
+		//somewhere, and people will get off before the car comes around.
+		const withRoom = accepting.filter(elevator => !elevator.isFull());
+		const elevators = withRoom.length > 0 ? withRoom : accepting;
+		if (withRoom.length < accepting.length) {
+			this.logger?.debug(`Not considering ${accepting.length - withRoom.length} full elevator(s) for ${rideStr}`);
+		}
+		const ride = this.rides.request(pickupFloor, dropoffFloor, direction);
+
+		//Whatever goes wrong from here on, e.g. an estimate which fails, mustn't leave the ride waiting forever
+		try {
+			return await this.dispatchRide(ride, elevators, rideStr);
+		} catch (error) {
+			if (this.rides.getRide(ride.id).status === RideStatus.REQUESTED) {
+				this.rides.cancel(ride.id);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Pick which of the elevators should serve a ride which has just been requested and assign it.
+	 * @param ride - The ride, which is still `requested`.
+	 * @param elevators - The elevators which can serve it, at least one.
+	 * @param rideStr - How the ride is described in the logs.
+	 */
+	private async dispatchRide(ride: Ride, elevators: Elevator[], rideStr: string): Promise<Ride> {
+		//With destination dispatch we try to put the passenger in a car with others going the same way
+		if (this.isReserved(ride)) {
+			const group = this.findDestinationGroup(elevators, ride);
+			if (group) {
+				this.logger?.debug(`Grouping ${rideStr} with ${group.size} other ride(s) in elevator ${group.elevator.id}`);
+				return this.assignRide(ride, group.elevator);
+			}
 		}
 
 		// If we've opted to use up all the free elevators first...
 		if (this.options.USE_FREE_FIRST) {
 			const elevator = elevators.find(elevator => elevator.isFree());
 			if (elevator) {
-				elevator.addRide(pickupFloor, dropoffFloor);
-				this.logger?.debug(`Added ${rideStr} to elevator ${elevator.id}`);
-				return elevator.id;
+				this.logger?.debug(`Adding ${rideStr} to free elevator ${elevator.id}`);
+				return this.assignRide(ride, elevator);
 			} else {
 				this.logger?.debug(`No free elevator found for ${rideStr}`);
 			}
@@ -210,7 +823,7 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 		//Next we ask all elevators how long it would take to complete the ride. Note: This won't block 
 		//the event loop even at scale, see Strategy.estimatePickupDropoffTime() for details.
 		const estimates = (await Promise.all(
-			elevators.map(elevator => elevator.estimatePickupDropoffTime(pickupFloor, dropoffFloor))
+			elevators.map(elevator => elevator.estimatePickupDropoffTime(ride.pickup, ride.dropoff, ride.direction))
 		)).map((estimate, i) => ({ elevator: elevators[i], estimate }));
 
 		//If one or more provide a number >-1 we go with the smallest one - that will be the elevator
@@ -219,9 +832,8 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 		//take less time for that particular ride.
 		const shortestWait = estimates.filter(({ estimate }) => estimate > -1).sort((a, b) => a.estimate - b.estimate)?.at(0);
 		if (shortestWait) {
-			this.logger?.debug(`Added ${rideStr} to elevator ${shortestWait.elevator.id} who estimated ${shortestWait.estimate}ms`);
-			shortestWait.elevator.addRide(pickupFloor, dropoffFloor);
-			return shortestWait.elevator.id;
+			this.logger?.debug(`Adding ${rideStr} to elevator ${shortestWait.elevator.id} who estimated ${shortestWait.estimate}ms`);
+			return this.assignRide(ride, shortestWait.elevator);
 		}
 
 		//If we're still running that means all the elevators estimated rides longer than 
@@ -231,12 +843,242 @@ export class ElevatorService extends TypedEventEmitter<ElevatorServiceEventMap>
 			.map(elevator => ({ elevator, length: elevator.getRouteLength() }))
 			.sort((a, b) => a.length - b.length)?.at(0);
 		if (shortestRoute) {
-			shortestRoute.elevator.addRide(pickupFloor, dropoffFloor);
-			this.logger?.debug(`Added ${rideStr} to elevator ${shortestRoute.elevator.id} who has the shortest route planned`);
-			return shortestRoute.elevator.id;
+			this.logger?.debug(`Adding ${rideStr} to elevator ${shortestRoute.elevator.id} who has the shortest route planned`);
+			return this.assignRide(ride, shortestRoute.elevator);
 		} else {
 			throw new BUGBUG(`It shouldn't be logically possible for this array of elevators to be empty:`, { elevators })
 		}
+	}
 
+	/**
+	 * Cancel a ride which hasn't finished yet. Its stops are removed from the route of the elevator
+	 * serving it, unless other rides need them too.
+	 * @param id - The id of the ride.
+	 * @returns A snapshot of the cancelled ride.
+	 * @throws A {@link RideNotFoundError} if the ride doesn't exist.
+	 * @throws A {@link StateError} if the ride has already been dropped off or cancelled.
+	 */
+	cancelRide(id: RideId): Ride {
+		const ride = this.rides.getRide(id);
+		const elevator = ride.elevator !== undefined ? this.elevators.get(ride.elevator) : undefined;
+		if (elevator) {
+			if (ride.status === RideStatus.ASSIGNED) {
+				elevator.route.cancelRide(ride.pickup, ride.dropoff, ride.direction);
+			} else if (ride.status === RideStatus.PICKED_UP && ride.dropoff !== undefined) {
+				elevator.route.cancelDropoff(ride.dropoff);
+			}
+		}
+		const cancelled = this.rides.cancel(id); //throws if already finished
+		this.logger?.debug(`Cancelled ride ${id}`);
+		return cancelled;
+	}
+
+	/**
+	 * Remove a pushed button from an elevator, i.e. remove the floor from its route no matter how many
+	 * times it was requested. Rides waiting to be picked up or dropped off at that floor are cancelled.
+	 * @param id - The id of the elevator.
+	 * @param floor - The floor of the button.
+	 * @returns True if the button was pushed, false if there was nothing to remove.
+	 * @throws A {@link DomainError} if the elevator does not exist or the floor is invalid.
+	 */
+	removeButton(id: ElevatorId, floor: Floor): boolean {
+		const elevator = this.getElevator(id);
+		validateFloor(floor, this.options, 'floor');
+		if (!elevator.route.removeFloor(floor)) {
+			return false;
+		}
+		for (const ride of this.rides.getActiveRides(id)) {
+			if ((ride.status === RideStatus.ASSIGNED && ride.pickup === floor)
+				|| (ride.status === RideStatus.PICKED_UP && ride.dropoff === floor)) {
+				this.rides.cancel(ride.id);
+			}
+		}
+		this.logger?.debug(`Removed button ${floor} from elevator ${id}`);
+		return true;
+	}
+
+	/**
+	 * Move rides which haven't been picked up yet to other elevators when that lowers the total expected
+	 * wait, e.g. because an elevator has freed up since the rides were added. Reserved rides (see
+	 * {@link AppOptions.DISPATCH_MODE}) stay where they are.
+	 *
+	 * The rides are looked at one at a time, oldest first, and each is moved to the elevator which saves
+	 * the most wait in total, counting the ride itself and the rides waiting for the two elevators involved.
+	 * Later rides are estimated on the routes as they are after the earlier moves. A move has to save at
+	 * least {@link AppOptions.REOPTIMIZE_MIN_GAIN}.
+	 *
+	 * Every move is emitted as a `ride` event with `reassignedFrom` set, and the buttons of both elevators
+	 * change accordingly.
+	 *
+	 * @returns Promise containing the moves which were made. If a pass is already running that one is returned.
+	 */
+	async reoptimize(): Promise<RideReassignment[]> {
+		if (this.reoptimizing === undefined) {
+			this.reoptimizing = this.reoptimizeRides().finally(() => this.reoptimizing = undefined);
+		}
+		return this.reoptimizing;
+	}
+
+	/**
+	 * Run {@link reoptimize()} without waiting for it, for the periodic and event triggered passes.
+	 */
+	private reoptimizeInBackground(): void {
+		this.reoptimize().catch(error => this.logger?.error('Failed to re-optimise rides:', error));
+	}
+
+	private async reoptimizeRides(): Promise<RideReassignment[]> {
+		const moves: RideReassignment[] = [];
+		const candidates = this.rides.listRides().filter(ride => ride.status === RideStatus.ASSIGNED && !ride.reserved);
+		for (const candidate of candidates) {
+			const from = this.elevators.get(candidate.elevator!);
+			if (from === undefined) {
+				continue;
+			}
+			const best = await this.findBetterElevator(candidate, from);
+			if (best === undefined) {
+				continue;
+			}
+			//The estimates are async so the ride may have been picked up or cancelled in the meantime
+			const ride = this.migrateRide(candidate.id, from, best.elevator);
+			if (ride) {
+				this.logger?.debug(`Moved ride ${ride.id} from ${from.id} to ${best.elevator.id} saving ${best.gain}ms of waiting`);
+				moves.push({ ride, from: from.id, to: best.elevator.id, gain: best.gain });
+			}
+		}
+		return moves;
+	}
+
+	/**
+	 * Find the elevator which would save the most wait in total by taking over a ride.
+	 * @param ride - A ride which is assigned to `from` and hasn't been picked up yet.
+	 * @param from - The elevator the ride is assigned to.
+	 * @returns The elevator and how many milliseconds it would save, or undefined if no elevator saves at
+	 *  least {@link AppOptions.REOPTIMIZE_MIN_GAIN}.
+	 */
+	private async findBetterElevator(ride: Ride, from: Elevator): Promise<{ elevator: Elevator, gain: number } | undefined> {
+		const without = from.route.copy();
+		without.cancelRide(ride.pickup, ride.dropoff, ride.direction);
+		const othersOnFrom = this.getWaitingRides(from.id).filter(other => other.id !== ride.id);
+
+		//What the elevator it's assigned to saves by not having to make the pickup...
+		const fromSaves = await this.estimateWait(from, [ride, ...othersOnFrom])
+			- await this.estimateWait(from, othersOnFrom, without);
+
+		let best: { elevator: Elevator, gain: number } | undefined;
+		for (const to of this.elevators.values()) {
+			if (to === from || to.isFull() || !this.isInService(to) || !to.canServe(ride.pickup, ride.dropoff) || to.checkIfRideIsVetoed(ride.pickup, ride.dropoff)) {
+				continue;
+			}
+			//...against what it costs the other elevator to make it
+			const withRide = to.route.copy();
+			withRide.addRide(ride.pickup, ride.dropoff, ride.direction);
+			const othersOnTo = this.getWaitingRides(to.id);
+			const toCosts = await this.estimateWait(to, [ride, ...othersOnTo], withRide)
+				- await this.estimateWait(to, othersOnTo);
+
+			const gain = fromSaves - toCosts;
+			if (gain >= this.options.REOPTIMIZE_MIN_GAIN && gain > (best?.gain ?? 0)) {
+				best = { elevator: to, gain };
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Get the rides which are waiting for an elevator to pick them up.
+	 */
+	private getWaitingRides(id: ElevatorId): Ride[] {
+		return this.rides.getActiveRides(id).filter(ride => ride.status === RideStatus.ASSIGNED);
+	}
+
+	/**
+	 * Estimate the total time rides will wait to be picked up by an elevator. Rides which are too far out to
+	 * estimate count as {@link AppOptions.ESTIMATION_LIMIT}.
+	 * @param route - Optional. The route to estimate on, see {@link Elevator.estimatePickupDropoffTime()}.
+	 */
+	private async estimateWait(elevator: Elevator, rides: Ride[], route?: ElevatorRoute): Promise<number> {
+		const estimates = await Promise.all(
+			rides.map(ride => elevator.estimatePickupDropoffTime(ride.pickup, undefined, ride.direction, route))
+		);
+		return estimates.reduce((total, estimate) => total + (estimate > -1 ? estimate : this.options.ESTIMATION_LIMIT), 0);
+	}
+
+	/**
+	 * Move a ride which hasn't been picked up yet from the route of one elevator to another. This is done
+	 * synchronously so nothing can happen to the ride in between.
+	 * @param override - Optional. Move the ride even if it's reserved, see {@link RideTracker.reassign()}.
+	 * @returns A snapshot of the ride after the move, or undefined if it couldn't be moved, e.g. because it
+	 *  has been picked up since we decided to move it.
+	 */
+	private migrateRide(id: RideId, from: Elevator, to: Elevator, override = false): Ride | undefined {
+		const ride = this.rides.getRide(id);
+		if (ride.status !== RideStatus.ASSIGNED || ride.elevator !== from.id || (ride.reserved && !override)) {
+			return undefined;
+		}
+		//NOTE: Reassign before adding for the same reason as in assignRide()
+		const moved = this.rides.reassign(id, to.id, override);
+		from.route.cancelRide(ride.pickup, ride.dropoff, ride.direction);
+		if (to.addRide(ride.pickup, ride.dropoff, ride.direction)) {
+			return moved;
+		}
+
+		//Late veto, so put it back where it was
+		this.logger?.warn(`Elevator ${to.id} vetoed ride ${id} while moving it from ${from.id}`);
+		this.rides.reassign(id, from.id, override);
+		if (!from.addRide(ride.pickup, ride.dropoff, ride.direction)) {
+			this.rides.cancel(id);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Check if a ride gets a reserved car, i.e. we're doing destination dispatch and know where it's going.
+	 * Rides without a dropoff (e.g. a plain hall call button) are assigned like in conventional mode.
+	 */
+	private isReserved(ride: Ride): boolean {
+		return this.options.DISPATCH_MODE === 'destination' && ride.dropoff !== undefined;
+	}
+
+	/**
+	 * Find the elevator with the most passengers waiting at the same floor as a ride and going to the same or
+	 * nearby floors, see {@link AppOptions.DESTINATION_GROUPING_DISTANCE}. Cars which already have
+	 * {@link AppOptions.DESTINATION_GROUP_SIZE} passengers waiting there are full.
+	 * @param elevators - The elevators which didn't veto the ride.
+	 * @param ride - The ride to group, which must have a dropoff.
+	 * @returns The elevator and the size of the group, or undefined if there is no group to join.
+	 */
+	private findDestinationGroup(elevators: Elevator[], ride: Ride): { elevator: Elevator, size: number } | undefined {
+		let best: { elevator: Elevator, size: number } | undefined;
+		for (const elevator of elevators) {
+			const waiting = this.rides.getActiveRides(elevator.id)
+				.filter(other => other.status === RideStatus.ASSIGNED && other.pickup === ride.pickup);
+			if (waiting.length >= this.options.DESTINATION_GROUP_SIZE) {
+				continue;
+			}
+			const size = waiting.filter(other => other.dropoff !== undefined
+				&& other.direction === ride.direction
+				&& Math.abs(other.dropoff - ride.dropoff!) <= this.options.DESTINATION_GROUPING_DISTANCE
+			).length;
+			if (size > (best?.size ?? 0)) {
+				best = { elevator, size };
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Add a tracked ride to the route of an elevator.
+	 * @returns A snapshot of the ride after it's been assigned.
+	 * @throws A {@link RideVetoedError} if the elevator vetoed the ride at the last moment, in which case the ride is cancelled.
+	 */
+	private assignRide(ride: Ride, elevator: Elevator): Ride {
+		//NOTE: Assign before adding since an idle elevator already at the pickup floor will open its doors
+		//right away, and we don't want to miss that
+		const assigned = this.rides.assign(ride.id, elevator.id, this.isReserved(ride));
+		if (!elevator.addRide(ride.pickup, ride.dropoff, ride.direction)) {
+			this.rides.cancel(ride.id);
+			throw new RideVetoedError(`Elevator ${elevator.id} vetoed ride ${ride.id} after it was assigned`, { ride: assigned });
+		}
+		return assigned;
 	}
 }
\ No newline at end of file
@@ -0,0 +1,549 @@
+import { ElevatorService } from '../ElevatorService';
+import { Elevator } from '../../elevator/Elevator';
+import { InsertOrder } from '../../strategies/InsertOrder';
+import { StopEnRoute } from '../../strategies/StopEnRoute';
+import { Zoned } from '../../strategies/Zoned';
+import { Collective } from '../../strategies/Collective';
+import { ElevatorNotFoundError, RideVetoedError, UnreachableRideError } from '../../errors/DomainErrors';
+import { InvalidFloorError, ValidationError } from '../../errors/ValidationErrors';
+import { StateError } from '../../errors/StateErrors';
+import { AppOptions, defaultOptions } from '../../../options';
+import { AggregatedRideStatusChangeEvents, ElevatorAvailabilityEvent, FireServiceEvent } from '../types';
+import { RideStatus } from '../../rides/types';
+import { VirtualClock } from '../../../infra/clock/VirtualClock';
+import { ElevatorStateType } from '../../elevator/types';
+
+const options: AppOptions = {
+	...defaultOptions,
+	MIN_FLOOR: 0,
+	MAX_FLOOR: 20,
+	INITIAL_FLOOR: 0,
+	TRAVEL_TIME_PER_FLOOR: 1000,
+	DOOR_OPEN_TIME: 1000,
+	ESTIMATION_LIMIT: 100000,
+	USE_FREE_FIRST: true,
+	DISPATCH_MODE: 'destination',
+	DESTINATION_GROUPING_DISTANCE: 2,
+	DESTINATION_GROUP_SIZE: 2,
+	REOPTIMIZE_WHEN_FREE: false,
+	REOPTIMIZE_MIN_GAIN: 2000,
+};
+
+describe('ElevatorService', () => {
+	let service: ElevatorService;
+
+	function createService(overrides: Partial<AppOptions> = {}, nrOfElevators = 2, clock?: VirtualClock): ElevatorService {
+		const serviceOptions = { ...options, ...overrides };
+		const service = new ElevatorService(serviceOptions, undefined, clock);
+		for (let i = 1; i <= nrOfElevators; i++) {
+			service.addElevator(new Elevator(`Elevator#${i}`, new InsertOrder(serviceOptions), serviceOptions, undefined, clock));
+		}
+		return service;
+	}
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		service.shutdown();
+		jest.clearAllTimers();
+		jest.useRealTimers();
+	});
+
+	describe('Destination dispatch', () => {
+		it('should group passengers going to nearby floors into the same car', async () => {
+			service = createService();
+			const first = await service.addRide(5, 10);
+			const second = await service.addRide(5, 12); //would get the free elevator in conventional mode
+			expect(first).toMatchObject({ elevator: 'Elevator#1', reserved: true });
+			expect(second).toMatchObject({ elevator: 'Elevator#1', reserved: true });
+		});
+
+		it('should not group passengers going too far apart, the other way or waiting at another floor', async () => {
+			service = createService({}, 4);
+			await service.addRide(5, 10);
+			//Each of these gets a free elevator, which is what happens when there's no group to join
+			expect((await service.addRide(5, 13)).elevator).toBe('Elevator#2');
+			expect((await service.addRide(5, 3)).elevator).toBe('Elevator#3');
+			expect((await service.addRide(6, 10)).elevator).toBe('Elevator#4');
+		});
+
+		it('should start a new group once a car is full', async () => {
+			service = createService();
+			await service.addRide(5, 10);
+			await service.addRide(5, 11);
+			expect((await service.addRide(5, 10)).elevator).toBe('Elevator#2');
+		});
+
+		it('should not reserve a car for rides without a dropoff or in conventional mode', async () => {
+			service = createService();
+			expect(await service.addRide(5)).not.toHaveProperty('reserved');
+
+			service.shutdown();
+			service = createService({ DISPATCH_MODE: 'conventional' });
+			await service.addRide(5, 10);
+			expect(await service.addRide(5, 10)).toMatchObject({ elevator: 'Elevator#2' });
+			expect(service.getRide('Ride#1')).not.toHaveProperty('reserved');
+		});
+	});
+
+	describe('Re-optimisation', () => {
+		function addSecondElevator(): void {
+			service.addElevator(new Elevator('Elevator#2', new InsertOrder(options), options));
+		}
+
+		it('should move waiting rides to an elevator which has freed up', async () => {
+			service = createService({ DISPATCH_MODE: 'conventional' }, 1);
+			const far = await service.addRide(10);
+			const near = await service.addRide(2);
+			addSecondElevator();
+			const events: AggregatedRideStatusChangeEvents[] = [];
+			service.on('ride', (event) => events.push(event));
+
+			const moves = await service.reoptimize();
+
+			// The first ride is looked at first, and the first elevator has to go past 2 to get there anyway
+			expect(moves).toEqual([{ ride: expect.objectContaining({ id: far.id, elevator: 'Elevator#2' }), from: 'Elevator#1', to: 'Elevator#2', gain: expect.any(Number) }]);
+			expect(moves[0].gain).toBeGreaterThanOrEqual(options.REOPTIMIZE_MIN_GAIN);
+			expect(service.getRide(near.id).elevator).toBe('Elevator#1');
+			expect(service.getPushedButtons('Elevator#1')).toEqual([2]);
+			expect(service.getPushedButtons('Elevator#2')).toEqual([10]);
+			expect(events).toEqual([expect.objectContaining({ from: 'assigned', to: 'assigned', elevator: 'Elevator#2', reassignedFrom: 'Elevator#1' })]);
+
+			// Nothing left to improve
+			expect(await service.reoptimize()).toEqual([]);
+		});
+
+		it('should move waiting rides to an elevator as soon as it runs out of work by default', async () => {
+			jest.useRealTimers(); //the virtual clock lets promises settle with setImmediate
+			const clock = new VirtualClock();
+			const serviceOptions = { ...options, DISPATCH_MODE: 'conventional' as const, REOPTIMIZE_WHEN_FREE: defaultOptions.REOPTIMIZE_WHEN_FREE };
+			service = createService(serviceOptions, 1, clock);
+			service.start();
+			const far = await service.addRide(15);
+			const near = await service.addRide(2);
+			service.addElevator(new Elevator('Elevator#2', new InsertOrder(serviceOptions), { ...serviceOptions, INITIAL_FLOOR: 10 }, undefined, clock));
+			expect(await service.addRide(10, 11)).toMatchObject({ elevator: 'Elevator#2' });
+
+			//Elevator#2 is done with its ride and a lot closer to 15 while Elevator#1 is still picking up at 2
+			await clock.advanceAsync(5000);
+			expect(service.getRide(near.id)).toMatchObject({ elevator: 'Elevator#1', status: RideStatus.PICKED_UP });
+			expect(service.getRide(far.id)).toMatchObject({ elevator: 'Elevator#2', status: RideStatus.ASSIGNED });
+		});
+
+		it('should not move rides unless they save enough wait', async () => {
+			service = createService({ DISPATCH_MODE: 'conventional', REOPTIMIZE_MIN_GAIN: 1000000 }, 1);
+			await service.addRide(10);
+			addSecondElevator();
+			expect(await service.reoptimize()).toEqual([]);
+		});
+
+		it('should not move reserved rides', async () => {
+			service = createService({}, 1);
+			await service.addRide(10, 12);
+			await service.addRide(2, 5);
+			addSecondElevator();
+			expect(await service.reoptimize()).toEqual([]);
+			expect(service.listRides().map(ride => ride.elevator)).toEqual(['Elevator#1', 'Elevator#1']);
+		});
+	});
+
+	describe('Dispatch', () => {
+		it('should cancel the ride when it cannot be assigned', async () => {
+			service = createService({ DISPATCH_MODE: 'conventional', USE_FREE_FIRST: false });
+			const estimate = jest.spyOn(Elevator.prototype, 'estimatePickupDropoffTime').mockRejectedValue(new Error('Estimate failed'));
+			try {
+				await expect(service.addRide(3, 8)).rejects.toThrow('Estimate failed');
+			} finally {
+				estimate.mockRestore();
+			}
+			expect(service.listRides()).toMatchObject([{ pickup: 3, dropoff: 8, status: RideStatus.CANCELLED }]);
+		});
+	});
+
+	describe('Strategies', () => {
+		it('should swap the strategy of an elevator and keep its route', async () => {
+			service = createService({ DISPATCH_MODE: 'conventional' }, 1);
+			await service.addRide(10);
+			await service.addRide(4);
+			expect(service.getStrategy('Elevator#1')).toBe('InsertOrder');
+
+			expect(service.changeStrategy('Elevator#1', (o) => new StopEnRoute(o))).toBe('StopEnRoute');
+			expect(service.getStrategy('Elevator#1')).toBe('StopEnRoute');
+			expect(service.getPushedButtons('Elevator#1')).toEqual([10, 4]);
+		});
+
+		it('should throw for unknown elevators', () => {
+			service = createService();
+			expect(() => service.changeStrategy('Elevator#9', (o) => new StopEnRoute(o))).toThrow(ElevatorNotFoundError);
+		});
+	});
+
+	describe('Zones', () => {
+		function createZonedService(): ElevatorService {
+			const serviceOptions = { ...options, DISPATCH_MODE: 'conventional' as const };
+			service = new ElevatorService(serviceOptions);
+			service.addElevator(new Elevator('Elevator#1', new Zoned(new InsertOrder(serviceOptions), [1, 2, 3, 4, 5], 0), serviceOptions));
+			service.addElevator(new Elevator('Elevator#2', new Zoned(new InsertOrder(serviceOptions), [15, 16, 17, 18, 19, 20], 0), serviceOptions));
+			return service;
+		}
+
+		it('should only give rides to elevators serving both floors', async () => {
+			service = createZonedService();
+			expect(await service.addRide(0, 18)).toMatchObject({ elevator: 'Elevator#2' });
+			expect(await service.addRide(0, 3)).toMatchObject({ elevator: 'Elevator#1' });
+			expect(await service.addRide(16, 0)).toMatchObject({ elevator: 'Elevator#2' });
+		});
+
+		it('should explain which elevators serve what when none serves a ride', async () => {
+			service = createZonedService();
+			await expect(service.addRide(3, 18)).rejects.toThrow(RideVetoedError);
+			await expect(service.addRide(10)).rejects.toThrow('No elevator serves the pickup at 10: Elevator#1 runs InsertOrder in 0..5, Elevator#2 runs InsertOrder in 0, 15..20');
+			expect(service.listRides()).toEqual([]);
+		});
+
+		it('should keep the zone when the strategy is changed', () => {
+			service = createZonedService();
+			expect(service.changeStrategy('Elevator#2', (o) => new StopEnRoute(o))).toBe('StopEnRoute in 0, 15..20');
+		});
+	});
+
+	describe('Served floors', () => {
+		/** A garage shuttle, a low-rise car and a car which skips the garage and stops short of the top floor */
+		function createBuilding(): ElevatorService {
+			const serviceOptions = { ...options, MIN_FLOOR: -3, DISPATCH_MODE: 'conventional' as const };
+			service = new ElevatorService(serviceOptions);
+			const served: Array<number[] | undefined> = [[-3, -2, -1, 0], [0, 1, 2, 3, 4, 5], undefined];
+			served.forEach((floors, i) => {
+				const elevatorOptions = { ...serviceOptions, SERVED_FLOORS: floors, ...(floors === undefined && { MIN_FLOOR: 0, MAX_FLOOR: 19 }) };
+				service.addElevator(new Elevator(`Elevator#${i + 1}`, new InsertOrder(elevatorOptions), elevatorOptions));
+			});
+			return service;
+		}
+
+		it('should only give rides to elevators stopping at both floors', async () => {
+			service = createBuilding();
+			expect(await service.addRide(-2, 0)).toMatchObject({ elevator: 'Elevator#1' });
+			expect(await service.addRide(0, 12)).toMatchObject({ elevator: 'Elevator#3' });
+			expect(await service.addRide(0, 4)).toMatchObject({ elevator: 'Elevator#2' });
+		});
+
+		it('should reject rides no elevator connects and floors outside the building', async () => {
+			service = createBuilding();
+			await expect(service.addRide(-2, 12)).rejects.toThrow(UnreachableRideError);
+			await expect(service.addRide(20)).rejects.toThrow('No elevator stops at both floors of the pickup at 20: Elevator#1 serves -3..0, Elevator#2 serves 0..5, Elevator#3 serves 0..19');
+			await expect(service.addRide(-4)).rejects.toThrow(InvalidFloorError);
+			expect(service.listRides()).toEqual([]);
+		});
+
+		it('should list the floors which can not be reached with one ride', () => {
+			service = createBuilding();
+			const { unserved, rides } = service.getUnreachableFloors();
+			expect(unserved).toEqual([20]);
+			expect(rides.find(({ from }) => from === -2)).toEqual({ from: -2, to: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19] });
+			expect(rides.find(({ from }) => from === 0)).toBeUndefined();
+			expect(rides.find(({ from }) => from === 7)?.to).toEqual([-3, -2, -1]);
+		});
+	});
+
+	describe('Capacity', () => {
+		it('should report the load and prefer elevators with room for another passenger', async () => {
+			service = createService({ CAPACITY: 1, DISPATCH_MODE: 'conventional' });
+			await service.addRide(0, 10); //picked up right away since the elevator is at 0
+			expect(service.getElevatorState('Elevator#1').load).toEqual({ passengers: 1, kg: 75, capacity: 1, full: true });
+
+			//Elevator#1 is on its way to 10 so it would be quickest, but it's full
+			expect(await service.addRide(10, 12)).toMatchObject({ elevator: 'Elevator#2' });
+			expect(service.getAllElevatorStates()['Elevator#2'].load.full).toBe(false);
+		});
+
+		it('should pass people waiting for a full car and come back for them once someone gets off', async () => {
+			jest.useRealTimers(); //the virtual clock lets promises settle with setImmediate
+			const clock = new VirtualClock();
+			const serviceOptions = { ...options, CAPACITY: 1, DISPATCH_MODE: 'conventional' as const };
+			service = new ElevatorService(serviceOptions, undefined, clock);
+			service.addElevator(new Elevator('Elevator#1', new Collective(serviceOptions), serviceOptions, undefined, clock));
+			service.start();
+
+			const inside = await service.addRide(0, 10);
+			const waiting = await service.addRide(5, 8); //on the way up, so we'd normally stop for it
+			await clock.advanceAsync(60 * 1000);
+
+			const [first, second] = [service.getRide(inside.id), service.getRide(waiting.id)];
+			expect(second.status).toBe(RideStatus.DROPPED_OFF);
+			expect(second.pickedUpAt).toBeGreaterThan(first.droppedOffAt!);
+			expect(service.getElevatorState('Elevator#1').load.passengers).toBe(0);
+		});
+	});
+
+	describe('Maintenance', () => {
+		it('should hand off waiting rides and not take new ones while out of service', async () => {
+			service = createService({ DISPATCH_MODE: 'conventional' }, 1);
+			const inside = await service.addRide(0, 10); //picked up right away since the elevator is at 0
+			const far = await service.addRide(15);
+			const near = await service.addRide(2);
+			service.addElevator(new Elevator('Elevator#2', new InsertOrder(options), options));
+
+			const handoffs = await service.startMaintenance('Elevator#1');
+
+			expect(handoffs.map(({ ride, from, to }) => [ride.id, from, to])).toEqual([
+				[far.id, 'Elevator#1', 'Elevator#2'],
+				[near.id, 'Elevator#1', 'Elevator#2'],
+			]);
+			expect(service.getRide(inside.id)).toMatchObject({ status: RideStatus.PICKED_UP, elevator: 'Elevator#1' });
+			expect(service.getPushedButtons('Elevator#1')).toEqual([10]);
+			expect(service.getMaintenance('Elevator#1')).toEqual({ status: 'draining' });
+			expect(await service.addRide(0)).toMatchObject({ elevator: 'Elevator#2' });
+			expect(await service.reoptimize()).toEqual([]);
+		});
+
+		it('should veto rides when every elevator which could take them is out of service', async () => {
+			service = createService({ DISPATCH_MODE: 'conventional' }, 1);
+			await service.startMaintenance('Elevator#1');
+			await expect(service.addRide(10)).rejects.toThrow(RideVetoedError);
+			await expect(service.addRide(10)).rejects.toThrow('No elevator serves the pickup at 10: Elevator#1 is out of service');
+
+			service.endMaintenance('Elevator#1');
+			expect(service.getMaintenance('Elevator#1')).toEqual({ status: 'inService' });
+			expect(await service.addRide(10)).toMatchObject({ elevator: 'Elevator#1' });
+		});
+
+		it('should reject invalid changes', async () => {
+			service = createService({ DISPATCH_MODE: 'conventional' }, 1);
+			expect(() => service.endMaintenance('Elevator#1')).toThrow(StateError);
+			await expect(service.startMaintenance('Elevator#1', 42)).rejects.toThrow(ValidationError);
+			await expect(service.startMaintenance('Elevator#42')).rejects.toThrow(ElevatorNotFoundError);
+			await service.startMaintenance('Elevator#1');
+			await expect(service.startMaintenance('Elevator#1')).rejects.toThrow(StateError);
+		});
+
+		it('should finish the rides it has and then park', async () => {
+			jest.useRealTimers(); //the virtual clock lets promises settle with setImmediate
+			const clock = new VirtualClock();
+			const serviceOptions = { ...options, DISPATCH_MODE: 'conventional' as const };
+			service = new ElevatorService(serviceOptions, undefined, clock);
+			service.addElevator(new Elevator('Elevator#1', new Collective(serviceOptions), serviceOptions, undefined, clock));
+			service.start();
+			const events: ElevatorAvailabilityEvent[] = [];
+			service.on('availability', (event) => events.push(event));
+
+			const inside = await service.addRide(0, 10);
+			await service.startMaintenance('Elevator#1', 3);
+			await clock.advanceAsync(60 * 1000);
+
+			expect(service.getRide(inside.id).status).toBe(RideStatus.DROPPED_OFF);
+			expect(service.getElevatorState('Elevator#1')).toMatchObject({ type: 'idle', atFloor: 3 });
+			expect(service.getMaintenance('Elevator#1')).toEqual({ status: 'outOfService', parkAt: 3 });
+			expect(events).toEqual([
+				{ type: 'draining', elevator: 'Elevator#1', parkAt: 3 },
+				{ type: 'outOfService', elevator: 'Elevator#1', atFloor: 3 },
+			]);
+
+			service.endMaintenance('Elevator#1');
+			expect(events.at(-1)).toEqual({ type: 'inService', elevator: 'Elevator#1' });
+		});
+	});
+
+	describe('Emergency stop', () => {
+		it('should hand off the rides waiting for a stopped elevator, reserved or not, and keep its passengers', async () => {
+			service = createService({}, 1);
+			const inside = await service.addRide(0, 10); //picked up right away since the elevator is at 0
+			const reserved = await service.addRide(15, 18);
+			const hallCall = await service.addRide(2);
+			service.addElevator(new Elevator('Elevator#2', new InsertOrder(options), options));
+			const events: ElevatorAvailabilityEvent[] = [];
+			service.on('availability', (event) => events.push(event));
+
+			const handoffs = await service.emergencyStop('Elevator#1');
+
+			expect(handoffs.map(({ ride, from, to }) => [ride.id, from, to])).toEqual([
+				[reserved.id, 'Elevator#1', 'Elevator#2'],
+				[hallCall.id, 'Elevator#1', 'Elevator#2'],
+			]);
+			expect(service.getRide(reserved.id)).toMatchObject({ elevator: 'Elevator#2', reserved: true });
+			expect(service.getRide(inside.id)).toMatchObject({ status: RideStatus.PICKED_UP, elevator: 'Elevator#1' });
+			expect(service.getPushedButtons('Elevator#1')).toEqual([10]);
+			expect(service.getElevatorState('Elevator#1')).toMatchObject({ type: ElevatorStateType.STOPPED, atFloor: 0, reason: 'emergencyStop' });
+			expect(events).toEqual([{ type: 'stopped', elevator: 'Elevator#1', reason: 'emergencyStop' }]);
+			await expect(service.emergencyStop('Elevator#1')).rejects.toThrow(StateError);
+		});
+
+		it('should hand off the rides of an elevator the watchdog stopped', async () => {
+			service = createService({ DISPATCH_MODE: 'conventional' }, 0);
+			const elevator = new Elevator('Elevator#1', new InsertOrder(options), options);
+			service.addElevator(elevator);
+			const waiting = await service.addRide(7);
+			service.addElevator(new Elevator('Elevator#2', new InsertOrder(options), options));
+
+			elevator.io.stop('stuck');
+			await jest.advanceTimersByTimeAsync(0);
+			expect(service.getRide(waiting.id).elevator).toBe('Elevator#2');
+			expect(service.getPushedButtons('Elevator#1')).toEqual([]);
+		});
+
+		it('should not take rides until it is reset, then carry on with the ones it kept', async () => {
+			jest.useRealTimers(); //the virtual clock lets promises settle with setImmediate
+			const clock = new VirtualClock();
+			service = createService({ DISPATCH_MODE: 'conventional' }, 1, clock);
+			service.start();
+			const events: ElevatorAvailabilityEvent[] = [];
+			service.on('availability', (event) => events.push(event));
+
+			const inside = await service.addRide(0, 10);
+			await clock.advanceAsync(1000 + 2500); //the doors at 0, then half way between 2 and 3
+			expect(() => service.resetElevator('Elevator#1')).toThrow(StateError);
+			await service.emergencyStop('Elevator#1');
+			expect(service.getElevatorState('Elevator#1')).toMatchObject({ type: ElevatorStateType.STOPPED, fromFloor: 2, toFloor: 3 });
+			await expect(service.addRide(5)).rejects.toThrow('No elevator serves the pickup at 5: Elevator#1 is stopped');
+			await clock.advanceAsync(60 * 1000);
+			expect(service.getRide(inside.id).status).toBe(RideStatus.PICKED_UP);
+
+			service.resetElevator('Elevator#1');
+			await clock.advanceAsync(60 * 1000);
+			expect(service.getRide(inside.id).status).toBe(RideStatus.DROPPED_OFF);
+			expect(await service.addRide(5)).toMatchObject({ elevator: 'Elevator#1' });
+			expect(events).toEqual([
+				{ type: 'stopped', elevator: 'Elevator#1', reason: 'emergencyStop' },
+				{ type: 'reset', elevator: 'Elevator#1' },
+			]);
+		});
+	});
+
+	describe('Fire service', () => {
+		let clock: VirtualClock;
+		let events: FireServiceEvent[];
+
+		function createRunningService(overrides: Partial<AppOptions> = {}): ElevatorService {
+			jest.useRealTimers(); //the virtual clock lets promises settle with setImmediate
+			clock = new VirtualClock();
+			const service = createService({ DISPATCH_MODE: 'conventional', ...overrides }, 2, clock);
+			service.start();
+			events = [];
+			service.on('fire', (event) => events.push(event));
+			return service;
+		}
+
+		it('should recall every elevator non-stop and park it with its doors open', async () => {
+			service = createRunningService();
+			const inside = await service.addRide(0, 10);
+			const waiting = await service.addRide(8, 3);
+			await clock.advanceAsync(3500);
+			const stops: number[] = [];
+			service.on('state', ({ to }) => to.type === ElevatorStateType.DOORS_OPEN && stops.push(to.atFloor));
+
+			expect(service.startFireRecall()).toEqual({ 'Elevator#1': 0, 'Elevator#2': 0 });
+			expect([service.getRide(inside.id).status, service.getRide(waiting.id).status]).toEqual([RideStatus.CANCELLED, RideStatus.CANCELLED]);
+			expect(service.getAllPushedButtons()).toEqual({ 'Elevator#1': [], 'Elevator#2': [] });
+			await expect(service.addRide(5)).rejects.toThrow('No elevator serves the pickup at 5: Elevator#1 is on fire service, Elevator#2 is on fire service');
+
+			await clock.advanceAsync(60 * 1000);
+			expect(stops).toEqual([]);
+			for (const id of ['Elevator#1', 'Elevator#2']) {
+				expect(service.getElevatorState(id)).toMatchObject({ type: ElevatorStateType.DOORS_HELD_OPEN, atFloor: 0, load: { passengers: 0 } });
+			}
+			expect(events[0]).toEqual({ type: 'recall', alarmFloors: [], floors: { 'Elevator#1': 0, 'Elevator#2': 0 } });
+			expect(events.slice(1)).toEqual(expect.arrayContaining([
+				{ type: 'recalled', elevator: 'Elevator#1', atFloor: 0 },
+				{ type: 'recalled', elevator: 'Elevator#2', atFloor: 0 },
+			]));
+			expect(events).toHaveLength(3);
+
+			service.endFireRecall();
+			expect(events.at(-1)).toEqual({ type: 'reset' });
+			expect(service.getFireService()).toEqual({ active: false, alarmFloors: [], elevators: {} });
+			expect(await service.addRide(5)).toMatchObject({ status: RideStatus.ASSIGNED });
+		});
+
+		it('should recall to the alternate floor when the alarm is at the recall floor', async () => {
+			service = createRunningService({ FIRE_RECALL_FLOOR: 0, FIRE_ALTERNATE_FLOOR: 2 });
+			expect(() => service.startFireRecall([42])).toThrow(InvalidFloorError);
+			expect(service.startFireRecall([0])).toEqual({ 'Elevator#1': 2, 'Elevator#2': 2 });
+			await clock.advanceAsync(10 * 1000);
+			expect(service.getFireService()).toEqual({
+				active: true,
+				alarmFloors: [0],
+				elevators: {
+					'Elevator#1': { phase: 'recall', floor: 2, recalled: true },
+					'Elevator#2': { phase: 'recall', floor: 2, recalled: true },
+				},
+			});
+		});
+
+		it('should let a firefighter drive a recalled elevator with constant pressure on the door buttons', async () => {
+			service = createRunningService({ DOOR_OPENING_TIME: 1000, DOOR_CLOSING_TIME: 2000 });
+			expect(() => service.startFirefighterOperation('Elevator#1')).toThrow(StateError); //no alarm
+			await service.addRide(6);
+			await clock.advanceAsync(1000);
+			service.startFireRecall();
+			expect(() => service.startFirefighterOperation('Elevator#1')).toThrow(StateError); //not back yet
+			await clock.advanceAsync(10 * 1000);
+
+			service.startFirefighterOperation('Elevator#1');
+			expect(() => service.endFireRecall()).toThrow(StateError);
+			service.sendFirefighterTo('Elevator#1', 7);
+			await clock.advanceAsync(10 * 1000);
+			expect(service.getElevatorState('Elevator#1')).toMatchObject({ type: ElevatorStateType.DOORS_HELD_OPEN, atFloor: 0 });
+
+			//Letting go of close half way opens the doors again...
+			service.pressDoorButton('Elevator#1', 'close');
+			await clock.advanceAsync(1000);
+			service.releaseDoorButton('Elevator#1');
+			expect(service.getElevatorState('Elevator#1')).toMatchObject({ type: ElevatorStateType.DOORS_OPENING, dueTime: clock.now() + 500 });
+			await clock.advanceAsync(500);
+			expect(service.getElevatorState('Elevator#1').type).toBe(ElevatorStateType.DOORS_HELD_OPEN);
+
+			//...and holding it until they're closed sends the car on its way, where the doors stay closed
+			service.pressDoorButton('Elevator#1', 'close');
+			await clock.advanceAsync(2000 + 7000 + 10 * 1000);
+			expect(service.getElevatorState('Elevator#1')).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 7 });
+			expect(() => service.pressDoorButton('Elevator#2', 'open')).toThrow(StateError);
+			service.pressDoorButton('Elevator#1', 'open');
+			await clock.advanceAsync(500);
+			service.releaseDoorButton('Elevator#1');
+			await clock.advanceAsync(10 * 1000);
+			expect(service.getElevatorState('Elevator#1')).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 7 });
+
+			//Handing it back sends it back to the recall floor
+			service.endFirefighterOperation('Elevator#1');
+			await clock.advanceAsync(10 * 1000);
+			expect(events.map(event => event.type)).toEqual(['recall', 'recalled', 'recalled', 'firefighterStarted', 'firefighterEnded', 'recalled']);
+			service.endFireRecall();
+			await clock.advanceAsync(10 * 1000);
+			expect(service.getElevatorState('Elevator#1')).toMatchObject({ type: ElevatorStateType.IDLE, atFloor: 0 });
+		});
+	});
+
+	describe('Simulated time', () => {
+		const HOUR = 60 * 60 * 1000;
+
+		/**
+		 * Nothing here waits for real time, so an hour of traffic only takes as long as the
+		 * computer needs to decide where the elevators go.
+		 */
+		it('should run an hour of traffic on a virtual clock and drop everyone off', async () => {
+			jest.useRealTimers(); //the virtual clock lets promises settle with setImmediate
+			const clock = new VirtualClock();
+			service = createService({ DISPATCH_MODE: 'conventional' }, 3, clock);
+			service.start();
+
+			//A ride every 30 seconds between "random" floors
+			const added: Array<Promise<unknown>> = [];
+			for (let i = 0; i < 120; i++) {
+				const pickup = (i * 7) % 21;
+				const dropoff = (i * 13 + 5) % 21;
+				clock.setTimeout(() => added.push(service.addRide(pickup, dropoff)), i * 30 * 1000);
+			}
+
+			await clock.advanceAsync(HOUR);
+			await Promise.all(added);
+			await clock.advanceAsync(HOUR); //time to finish the last rides
+
+			const rides = service.listRides();
+			expect(rides).toHaveLength(120);
+			expect(rides.filter(ride => ride.status !== RideStatus.DROPPED_OFF)).toEqual([]);
+			expect(rides[119].requestedAt).toBe(119 * 30 * 1000);
+			expect(Math.max(...rides.map(ride => ride.droppedOffAt!))).toBeLessThan(2 * HOUR);
+		});
+	});
+});
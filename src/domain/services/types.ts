@@ -1,7 +1,10 @@
 import { ElevatorId } from "../elevator/Elevator";
-import { ElevatorStates } from "../elevator/types";
+import { ElevatorStates, FaultReason, FireServiceMode } from "../elevator/types";
+import { ElevatorLoad } from "../elevator/Capacity";
 import { ElevatorStateChangeEvent } from "../elevator/types";
 import { ButtonActiveEvent } from "../route/ElevatorRoute";
+import { Floor } from "../route/Floors";
+import { Ride, RideStatusChangeEvent } from "../rides/types";
 
 export const AVAILABILITY_EVENT = Symbol('availability');
 
@@ -11,7 +14,9 @@ export const AVAILABILITY_EVENT = Symbol('availability');
 export type ElevatorServiceEventMap = {
 	availability: ElevatorAvailabilityEvent
 	state: AggregatedElevatorStateChangeEvents
-	buttons: ButtonActiveEvent
+	buttons: AggregatedButtonActiveEvents
+	ride: AggregatedRideStatusChangeEvents
+	fire: FireServiceEvent
 	// [S in ElevatorAvailabilityEvent as S["type"]]: Extract<ElevatorAvailabilityEvent, { type: S["type"] }>
 } & {
 	[key: string]: ElevatorStateChangeEvent
@@ -27,6 +32,28 @@ export type AggregatedElevatorStateChangeEvents = ElevatorStateChangeEvent & { e
  */
 export type AggregatedButtonActiveEvents = ButtonActiveEvent & { elevator: ElevatorId }
 
+/**
+ * {@link RideStatusChangeEvent} which also contain the id of the elevator serving the ride, if it has
+ * been assigned one, so they can be filtered like the other aggregated events.
+ */
+export type AggregatedRideStatusChangeEvents = RideStatusChangeEvent & { elevator?: ElevatorId }
+
+/**
+ * The state of an elevator along with what it's carrying, see {@link ElevatorService.getElevatorState()}.
+ */
+export type ElevatorStateWithLoad = ElevatorStates & { load: ElevatorLoad }
+
+/**
+ * The floors of the building which can't be reached with one ride since no elevator stops at both, see
+ * {@link ElevatorService.getUnreachableFloors()}.
+ */
+export type UnreachableFloors = {
+	/** Floors no elevator stops at */
+	unserved: Floor[];
+	/** For each served floor which has any, the other served floors no elevator goes to from it */
+	rides: Array<{ from: Floor, to: Floor[] }>;
+}
+
 /**
  * Event emitted when an elevator is added to the service.
  */
@@ -38,6 +65,89 @@ export type ElevatorAddedEvent = { type: 'added', elevator: ElevatorId, state: E
 export type ElevatorRemovedEvent = { type: 'removed', elevator: ElevatorId }
 
 /**
- * Event emitted when an elevator is added or removed from the service.
+ * Event emitted when an elevator is taken out of service, see {@link ElevatorService.startMaintenance()}. It
+ * doesn't take new rides from now on, but it still has to finish the ones it couldn't hand off.
+ */
+export type ElevatorDrainingEvent = { type: 'draining', elevator: ElevatorId, parkAt?: Floor }
+
+/**
+ * Event emitted when an elevator which was taken out of service has finished its rides and parked.
+ */
+export type ElevatorOutOfServiceEvent = { type: 'outOfService', elevator: ElevatorId, atFloor: Floor }
+
+/**
+ * Event emitted when an elevator which was taken out of service takes rides again.
+ */
+export type ElevatorInServiceEvent = { type: 'inService', elevator: ElevatorId }
+
+/**
+ * Event emitted when an elevator is stopped, by the emergency stop or the watchdog, see {@link ElevatorService.emergencyStop()}.
+ * It doesn't take new rides until it's reset and the rides waiting for it are handed off to other elevators.
+ */
+export type ElevatorStoppedEvent = { type: 'stopped', elevator: ElevatorId, reason: FaultReason }
+
+/**
+ * Event emitted when an elevator which was stopped is reset and carries on.
+ */
+export type ElevatorResetEvent = { type: 'reset', elevator: ElevatorId }
+
+/**
+ * Event emitted when an elevator is added to or removed from the service, taken out of and put back into
+ * service, or stopped and reset.
+ */
+export type ElevatorAvailabilityEvent =
+	| ElevatorAddedEvent
+	| ElevatorRemovedEvent
+	| ElevatorDrainingEvent
+	| ElevatorOutOfServiceEvent
+	| ElevatorInServiceEvent
+	| ElevatorStoppedEvent
+	| ElevatorResetEvent
+
+/**
+ * - `inService`: takes new rides.
+ * - `draining`: taken out of service, but still finishing rides or on its way to park.
+ * - `outOfService`: parked and doing nothing.
+ */
+export type ServiceStatus = 'inService' | 'draining' | 'outOfService';
+
+/**
+ * Whether an elevator takes rides, see {@link ElevatorService.getMaintenance()}. `parkAt` is the floor an elevator
+ * which is out of service parks at, if one was chosen.
+ */
+export type MaintenanceStatus = { status: ServiceStatus, parkAt?: Floor }
+
+/**
+ * Event emitted as the elevators go on and off fire service, see {@link ElevatorService.startFireRecall()}.
+ * - `recall`: a fire alarm went off (again) and the elevators are on their way to the recall `floors`.
+ * - `recalled`: an elevator has arrived at its recall floor and opened its doors.
+ * - `firefighterStarted` / `firefighterEnded`: a firefighter took over an elevator or handed it back.
+ * - `reset`: the alarm is over and the elevators serve rides again.
+ */
+export type FireServiceEvent =
+	| { type: 'recall', alarmFloors: Floor[], floors: Record<ElevatorId, Floor>, elevator?: undefined }
+	| { type: 'recalled', elevator: ElevatorId, atFloor: Floor }
+	| { type: 'firefighterStarted', elevator: ElevatorId }
+	| { type: 'firefighterEnded', elevator: ElevatorId }
+	| { type: 'reset', elevator?: undefined }
+
+/**
+ * Whether the building is on fire service, and what each elevator is doing if so. Elevators which aren't
+ * listed serve rides as usual.
+ */
+export type FireServiceStatus = {
+	active: boolean,
+	alarmFloors: Floor[],
+	elevators: Record<ElevatorId, FireServiceMode & { recalled: boolean }>,
+}
+
+/**
+ * A ride which was moved to another elevator since the one it was assigned to was taken out of service.
+ */
+export type RideHandoff = { ride: Ride, from: ElevatorId, to: ElevatorId }
+
+/**
+ * A ride which was moved to another elevator by {@link ElevatorService.reoptimize()}. `gain` is how many
+ * milliseconds of waiting, in total, the move is expected to save.
  */
-export type ElevatorAvailabilityEvent = ElevatorAddedEvent | ElevatorRemovedEvent
+export type RideReassignment = { ride: Ride, from: ElevatorId, to: ElevatorId, gain: number }
@@ -0,0 +1,160 @@
+import { performance } from "perf_hooks";
+import { VirtualClock } from "../../infra/clock/VirtualClock";
+import type { AppOptions } from "../../options";
+import { Elevator } from "../elevator/Elevator";
+import { ElevatorStateType } from "../elevator/types";
+import { RideMetrics } from "../metrics/RideMetrics";
+import type { RideMetricsGroup } from "../metrics/types";
+import { ElevatorService } from "../services/ElevatorService";
+import type { Strategy, StrategyFactory } from "../strategies/Strategy";
+import { generateTraffic } from "./TrafficProfiles";
+import { TrafficSimulator, waitForArrivals } from "./TrafficSimulator";
+import type { SimulatedRide, TrafficProfile } from "./types";
+
+/**
+ * One of the setups being compared by {@link runBenchmark()}.
+ */
+export type BenchmarkCandidate = {
+	name: string;
+	createStrategy: StrategyFactory;
+	/** Optional. Options to change for this candidate only, e.g. `{ USE_FREE_FIRST: false }` */
+	options?: Partial<AppOptions>;
+};
+
+/**
+ * The traffic every candidate gets, see {@link generateTraffic()}.
+ */
+export type BenchmarkOptions = {
+	profile: TrafficProfile;
+	seed: number;
+	/** How long passengers keep arriving in milliseconds */
+	duration: number;
+	/** How many rides are requested on average */
+	rides: number;
+	/** Optional. How long to wait for passengers to arrive after the last request, defaults to an hour */
+	drainTime?: number;
+};
+
+/**
+ * How one candidate did. All times are in simulated milliseconds, except the CPU time of the estimations
+ * which is real time spent calculating.
+ */
+export type BenchmarkResult = {
+	name: string;
+	options: Partial<AppOptions>;
+	rides: {
+		requested: number;
+		failed: number;
+		/** Rides which were dropped off (or picked up without a dropoff) before the drain time ran out */
+		finished: number;
+	};
+	/** Wait, in-car and journey times bank-wide */
+	metrics: RideMetricsGroup;
+	/** The number of floors all elevators moved past together */
+	floorsTravelled: number;
+	/** The number of times any elevator opened its doors */
+	stops: number;
+	estimations: {
+		/** The number of estimates made, i.e. elevators asked how long a ride would take */
+		count: number;
+		cpuTime: number;
+	};
+	/** When the last passenger arrived, or the drain time ran out */
+	simulatedTime: number;
+};
+
+const DEFAULT_DRAIN_TIME = 60 * 60 * 1000;
+
+/**
+ * Compare strategies and option variants on identical traffic.
+ *
+ * The traffic is generated once from `baseOptions`, then every candidate gets a fresh set of elevators (with
+ * its own options on top of `baseOptions`) on a {@link VirtualClock} and the same rides are played into it.
+ * Candidates run one after the other so the CPU time of their estimations can be compared. Periodic
+ * re-optimisation ({@link AppOptions.REOPTIMIZE_INTERVAL}) is always off, re-optimising when an elevator
+ * is free still works.
+ *
+ * @param candidates - The setups to compare.
+ * @param baseOptions - The options all candidates share, e.g. the floors and number of elevators.
+ * @param benchmark - The traffic to play into every candidate.
+ * @returns A result per candidate, in the same order.
+ */
+export async function runBenchmark(candidates: BenchmarkCandidate[], baseOptions: AppOptions, benchmark: BenchmarkOptions): Promise<BenchmarkResult[]> {
+	const traffic = generateTraffic(benchmark.profile, { ...baseOptions, ...benchmark });
+	const results: BenchmarkResult[] = [];
+	for (const candidate of candidates) {
+		results.push(await runCandidate(candidate, baseOptions, traffic, benchmark.duration, benchmark.drainTime ?? DEFAULT_DRAIN_TIME));
+	}
+	return results;
+}
+
+async function runCandidate(candidate: BenchmarkCandidate, baseOptions: AppOptions, traffic: SimulatedRide[], duration: number, drainTime: number): Promise<BenchmarkResult> {
+	const options: AppOptions = { ...baseOptions, ...candidate.options, REOPTIMIZE_INTERVAL: 0 }; //see below
+	const clock = new VirtualClock();
+	const estimations = { count: 0, cpuTime: 0 };
+
+	const service = new ElevatorService(options, undefined, clock);
+	for (let i = 1; i <= options.NR_OF_ELEVATORS; i++) {
+		const strategy = candidate.createStrategy(options);
+		measureEstimations(strategy, estimations);
+		service.addElevator(new Elevator(`Elevator#${i}`, strategy, options, undefined, clock));
+	}
+
+	let floorsTravelled = 0;
+	let stops = 0;
+	service.on('state', ({ from, to }) => {
+		if (to.type === ElevatorStateType.MOVING_UP || to.type === ElevatorStateType.MOVING_DOWN) {
+			floorsTravelled += Math.abs(to.toFloor - to.fromFloor);
+		} else if (to.type === ElevatorStateType.DOORS_OPEN && from.type !== ElevatorStateType.DOORS_OPEN) {
+			stops++;
+		}
+	});
+	const metrics = new RideMetrics(service, clock);
+	service.start();
+
+	try {
+		const simulator = new TrafficSimulator(service, undefined, clock);
+		const running = simulator.run(traffic);
+		await clock.advanceAsync(duration);
+		const summary = await running;
+
+		//Let everyone arrive. This goes in steps so we stop as soon as they have, which means periodic
+		//re-optimisation has to be off or there would always be something left to do.
+		const inProgress = await waitForArrivals(service, clock, drainTime);
+
+		return {
+			name: candidate.name,
+			options: candidate.options ?? {},
+			rides: { requested: summary.added, failed: summary.failed, finished: summary.added - inProgress },
+			metrics: metrics.getReport().overall,
+			floorsTravelled,
+			stops,
+			estimations,
+			simulatedTime: clock.now(),
+		};
+	} finally {
+		metrics.stop();
+		service.shutdown();
+	}
+}
+
+/**
+ * Count the estimations a strategy makes and the CPU time they take. Only the synchronous part is timed,
+ * i.e. {@link Strategy.getOrderedStops()}, since the batches yield to the event loop in between.
+ */
+function measureEstimations(strategy: Strategy, estimations: BenchmarkResult['estimations']): void {
+	const estimate = strategy.estimatePickupDropoffTime.bind(strategy);
+	strategy.estimatePickupDropoffTime = (...args) => {
+		estimations.count++;
+		return estimate(...args);
+	};
+	const getOrderedStops = strategy.getOrderedStops.bind(strategy);
+	strategy.getOrderedStops = (...args) => {
+		const start = performance.now();
+		try {
+			return getOrderedStops(...args);
+		} finally {
+			estimations.cpuTime += performance.now() - start;
+		}
+	};
+}
@@ -0,0 +1,134 @@
+import { TypedEventEmitter } from "../../infra/events/TypedEventEmitter";
+import type { Logger } from "../../infra/logger/Logger";
+import type { Clock } from "../../infra/clock/Clock";
+import { ValidationError } from "../errors/ValidationErrors";
+import { CallDirection, isFloor } from "../route/Floors";
+import { RideStatus, type Ride, type RideId } from "../rides/types";
+import type { ElevatorService } from "../services/ElevatorService";
+import { TrafficSimulator } from "./TrafficSimulator";
+import type { AssignmentDiff, RecordedRide, SimulatedRide, SimulationSummary, TrafficRecorderEventMap } from "./types";
+
+/**
+ * Records every ride requested from an {@link ElevatorService} together with the elevator it was first
+ * assigned to, so the traffic can be replayed later with other strategies or options, see
+ * {@link replayRecording()}.
+ *
+ * A `record` event is emitted once a ride has been assigned (or cancelled before it was). Writing the
+ * records somewhere, e.g. one JSON object per line, is up to the listener.
+ */
+export class TrafficRecorder extends TypedEventEmitter<TrafficRecorderEventMap> {
+	/** Rides which have been requested but not assigned yet */
+	private readonly requested = new Map<RideId, RecordedRide>();
+	private readonly unsubscribe: () => void;
+
+	/**
+	 * Start recording right away.
+	 * @param service - The service whose rides to record.
+	 */
+	constructor(service: ElevatorService, logger?: Logger) {
+		super(logger);
+		this.unsubscribe = service.listen('ride', ({ from, to, ride }) => {
+			if (from === null) {
+				this.requested.set(ride.id, toRecordedRide(ride));
+				return;
+			}
+			const record = this.requested.get(ride.id);
+			if (record !== undefined && from === RideStatus.REQUESTED) {
+				this.requested.delete(ride.id);
+				this.emit('record', to === RideStatus.ASSIGNED ? { ...record, elevator: ride.elevator } : record);
+			}
+		});
+	}
+
+	/**
+	 * Stop recording. Rides which haven't been assigned yet are dropped.
+	 */
+	stop(): void {
+		this.unsubscribe();
+		this.requested.clear();
+	}
+}
+
+function toRecordedRide(ride: Ride): RecordedRide {
+	return {
+		time: ride.requestedAt,
+		pickup: ride.pickup,
+		...(ride.dropoff !== undefined && { dropoff: ride.dropoff }),
+		...(ride.direction !== undefined && { direction: ride.direction }),
+		ride: ride.id,
+	};
+}
+
+/**
+ * Check that a value read from a recording is a {@link RecordedRide}. The floors are only checked to be
+ * floors, since a recording can be replayed in another building.
+ * @param value - The parsed JSON of one line.
+ * @param index - The position of the value in the recording, starting at 0, for the error message.
+ * @throws A {@link ValidationError} if it isn't.
+ */
+export function parseRecordedRide(value: unknown, index: number): RecordedRide {
+	const record = value as Partial<RecordedRide> | null;
+	const valid = typeof record === 'object' && record !== null
+		&& typeof record.time === 'number'
+		&& isFloor(record.pickup)
+		&& (record.dropoff === undefined || isFloor(record.dropoff))
+		&& (record.direction === undefined || Object.values(CallDirection).includes(record.direction))
+		&& typeof record.ride === 'string'
+		&& (record.elevator === undefined || typeof record.elevator === 'string');
+	if (!valid) {
+		throw new ValidationError(value, `Ride ${index + 1} of the recording is not a recorded ride`);
+	}
+	return record as RecordedRide;
+}
+
+/**
+ * Turn a recording into traffic for the {@link TrafficSimulator}, keeping the time between rides.
+ *
+ * NOTE: Rides are recorded when they're assigned, which isn't always in the order they were requested,
+ * so the traffic has to be sorted by time before it's played.
+ *
+ * @param recording - The recorded rides.
+ * @returns One ride per recorded ride in the same order, with times relative to the earliest one.
+ */
+export function toTraffic(recording: RecordedRide[]): SimulatedRide[] {
+	const startTime = Math.min(...recording.map(({ time }) => time));
+	return recording.map(({ time, pickup, dropoff, direction }) => ({
+		time: time - startTime,
+		pickup,
+		...(dropoff !== undefined && { dropoff }),
+		...(direction !== undefined && { direction }),
+	}));
+}
+
+/**
+ * Compare the elevators rides were assigned to when recorded and replayed.
+ * @param recording - The recorded rides.
+ * @param replayed - The replayed rides in the same order, undefined for rides which failed.
+ */
+export function diffAssignments(recording: RecordedRide[], replayed: Array<Ride | undefined>): AssignmentDiff {
+	const changed = recording
+		.map((recorded, index) => ({ index, recorded, ...(replayed[index] !== undefined && { replayed: replayed[index] }) }))
+		.filter(({ recorded, replayed }) => recorded.elevator !== replayed?.elevator);
+	return { total: recording.length, same: recording.length - changed.length, changed };
+}
+
+/**
+ * Request the rides of a recording from a service with the same time between them as when they were
+ * recorded. How fast that goes depends on the clock, e.g. a {@link ScaledClock} or a {@link VirtualClock}
+ * to replay as fast as possible.
+ * @param recording - The recorded rides, see {@link toTraffic()}.
+ * @param service - Usually a fresh service with other strategies or options than the recorded one.
+ * @param clock - The clock the service uses.
+ * @returns Once every ride has been requested, what happened and how the assignments differ.
+ */
+export async function replayRecording(recording: RecordedRide[], service: ElevatorService, clock: Clock): Promise<{ summary: SimulationSummary, diff: AssignmentDiff }> {
+	const traffic = toTraffic(recording);
+	const indexes = new Map(traffic.map((request, index) => [request, index]));
+	const replayed: Array<Ride | undefined> = [];
+	const simulator = new TrafficSimulator(service, undefined, clock);
+	simulator.on('added', ({ request, ride }) => {
+		replayed[indexes.get(request)!] = ride; //every request comes from the traffic
+	});
+	const summary = await simulator.play([...traffic].sort((a, b) => a.time - b.time));
+	return { summary, diff: diffAssignments(recording, replayed) };
+}
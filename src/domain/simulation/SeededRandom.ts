@@ -0,0 +1,59 @@
+/**
+ * A pseudo random number generator which always returns the same numbers for the same seed, so
+ * simulations can be reproduced and compared. Uses the mulberry32 algorithm, which is small, fast and
+ * more than random enough for generating traffic (but not for anything security related).
+ */
+export class SeededRandom {
+	private state: number;
+
+	/**
+	 * @param seed - Any integer. Only the lower 32 bits are used.
+	 */
+	constructor(public readonly seed: number) {
+		this.state = seed >>> 0;
+	}
+
+	/**
+	 * Get a random number in the range [0, 1), like `Math.random()`.
+	 */
+	next(): number {
+		this.state = (this.state + 0x6D2B79F5) >>> 0;
+		let t = this.state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	}
+
+	/**
+	 * Get a random integer in the range [min, max] (both inclusive).
+	 */
+	integer(min: number, max: number): number {
+		return Math.floor(this.next() * (max - min + 1)) + min;
+	}
+
+	/**
+	 * Get a random number from an exponential distribution, e.g. the time between two arrivals in a
+	 * Poisson process.
+	 * @param mean - The average of the numbers returned.
+	 */
+	exponential(mean: number): number {
+		return -mean * Math.log(1 - this.next()); //1 - next() is never 0
+	}
+
+	/**
+	 * Pick one of several values where some are more likely than others.
+	 * @param weighted - The values and their weights, which don't have to add up to 1.
+	 * @returns One of the values, or undefined if there are none or all weights are 0.
+	 */
+	pick<T>(weighted: Array<[T, number]>): T | undefined {
+		const total = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+		let remaining = this.next() * total;
+		for (const [value, weight] of weighted) {
+			remaining -= weight;
+			if (weight > 0 && remaining < 0) {
+				return value;
+			}
+		}
+		return undefined;
+	}
+}
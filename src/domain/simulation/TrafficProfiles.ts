@@ -0,0 +1,110 @@
+import type { AppOptions } from "../../options";
+import { ValidationError } from "../errors/ValidationErrors";
+import type { Floor } from "../route/Floors";
+import { SeededRandom } from "./SeededRandom";
+import type { SimulatedRide, TrafficProfile, TrafficProfileName } from "./types";
+
+/**
+ * The built-in traffic profiles, roughly following the classic traffic patterns of an office building.
+ */
+export const TRAFFIC_PROFILES: Readonly<Record<TrafficProfileName, TrafficProfile>> = {
+	uppeak: {
+		name: 'uppeak',
+		description: 'Morning rush, almost everyone arrives at the lobby and goes up',
+		incoming: 0.85, outgoing: 0.05, interfloor: 0.10,
+	},
+	lunch: {
+		name: 'lunch',
+		description: 'Lunch hour, people leave and come back through the lobby at the same time',
+		incoming: 0.40, outgoing: 0.40, interfloor: 0.20,
+	},
+	downpeak: {
+		name: 'downpeak',
+		description: 'Evening rush, almost everyone goes down to the lobby and leaves',
+		incoming: 0.05, outgoing: 0.85, interfloor: 0.10,
+	},
+	interfloor: {
+		name: 'interfloor',
+		description: 'The middle of the day, mostly people going between floors',
+		incoming: 0.10, outgoing: 0.10, interfloor: 0.80,
+	},
+};
+
+/**
+ * Get one of the built-in traffic profiles.
+ * @param name - The name of the profile, usually from user input.
+ * @throws A {@link ValidationError} if there is no profile with that name.
+ */
+export function getTrafficProfile(name: unknown): TrafficProfile {
+	if (typeof name !== 'string' || !Object.keys(TRAFFIC_PROFILES).includes(name)) {
+		throw new ValidationError(name, `Unknown traffic profile, expected one of: ${Object.keys(TRAFFIC_PROFILES).join(', ')}`);
+	}
+	return TRAFFIC_PROFILES[name as TrafficProfileName];
+}
+
+/**
+ * Options for {@link generateTraffic()}. The lobby is {@link AppOptions.INITIAL_FLOOR}.
+ */
+export type TrafficOptions = Pick<AppOptions, 'MIN_FLOOR' | 'MAX_FLOOR' | 'INITIAL_FLOOR'> & {
+	/** The seed of the random numbers, the same seed (and options) always gives the same traffic */
+	seed: number;
+	/** How long the traffic goes on for in milliseconds */
+	duration: number;
+	/** How many rides are requested on average during the whole duration */
+	rides: number;
+};
+
+/**
+ * Generate the passengers arriving during a period of time.
+ *
+ * Arrivals are a Poisson process, i.e. the time between two passengers is exponentially distributed,
+ * which is how independent people show up in real life. That means the actual number of rides varies
+ * around {@link TrafficOptions.rides} from one seed to the next. Floors other than the lobby are equally
+ * likely.
+ *
+ * @param profile - The kind of traffic to generate.
+ * @param options - The floors, seed, duration and number of rides.
+ * @returns The rides sorted by time, in whole milliseconds. Pickup and dropoff are never the same floor.
+ * @throws A {@link ValidationError} if there are less than 2 floors, or the duration or number of rides is negative.
+ */
+export function generateTraffic(profile: TrafficProfile, options: TrafficOptions): SimulatedRide[] {
+	const { MIN_FLOOR, MAX_FLOOR, seed, duration, rides } = options;
+	if (MAX_FLOOR - MIN_FLOOR < 1) {
+		throw new ValidationError(MAX_FLOOR - MIN_FLOOR + 1, 'Need at least 2 floors to generate traffic', { options });
+	}
+	if (!(duration >= 0) || !(rides >= 0)) {
+		throw new ValidationError({ duration, rides }, 'Duration and number of rides can not be negative', { options });
+	}
+	const lobby = Math.min(Math.max(options.INITIAL_FLOOR, MIN_FLOOR), MAX_FLOOR);
+	const random = new SeededRandom(seed);
+
+	//Any floor but the ones given
+	const otherFloor = (...not: Floor[]): Floor => {
+		let floor: Floor;
+		do {
+			floor = random.integer(MIN_FLOOR, MAX_FLOOR);
+		} while (not.includes(floor));
+		return floor;
+	};
+	const hasInterfloor = MAX_FLOOR - MIN_FLOOR >= 2; //needs 2 floors other than the lobby
+
+	const traffic: SimulatedRide[] = [];
+	const meanGap = rides > 0 ? duration / rides : Infinity;
+	for (let exactTime = random.exponential(meanGap); exactTime < duration; exactTime += random.exponential(meanGap)) {
+		const time = Math.floor(exactTime); //whole milliseconds like every other time
+		const type = random.pick<keyof Omit<TrafficProfile, 'name' | 'description'>>([
+			['incoming', profile.incoming],
+			['outgoing', profile.outgoing],
+			['interfloor', hasInterfloor ? profile.interfloor : 0],
+		]) ?? 'incoming';
+		if (type === 'incoming') {
+			traffic.push({ time, pickup: lobby, dropoff: otherFloor(lobby) });
+		} else if (type === 'outgoing') {
+			traffic.push({ time, pickup: otherFloor(lobby), dropoff: lobby });
+		} else {
+			const pickup = otherFloor(lobby);
+			traffic.push({ time, pickup, dropoff: otherFloor(lobby, pickup) });
+		}
+	}
+	return traffic;
+}
@@ -0,0 +1,121 @@
+import { TypedEventEmitter } from "../../infra/events/TypedEventEmitter";
+import type { Logger } from "../../infra/logger/Logger";
+import type { Clock } from "../../infra/clock/Clock";
+import { RealClock } from "../../infra/clock/RealClock";
+import { VirtualClock } from "../../infra/clock/VirtualClock";
+import { isRideFinished } from "../rides/RideTracker";
+import type { ElevatorService } from "../services/ElevatorService";
+import type { SimulatedRide, SimulationSummary, TrafficSimulatorEventMap } from "./types";
+
+/**
+ * Plays traffic (usually from {@link generateTraffic()}) into an {@link ElevatorService}, requesting each
+ * ride when its time comes. Every ride emits `added` or `failed`.
+ *
+ * With a {@link VirtualClock} (the same one the elevators use) the whole run takes as long as the clock
+ * is advanced for, so it can be used from tests and benchmarks.
+ *
+ * @example
+ * ```typescript
+ * const traffic = generateTraffic(getTrafficProfile('uppeak'), { ...options, seed: 42, duration: 60000, rides: 100 });
+ * const summary = await new TrafficSimulator(service).run(traffic);
+ * ```
+ */
+export class TrafficSimulator extends TypedEventEmitter<TrafficSimulatorEventMap> {
+	private running = false;
+
+	constructor(
+		private readonly service: ElevatorService
+		, logger?: Logger
+		, private readonly clock: Clock = new RealClock()
+	) {
+		super(logger);
+	}
+
+	/**
+	 * Request every ride at its time, relative to now. Rides are requested one at a time, so a ride can be
+	 * a little late if the one before it took long to assign.
+	 * @param traffic - The rides, sorted by time.
+	 * @returns How many rides were added and how many failed once they've all been requested.
+	 */
+	async run(traffic: SimulatedRide[]): Promise<SimulationSummary> {
+		const summary: SimulationSummary = { added: 0, failed: 0, stopped: false };
+		const startTime = this.clock.now();
+		this.running = true;
+		try {
+			for (const request of traffic) {
+				const wait = request.time - (this.clock.now() - startTime);
+				if (wait > 0) {
+					await this.clock.sleep(wait);
+				}
+				if (!this.running) {
+					summary.stopped = true;
+					break;
+				}
+				try {
+					const ride = await this.service.addRide(request.pickup, request.dropoff, request.direction);
+					summary.added++;
+					this.emit('added', { request, ride });
+				} catch (error) {
+					summary.failed++;
+					this.emit('failed', { request, error });
+				}
+			}
+		} finally {
+			this.running = false;
+		}
+		return summary;
+	}
+
+	/**
+	 * Same as {@link run()}, but when the clock is a {@link VirtualClock} it's also moved forward until the
+	 * last ride has been requested, so this can be awaited no matter which clock is used.
+	 */
+	async play(traffic: SimulatedRide[]): Promise<SimulationSummary> {
+		const running = this.run(traffic);
+		if (this.clock instanceof VirtualClock) {
+			await this.clock.advanceAsync(traffic.at(-1)?.time ?? 0);
+		}
+		return running;
+	}
+
+	/**
+	 * Check if a simulation is running.
+	 */
+	isRunning(): boolean {
+		return this.running;
+	}
+
+	/**
+	 * Stop the simulation before the next ride is requested.
+	 */
+	stop(): void {
+		this.running = false;
+	}
+}
+
+/**
+ * How often {@link waitForArrivals()} checks if everyone has arrived, in milliseconds.
+ */
+const ARRIVAL_CHECK_INTERVAL = 10 * 1000;
+
+/**
+ * Wait until every ride of a service has finished, e.g. after running a simulation. A {@link VirtualClock}
+ * is moved forward, any other clock is waited on.
+ * @param service - The service whose rides to wait for.
+ * @param clock - The clock the service uses.
+ * @param maxTime - The longest to wait in milliseconds, in case some rides never finish.
+ * @returns The number of rides still in progress, 0 if everyone arrived in time.
+ */
+export async function waitForArrivals(service: ElevatorService, clock: Clock, maxTime: number): Promise<number> {
+	const inProgress = () => service.listRides().filter(ride => !isRideFinished(ride)).length;
+	const until = clock.now() + maxTime;
+	while (inProgress() > 0 && clock.now() < until) {
+		const step = Math.min(ARRIVAL_CHECK_INTERVAL, until - clock.now());
+		if (clock instanceof VirtualClock) {
+			await clock.advanceAsync(step);
+		} else {
+			await clock.sleep(step);
+		}
+	}
+	return inProgress();
+}
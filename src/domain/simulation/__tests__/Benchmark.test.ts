@@ -0,0 +1,55 @@
+import { BenchmarkCandidate, BenchmarkOptions, runBenchmark } from '../Benchmark';
+import { TRAFFIC_PROFILES } from '../TrafficProfiles';
+import { InsertOrder } from '../../strategies/InsertOrder';
+import { Collective } from '../../strategies/Collective';
+import { AppOptions, defaultOptions } from '../../../options';
+
+const options: AppOptions = {
+	...defaultOptions,
+	MIN_FLOOR: 0,
+	MAX_FLOOR: 15,
+	INITIAL_FLOOR: 0,
+	NR_OF_ELEVATORS: 2,
+	ESTIMATION_LIMIT: 100000,
+	REOPTIMIZE_WHEN_FREE: false,
+};
+
+const benchmark: BenchmarkOptions = {
+	profile: TRAFFIC_PROFILES.lunch,
+	seed: 7,
+	duration: 10 * 60 * 1000,
+	rides: 60,
+};
+
+const candidates: BenchmarkCandidate[] = [
+	{ name: 'InsertOrder', createStrategy: (options) => new InsertOrder(options) },
+	{ name: 'Collective', createStrategy: (options) => new Collective(options) },
+	{ name: 'Collective x1', createStrategy: (options) => new Collective(options), options: { NR_OF_ELEVATORS: 1 } },
+];
+
+describe('Benchmark', () => {
+	it('should run every candidate on the same traffic until everyone has arrived', async () => {
+		const results = await runBenchmark(candidates, options, benchmark);
+
+		expect(results.map(result => result.name)).toEqual(['InsertOrder', 'Collective', 'Collective x1']);
+		const requested = results[0].rides.requested;
+		expect(requested).toBeGreaterThan(40);
+		for (const result of results) {
+			expect(result.rides).toEqual({ requested, failed: 0, finished: requested });
+			expect(result.metrics.journey.count).toBe(requested);
+			expect(result.floorsTravelled).toBeGreaterThan(0);
+			expect(result.stops).toBeGreaterThan(0);
+			expect(result.simulatedTime).toBeGreaterThanOrEqual(benchmark.duration);
+		}
+		//One elevator is busier, so it has to estimate and passengers have to wait
+		expect(results[2].options).toEqual({ NR_OF_ELEVATORS: 1 });
+		expect(results[2].metrics.wait.mean).toBeGreaterThan(results[1].metrics.wait.mean);
+		expect(results[2].estimations.count).toBeGreaterThan(0);
+	});
+
+	it('should give the same results for the same seed, apart from the CPU time', async () => {
+		const withoutCpuTime = async () => (await runBenchmark(candidates.slice(1, 2), options, benchmark))
+			.map(({ estimations, ...result }) => ({ ...result, estimations: estimations.count }));
+		expect(await withoutCpuTime()).toEqual(await withoutCpuTime());
+	});
+});
@@ -0,0 +1,108 @@
+import { diffAssignments, parseRecordedRide, replayRecording, toTraffic, TrafficRecorder } from '../Recording';
+import { TrafficSimulator, waitForArrivals } from '../TrafficSimulator';
+import { generateTraffic, TRAFFIC_PROFILES } from '../TrafficProfiles';
+import { RecordedRide } from '../types';
+import { ElevatorService } from '../../services/ElevatorService';
+import { Elevator } from '../../elevator/Elevator';
+import { Collective } from '../../strategies/Collective';
+import { InsertOrder } from '../../strategies/InsertOrder';
+import { StrategyFactory } from '../../strategies/Strategy';
+import { ValidationError } from '../../errors/ValidationErrors';
+import { CallDirection } from '../../route/Floors';
+import { AppOptions, defaultOptions } from '../../../options';
+import { VirtualClock } from '../../../infra/clock/VirtualClock';
+
+const options: AppOptions = {
+	...defaultOptions,
+	MIN_FLOOR: 0,
+	MAX_FLOOR: 15,
+	INITIAL_FLOOR: 0,
+	ESTIMATION_LIMIT: 100000,
+	REOPTIMIZE_WHEN_FREE: false,
+};
+
+function createService(clock: VirtualClock, createStrategy: StrategyFactory): ElevatorService {
+	const service = new ElevatorService(options, undefined, clock);
+	for (let i = 1; i <= 3; i++) {
+		service.addElevator(new Elevator(`Elevator#${i}`, createStrategy(options), options, undefined, clock));
+	}
+	service.start();
+	return service;
+}
+
+describe('Recording', () => {
+	const recorded: RecordedRide = { time: 5000, pickup: 0, dropoff: 5, ride: 'Ride#1', elevator: 'Elevator#1' };
+
+	it('should record every ride with the elevator it was assigned to and replay it', async () => {
+		const clock = new VirtualClock(1000000);
+		const service = createService(clock, (o) => new Collective(o));
+		const recording: RecordedRide[] = [];
+		const recorder = new TrafficRecorder(service);
+		recorder.on('record', (ride) => recording.push(ride));
+
+		const traffic = generateTraffic(TRAFFIC_PROFILES.lunch, { ...options, seed: 7, duration: 5 * 60 * 1000, rides: 30 });
+		await new TrafficSimulator(service, undefined, clock).play(traffic);
+		await waitForArrivals(service, clock, 60 * 60 * 1000);
+		recorder.stop();
+		service.shutdown();
+
+		expect(recording).toHaveLength(traffic.length);
+		expect(recording.every(ride => ride.elevator !== undefined)).toBe(true);
+		//The service adds the direction of each ride
+		expect(toTraffic(recording).sort((a, b) => a.time - b.time)).toMatchObject(traffic.map(ride => ({ ...ride, time: ride.time - traffic[0].time })));
+
+		//The same strategy makes the same decisions...
+		const sameClock = new VirtualClock();
+		const same = createService(sameClock, (o) => new Collective(o));
+		const { summary, diff } = await replayRecording(recording, same, sameClock);
+		same.shutdown();
+		expect(summary).toEqual({ added: traffic.length, failed: 0, stopped: false });
+		expect(diff).toEqual({ total: traffic.length, same: traffic.length, changed: [] });
+
+		//...another one doesn't
+		const otherClock = new VirtualClock();
+		const other = createService(otherClock, (o) => new InsertOrder(o));
+		const { diff: otherDiff } = await replayRecording(recording, other, otherClock);
+		other.shutdown();
+		expect(otherDiff.same + otherDiff.changed.length).toBe(traffic.length);
+		for (const { index, recorded, replayed } of otherDiff.changed) {
+			expect(recorded).toBe(recording[index]);
+			expect(replayed).toMatchObject({ pickup: recorded.pickup, dropoff: recorded.dropoff });
+			expect(replayed?.elevator).not.toBe(recorded.elevator);
+		}
+	});
+
+	it('should list rides which were assigned elsewhere or failed', () => {
+		const second: RecordedRide = { time: 6000, pickup: 3, ride: 'Ride#2', elevator: 'Elevator#2' };
+		const third: RecordedRide = { time: 7000, pickup: 9, direction: CallDirection.DOWN, ride: 'Ride#3', elevator: 'Elevator#1' };
+		const replayed = [
+			{ id: 'Ride#1', elevator: 'Elevator#1' },
+			{ id: 'Ride#2', elevator: 'Elevator#3' },
+			undefined,
+		] as Parameters<typeof diffAssignments>[1];
+
+		expect(diffAssignments([recorded, second, third], replayed)).toEqual({
+			total: 3,
+			same: 1,
+			changed: [
+				{ index: 1, recorded: second, replayed: replayed[1] },
+				{ index: 2, recorded: third },
+			],
+		});
+	});
+
+	it('should keep the order of the recording and the time between rides', () => {
+		const earlier: RecordedRide = { time: 2000, pickup: 7, direction: CallDirection.UP, ride: 'Ride#2' };
+		expect(toTraffic([recorded, earlier])).toEqual([
+			{ time: 3000, pickup: 0, dropoff: 5 },
+			{ time: 0, pickup: 7, direction: CallDirection.UP },
+		]);
+	});
+
+	it('should only parse recorded rides', () => {
+		expect(parseRecordedRide(recorded, 0)).toEqual(recorded);
+		expect(() => parseRecordedRide({ ...recorded, pickup: 'lobby' }, 0)).toThrow(ValidationError);
+		expect(() => parseRecordedRide({ ...recorded, direction: 'sideways' }, 0)).toThrow(ValidationError);
+		expect(() => parseRecordedRide(null, 4)).toThrow('Ride 5 of the recording is not a recorded ride');
+	});
+});
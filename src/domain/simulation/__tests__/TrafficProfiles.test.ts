@@ -0,0 +1,61 @@
+import { generateTraffic, getTrafficProfile, TrafficOptions, TRAFFIC_PROFILES } from '../TrafficProfiles';
+import { SeededRandom } from '../SeededRandom';
+import { ValidationError } from '../../errors/ValidationErrors';
+import type { SimulatedRide } from '../types';
+
+const options: TrafficOptions = {
+	MIN_FLOOR: -2,
+	MAX_FLOOR: 20,
+	INITIAL_FLOOR: 0,
+	seed: 42,
+	duration: 60 * 60 * 1000,
+	rides: 1000,
+};
+
+describe('Traffic profiles', () => {
+	it('should generate the same numbers and traffic for the same seed', () => {
+		const numbers = (seed: number) => Array.from({ length: 5 }, (random => () => random.next())(new SeededRandom(seed)));
+		expect(numbers(1)).toEqual(numbers(1));
+		expect(numbers(1)).not.toEqual(numbers(2));
+
+		const traffic = generateTraffic(TRAFFIC_PROFILES.lunch, options);
+		expect(generateTraffic(TRAFFIC_PROFILES.lunch, options)).toEqual(traffic);
+		expect(generateTraffic(TRAFFIC_PROFILES.lunch, { ...options, seed: 43 })).not.toEqual(traffic);
+	});
+
+	it('should only generate rides between two different floors in the range, sorted by time', () => {
+		const traffic = generateTraffic(TRAFFIC_PROFILES.interfloor, options);
+		expect(traffic.every(({ pickup, dropoff }) => pickup !== dropoff)).toBe(true);
+		expect(traffic.every(({ pickup, dropoff }) => [pickup, dropoff].every(floor => floor !== undefined && floor >= -2 && floor <= 20))).toBe(true);
+		expect(traffic.every(({ time }, i) => time >= (traffic[i - 1]?.time ?? 0) && time < options.duration)).toBe(true);
+	});
+
+	/**
+	 * With a Poisson process the number of rides varies, but with 1000 expected it's almost always
+	 * within 10% (the standard deviation is about 32).
+	 */
+	it('should generate about as many rides as asked for', () => {
+		for (const seed of [1, 2, 3]) {
+			const { length } = generateTraffic(TRAFFIC_PROFILES.uppeak, { ...options, seed });
+			expect(length).toBeGreaterThan(900);
+			expect(length).toBeLessThan(1100);
+		}
+		expect(generateTraffic(TRAFFIC_PROFILES.uppeak, { ...options, rides: 0 })).toEqual([]);
+	});
+
+	it('should send most people up from the lobby in the morning and down to it in the evening', () => {
+		const share = (name: 'uppeak' | 'downpeak' | 'interfloor', test: (ride: SimulatedRide) => boolean) => {
+			const traffic = generateTraffic(getTrafficProfile(name), options);
+			return traffic.filter(test).length / traffic.length;
+		};
+		expect(share('uppeak', ride => ride.pickup === 0)).toBeGreaterThan(0.8);
+		expect(share('downpeak', ride => ride.dropoff === 0)).toBeGreaterThan(0.8);
+		expect(share('interfloor', ride => ride.pickup !== 0 && ride.dropoff !== 0)).toBeGreaterThan(0.7);
+	});
+
+	it('should reject unknown profiles and buildings with a single floor', () => {
+		expect(() => getTrafficProfile('rush')).toThrow(ValidationError);
+		expect(() => getTrafficProfile('toString')).toThrow(ValidationError);
+		expect(() => generateTraffic(TRAFFIC_PROFILES.uppeak, { ...options, MIN_FLOOR: 0, MAX_FLOOR: 0 })).toThrow(ValidationError);
+	});
+});
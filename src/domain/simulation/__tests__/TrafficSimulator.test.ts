@@ -0,0 +1,64 @@
+import { TrafficSimulator } from '../TrafficSimulator';
+import { generateTraffic, TRAFFIC_PROFILES } from '../TrafficProfiles';
+import { ElevatorService } from '../../services/ElevatorService';
+import { Elevator } from '../../elevator/Elevator';
+import { Collective } from '../../strategies/Collective';
+import { RideStatus } from '../../rides/types';
+import { AppOptions, defaultOptions } from '../../../options';
+import { VirtualClock } from '../../../infra/clock/VirtualClock';
+
+const options: AppOptions = {
+	...defaultOptions,
+	MIN_FLOOR: 0,
+	MAX_FLOOR: 15,
+	INITIAL_FLOOR: 0,
+	ESTIMATION_LIMIT: 100000,
+	REOPTIMIZE_WHEN_FREE: false,
+};
+
+describe('TrafficSimulator', () => {
+	let clock: VirtualClock;
+	let service: ElevatorService;
+
+	beforeEach(() => {
+		clock = new VirtualClock();
+		service = new ElevatorService(options, undefined, clock);
+		for (let i = 1; i <= 3; i++) {
+			service.addElevator(new Elevator(`Elevator#${i}`, new Collective(options), options, undefined, clock));
+		}
+		service.start();
+	});
+
+	afterEach(() => {
+		service.shutdown();
+	});
+
+	it('should request each ride at its time and emit what happened to it', async () => {
+		const traffic = generateTraffic(TRAFFIC_PROFILES.uppeak, { ...options, seed: 42, duration: 10 * 60 * 1000, rides: 50 });
+		const simulator = new TrafficSimulator(service, undefined, clock);
+		const added: number[] = [];
+		simulator.on('added', ({ request, ride }) => {
+			added.push(clock.now());
+			expect(ride).toMatchObject({ pickup: request.pickup, dropoff: request.dropoff, requestedAt: clock.now() });
+		});
+
+		const running = simulator.run(traffic);
+		await clock.advanceAsync(10 * 60 * 1000);
+		expect(await running).toEqual({ added: traffic.length, failed: 0, stopped: false });
+		expect(added).toEqual(traffic.map(({ time }) => time));
+
+		await clock.advanceAsync(10 * 60 * 1000);
+		expect(service.listRides().every(ride => ride.status === RideStatus.DROPPED_OFF)).toBe(true);
+	});
+
+	it('should stop before the next ride', async () => {
+		const traffic = [{ time: 1000, pickup: 0, dropoff: 5 }, { time: 2000, pickup: 5, dropoff: 0 }];
+		const simulator = new TrafficSimulator(service, undefined, clock);
+		simulator.on('added', () => simulator.stop());
+
+		const running = simulator.run(traffic);
+		await clock.advanceAsync(5000);
+		expect(await running).toEqual({ added: 1, failed: 0, stopped: true });
+		expect(simulator.isRunning()).toBe(false);
+	});
+});
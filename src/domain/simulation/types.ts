@@ -0,0 +1,93 @@
+import type { ElevatorId } from "../elevator/Elevator";
+import type { CallDirection, Floor } from "../route/Floors";
+import type { Ride, RideId } from "../rides/types";
+
+/**
+ * The names of the built-in traffic profiles, see {@link TRAFFIC_PROFILES}.
+ */
+export type TrafficProfileName = 'uppeak' | 'lunch' | 'downpeak' | 'interfloor';
+
+/**
+ * What the traffic in a building looks like at some time of day. Every passenger either comes in
+ * through the lobby (incoming), leaves through it (outgoing) or goes between two other floors
+ * (interfloor). The shares are relative to each other and don't have to add up to 1.
+ */
+export type TrafficProfile = {
+	name: TrafficProfileName;
+	description: string;
+	incoming: number;
+	outgoing: number;
+	interfloor: number;
+};
+
+/**
+ * A passenger generated by {@link generateTraffic()} or taken from a recording, see {@link toTraffic()}.
+ */
+export type SimulatedRide = {
+	/** When the passenger pushes the button, in milliseconds since the simulation started */
+	time: number;
+	pickup: Floor;
+	dropoff?: Floor;
+	direction?: CallDirection;
+};
+
+/**
+ * A ride requested from a live {@link ElevatorService}, as written by the {@link TrafficRecorder}. One of
+ * these per line makes a recording.
+ */
+export type RecordedRide = {
+	/** When the ride was requested, in milliseconds since epoch */
+	time: number;
+	pickup: Floor;
+	dropoff?: Floor;
+	direction?: CallDirection;
+	ride: RideId;
+	/** The elevator which was assigned first, not set if none was */
+	elevator?: ElevatorId;
+};
+
+/**
+ * A recorded ride which was assigned to another elevator when it was replayed, see {@link diffAssignments()}.
+ */
+export type AssignmentChange = {
+	/** The line of the ride in the recording, starting at 0 */
+	index: number;
+	recorded: RecordedRide;
+	/** The ride when it was replayed, not set if the replay failed to request it */
+	replayed?: Ride;
+};
+
+/**
+ * The assignment decisions of a replay compared to the ones in the recording.
+ */
+export type AssignmentDiff = {
+	total: number;
+	same: number;
+	/** Every ride which got another elevator, or none, when replayed */
+	changed: AssignmentChange[];
+};
+
+/**
+ * A map of events and their single argument emitted by the {@link TrafficRecorder}.
+ */
+export type TrafficRecorderEventMap = {
+	record: RecordedRide;
+};
+
+/**
+ * A map of events and their single argument emitted by the {@link TrafficSimulator}.
+ */
+export type TrafficSimulatorEventMap = {
+	added: { request: SimulatedRide, ride: Ride };
+	failed: { request: SimulatedRide, error: unknown };
+};
+
+/**
+ * What happened during a run of the {@link TrafficSimulator}.
+ */
+export type SimulationSummary = {
+	added: number;
+	failed: number;
+	/** True if the simulation was stopped before all rides had been requested */
+	stopped: boolean;
+};
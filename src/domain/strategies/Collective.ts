@@ -0,0 +1,158 @@
+import { ElevatorRoute } from "../route/ElevatorRoute";
+import { CallDirection, Floor } from "../route/Floors";
+import { StopEarly, Strategy } from "./Strategy";
+
+/**
+ * The direction of travel. 0 means we haven't moved yet so any direction goes.
+ */
+export type Direction = 1 | -1 | 0;
+
+/**
+* The classic "collective" elevator algorithm (aka LOOK, a variant of SCAN). This strategy will:
+*  - Keep travelling in the same direction as long as there is a pushed button ahead of us,
+*    stopping at each one on the way in floor order (not insert order).
+*  - Reverse once there is nothing left ahead and do the same thing in the other direction.
+*  - Only consider pushed buttons (i.e. {@link Floor}s on the route). Dropoffs which are waiting
+*    on a pickup (i.e. {@link ConditionalFloor}s) aren't buttons until we've made the pickup, so
+*    they're never visited before it.
+*  - Pass hall calls going the other way, e.g. a down call while going up, unless it's the last
+*    button ahead of us in which case we turn around there and pick them up.
+*
+* Unlike the other strategies this one has state: it remembers which direction the elevator is
+* travelling in, which is updated every time {@link getNrFloorsToMove()} is called. That means
+* every elevator needs its own instance.
+*/
+export class Collective extends Strategy {
+
+	private direction: Direction = 0;
+
+	/**
+	 * The direction we ended up travelling in when simulating a journey on a route. Since
+	 * {@link batchedGetOrderedStops()} calls {@link getOrderedStops()} multiple times on the same route
+	 * we need to pick up where we left off, or we'd turn around between batches.
+	 */
+	private readonly simulatedDirections = new WeakMap<ElevatorRoute, Direction>();
+
+	getOrderedStops(route: ElevatorRoute, currentFloor: number, targetFloor?: number, stopEarly?: StopEarly, targetDirection?: CallDirection): number[] {
+
+		//Initialize the list of stops to return.
+		const stops: number[] = [];
+
+		//If a target floor was provided...
+		if (typeof targetFloor == 'number') {
+			// ...we add it to the route to make sure we stop at it (if it's already
+			// in the set it doesn't change anything).
+			route.addRide(targetFloor, undefined, targetDirection) //floor validated inside
+		}
+
+		//This is called to simulate journeys so we start with the real direction, but we don't change it
+		let direction = this.simulatedDirections.get(route) ?? this.direction;
+
+		//Every loop visits one floor, which only adds floors when dropoffs become buttons, so this ends
+		let nextStop: Floor | undefined;
+		while ((nextStop = this.getNextStop(route, currentFloor, direction)) !== undefined) {
+			if (nextStop !== currentFloor) {
+				direction = nextStop > currentFloor ? 1 : -1;
+			}
+			currentFloor = nextStop;
+
+			//Leaving the other way means we turn around here
+			const departure = this.getDeparture(route, nextStop, direction);
+			if (departure !== undefined) {
+				direction = toDirection(departure);
+			}
+
+			stops.push(nextStop);
+			route.visitNow(nextStop, departure);
+			if (stopEarly?.(nextStop, stops)) break;
+			if (nextStop === targetFloor && (targetDirection ?? departure) === departure) break; //when target is undefined this never happens
+		}
+		this.simulatedDirections.set(route, direction);
+		return stops;
+	}
+
+	getNrFloorsToMove(route: ElevatorRoute, currentFloor: number): number {
+		const nextStop = this.getNextStop(route, currentFloor, this.direction);
+		if (nextStop === undefined || nextStop === currentFloor) {
+			this.logger?.warn(`No floors to move from ${currentFloor}, returning 0`);
+			return 0;
+		}
+		this.direction = nextStop > currentFloor ? 1 : -1;
+		return this.direction;
+	}
+
+	shouldStopAt(route: ElevatorRoute, floor: Floor): boolean {
+		return this.getNextStop(route, floor, this.direction) === floor;
+	}
+
+	getDepartureDirection(route: ElevatorRoute, floor: Floor): CallDirection | undefined {
+		return this.getDeparture(route, floor, this.direction);
+	}
+
+	/**
+	 * Get the pushed button to stop at next.
+	 * @param route - The route which will NOT be consumed.
+	 * @param currentFloor - The floor the elevator is at.
+	 * @param direction - The direction we're travelling in.
+	 * @returns The closest button ahead of us (the current floor included) which has a car call or a hall call
+	 *  going our way, or the farthest button ahead of us if none do. If nothing is ahead we turn around and do the
+	 *  same. If we haven't got a direction it's the closest one, preferring up. Undefined if no buttons are pushed.
+	 */
+	private getNextStop(route: ElevatorRoute, currentFloor: Floor, direction: Direction): Floor | undefined {
+		const buttons = route.getPushedButtons();
+		if (buttons.length === 0) {
+			return undefined;
+		}
+
+		if (direction === 0) {
+			let closest = buttons[0];
+			for (const floor of buttons) {
+				const distance = Math.abs(floor - currentFloor);
+				const closestDistance = Math.abs(closest - currentFloor);
+				if (distance < closestDistance || (distance === closestDistance && floor > closest)) closest = floor;
+			}
+			return closest;
+		}
+
+		const ahead = buttons.filter(floor => (floor - currentFloor) * direction >= 0);
+		if (ahead.length === 0) {
+			return this.getNextStop(route, currentFloor, direction === 1 ? -1 : 1);
+		}
+
+		//Sort so the closest is first and the farthest last
+		ahead.sort((a, b) => (a - b) * direction);
+		const onTheWay = toCallDirection(direction);
+		return ahead.find(floor => {
+			const calls = route.getCalls(floor)!; //buttons are always on the route
+			return calls.car > 0 || calls[onTheWay] > 0;
+		}) ?? ahead[ahead.length - 1];
+	}
+
+	/**
+	 * Get the direction we'll leave a floor in when stopping there while travelling in `direction`. We keep
+	 * going unless this is the last button ahead of us, in which case we turn around if someone's waiting to
+	 * go the other way.
+	 * @returns The direction, or undefined if we haven't got one yet so everyone gets on.
+	 */
+	private getDeparture(route: ElevatorRoute, floor: Floor, direction: Direction): CallDirection | undefined {
+		if (direction === 0) {
+			return undefined;
+		}
+		const onTheWay = toCallDirection(direction);
+		const calls = route.getCalls(floor);
+		if (calls === undefined || calls[onTheWay] > 0) {
+			return onTheWay;
+		}
+		const anythingBeyond = route.getPushedButtons().some(button => (button - floor) * direction > 0);
+		const reverse = toCallDirection(direction === 1 ? -1 : 1);
+		return anythingBeyond || calls[reverse] === 0 ? onTheWay : reverse;
+	}
+}
+
+function toCallDirection(direction: 1 | -1): CallDirection {
+	return direction === 1 ? CallDirection.UP : CallDirection.DOWN;
+}
+
+function toDirection(direction: CallDirection): 1 | -1 {
+	return direction === CallDirection.UP ? 1 : -1;
+}
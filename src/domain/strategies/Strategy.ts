@@ -1,17 +1,15 @@
 import type { ElevatorRoute } from "../route/ElevatorRoute";
 import type { Logger } from "../../infra/logger/Logger";
 import type { AppOptions } from "../../options";
-import type { Floor } from "../route/Floors";
+import type { CallDirection, Floor } from "../route/Floors";
 import { BUGBUG } from "../../shared/errors/Bug";
+import { createMotionProfile, MotionOptions, MotionProfile } from "../elevator/MotionProfile";
 
 /**
- * Options required by the Strategy class.
+ * Options required by the Strategy class. The motion options have to be the same as the elevator's for the
+ * estimates to be right, see {@link MotionProfile}.
  */
-export type StrategyOptions = Pick<AppOptions,
-	'TRAVEL_TIME_PER_FLOOR'
-	| 'DOOR_OPEN_TIME'
-	| 'ESTIMATION_LIMIT'
->;
+export type StrategyOptions = Pick<AppOptions, 'ESTIMATION_LIMIT'> & MotionOptions;
 
 
 /**
@@ -31,16 +29,39 @@ export type OrderedStops = Array<Floor>;
  */
 export type StopEarly = (lastStop: Floor, stops: OrderedStops) => boolean;
 
+/**
+ * Creates a new strategy for an elevator. Every elevator needs its own instance since some strategies
+ * (like {@link Collective}) have state.
+ */
+export type StrategyFactory = (options: AppOptions, logger?: Logger) => Strategy;
+
 /**
  * An abstract base class for all strategies which contains common functionality.
  */
 export abstract class Strategy {
 
+	/**
+	 * How long moving and stopping takes when estimating, created from the options.
+	 */
+	protected readonly motion: MotionProfile;
+
 	/**
 	 * @param options - A subset of {@link AppOptions} required by the strategy. See {@link StrategyOptions}.
 	 * @param logger - The logger for the strategy.
+	 * @throws A {@link ValidationError} if the options ask for a motion profile which doesn't exist or is misconfigured.
 	 */
-	constructor(public readonly options: StrategyOptions, public readonly logger?: Logger) { }
+	constructor(public readonly options: StrategyOptions, public readonly logger?: Logger) {
+		this.motion = createMotionProfile(options);
+	}
+
+	/**
+	 * The name of the strategy, as shown in logs and to users.
+	 * @overrideable By default the class name. Strategies wrapping others (like {@link Zoned}) should
+	 *  include the name of the one they wrap.
+	 */
+	get name(): string {
+		return this.constructor.name;
+	}
 
 	//TODO: If StopEarly is provided we shouldn't return the stops since the callback could be used to grab the output and
 	//that way we don't allocate extra memory if not needed.
@@ -54,9 +75,12 @@ export abstract class Strategy {
 	 * @param targetFloor - Optional. Stop traversal when this floor is reached. The stop happens after it's been visited, ie.
 	 *                      it will have been removed from the `route` and added to the returned list of stops.
 	 * @param stopEarly - Optional. A callback to stop the traversal early.
+	 * @param targetDirection - Optional. The `targetFloor` is a hall call in this direction, so the traversal should only
+	 *                          stop once the elevator leaves the target floor going that way. Strategies which don't
+	 *                          care about directions can ignore this.
 	 * @returns A {@link OrderedStops} of floors to stop at in order.
 	 */
-	abstract getOrderedStops(route: ElevatorRoute, currentFloor: Floor, targetFloor?: Floor, stopEarly?: StopEarly): OrderedStops;
+	abstract getOrderedStops(route: ElevatorRoute, currentFloor: Floor, targetFloor?: Floor, stopEarly?: StopEarly, targetDirection?: CallDirection): OrderedStops;
 
 
 	/**
@@ -65,12 +89,12 @@ export abstract class Strategy {
 	 * 
 	 * @see {@link getOrderedStops()} for details on the parameters.
 	 */
-	async batchedGetOrderedStops(route: ElevatorRoute, currentFloor: Floor, targetFloor?: Floor, stopEarly?: StopEarly): Promise<OrderedStops> {
+	async batchedGetOrderedStops(route: ElevatorRoute, currentFloor: Floor, targetFloor?: Floor, stopEarly?: StopEarly, targetDirection?: CallDirection): Promise<OrderedStops> {
 		const batchSize = 10; //we're just choosing a number here instead of making it an option.
 
 		//For single batch runs just skip this function 
 		if (route.length() <= batchSize) {
-			return this.getOrderedStops(route, currentFloor, targetFloor, stopEarly);
+			return this.getOrderedStops(route, currentFloor, targetFloor, stopEarly, targetDirection);
 		}
 
 		//We wrap the stop-early callback in order to...
@@ -94,12 +118,15 @@ export abstract class Strategy {
 			return false;
 		};
 		//Now we loop, one batch at a time, until the passed in stopEarly says we're done, or until
-		// we've found the target floor, or until the route is empty.
+		// we've found the target floor, or until the route is empty. With a target direction the 
+		// target floor may be visited without answering our call, so we have to check the route too.
 		let iterationCount = 0;
-		while (!done && currentFloor !== targetFloor && route.length() > 0) {
+		const reachedTarget = () => currentFloor === targetFloor
+			&& (targetDirection === undefined || !route.getCalls(targetFloor)?.[targetDirection]);
+		while (!done && !reachedTarget() && route.length() > 0) {
 			//On every loop we yield the thread to the event loop - this is the whole point of this function
 			await new Promise(resolve => setImmediate(resolve));
-			this.getOrderedStops(route, currentFloor, targetFloor, wrappedStopEarly);
+			this.getOrderedStops(route, currentFloor, targetFloor, wrappedStopEarly, targetDirection);
 
 			const tail = stops.slice(-10);
 			if (tail.length > 1 && tail.every(stop => stop === currentFloor) || ++iterationCount > 10000) {
@@ -115,24 +142,26 @@ export abstract class Strategy {
 
 	/**
 	 * Estimate the time it will take to pickup a passenger and optionally drop them off. This will run
-	 * the batched version of {@link getOrderedStops()} to avoid blocking the event loop.
+	 * the batched version of {@link getOrderedStops()} to avoid blocking the event loop. Travelling between
+	 * stops and the stops themselves take as long as the {@link MotionProfile} says they do.
 	 * 
 	 * @param routeCopy - The route to estimate based on. This will be copied and thus **NOT** altered!
 	 * @param currentFloor - The floor the elevator is currently at, i.e. before the route is started.
 	 * @param pickupFloor - The floor to pickup the passenger from.
 	 * @param dropoffFloor - Optional. The floor to drop the passenger off at.
+	 * @param direction - Optional. The direction of the hall call at the pickup floor, see {@link getDepartureDirection()}.
 	 * 
 	 * @returns The estimated time in milliseconds if less than {@link AppOptions.ESTIMATION_LIMIT}, else -1.
 	 */
-	async estimatePickupDropoffTime(routeCopy: ElevatorRoute, currentFloor: Floor, pickupFloor: Floor, dropoffFloor?: Floor): Promise<number> {
+	async estimatePickupDropoffTime(routeCopy: ElevatorRoute, currentFloor: Floor, pickupFloor: Floor, dropoffFloor?: Floor, direction?: CallDirection): Promise<number> {
 
 		//Create a stop-early callback which we can pass along below in order to 
 		//stop the estimation when we reach the estimation limit.
 		let estimatedTime = 0;
 		let last = currentFloor;
 		const stopEarly: StopEarly = (curr, _) => {
-			estimatedTime += this.options.DOOR_OPEN_TIME;
-			estimatedTime += Math.abs(curr - last) * this.options.TRAVEL_TIME_PER_FLOOR
+			estimatedTime += this.motion.getStopTime();
+			estimatedTime += this.motion.getTravelTime(curr - last);
 			last = curr;
 			return estimatedTime > this.options.ESTIMATION_LIMIT;
 		};
@@ -140,9 +169,9 @@ export abstract class Strategy {
 		//Now run the first part of the journey, i.e. the pickup. If we're already at the pickup floor 
 		//then we we just add a doorOpenTime and move on. If we hadn't, since 
 		if (currentFloor === pickupFloor) {
-			estimatedTime += this.options.DOOR_OPEN_TIME;
+			estimatedTime += this.motion.getStopTime();
 		} else {
-			await this.batchedGetOrderedStops(routeCopy, currentFloor, pickupFloor, stopEarly);
+			await this.batchedGetOrderedStops(routeCopy, currentFloor, pickupFloor, stopEarly, direction);
 		}
 
 
@@ -183,6 +212,34 @@ export abstract class Strategy {
 	// eslint-disable-next-line @typescript-eslint/no-unused-vars
 	checkIfRideIsVetoed: null | ((route: ElevatorRoute, startFloor: Floor, pickupFloor: Floor, dropoffFloor?: Floor) => boolean) = null;
 
+	/**
+	 * Check if the elevator should stop at the floor it's at. This is called every time the elevator
+	 * is idle, before {@link getNrFloorsToMove()}.
+	 * 
+	 * @param route - The route which will **NOT** be altered.
+	 * @param floor - The floor the elevator is at.
+	 * @returns True to stop and open the doors.
+	 * @overrideable By default we stop at every floor on the route. Strategies which e.g. pass hall calls
+	 *  going the other way should override this.
+	 */
+	shouldStopAt(route: ElevatorRoute, floor: Floor): boolean {
+		return route.shouldVisit(floor);
+	}
+
+	/**
+	 * Get the direction the elevator will leave a floor in when stopping there, which decides which
+	 * hall calls are answered (see {@link ElevatorRoute.visitNow()}) and which way the hall lantern points.
+	 * 
+	 * @param route - The route which will **NOT** be altered.
+	 * @param floor - The floor the elevator is stopping at.
+	 * @returns The direction, or undefined to answer all calls on the floor.
+	 * @overrideable By default everyone gets on, which is what strategies without a direction of travel want.
+	 */
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	getDepartureDirection(route: ElevatorRoute, floor: Floor): CallDirection | undefined {
+		return undefined;
+	}
+
 	/**
 	 * Get the next floor in the route. Used internally by {@link getNrFloorsToMove()}.
 	 * @param route - The route which should NOT be consumed
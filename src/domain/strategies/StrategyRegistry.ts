@@ -0,0 +1,96 @@
+import type { Logger } from "../../infra/logger/Logger";
+import type { AppOptions } from "../../options";
+import { ValidationError } from "../errors/ValidationErrors";
+import { Collective } from "./Collective";
+import { InsertOrder } from "./InsertOrder";
+import { StopEnRoute } from "./StopEnRoute";
+import type { Strategy, StrategyFactory } from "./Strategy";
+
+/**
+ * The strategies elevators can be configured with, by name, e.g. in {@link AppOptions.STRATEGY} or when
+ * changing the strategy of a running elevator.
+ */
+export class StrategyRegistry {
+	private readonly factories = new Map<string, StrategyFactory>();
+
+	/**
+	 * Make a strategy available by name.
+	 * @param name - The name to configure it by, usually the class name.
+	 * @param factory - Creates a new instance for every elevator, see {@link StrategyFactory}.
+	 * @returns The registry, so calls can be chained.
+	 * @throws A {@link ValidationError} if the name is already taken.
+	 */
+	register(name: string, factory: StrategyFactory): this {
+		if (this.factories.has(name)) {
+			throw new ValidationError(name, `Strategy '${name}' is already registered`);
+		}
+		this.factories.set(name, factory);
+		return this;
+	}
+
+	/**
+	 * Check if a strategy is available by that name.
+	 */
+	has(name: string): boolean {
+		return this.factories.has(name);
+	}
+
+	/**
+	 * List the names of all strategies, in the order they were registered.
+	 */
+	names(): string[] {
+		return [...this.factories.keys()];
+	}
+
+	/**
+	 * Get the factory of a strategy.
+	 * @throws A {@link ValidationError} listing the available strategies if there is none by that name.
+	 */
+	get(name: string): StrategyFactory {
+		const factory = this.factories.get(name);
+		if (factory === undefined) {
+			throw new ValidationError(name, `Unknown strategy '${name}', expected one of ${this.names().join(', ')}`);
+		}
+		return factory;
+	}
+
+	/**
+	 * Create a new instance of a strategy.
+	 * @throws A {@link ValidationError} if there is no strategy by that name.
+	 */
+	create(name: string, options: AppOptions, logger?: Logger): Strategy {
+		return this.get(name)(options, logger);
+	}
+}
+
+/**
+ * Create a registry with all strategies in this folder, named after their classes.
+ */
+export function createDefaultStrategyRegistry(): StrategyRegistry {
+	return new StrategyRegistry()
+		.register('InsertOrder', (options, logger) => new InsertOrder(options, logger))
+		.register('StopEnRoute', (options, logger) => new StopEnRoute(options, logger))
+		.register('Collective', (options, logger) => new Collective(options, logger));
+}
+
+/**
+ * Parse {@link AppOptions.ELEVATOR_STRATEGIES}: comma separated `<elevator number>:<strategy name>` pairs where
+ * elevators are numbered from 1, e.g. `4:StopEnRoute,5:StopEnRoute` for two express cars.
+ * @param value - The option. Empty means every elevator uses {@link AppOptions.STRATEGY}.
+ * @param registry - The registry the names should be in.
+ * @returns The strategy name by elevator number.
+ * @throws A {@link ValidationError} if a pair is malformed or names an unknown strategy.
+ */
+export function parseElevatorStrategies(value: string, registry: StrategyRegistry): Map<number, string> {
+	const strategies = new Map<number, string>();
+	for (const pair of value.split(',').map(part => part.trim()).filter(part => part !== '')) {
+		const [number, name] = pair.split(':').map(part => part.trim());
+		const elevator = Number(number);
+		if (!Number.isInteger(elevator) || elevator < 1 || !name) {
+			throw new ValidationError(value, `Invalid elevator strategy '${pair}', expected <elevator number>:<strategy name>`);
+		}
+		registry.get(name); //throws if unknown
+		strategies.set(elevator, name);
+	}
+	return strategies;
+}
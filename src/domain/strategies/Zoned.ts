@@ -0,0 +1,75 @@
+import type { ElevatorRoute } from "../route/ElevatorRoute";
+import { formatFloors, type CallDirection, type Floor } from "../route/Floors";
+import { OrderedStops, StopEarly, Strategy } from "./Strategy";
+
+/**
+ * Limits an elevator to a zone of floors, e.g. the low-rise or high-rise cars of a bank, by vetoing every
+ * ride which starts or ends outside it. The lobby is always part of the zone so everyone can get in and out
+ * of the building.
+ *
+ * Everything else is left to the wrapped strategy, so any strategy can be zoned. Changing the strategy of
+ * a zoned elevator keeps the zone, see {@link withStrategy()}.
+ */
+export class Zoned extends Strategy {
+	/** The floors the elevator serves, the lobby included */
+	public readonly floors: ReadonlySet<Floor>;
+
+	/**
+	 * @param strategy - The strategy deciding where to go.
+	 * @param floors - The floors of the zone.
+	 * @param lobby - The floor everyone enters the building at, usually {@link AppOptions.INITIAL_FLOOR}.
+	 */
+	constructor(public readonly strategy: Strategy, floors: Iterable<Floor>, public readonly lobby: Floor) {
+		super(strategy.options, strategy.logger);
+		this.floors = new Set([lobby, ...floors]);
+	}
+
+	override get name(): string {
+		return `${this.strategy.name} in ${formatFloors(this.floors)}`;
+	}
+
+	/**
+	 * Create the same zone around another strategy.
+	 */
+	withStrategy(strategy: Strategy): Zoned {
+		return new Zoned(strategy, this.floors, this.lobby);
+	}
+
+	/**
+	 * Check if a floor is in the zone.
+	 */
+	serves(floor: Floor): boolean {
+		return this.floors.has(floor);
+	}
+
+	override checkIfRideIsVetoed = (route: ElevatorRoute, startFloor: Floor, pickupFloor: Floor, dropoffFloor?: Floor): boolean => {
+		if (!this.serves(pickupFloor) || (dropoffFloor !== undefined && !this.serves(dropoffFloor))) {
+			return true;
+		}
+		return this.strategy.checkIfRideIsVetoed?.(route, startFloor, pickupFloor, dropoffFloor) ?? false;
+	};
+
+	getOrderedStops(route: ElevatorRoute, currentFloor: Floor, targetFloor?: Floor, stopEarly?: StopEarly, targetDirection?: CallDirection): OrderedStops {
+		return this.strategy.getOrderedStops(route, currentFloor, targetFloor, stopEarly, targetDirection);
+	}
+
+	override batchedGetOrderedStops(route: ElevatorRoute, currentFloor: Floor, targetFloor?: Floor, stopEarly?: StopEarly, targetDirection?: CallDirection): Promise<OrderedStops> {
+		return this.strategy.batchedGetOrderedStops(route, currentFloor, targetFloor, stopEarly, targetDirection);
+	}
+
+	override estimatePickupDropoffTime(routeCopy: ElevatorRoute, currentFloor: Floor, pickupFloor: Floor, dropoffFloor?: Floor, direction?: CallDirection): Promise<number> {
+		return this.strategy.estimatePickupDropoffTime(routeCopy, currentFloor, pickupFloor, dropoffFloor, direction);
+	}
+
+	getNrFloorsToMove(route: ElevatorRoute, currentFloor: Floor): number {
+		return this.strategy.getNrFloorsToMove(route, currentFloor);
+	}
+
+	override shouldStopAt(route: ElevatorRoute, floor: Floor): boolean {
+		return this.strategy.shouldStopAt(route, floor);
+	}
+
+	override getDepartureDirection(route: ElevatorRoute, floor: Floor): CallDirection | undefined {
+		return this.strategy.getDepartureDirection(route, floor);
+	}
+}
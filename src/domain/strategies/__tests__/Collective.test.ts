@@ -0,0 +1,183 @@
+import { ElevatorRoute } from '../../route/ElevatorRoute';
+import { Collective } from '../Collective';
+import { CallDirection } from '../../route/Floors';
+import { StrategyOptions } from '../Strategy';
+
+
+const strategyOptions: StrategyOptions = {
+	TRAVEL_TIME_PER_FLOOR: 2000,
+	DOOR_OPEN_TIME: 5000,
+	ESTIMATION_LIMIT: 10000, // 10 seconds in milliseconds
+};
+
+describe('Collective strategy', () => {
+	let strategy: Collective;
+	let route: ElevatorRoute;
+
+	beforeEach(() => {
+		strategy = new Collective(strategyOptions);
+		route = new ElevatorRoute();
+	});
+
+	/**
+	 * Without a direction the closest floor decides which way we go, then we keep going that way
+	 * until there is nothing left ahead of us before turning around.
+	 */
+	it('should sweep in one direction and then the other', () => {
+		route.addRide(2);
+		route.addRide(9);
+		route.addRide(4);
+		route.addRide(7);
+		route.addRide(1);
+
+		const stops = strategy.getOrderedStops(route, 5);
+
+		// 4 is closest, so we go down to 2 and 1 before coming back up for 7 and 9
+		expect(stops).toEqual([4, 2, 1, 7, 9]);
+	});
+
+	it('should prefer going up when the closest floors above and below are equally far', () => {
+		route.addRide(3);
+		route.addRide(7);
+
+		expect(strategy.getOrderedStops(route, 5)).toEqual([7, 3]);
+	});
+
+	it('should stop at the current floor first if it is on the route', () => {
+		route.addRide(8);
+		route.addRide(5);
+
+		expect(strategy.getOrderedStops(route, 5)).toEqual([5, 8]);
+	});
+
+	/**
+	 * The direction is remembered between calls to `getNrFloorsToMove`, so a closer floor behind us
+	 * doesn't make us turn around as long as there's something ahead.
+	 */
+	it('should keep its direction while there are floors ahead', () => {
+		route.addRide(9);
+		expect(strategy.getNrFloorsToMove(route, 5)).toBe(1);
+
+		// Now someone closer, but behind us, pushes a button
+		route.addRide(4);
+		expect(strategy.getNrFloorsToMove(route, 6)).toBe(1);
+		expect(strategy.getOrderedStops(route.copy(), 6)).toEqual([9, 4]);
+
+		// Once we've been to 9 there's nothing ahead so we turn around
+		route.visitNow(9);
+		expect(strategy.getNrFloorsToMove(route, 9)).toBe(-1);
+	});
+
+	it('should return 0 when route is empty', () => {
+		expect(strategy.getNrFloorsToMove(route, 3)).toBe(0);
+	});
+
+	/**
+	 * Dropoffs are `ConditionalFloor`s until their pickup has been made, so we don't stop at them
+	 * on the way to the pickup even if we pass them.
+	 */
+	it('should not visit a dropoff before its pickup', () => {
+		route.addRide(8, 4);
+
+		const stops = strategy.getOrderedStops(route, 2);
+
+		// We pass 4 on the way up to 8, but it isn't a button until we've been to 8
+		expect(stops).toEqual([8, 4]);
+		expect(route.length()).toBe(0);
+	});
+
+	it('should pick up dropoffs along the way once they become buttons', () => {
+		route.addRide(3, 9);
+		route.addRide(6);
+		route.addRide(1);
+
+		const stops = strategy.getOrderedStops(route, 2);
+
+		// Up to 3 (closest), where 9 becomes a button, then 6 and 9 on the way up and 1 on the way down
+		expect(stops).toEqual([3, 6, 9, 1]);
+	});
+
+	it('should respect targetFloor parameter', () => {
+		route.addRide(7);
+		route.addRide(5);
+		route.addRide(10);
+
+		const stops = strategy.getOrderedStops(route, 3, 7);
+
+		// Should stop at 5 on the way to 7 and not continue to 10
+		expect(stops).toEqual([5, 7]);
+	});
+
+	it('should respect stopEarly parameter', () => {
+		route.addRide(7);
+		route.addRide(5);
+		route.addRide(10);
+
+		const stops = strategy.getOrderedStops(route, 3, undefined, (_, stops) => stops.length >= 2);
+
+		expect(stops).toEqual([5, 7]);
+		expect(route.toArray()).toEqual([10]);
+	});
+
+	/**
+	 * Estimations run in batches of 10 stops. The direction has to carry over between batches or
+	 * we'd turn around half way through a sweep.
+	 */
+	it('should keep its direction between batches when estimating', async () => {
+		route.addRide(1);
+		expect(strategy.getNrFloorsToMove(route, 0)).toBe(1); //the elevator is going up...
+		[2, 3, 4, 5, 6, 7, -1, -3, -4, -5].forEach(floor => route.addRide(floor));
+		route.addRide(-2, 6); //...but this passenger wants to go back up after the 10th stop
+
+		const stops = await strategy.batchedGetOrderedStops(route, 0);
+
+		// The first batch ends at -3 on the way down, so we keep going down before going back up to 6
+		expect(stops).toEqual([1, 2, 3, 4, 5, 6, 7, -1, -2, -3, -4, -5, 6]);
+	});
+
+	describe('Hall calls', () => {
+		const { UP, DOWN } = CallDirection;
+
+		it('should pass hall calls going the other way and pick them up on the way back', () => {
+			route.addRide(8);
+			expect(strategy.getNrFloorsToMove(route, 2)).toBe(1); //going up
+			route.addRide(5, undefined, DOWN);
+			route.addRide(6, undefined, UP);
+
+			expect(strategy.shouldStopAt(route, 5)).toBe(false);
+			expect(strategy.shouldStopAt(route, 6)).toBe(true);
+			expect(strategy.getOrderedStops(route, 3)).toEqual([6, 8, 5]);
+		});
+
+		it('should turn around at the last hall call ahead even if it is going the other way', () => {
+			route.addRide(9, undefined, DOWN);
+			route.addRide(4, undefined, UP);
+			route.addRide(2, undefined, DOWN);
+			expect(strategy.getNrFloorsToMove(route, 3)).toBe(1);
+
+			expect(strategy.shouldStopAt(route, 9)).toBe(true);
+			expect(strategy.getDepartureDirection(route, 9)).toBe(DOWN);
+			expect(strategy.getOrderedStops(route, 3)).toEqual([4, 9, 2]);
+		});
+
+		it('should stop twice at a floor with calls both ways when there is more to do beyond it', () => {
+			route.addRide(5, 8, UP);
+			route.addRide(5, 1, DOWN);
+			expect(strategy.getNrFloorsToMove(route, 3)).toBe(1);
+
+			expect(strategy.getDepartureDirection(route, 5)).toBe(UP);
+			expect(strategy.getOrderedStops(route, 4)).toEqual([5, 8, 5, 1]);
+		});
+
+		it('should take the direction of the pickup into account when estimating', async () => {
+			strategy = new Collective({ ...strategyOptions, ESTIMATION_LIMIT: 100000 });
+			route.addRide(8);
+			expect(strategy.getNrFloorsToMove(route, 1)).toBe(1);
+
+			// Going up we stop at 5 on the way, going down we have to go to 8 and come back
+			const { TRAVEL_TIME_PER_FLOOR: floor, DOOR_OPEN_TIME: door } = strategyOptions;
+			expect(await strategy.estimatePickupDropoffTime(route.copy(), 2, 5, undefined, UP)).toBe(3 * floor + door);
+			expect(await strategy.estimatePickupDropoffTime(route.copy(), 2, 5, undefined, DOWN)).toBe(9 * floor + 2 * door);
+		});
+	});
+});
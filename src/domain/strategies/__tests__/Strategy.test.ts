@@ -432,6 +432,24 @@ describe('Strategy base class', () => {
 		});
 	});
 
+	describe('estimatePickupDropoffTime', () => {
+		/**
+		 * Estimates have to use the same MotionProfile as the elevator or they'd be off, see the
+		 * MotionProfile tests for where the travel times come from.
+		 */
+		it('should use the motion profile for travelling and stopping', async () => {
+			strategy = new InsertOrder({
+				...strategyOptions
+				, ESTIMATION_LIMIT: 100000
+				, MOTION_PROFILE: 'trapezoidal', FLOOR_HEIGHT: 3000, MAX_SPEED: 2500, ACCELERATION: 1000, DECELERATION: 1000
+				, DOOR_OPENING_TIME: 1000, DOOR_CLOSING_TIME: 2000
+			});
+			const stop = 1000 + strategyOptions.DOOR_OPEN_TIME + 2000;
+			expect(await strategy.estimatePickupDropoffTime(route.copy(), 0, 10)).toBe(14500 + stop);
+			expect(await strategy.estimatePickupDropoffTime(route.copy(), 0, 0, 1)).toBe(stop + 3464 + stop);
+		});
+	});
+
 	describe('checkIfRideIsVetoed (optional method)', () => {
 		/**
 		 * Strategies can optionally implement ride vetoing.
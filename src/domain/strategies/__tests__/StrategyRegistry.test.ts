@@ -0,0 +1,43 @@
+import { createDefaultStrategyRegistry, parseElevatorStrategies, StrategyRegistry } from '../StrategyRegistry';
+import { Collective } from '../Collective';
+import { InsertOrder } from '../InsertOrder';
+import { ValidationError } from '../../errors/ValidationErrors';
+import { defaultOptions } from '../../../options';
+
+describe('StrategyRegistry', () => {
+	let registry: StrategyRegistry;
+
+	beforeEach(() => {
+		registry = createDefaultStrategyRegistry();
+	});
+
+	it('should create a new instance of a strategy by name every time', () => {
+		expect(registry.names()).toEqual(['InsertOrder', 'StopEnRoute', 'Collective']);
+		const first = registry.create('Collective', defaultOptions);
+		expect(first).toBeInstanceOf(Collective);
+		expect(registry.create('Collective', defaultOptions)).not.toBe(first);
+	});
+
+	it('should reject unknown and duplicate names', () => {
+		expect(() => registry.get('Express')).toThrow(ValidationError);
+		expect(() => registry.get('Express')).toThrow('expected one of InsertOrder, StopEnRoute, Collective');
+		expect(() => registry.register('Collective', (o) => new Collective(o))).toThrow(ValidationError);
+
+		registry.register('Express', (o, logger) => new InsertOrder(o, logger));
+		expect(registry.has('Express')).toBe(true);
+	});
+
+	describe('parseElevatorStrategies', () => {
+		it('should map elevator numbers to strategy names', () => {
+			expect(parseElevatorStrategies('', registry)).toEqual(new Map());
+			expect(parseElevatorStrategies('4:StopEnRoute, 5 : Collective', registry)).toEqual(new Map([[4, 'StopEnRoute'], [5, 'Collective']]));
+		});
+
+		it('should reject malformed pairs and unknown strategies', () => {
+			expect(() => parseElevatorStrategies('StopEnRoute', registry)).toThrow(ValidationError);
+			expect(() => parseElevatorStrategies('0:StopEnRoute', registry)).toThrow(ValidationError);
+			expect(() => parseElevatorStrategies('1:', registry)).toThrow(ValidationError);
+			expect(() => parseElevatorStrategies('1:Express', registry)).toThrow(ValidationError);
+		});
+	});
+});
@@ -0,0 +1,50 @@
+import { ElevatorRoute } from '../../route/ElevatorRoute';
+import { Collective } from '../Collective';
+import { InsertOrder } from '../InsertOrder';
+import { Zoned } from '../Zoned';
+import { StrategyOptions } from '../Strategy';
+
+const strategyOptions: StrategyOptions = {
+	TRAVEL_TIME_PER_FLOOR: 2000,
+	DOOR_OPEN_TIME: 5000,
+	ESTIMATION_LIMIT: 100000,
+};
+
+describe('Zoned strategy', () => {
+	let route: ElevatorRoute;
+
+	beforeEach(() => {
+		route = new ElevatorRoute();
+	});
+
+	it('should veto rides starting or ending outside the zone, but never the lobby', () => {
+		const strategy = new Zoned(new InsertOrder(strategyOptions), [11, 12, 13, 14, 15], 0);
+		const veto = (pickup: number, dropoff?: number) => strategy.checkIfRideIsVetoed(route, 0, pickup, dropoff);
+
+		expect(veto(0, 12)).toBe(false);
+		expect(veto(15, 0)).toBe(false);
+		expect(veto(11, 15)).toBe(false);
+		expect(veto(13)).toBe(false);
+		expect(veto(5, 12)).toBe(true);
+		expect(veto(12, 16)).toBe(true);
+		expect(veto(3)).toBe(true);
+	});
+
+	it('should leave everything else to the strategy it wraps', async () => {
+		const collective = new Collective(strategyOptions);
+		const strategy = new Zoned(new Collective(strategyOptions), [1, 2, 3, 4, 5, 6, 7, 8, 9], 0);
+		[2, 9, 4, 7, 1].forEach(floor => route.addRide(floor));
+
+		expect(strategy.getOrderedStops(route.copy(), 5)).toEqual(collective.getOrderedStops(route.copy(), 5));
+		expect(await strategy.estimatePickupDropoffTime(route.copy(), 5, 3, 8)).toBe(await collective.estimatePickupDropoffTime(route.copy(), 5, 3, 8));
+		expect(strategy.getNrFloorsToMove(route, 5)).toBe(-1);
+		expect(strategy.name).toBe('Collective in 0..9');
+	});
+
+	it('should keep the zone when wrapping another strategy', () => {
+		const strategy = new Zoned(new InsertOrder(strategyOptions), [11, 12], 0).withStrategy(new Collective(strategyOptions));
+		expect(strategy.strategy).toBeInstanceOf(Collective);
+		expect(strategy.name).toBe('Collective in 0, 11..12');
+		expect(strategy.checkIfRideIsVetoed(route, 0, 5)).toBe(true);
+	});
+});
@@ -1,9 +1,10 @@
 #!/usr/bin/env node
 
 import dotenv from 'dotenv';
+import type { Server } from 'http';
 import { Logger } from './infra/logger/Logger';
 import { CliApi } from './api/cli';
-// import { startHttpServer } from './api/http';
+import { startHttpServer } from './api/http';
 import { getUsageMessage } from './api/cli/usage';
 import { Application } from './app/app';
 import { defaultOptions, parseOptions } from './options';
@@ -68,18 +69,20 @@ if (runOnetimeCommand) {
 		});
 	}
 
-	// if (shouldStartHttp) {
-	// 	startHttpServer();
-	// 	if (shouldStartCli) {
-	// 		console.log('HTTP server is running. Use CLI command to stop it.\n');
-	// 	} else {
-	// 		console.log('HTTP server is running. Press Ctrl+C to stop.\n');
-	// 	}
-	// }
+	let httpServer: Server | undefined;
+	if (shouldStartHttp) {
+		httpServer = startHttpServer(app);
+		if (shouldStartCli) {
+			console.log('HTTP server is running. Use CLI command to stop it.\n');
+		} else {
+			console.log('HTTP server is running. Press Ctrl+C to stop.\n');
+		}
+	}
 
 	// Set up signal handlers for graceful shutdown (TODO)
 	process.on('SIGINT', async () => {
 		logger.info('ctrl+c...');
+		httpServer?.close();
 		await app.stop();
 		process.exit(0);
 	});
@@ -0,0 +1,53 @@
+/**
+ * The id of a callback scheduled on a {@link Clock}, used to cancel it.
+ */
+export type TimerId = number;
+
+/**
+ * Where the time comes from. Everything which reads the time or schedules something in the future
+ * should do it through a clock so the whole system can run in simulated time, see {@link VirtualClock}.
+ * {@link RealClock} is the default everywhere.
+ *
+ * The methods mirror the global functions with the same names.
+ */
+export abstract class Clock {
+
+	/**
+	 * Get the current time in milliseconds since epoch (or since the simulation started).
+	 */
+	abstract now(): number;
+
+	/**
+	 * Call a function once after a delay.
+	 * @param callback - The function to call.
+	 * @param ms - The delay in milliseconds.
+	 * @returns An id which can be passed to {@link clearTimeout()}.
+	 */
+	abstract setTimeout(callback: () => void, ms: number): TimerId;
+
+	/**
+	 * Cancel a callback scheduled with {@link setTimeout()}. Does nothing if it's already been called.
+	 */
+	abstract clearTimeout(id: TimerId | undefined): void;
+
+	/**
+	 * Call a function repeatedly.
+	 * @param callback - The function to call.
+	 * @param ms - The time between calls in milliseconds.
+	 * @returns An id which can be passed to {@link clearInterval()}.
+	 */
+	abstract setInterval(callback: () => void, ms: number): TimerId;
+
+	/**
+	 * Stop calling a function scheduled with {@link setInterval()}.
+	 */
+	abstract clearInterval(id: TimerId | undefined): void;
+
+	/**
+	 * Wait for a while.
+	 * @param ms - How long to wait in milliseconds.
+	 */
+	sleep(ms: number): Promise<void> {
+		return new Promise(resolve => this.setTimeout(resolve, ms));
+	}
+}
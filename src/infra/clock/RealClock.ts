@@ -0,0 +1,44 @@
+import { Clock, TimerId } from "./Clock";
+
+/**
+ * A {@link Clock} which uses the system time and the global timer functions.
+ *
+ * NOTE: The globals are looked up on every call, so Jest's fake timers work with this clock too.
+ */
+export class RealClock extends Clock {
+	private lastId = 0;
+	private readonly timers = new Map<TimerId, NodeJS.Timeout>();
+
+	now(): number {
+		return Date.now();
+	}
+
+	setTimeout(callback: () => void, ms: number): TimerId {
+		const id = ++this.lastId;
+		this.timers.set(id, setTimeout(() => {
+			this.timers.delete(id);
+			callback();
+		}, ms));
+		return id;
+	}
+
+	clearTimeout(id: TimerId | undefined): void {
+		if (id !== undefined) {
+			clearTimeout(this.timers.get(id));
+			this.timers.delete(id);
+		}
+	}
+
+	setInterval(callback: () => void, ms: number): TimerId {
+		const id = ++this.lastId;
+		this.timers.set(id, setInterval(callback, ms));
+		return id;
+	}
+
+	clearInterval(id: TimerId | undefined): void {
+		if (id !== undefined) {
+			clearInterval(this.timers.get(id));
+			this.timers.delete(id);
+		}
+	}
+}
@@ -0,0 +1,32 @@
+import { TimerId } from "./Clock";
+import { RealClock } from "./RealClock";
+
+/**
+ * A {@link RealClock} which runs faster (or slower) than real time, e.g. to replay an hour of traffic
+ * in six minutes with a speed of 10. Time starts at the real time when the clock is created.
+ */
+export class ScaledClock extends RealClock {
+	private readonly startTime = Date.now();
+
+	/**
+	 * @param speed - How many milliseconds pass on this clock for every real millisecond, must be positive.
+	 */
+	constructor(public readonly speed: number) {
+		super();
+		if (!(speed > 0)) {
+			throw new RangeError(`Clock speed must be positive, got ${speed}`);
+		}
+	}
+
+	now(): number {
+		return this.startTime + (Date.now() - this.startTime) * this.speed;
+	}
+
+	setTimeout(callback: () => void, ms: number): TimerId {
+		return super.setTimeout(callback, ms / this.speed);
+	}
+
+	setInterval(callback: () => void, ms: number): TimerId {
+		return super.setInterval(callback, ms / this.speed);
+	}
+}
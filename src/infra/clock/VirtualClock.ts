@@ -0,0 +1,151 @@
+import { BUGBUG } from "../../shared/errors/Bug";
+import { Clock, TimerId } from "./Clock";
+
+type ScheduledCallback = {
+	id: TimerId;
+	dueTime: number;
+	callback: () => void;
+	/** Set for callbacks scheduled with setInterval() */
+	interval?: number;
+};
+
+/**
+ * A deterministic discrete-event {@link Clock}. Time only moves when told to, and when it does it jumps
+ * straight from one scheduled callback to the next, so an hour of elevator traffic takes milliseconds.
+ *
+ * Callbacks due at the same time run in the order they were scheduled. Callbacks scheduled while
+ * advancing run in the same call if they're due before it ends.
+ *
+ * @example
+ * ```typescript
+ * const clock = new VirtualClock();
+ * const elevator = new Elevator('Elevator#1', strategy, options, undefined, clock);
+ * elevator.addRide(10);
+ * clock.advance(60 * 60 * 1000); //an hour later
+ * ```
+ */
+export class VirtualClock extends Clock {
+	private time: number;
+	private lastId = 0;
+
+	/** Everything scheduled, sorted by due time and then by id */
+	private queue: ScheduledCallback[] = [];
+
+	/**
+	 * @param startTime - The time to start at in milliseconds, defaults to 0.
+	 */
+	constructor(startTime = 0) {
+		super();
+		this.time = startTime;
+	}
+
+	now(): number {
+		return this.time;
+	}
+
+	setTimeout(callback: () => void, ms: number): TimerId {
+		return this.schedule({ id: ++this.lastId, dueTime: this.time + Math.max(0, ms), callback });
+	}
+
+	clearTimeout(id: TimerId | undefined): void {
+		this.queue = this.queue.filter(scheduled => scheduled.id !== id);
+	}
+
+	setInterval(callback: () => void, ms: number): TimerId {
+		const interval = Math.max(1, ms); //an interval of 0 would never let time move
+		return this.schedule({ id: ++this.lastId, dueTime: this.time + interval, callback, interval });
+	}
+
+	clearInterval(id: TimerId | undefined): void {
+		this.clearTimeout(id);
+	}
+
+	/**
+	 * Get how many callbacks are scheduled, intervals included.
+	 */
+	pending(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Move time forward, running every callback which becomes due on the way at the time it's due.
+	 * @param ms - How far to move in milliseconds.
+	 * @returns The number of callbacks which were run.
+	 */
+	advance(ms: number): number {
+		const endTime = this.time + ms;
+		let count = 0;
+		while (this.runNext(endTime)) {
+			count++;
+		}
+		this.time = endTime;
+		return count;
+	}
+
+	/**
+	 * Same as {@link advance()}, but lets promises settle after every callback. Use this when the
+	 * callbacks start async work which schedules more callbacks, e.g. assigning rides.
+	 */
+	async advanceAsync(ms: number): Promise<number> {
+		const endTime = this.time + ms;
+		let count = 0;
+		await flushPromises();
+		while (this.runNext(endTime)) {
+			count++;
+			await flushPromises();
+		}
+		this.time = endTime;
+		return count;
+	}
+
+	/**
+	 * Run callbacks until nothing is scheduled, moving time to the last one.
+	 * @param limit - The most callbacks to run, to keep intervals from running forever.
+	 * @returns The number of callbacks which were run.
+	 * @throws A {@link BUGBUG} if the limit is reached.
+	 */
+	runAll(limit = 100000): number {
+		let count = 0;
+		while (this.runNext(Infinity)) {
+			if (++count >= limit) {
+				throw new BUGBUG(`Still running after ${limit} callbacks, is there an interval left?`, { time: this.time });
+			}
+		}
+		return count;
+	}
+
+	/**
+	 * Run the next callback if it's due no later than `endTime`.
+	 * @returns True if a callback was run.
+	 */
+	private runNext(endTime: number): boolean {
+		const next = this.queue[0];
+		if (next === undefined || next.dueTime > endTime) {
+			return false;
+		}
+		this.queue.shift();
+		this.time = next.dueTime;
+		if (next.interval !== undefined) {
+			this.schedule({ ...next, dueTime: next.dueTime + next.interval });
+		}
+		next.callback();
+		return true;
+	}
+
+	private schedule(scheduled: ScheduledCallback): TimerId {
+		//Insert after everything due at the same time or earlier, so ties run in the order they were scheduled
+		let i = this.queue.length;
+		while (i > 0 && this.queue[i - 1].dueTime > scheduled.dueTime) {
+			i--;
+		}
+		this.queue.splice(i, 0, scheduled);
+		return scheduled.id;
+	}
+}
+
+/**
+ * Let pending promise callbacks run before continuing.
+ */
+function flushPromises(): Promise<void> {
+	return new Promise(resolve => setImmediate(resolve));
+}
@@ -0,0 +1,78 @@
+import { VirtualClock } from '../VirtualClock';
+import { BUGBUG } from '../../../shared/errors/Bug';
+
+describe('VirtualClock', () => {
+	let clock: VirtualClock;
+	let calls: string[];
+
+	beforeEach(() => {
+		clock = new VirtualClock(1000);
+		calls = [];
+	});
+
+	it('should only move when told to and run callbacks at the time they are due', () => {
+		clock.setTimeout(() => calls.push(`b@${clock.now()}`), 200);
+		clock.setTimeout(() => calls.push(`a@${clock.now()}`), 100);
+		expect(clock.now()).toBe(1000);
+
+		expect(clock.advance(150)).toBe(1);
+		expect(clock.now()).toBe(1150);
+		expect(calls).toEqual(['a@1100']);
+
+		clock.advance(50);
+		expect(calls).toEqual(['a@1100', 'b@1200']);
+		expect(clock.pending()).toBe(0);
+	});
+
+	it('should run callbacks due at the same time in the order they were scheduled', () => {
+		clock.setTimeout(() => calls.push('first'), 10);
+		clock.setTimeout(() => calls.push('second'), 10);
+		clock.setTimeout(() => calls.push('zero'), 0);
+		clock.advance(10);
+		expect(calls).toEqual(['zero', 'first', 'second']);
+	});
+
+	it('should run callbacks scheduled while advancing if they become due before it ends', () => {
+		clock.setTimeout(() => {
+			calls.push('outer');
+			clock.setTimeout(() => calls.push('inner'), 10);
+			clock.setTimeout(() => calls.push('too late'), 100);
+		}, 10);
+		clock.advance(50);
+		expect(calls).toEqual(['outer', 'inner']);
+		expect(clock.pending()).toBe(1);
+	});
+
+	it('should cancel timeouts and intervals', () => {
+		const timeout = clock.setTimeout(() => calls.push('timeout'), 10);
+		const interval = clock.setInterval(() => calls.push(`interval@${clock.now()}`), 30);
+		clock.clearTimeout(timeout);
+		clock.advance(100);
+		expect(calls).toEqual(['interval@1030', 'interval@1060', 'interval@1090']);
+
+		clock.clearInterval(interval);
+		clock.advance(100);
+		expect(calls).toHaveLength(3);
+	});
+
+	it('should run everything left, but not forever', () => {
+		clock.setTimeout(() => calls.push('last'), 60 * 60 * 1000);
+		expect(clock.runAll()).toBe(1);
+		expect(clock.now()).toBe(1000 + 60 * 60 * 1000);
+
+		clock.setInterval(() => undefined, 1);
+		expect(() => clock.runAll(100)).toThrow(BUGBUG);
+	});
+
+	it('should resolve sleeps and let promises settle between callbacks when advancing async', async () => {
+		const done = (async () => {
+			await clock.sleep(100);
+			calls.push(`slept@${clock.now()}`);
+			await clock.sleep(100); //only scheduled once the first sleep has resolved
+			calls.push(`slept@${clock.now()}`);
+		})();
+		expect(await clock.advanceAsync(500)).toBe(2);
+		await done;
+		expect(calls).toEqual(['slept@1100', 'slept@1200']);
+	});
+});
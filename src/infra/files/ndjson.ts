@@ -0,0 +1,53 @@
+import { createWriteStream, WriteStream } from "fs";
+import { readFile } from "fs/promises";
+
+/**
+ * Appends values to a newline-delimited JSON file, one value per line. The file is created if it
+ * doesn't exist.
+ */
+export class NdjsonWriter {
+	private readonly stream: WriteStream;
+
+	constructor(public readonly path: string) {
+		this.stream = createWriteStream(path, { flags: 'a' });
+	}
+
+	/**
+	 * Write a value as one line. Writes are buffered, see {@link close()}.
+	 */
+	write(value: unknown): void {
+		this.stream.write(JSON.stringify(value) + '\n');
+	}
+
+	/**
+	 * Flush everything written and close the file.
+	 */
+	close(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.stream.once('error', reject);
+			this.stream.end(resolve);
+		});
+	}
+}
+
+/**
+ * Read a newline-delimited JSON file. Empty lines are skipped.
+ * @param path - The file to read.
+ * @returns The parsed value of every line.
+ * @throws A SyntaxError with the line number if a line isn't valid JSON.
+ */
+export async function readNdjson(path: string): Promise<unknown[]> {
+	const lines = (await readFile(path, 'utf8')).split('\n');
+	const values: unknown[] = [];
+	lines.forEach((line, i) => {
+		if (line.trim() === '') {
+			return;
+		}
+		try {
+			values.push(JSON.parse(line));
+		} catch (error) {
+			throw new SyntaxError(`Line ${i + 1} of ${path} is not valid JSON: ${(error as Error).message}`);
+		}
+	});
+	return values;
+}
@@ -0,0 +1,231 @@
+import { createConnection, Socket } from "net";
+import { TypedEventEmitter } from "../events/TypedEventEmitter";
+import type { Logger } from "../logger/Logger";
+import type { Clock, TimerId } from "../clock/Clock";
+import { RealClock } from "../clock/RealClock";
+import { BaseError } from "../../shared/errors/BaseError";
+
+/** Read holding registers */
+export const READ_HOLDING_REGISTERS = 0x03;
+/** Write a single holding register */
+export const WRITE_SINGLE_REGISTER = 0x06;
+/** Set on the function code of a response when the server couldn't do what it was asked */
+export const EXCEPTION_FLAG = 0x80;
+
+/** The length of the MBAP header in front of every Modbus/TCP frame, including the unit id */
+export const HEADER_LENGTH = 7;
+
+export type ModbusClientOptions = {
+	host: string,
+	port: number,
+	/** The unit (slave) id of the device behind the server, e.g. one car on a gateway */
+	unitId: number,
+	/** How many milliseconds to wait for the connection or a response before giving up on the connection */
+	timeout: number,
+};
+
+export type ModbusClientEventMap = {
+	/** The connection was lost, or closed by {@link ModbusClient.close()} */
+	close: { error?: Error },
+};
+
+/**
+ * Something went wrong talking to a Modbus device. Exception responses carry the exception code in the context.
+ */
+export class ModbusError extends BaseError { }
+
+type PendingRequest = {
+	functionCode: number,
+	resolve: (data: Buffer) => void,
+	reject: (error: Error) => void,
+	timeout: TimerId,
+};
+
+/**
+ * Encode a Modbus/TCP frame, i.e. the MBAP header followed by the function code and its data.
+ */
+export function encodeFrame(transactionId: number, unitId: number, functionCode: number, data: Buffer): Buffer {
+	const frame = Buffer.alloc(HEADER_LENGTH + 1 + data.length);
+	frame.writeUInt16BE(transactionId, 0);
+	frame.writeUInt16BE(0, 2); //protocol id, always 0 for Modbus
+	frame.writeUInt16BE(2 + data.length, 4); //unit id, function code and data
+	frame.writeUInt8(unitId, 6);
+	frame.writeUInt8(functionCode, 7);
+	data.copy(frame, 8);
+	return frame;
+}
+
+/**
+ * Take the complete frames off the front of what has been received so far.
+ * @returns The frames and what's left over of the next one.
+ */
+export function decodeFrames(received: Buffer): { frames: { transactionId: number, unitId: number, functionCode: number, data: Buffer }[], rest: Buffer } {
+	const frames = [];
+	let rest = received;
+	while (rest.length >= HEADER_LENGTH) {
+		const end = 6 + rest.readUInt16BE(4);
+		if (rest.length < end) {
+			break;
+		}
+		frames.push({ transactionId: rest.readUInt16BE(0), unitId: rest.readUInt8(6), functionCode: rest.readUInt8(7), data: rest.subarray(8, end) });
+		rest = rest.subarray(end);
+	}
+	return { frames, rest };
+}
+
+/**
+ * A minimal Modbus/TCP client for one unit, which reads and writes holding registers.
+ *
+ * Requests go out one at a time since many PLCs don't handle more than one at once. A request which times out
+ * closes the connection, since we can no longer tell which response belongs to which request. Either way the
+ * client doesn't reconnect by itself, whoever uses it decides when to try again.
+ */
+export class ModbusClient extends TypedEventEmitter<ModbusClientEventMap> {
+	private socket?: Socket;
+	private received: Buffer = Buffer.alloc(0);
+	private transactionId = 0;
+	private readonly pending = new Map<number, PendingRequest>();
+
+	/** The last request, which the next one waits for */
+	private queue: Promise<unknown> = Promise.resolve();
+
+	constructor(
+		public readonly options: ModbusClientOptions
+		, logger?: Logger
+		, private readonly clock: Clock = new RealClock()
+	) {
+		super(logger);
+	}
+
+	/**
+	 * Connect to the server.
+	 * @throws A {@link ModbusError} if it times out, or the error of the socket if it can't connect.
+	 */
+	connect(): Promise<void> {
+		if (this.socket) {
+			return Promise.resolve();
+		}
+		const { host, port, timeout } = this.options;
+		return new Promise((resolve, reject) => {
+			const socket = createConnection({ host, port });
+			let error: Error | undefined;
+			const timer = this.clock.setTimeout(() => socket.destroy(new ModbusError(`Timed out connecting to ${host}:${port}`)), timeout);
+			socket.on('error', (e) => error = e); //reported on close
+			socket.on('data', (data) => this.receive(data));
+			socket.once('connect', () => {
+				this.clock.clearTimeout(timer);
+				this.socket = socket;
+				resolve();
+			});
+			socket.once('close', () => {
+				this.clock.clearTimeout(timer);
+				if (this.socket !== socket) {
+					reject(error ?? new ModbusError(`Connection to ${host}:${port} closed`));
+					return;
+				}
+				this.socket = undefined;
+				this.received = Buffer.alloc(0);
+				this.rejectAll(new ModbusError(`Connection to ${host}:${port} closed`, {}, error));
+				this.emit('close', { error });
+			});
+		});
+	}
+
+	isConnected(): boolean {
+		return this.socket !== undefined;
+	}
+
+	/**
+	 * Close the connection, failing the requests still waiting for a response.
+	 */
+	close(): void {
+		this.socket?.destroy();
+	}
+
+	/**
+	 * Read consecutive holding registers (function code 3).
+	 * @param address - The address of the first register.
+	 * @param count - How many registers to read.
+	 * @returns The unsigned 16 bit values of the registers.
+	 */
+	async readHoldingRegisters(address: number, count: number): Promise<number[]> {
+		const request = Buffer.alloc(4);
+		request.writeUInt16BE(address, 0);
+		request.writeUInt16BE(count, 2);
+		const response = await this.request(READ_HOLDING_REGISTERS, request);
+		const values = [];
+		for (let i = 0; i < count; i++) {
+			values.push(response.readUInt16BE(1 + 2 * i)); //after the byte count
+		}
+		return values;
+	}
+
+	/**
+	 * Write a single holding register (function code 6).
+	 * @param address - The address of the register.
+	 * @param value - The value, negative values are written as two's complement.
+	 */
+	async writeRegister(address: number, value: number): Promise<void> {
+		const request = Buffer.alloc(4);
+		request.writeUInt16BE(address, 0);
+		request.writeUInt16BE(value & 0xffff, 2);
+		await this.request(WRITE_SINGLE_REGISTER, request);
+	}
+
+	/**
+	 * Send a request once the one before it is done.
+	 */
+	private request(functionCode: number, data: Buffer): Promise<Buffer> {
+		const send = () => this.send(functionCode, data);
+		const response = this.queue.then(send, send);
+		this.queue = response.catch(() => undefined);
+		return response;
+	}
+
+	private send(functionCode: number, data: Buffer): Promise<Buffer> {
+		return new Promise((resolve, reject) => {
+			const socket = this.socket;
+			if (!socket) {
+				reject(new ModbusError(`Not connected to ${this.options.host}:${this.options.port}`));
+				return;
+			}
+			const transactionId = this.transactionId = (this.transactionId + 1) & 0xffff;
+			const timeout = this.clock.setTimeout(() => {
+				const error = new ModbusError(`Timed out waiting for a response to function ${functionCode}`, { transactionId });
+				this.pending.delete(transactionId);
+				reject(error);
+				socket.destroy(error);
+			}, this.options.timeout);
+			this.pending.set(transactionId, { functionCode, resolve, reject, timeout });
+			socket.write(encodeFrame(transactionId, this.options.unitId, functionCode, data));
+		});
+	}
+
+	private receive(data: Buffer): void {
+		const { frames, rest } = decodeFrames(Buffer.concat([this.received, data]));
+		this.received = rest;
+		for (const { transactionId, functionCode, data } of frames) {
+			const request = this.pending.get(transactionId);
+			if (!request) {
+				this.logger?.warn(`Ignoring a response to transaction ${transactionId} nobody is waiting for`);
+				continue;
+			}
+			this.pending.delete(transactionId);
+			this.clock.clearTimeout(request.timeout);
+			if (functionCode === (request.functionCode | EXCEPTION_FLAG)) {
+				const exceptionCode = data.readUInt8(0);
+				request.reject(new ModbusError(`Exception ${exceptionCode} in response to function ${request.functionCode}`, { transactionId, exceptionCode }));
+			} else {
+				request.resolve(data);
+			}
+		}
+	}
+
+	private rejectAll(error: Error): void {
+		for (const { reject, timeout } of this.pending.values()) {
+			this.clock.clearTimeout(timeout);
+			reject(error);
+		}
+		this.pending.clear();
+	}
+}
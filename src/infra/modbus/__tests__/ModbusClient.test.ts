@@ -0,0 +1,58 @@
+import { ModbusClient, ModbusClientOptions, ModbusError } from '../ModbusClient';
+import { ModbusTestServer } from './ModbusTestServer';
+
+describe('ModbusClient', () => {
+	let server: ModbusTestServer;
+	let options: ModbusClientOptions;
+	let client: ModbusClient;
+
+	beforeEach(async () => {
+		server = new ModbusTestServer(10);
+		options = { host: '127.0.0.1', port: await server.start(), unitId: 2, timeout: 200 };
+		client = new ModbusClient(options);
+	});
+
+	afterEach(async () => {
+		client.close();
+		await server.close();
+	});
+
+	it('should read and write the holding registers of its unit', async () => {
+		await client.connect();
+		server.setRegister(2, 3, 42);
+		server.setRegister(1, 4, 99); //another unit
+		await client.writeRegister(4, -2);
+		expect(server.getRegister(2, 4)).toBe(0xfffe);
+		expect(await client.readHoldingRegisters(3, 2)).toEqual([42, 0xfffe]);
+	});
+
+	it('should reject exception responses and keep the connection', async () => {
+		await client.connect();
+		await expect(client.readHoldingRegisters(9, 2)).rejects.toMatchObject({ context: { exceptionCode: 2 } });
+		expect(client.isConnected()).toBe(true);
+	});
+
+	it('should close the connection when a response times out', async () => {
+		await client.connect();
+		const closed = new Promise(resolve => client.once('close', resolve));
+		server.setResponding(false);
+		await expect(client.readHoldingRegisters(0, 1)).rejects.toThrow('Timed out');
+		await closed;
+		expect(client.isConnected()).toBe(false);
+		await expect(client.writeRegister(0, 1)).rejects.toThrow(ModbusError);
+	});
+
+	it('should fail the requests waiting for a response when the connection is lost', async () => {
+		await client.connect();
+		server.setResponding(false);
+		const read = client.readHoldingRegisters(0, 1);
+		server.dropConnections();
+		await expect(read).rejects.toThrow('closed');
+	});
+
+	it('should reject connecting to a server which is not there', async () => {
+		await server.close();
+		await expect(client.connect()).rejects.toThrow();
+		expect(client.isConnected()).toBe(false);
+	});
+});
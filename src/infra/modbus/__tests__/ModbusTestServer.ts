@@ -0,0 +1,122 @@
+import { createServer, AddressInfo, Server, Socket } from "net";
+import { TypedEventEmitter } from "../../events/TypedEventEmitter";
+import { decodeFrames, encodeFrame, EXCEPTION_FLAG, READ_HOLDING_REGISTERS, WRITE_SINGLE_REGISTER } from "../ModbusClient";
+
+/** The function code isn't supported */
+const ILLEGAL_FUNCTION = 1;
+/** The register doesn't exist */
+const ILLEGAL_DATA_ADDRESS = 2;
+
+export type ModbusTestServerEventMap = {
+	/** A client read registers */
+	read: { unitId: number, address: number, count: number },
+	/** A client wrote a register */
+	write: { unitId: number, address: number, value: number },
+};
+
+/**
+ * An in-process Modbus/TCP server for testing, standing in for a PLC. It keeps holding registers per unit (all 0
+ * until written) and supports reading and writing the ones below its size. Tests play the part of the PLC program
+ * by setting registers and reacting to writes, and the part of the network with {@link dropConnections()} and
+ * {@link setResponding()}.
+ */
+export class ModbusTestServer extends TypedEventEmitter<ModbusTestServerEventMap> {
+	private readonly server: Server;
+	private readonly sockets = new Set<Socket>();
+	private readonly registers = new Map<string, number>();
+	private responding = true;
+
+	constructor(public readonly size = 100) {
+		super();
+		this.server = createServer((socket) => this.accept(socket));
+	}
+
+	/**
+	 * Start listening on a free port of localhost.
+	 * @returns The port.
+	 */
+	start(port = 0): Promise<number> {
+		return new Promise((resolve) => {
+			this.server.listen(port, '127.0.0.1', () => resolve((this.server.address() as AddressInfo).port));
+		});
+	}
+
+	/**
+	 * Drop the connections and stop listening.
+	 */
+	close(): Promise<void> {
+		this.dropConnections();
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+
+	/**
+	 * Drop the connections of all clients, like a network which goes down. They can connect again right away.
+	 */
+	dropConnections(): void {
+		for (const socket of this.sockets) {
+			socket.destroy();
+		}
+	}
+
+	/**
+	 * Stop or start answering requests, like a PLC which hangs. Requests received meanwhile are never answered.
+	 */
+	setResponding(responding: boolean): void {
+		this.responding = responding;
+	}
+
+	getRegister(unitId: number, address: number): number {
+		return this.registers.get(`${unitId}:${address}`) ?? 0;
+	}
+
+	/**
+	 * Set a register, negative values are stored as two's complement.
+	 */
+	setRegister(unitId: number, address: number, value: number): void {
+		this.registers.set(`${unitId}:${address}`, value & 0xffff);
+	}
+
+	private accept(socket: Socket): void {
+		this.sockets.add(socket);
+		let received: Buffer = Buffer.alloc(0);
+		socket.on('close', () => this.sockets.delete(socket));
+		socket.on('error', () => socket.destroy());
+		socket.on('data', (data) => {
+			const { frames, rest } = decodeFrames(Buffer.concat([received, data]));
+			received = rest;
+			for (const { transactionId, unitId, functionCode, data } of frames) {
+				if (this.responding) {
+					socket.write(encodeFrame(transactionId, unitId, ...this.handle(unitId, functionCode, data)));
+				}
+			}
+		});
+	}
+
+	private handle(unitId: number, functionCode: number, data: Buffer): [number, Buffer] {
+		if (functionCode === READ_HOLDING_REGISTERS) {
+			const address = data.readUInt16BE(0);
+			const count = data.readUInt16BE(2);
+			if (address + count > this.size) {
+				return [functionCode | EXCEPTION_FLAG, Buffer.from([ILLEGAL_DATA_ADDRESS])];
+			}
+			this.emit('read', { unitId, address, count });
+			const response = Buffer.alloc(1 + 2 * count);
+			response.writeUInt8(2 * count, 0);
+			for (let i = 0; i < count; i++) {
+				response.writeUInt16BE(this.getRegister(unitId, address + i), 1 + 2 * i);
+			}
+			return [functionCode, response];
+		}
+		if (functionCode === WRITE_SINGLE_REGISTER) {
+			const address = data.readUInt16BE(0);
+			const value = data.readUInt16BE(2);
+			if (address >= this.size) {
+				return [functionCode | EXCEPTION_FLAG, Buffer.from([ILLEGAL_DATA_ADDRESS])];
+			}
+			this.setRegister(unitId, address, value);
+			this.emit('write', { unitId, address, value });
+			return [functionCode, data]; //echoes the request
+		}
+		return [functionCode | EXCEPTION_FLAG, Buffer.from([ILLEGAL_FUNCTION])];
+	}
+}
@@ -1,3 +1,5 @@
+import { ValidationError } from "./domain/errors/ValidationErrors";
+
 /**
  * All options fot he application. See {@link DefaultOptions} below.
  */
@@ -8,11 +10,33 @@ export type AppOptions = {
 	TRAVEL_TIME_PER_FLOOR: number;
 
 	/** 
-	 * The time in milliseconds the elevator stays on a floor when making 
-	 * a stop (includes doors opening, staying open, then closing) 
+	 * The time in milliseconds the doors stay open when making a stop. Opening and closing them takes
+	 * {@link DOOR_OPENING_TIME} and {@link DOOR_CLOSING_TIME} on top of that, which are 0 by default, i.e.
+	 * included in this.
 	 */
 	DOOR_OPEN_TIME: number;
 
+	/** The time in milliseconds it takes to open the doors */
+	DOOR_OPENING_TIME: number;
+
+	/** The time in milliseconds it takes to close the doors */
+	DOOR_CLOSING_TIME: number;
+
+	/** How long it takes to travel between floors, see {@link MotionProfileType}. */
+	MOTION_PROFILE: MotionProfileType;
+
+	/** With the `trapezoidal` {@link MOTION_PROFILE}: the distance between floors in mm */
+	FLOOR_HEIGHT: number;
+
+	/** With the `trapezoidal` {@link MOTION_PROFILE}: the top speed of the car in mm/s */
+	MAX_SPEED: number;
+
+	/** With the `trapezoidal` {@link MOTION_PROFILE}: how fast the car speeds up in mm/s² */
+	ACCELERATION: number;
+
+	/** With the `trapezoidal` {@link MOTION_PROFILE}: how fast the car slows down in mm/s² */
+	DECELERATION: number;
+
 	/** 
 	 * In order to optimize elevator usage we use {@link Strategy} to decide 
 	 * where to go next. When picking which elevator should accept a specific
@@ -27,6 +51,47 @@ export type AppOptions = {
 	 */
 	ESTIMATION_LIMIT: number;
 
+	/** The name of the {@link Strategy} elevators use, see {@link StrategyRegistry} */
+	STRATEGY: string;
+
+	/**
+	 * Elevators which use another strategy than {@link STRATEGY}, as comma separated
+	 * `<elevator number>:<strategy name>` pairs numbered from 1, e.g. `4:StopEnRoute,5:StopEnRoute`.
+	 */
+	ELEVATOR_STRATEGIES: string;
+
+	/**
+	 * Elevators which only serve some floors (plus the lobby, {@link INITIAL_FLOOR}), as comma separated
+	 * `<elevator number>:<zone>` pairs numbered from 1. Zones are floors and `from..to` ranges joined by `+`,
+	 * e.g. `1:0..10,2:0..10,3:11..20,4:11..20` for a low-rise and a high-rise zone. See {@link Zoned}.
+	 */
+	ELEVATOR_ZONES: string;
+
+	/**
+	 * Elevators which can only stop at some floors, e.g. a garage shuttle or a car which stops short of the
+	 * penthouse, written like {@link ELEVATOR_ZONES} but without the lobby being added. Unlike a zone this is
+	 * what the car can physically do, so rides between floors no elevator connects are rejected.
+	 */
+	ELEVATOR_SERVED_FLOORS: string;
+
+	/**
+	 * The most passengers a car takes. A full car passes floors where people are only waiting to get on
+	 * and other cars are preferred for new rides. 0 means no limit.
+	 */
+	CAPACITY: number;
+
+	/** The most kg a car takes, like {@link CAPACITY}. 0 means no limit. */
+	RATED_LOAD: number;
+
+	/** The kg we assume each passenger weighs when checking the {@link RATED_LOAD} */
+	PASSENGER_WEIGHT: number;
+
+	/**
+	 * Elevators with another capacity than {@link CAPACITY}, as comma separated `<elevator number>:<capacity>`
+	 * pairs numbered from 1. A capacity is a number of passengers, or kg with a `kg` suffix, e.g. `1:8,2:630kg`.
+	 */
+	ELEVATOR_CAPACITIES: string;
+
 
 	/** 
 	 * When deciding which elevator to use, should the first rule be to use a
@@ -34,6 +99,79 @@ export type AppOptions = {
 	 */
 	USE_FREE_FIRST: boolean;
 
+	/**
+	 * How rides are assigned to elevators, see {@link DispatchMode}.
+	 */
+	DISPATCH_MODE: DispatchMode;
+
+	/**
+	 * With {@link DispatchMode} `destination`: how many floors apart two destinations can be for the
+	 * passengers to be grouped into the same car.
+	 */
+	DESTINATION_GROUPING_DISTANCE: number;
+
+	/**
+	 * With {@link DispatchMode} `destination`: the most passengers waiting at the same floor we group
+	 * into the same car. Once full the next passenger starts a new group.
+	 */
+	DESTINATION_GROUP_SIZE: number;
+
+	/**
+	 * How often, in milliseconds, to look at rides which haven't been picked up yet and move them to
+	 * other elevators if that lowers the total expected wait. 0 disables the periodic pass.
+	 */
+	REOPTIMIZE_INTERVAL: number;
+
+	/** Also run that pass every time an elevator runs out of things to do */
+	REOPTIMIZE_WHEN_FREE: boolean;
+
+	/**
+	 * How many milliseconds of total expected wait a move has to save to be worth it. Keeps rides from
+	 * bouncing between elevators over estimates which are practically the same.
+	 */
+	REOPTIMIZE_MIN_GAIN: number;
+
+	/** The floor elevators are recalled to on a fire alarm, usually the lobby where firefighters arrive */
+	FIRE_RECALL_FLOOR: number;
+
+	/** The floor elevators are recalled to instead when there is a fire alarm at {@link FIRE_RECALL_FLOOR} */
+	FIRE_ALTERNATE_FLOOR: number;
+
+	/**
+	 * How many milliseconds a car may be late finishing what it's doing, e.g. arriving at a floor or closing
+	 * its doors, before it's stopped as stuck and its rides go to other elevators, see {@link Watchdog}. 0 turns
+	 * the watchdog off.
+	 */
+	WATCHDOG_TOLERANCE: number;
+
+	/** What moves the cars, see {@link DriverType}. */
+	DRIVER: DriverType;
+
+	/** With the `modbus` {@link DRIVER}: the host of the Modbus/TCP server, i.e. the PLC or a gateway in front of several */
+	MODBUS_HOST: string;
+
+	/** With the `modbus` {@link DRIVER}: the port of the Modbus/TCP server */
+	MODBUS_PORT: number;
+
+	/**
+	 * With the `modbus` {@link DRIVER}: the holding registers of each car, as comma separated `<signal>:<address>`
+	 * pairs, e.g. `command:0,target:1,position:2,status:3`. See {@link ModbusRegisterMap} for the signals. Each
+	 * elevator is the Modbus unit with its number, e.g. Elevator#2 is unit 2.
+	 */
+	MODBUS_REGISTERS: string;
+
+	/** With the `modbus` {@link DRIVER}: how often in milliseconds to read the position and status of each car */
+	MODBUS_POLL_INTERVAL: number;
+
+	/**
+	 * With the `modbus` {@link DRIVER}: how many milliseconds to wait for the connection or a response before
+	 * the connection is lost, which stops the car
+	 */
+	MODBUS_TIMEOUT: number;
+
+	/** With the `modbus` {@link DRIVER}: how many milliseconds to wait before connecting again once the connection is lost */
+	MODBUS_RECONNECT_DELAY: number;
+
 	//TODO: add options to reposition free elevators to prepare for future use
 
 	/** The lowest floor inclusive the elevator can travel to (can be negative) */
@@ -48,6 +186,12 @@ export type AppOptions = {
 	/** The floor the elevator starts at*/
 	INITIAL_FLOOR: number;
 
+	/** 
+	 * How many finished (dropped off or cancelled) rides to remember so they can still be looked up
+	 * after they complete. The oldest are forgotten first. Rides in progress are always kept.
+	 */
+	RIDE_HISTORY_LIMIT: number;
+
 	/** The log level */
 	LOG_LEVEL: LogLevel;
 };
@@ -55,15 +199,69 @@ export type AppOptions = {
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/**
+ * - `conventional`: every ride goes to the elevator which estimates it can complete it the fastest.
+ * - `destination`: passengers tell us where they're going before getting on (e.g. at a kiosk in the
+ *   lobby), so we put the ones going to the same or nearby floors in the same car and tell them which
+ *   car to take. That assignment is reserved, i.e. the car won't change afterwards.
+ */
+export type DispatchMode = 'conventional' | 'destination';
+export const DISPATCH_MODES: readonly DispatchMode[] = ['conventional', 'destination'];
+
+/**
+ * - `constant`: every floor takes {@link AppOptions.TRAVEL_TIME_PER_FLOOR}.
+ * - `trapezoidal`: the car accelerates, cruises at its top speed and decelerates, so long runs take less
+ *   time per floor than short ones. See {@link Trapezoidal}.
+ */
+export type MotionProfileType = 'constant' | 'trapezoidal';
+
+/**
+ * - `simulated`: the cars take exactly as long as the {@link MotionProfileType} says, see {@link SimulatedDriver}.
+ * - `modbus`: the cars are driven by PLCs over Modbus/TCP, see {@link ModbusDriver}.
+ */
+export type DriverType = 'simulated' | 'modbus';
+
 export const defaultOptions: AppOptions = {
 	TRAVEL_TIME_PER_FLOOR: 1000,
 	DOOR_OPEN_TIME: 1000,
+	DOOR_OPENING_TIME: 0,
+	DOOR_CLOSING_TIME: 0,
+	MOTION_PROFILE: 'constant',
+	FLOOR_HEIGHT: 3000,
+	MAX_SPEED: 2500,
+	ACCELERATION: 1000,
+	DECELERATION: 1000,
 	ESTIMATION_LIMIT: 10000,
+	STRATEGY: 'InsertOrder',
+	ELEVATOR_STRATEGIES: '',
+	ELEVATOR_ZONES: '',
+	ELEVATOR_SERVED_FLOORS: '',
+	CAPACITY: 0,
+	RATED_LOAD: 0,
+	PASSENGER_WEIGHT: 75,
+	ELEVATOR_CAPACITIES: '',
 	MIN_FLOOR: 0,
 	MAX_FLOOR: 20,
 	NR_OF_ELEVATORS: 5,
 	INITIAL_FLOOR: 0,
 	USE_FREE_FIRST: true,
+	DISPATCH_MODE: 'conventional',
+	DESTINATION_GROUPING_DISTANCE: 2,
+	DESTINATION_GROUP_SIZE: 8,
+	REOPTIMIZE_INTERVAL: 0,
+	REOPTIMIZE_WHEN_FREE: true,
+	REOPTIMIZE_MIN_GAIN: 2000,
+	FIRE_RECALL_FLOOR: 0,
+	FIRE_ALTERNATE_FLOOR: 1,
+	WATCHDOG_TOLERANCE: 5000,
+	DRIVER: 'simulated',
+	MODBUS_HOST: '127.0.0.1',
+	MODBUS_PORT: 502,
+	MODBUS_REGISTERS: 'command:0,target:1,position:2,status:3',
+	MODBUS_POLL_INTERVAL: 100,
+	MODBUS_TIMEOUT: 1000,
+	MODBUS_RECONNECT_DELAY: 2000,
+	RIDE_HISTORY_LIMIT: 1000,
 	LOG_LEVEL: 'debug',
 };
 
@@ -72,6 +270,12 @@ export type CliOptions = {
 	LOG_LEVEL: LogLevel;
 };
 
+/**
+ * Merge options given as strings, e.g. environment variables, into the defaults. Each value is parsed as the
+ * type of its default. Options which only some classes use are validated when those are created, see e.g.
+ * {@link createMotionProfile()}.
+ * @throws A {@link ValidationError} if {@link AppOptions.DISPATCH_MODE} is unknown.
+ */
 export function parseOptions(options: Record<string, unknown>, defaultOptions: AppOptions): AppOptions {
 	const parsedOptions: AppOptions = { ...defaultOptions };
 	for (const key of Object.keys(defaultOptions)) {
@@ -88,5 +292,8 @@ export function parseOptions(options: Record<string, unknown>, defaultOptions: A
 			}
 		}
 	}
+	if (!DISPATCH_MODES.includes(parsedOptions.DISPATCH_MODE)) {
+		throw new ValidationError(parsedOptions.DISPATCH_MODE, `Unknown dispatch mode '${parsedOptions.DISPATCH_MODE}', expected ${DISPATCH_MODES.join(' or ')}`);
+	}
 	return parsedOptions;
 }
\ No newline at end of file
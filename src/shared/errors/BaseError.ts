@@ -1,3 +1,5 @@
+import { sanitize } from "../util/sanitize";
+
 /**
  * Represents an internal bug in the code which should never happen.
  * Captures comprehensive diagnostic information to aid in debugging.
@@ -28,6 +30,13 @@ export class BaseError extends Error {
 		}
 	}
 
+	/**
+	 * Get a copy of the context which is safe to serialize and hand to clients, see {@link sanitize()}.
+	 */
+	getSanitizedContext(): Record<string, unknown> {
+		return sanitize(this.context) as Record<string, unknown>;
+	}
+
 	getContextLines(): string[] {
 		const lines = [];
 		if (this.context) {
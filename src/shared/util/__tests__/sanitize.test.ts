@@ -0,0 +1,42 @@
+import { sanitize } from '../sanitize';
+
+describe('sanitize', () => {
+	it('should keep plain JSON values as they are', () => {
+		const value = { floor: 3, name: 'Elevator#1', free: true, none: null, floors: [1, 2, { a: 'b' }] };
+		expect(sanitize(value)).toEqual(value);
+	});
+
+	it('should turn numbers JSON cannot represent and bigints into strings', () => {
+		expect(sanitize({ nan: NaN, inf: -Infinity, big: BigInt(12) })).toEqual({ nan: 'NaN', inf: '-Infinity', big: '12' });
+	});
+
+	it('should drop functions, symbols and undefined, and null them in arrays', () => {
+		expect(sanitize({ fn: () => 1, sym: Symbol('s'), undef: undefined, kept: 1 })).toEqual({ kept: 1 });
+		expect(sanitize([() => 1, undefined, 2])).toEqual([null, null, 2]);
+	});
+
+	it('should reduce errors to their name and message', () => {
+		const error = Object.assign(new RangeError('Out of range'), { secret: 'hunter2' });
+		expect(sanitize({ cause: error })).toEqual({ cause: { name: 'RangeError', message: 'Out of range' } });
+	});
+
+	it('should redact class instances unless they can be serialized', () => {
+		class Logger { secret = 'hunter2'; }
+		class Point { constructor(private x: number) { } toJSON() { return { x: this.x }; } }
+		expect(sanitize({ logger: new Logger(), timers: new Map(), at: new Point(4) })).toEqual({ logger: '[Logger]', timers: '[Map]', at: { x: 4 } });
+		expect(sanitize({ created: new Date(0) })).toEqual({ created: '1970-01-01T00:00:00.000Z' });
+	});
+
+	it('should replace circular references but keep objects which appear twice', () => {
+		const shared = { floor: 1 };
+		const value: Record<string, unknown> = { a: shared, b: shared };
+		value.self = value;
+		expect(sanitize(value)).toEqual({ a: { floor: 1 }, b: { floor: 1 }, self: '[Circular]' });
+	});
+
+	it('should truncate objects nested deeper than the max depth', () => {
+		const value = { a: { b: { c: { d: 1 } } } };
+		expect(sanitize(value, 2)).toEqual({ a: { b: { c: '[Truncated]' } } });
+		expect(sanitize(value)).toEqual(value);
+	});
+});
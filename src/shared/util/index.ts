@@ -1,2 +1,3 @@
 export * from './arrays';
 export * from './TypedMap';
+export * from './sanitize';
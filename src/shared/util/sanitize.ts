@@ -0,0 +1,59 @@
+/**
+ * The default depth at which {@link sanitize()} stops descending into nested objects.
+ */
+const DEFAULT_MAX_DEPTH = 4;
+
+/**
+ * Turn an arbitrary value into something which is safe to `JSON.stringify()` and send to a client:
+ *  - circular references are replaced by `'[Circular]'`
+ *  - functions and symbols are dropped
+ *  - errors are reduced to their name and message
+ *  - class instances without a `toJSON()` are replaced by `'[ClassName]'` so we don't leak (or try
+ *    to serialize) internals like loggers, timers and event listeners
+ *  - anything nested deeper than `maxDepth` is replaced by `'[Truncated]'`
+ *
+ * @param value - The value to sanitize.
+ * @param maxDepth - Optional. How many levels of nested objects/arrays to keep.
+ * @returns A plain JSON-compatible value.
+ */
+export function sanitize(value: unknown, maxDepth: number = DEFAULT_MAX_DEPTH): unknown {
+	const seen = new WeakSet<object>();
+
+	const walk = (val: unknown, depth: number): unknown => {
+		if (val === null || typeof val === 'string' || typeof val === 'boolean') return val;
+		if (typeof val === 'number') return Number.isFinite(val) ? val : String(val);
+		if (typeof val === 'bigint') return val.toString();
+		if (typeof val !== 'object') return undefined; //functions, symbols and undefined
+
+		if (seen.has(val)) return '[Circular]';
+		if (depth > maxDepth) return '[Truncated]';
+		seen.add(val);
+		try {
+			if (val instanceof Error) {
+				return { name: val.name, message: val.message };
+			}
+			if (Array.isArray(val)) {
+				return val.map(item => walk(item, depth + 1) ?? null);
+			}
+			const proto = Object.getPrototypeOf(val);
+			if (proto !== Object.prototype && proto !== null) {
+				const toJSON = (val as { toJSON?: unknown }).toJSON;
+				if (typeof toJSON === 'function') {
+					return walk(toJSON.call(val), depth);
+				}
+				return `[${proto.constructor?.name ?? 'Object'}]`;
+			}
+			const out: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(val)) {
+				const clean = walk(item, depth + 1);
+				if (clean !== undefined) out[key] = clean;
+			}
+			return out;
+		} finally {
+			//Only guard against actual cycles, the same object may legitimately appear twice side by side
+			seen.delete(val);
+		}
+	};
+
+	return walk(value, 0);
+}